@@ -3,13 +3,65 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title SoftwareLicense
  * @dev An ERC721 token contract for issuing and managing software licenses.
  * Each token represents a unique, non-transferable license.
+ * Sellers register their products' prices under IDs derived from their own address, so
+ * no one can register a product in another seller's name, and buyers purchase licenses in a single
+ * transaction that takes the payment, splits it between the seller and the platform
+ * fee, and mints the license to the buyer. A product is priced either in the native
+ * currency or in an ERC-20 token such as a stablecoin, which the buyer approves (or
+ * permits) the contract to transfer.
+ * Other licenses, such as trials, are minted by the buyers themselves with an EIP-712
+ * mint voucher: the platform signs exactly what may be minted, and the buyer redeems
+ * it once and pays the gas.
  */
-contract SoftwareLicense is ERC721, Ownable {
+contract SoftwareLicense is ERC721, Ownable, ReentrancyGuard, EIP712 {
+    using SafeERC20 for IERC20;
+
+    // A product registered for sale by its seller.
+    struct Product {
+        address seller;
+        uint256 price; // Per seat, in the payment token's smallest unit
+        address paymentToken; // The ERC-20 token the price is in, or the zero address for the native currency
+        bool active;
+    }
+
+    // A license the platform allows a buyer to mint, signed by the voucher signer.
+    struct MintVoucher {
+        address buyer;
+        bytes32 productId;
+        uint256 price; // Total, in the payment token
+        address paymentToken; // The token the price is in, or the zero address for the native currency
+        uint256 seats;
+        string tokenURI;
+        string ipAddress;
+        uint256 expiry; // Unix timestamp
+        uint256 nonce;
+    }
+
+    // An EIP-2612 permit signed by the buyer, letting this contract draw a token payment.
+    struct TokenPermit {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    // The highest platform fee the owner can set, in basis points (10%).
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1000;
+
+    bytes32 private constant MINT_VOUCHER_TYPEHASH = keccak256(
+        "MintVoucher(address buyer,bytes32 productId,uint256 price,address paymentToken,uint256 seats,string tokenURI,string ipAddress,uint256 expiry,uint256 nonce)"
+    );
 
     // Counter for the next token ID to be minted.
     uint256 private _nextTokenId;
@@ -20,13 +72,30 @@ contract SoftwareLicense is ERC721, Ownable {
     // Mapping from token ID to its blocked status.
     mapping(uint256 => bool) private _isLicenseBlocked;
 
+    // Mapping from product ID to the product's seller and price.
+    mapping(bytes32 => Product) private _products;
+
+    // The platform's share of every purchase, in basis points, and where it is paid.
+    uint256 public platformFeeBps;
+    address public feeRecipient;
+
+    // The account whose signature makes a mint voucher valid.
+    address public voucherSigner;
+
+    // Mapping from voucher nonce to whether the voucher was redeemed.
+    mapping(uint256 => bool) private _redeemedVouchers;
+
     /**
-     * @dev Sets the initial owner of the contract.
+     * @dev Sets the initial owner of the contract, who also receives the platform fee and signs mint vouchers.
      */
     constructor(address initialOwner)
         ERC721("SoftwareLicense", "SLT")
         Ownable(initialOwner)
-    {}
+        EIP712("SoftwareLicense", "1")
+    {
+        feeRecipient = initialOwner;
+        voucherSigner = initialOwner;
+    }
 
     /**
      * @dev Mints a new license token and assigns it to a buyer.
@@ -40,6 +109,205 @@ contract SoftwareLicense is ERC721, Ownable {
         public
         onlyOwner
         returns (uint256)
+    {
+        return _mintLicense(buyer, tokenURI_, ipAddress);
+    }
+
+    /**
+     * @dev Registers one of the caller's products for sale, or changes its price, and puts it on sale.
+     * The product's ID is derived from the caller and the software, see productIdOf, so only its seller can register or change it.
+     * @param softwareId The seller's own ID for the software.
+     * @param price The price of one seat, in the payment token's smallest unit.
+     * @param paymentToken The ERC-20 token the price is in, or the zero address for the native currency.
+     * @return productId The product's ID.
+     */
+    function registerProduct(bytes32 softwareId, uint256 price, address paymentToken) public returns (bytes32 productId) {
+        productId = productIdOf(msg.sender, softwareId);
+        Product storage product = _products[productId];
+        product.seller = msg.sender;
+        product.price = price;
+        product.paymentToken = paymentToken;
+        product.active = true;
+        emit ProductRegistered(productId, softwareId, msg.sender, price, paymentToken);
+    }
+
+    /**
+     * @dev Puts a product on sale or takes it off sale.
+     * Can only be called by the product's seller.
+     * @param productId The product's ID.
+     * @param active Whether the product can be purchased.
+     */
+    function setProductActive(bytes32 productId, bool active) public {
+        require(_products[productId].seller == msg.sender, "Only the seller can change the product.");
+        _products[productId].active = active;
+        emit ProductActiveChanged(productId, active);
+    }
+
+    /**
+     * @dev The ID a seller's software is sold under: the hash of the seller's address and the software's ID.
+     * @param seller The seller's address.
+     * @param softwareId The seller's own ID for the software.
+     */
+    function productIdOf(address seller, bytes32 softwareId) public pure returns (bytes32) {
+        return keccak256(abi.encode(seller, softwareId));
+    }
+
+    /**
+     * @dev Sets the platform fee taken from every purchase.
+     * Can only be called by the contract owner.
+     * @param feeBps The fee in basis points, at most MAX_PLATFORM_FEE_BPS.
+     * @param recipient The account the fee is paid to.
+     */
+    function setPlatformFee(uint256 feeBps, address recipient) public onlyOwner {
+        require(feeBps <= MAX_PLATFORM_FEE_BPS, "Platform fee is too high.");
+        require(recipient != address(0), "Fee recipient cannot be the zero address.");
+        platformFeeBps = feeBps;
+        feeRecipient = recipient;
+        emit PlatformFeeChanged(feeBps, recipient);
+    }
+
+    /**
+     * @dev Sets the account that signs mint vouchers. Vouchers signed by the previous signer stop working.
+     * Can only be called by the contract owner.
+     * @param signer The new voucher signer.
+     */
+    function setVoucherSigner(address signer) public onlyOwner {
+        require(signer != address(0), "Voucher signer cannot be the zero address.");
+        voucherSigner = signer;
+        emit VoucherSignerChanged(signer);
+    }
+
+    /**
+     * @dev Mints the license a voucher describes to its buyer. The voucher must be signed by the
+     * voucher signer, not be expired and not have been redeemed before; its price, if any, is paid
+     * in the product's payment token to the product's seller less the platform fee.
+     * @param voucher The mint voucher issued by the platform.
+     * @param signature The voucher signer's EIP-712 signature of the voucher.
+     * @return The ID of the newly minted token.
+     */
+    function redeemMintVoucher(MintVoucher calldata voucher, bytes calldata signature)
+        public
+        payable
+        nonReentrant
+        returns (uint256)
+    {
+        require(msg.sender == voucher.buyer, "Voucher is for another wallet.");
+        require(block.timestamp <= voucher.expiry, "Voucher has expired.");
+        require(!_redeemedVouchers[voucher.nonce], "Voucher was already redeemed.");
+        Product memory product = _products[voucher.productId];
+        require(voucher.price == 0 || product.seller != address(0), "Product is not registered.");
+        require(voucher.price == 0 || voucher.paymentToken == product.paymentToken, "Voucher is not priced in the product's payment token.");
+        require(msg.value == (voucher.paymentToken == address(0) ? voucher.price : 0), "Payment does not match the voucher.");
+        require(ECDSA.recover(_hashMintVoucher(voucher), signature) == voucherSigner, "Voucher is not signed by the platform.");
+        _redeemedVouchers[voucher.nonce] = true;
+
+        uint256 tokenId = _mintLicense(voucher.buyer, voucher.tokenURI, voucher.ipAddress);
+
+        uint256 fee = _collectPayment(voucher.paymentToken, product.seller, voucher.price);
+        emit MintVoucherRedeemed(tokenId, voucher.productId, voucher.buyer, voucher.nonce, voucher.seats, voucher.price, fee);
+        return tokenId;
+    }
+
+    function _hashMintVoucher(MintVoucher calldata voucher) private view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            MINT_VOUCHER_TYPEHASH,
+            voucher.buyer,
+            voucher.productId,
+            voucher.price,
+            voucher.paymentToken,
+            voucher.seats,
+            keccak256(bytes(voucher.tokenURI)),
+            keccak256(bytes(voucher.ipAddress)),
+            voucher.expiry,
+            voucher.nonce
+        )));
+    }
+
+    /**
+     * @dev Purchases a license: takes the payment, pays the seller and the platform fee, and
+     * mints the license to the buyer, all in one transaction. A seller licenses their own
+     * product for free. Products priced in an ERC-20 token are paid from the buyer's
+     * allowance to this contract, which must cover the price times the seats.
+     * @param productId The ID of the product being bought.
+     * @param seats The number of seats bought; the payment must be the price times the seats.
+     * @param tokenURI_ The URI for the token's metadata.
+     * @param ipAddress The IP address to lock the license to (can be empty).
+     * @return The ID of the newly minted token.
+     */
+    function purchaseLicense(bytes32 productId, uint256 seats, string memory tokenURI_, string memory ipAddress)
+        public
+        payable
+        nonReentrant
+        returns (uint256)
+    {
+        return _purchaseLicense(productId, seats, tokenURI_, ipAddress);
+    }
+
+    /**
+     * @dev Purchases a license priced in an ERC-20 token that supports EIP-2612, with a permit
+     * instead of a prior approval, so the buyer sends a single transaction.
+     * @param productId The ID of the product being bought.
+     * @param seats The number of seats bought.
+     * @param tokenURI_ The URI for the token's metadata.
+     * @param ipAddress The IP address to lock the license to (can be empty).
+     * @param permit The buyer's permit for this contract to spend the price times the seats.
+     * @return The ID of the newly minted token.
+     */
+    function purchaseLicenseWithPermit(bytes32 productId, uint256 seats, string memory tokenURI_, string memory ipAddress, TokenPermit calldata permit)
+        public
+        nonReentrant
+        returns (uint256)
+    {
+        address paymentToken = _products[productId].paymentToken;
+        require(paymentToken != address(0), "Product is not priced in a token.");
+        _applyPermit(paymentToken, _products[productId].price * seats, permit);
+        return _purchaseLicense(productId, seats, tokenURI_, ipAddress);
+    }
+
+    // Anyone can submit a permit once it is seen; if that already happened, the allowance is in place
+    // and the purchase goes ahead, otherwise it fails when the payment is drawn.
+    function _applyPermit(address paymentToken, uint256 value, TokenPermit calldata permit) private {
+        try IERC20Permit(paymentToken).permit(msg.sender, address(this), value, permit.deadline, permit.v, permit.r, permit.s) {} catch {}
+    }
+
+    function _purchaseLicense(bytes32 productId, uint256 seats, string memory tokenURI_, string memory ipAddress)
+        private
+        returns (uint256)
+    {
+        Product memory product = _products[productId];
+        require(product.seller != address(0) && product.active, "Product is not for sale.");
+        require(seats > 0, "At least one seat must be bought.");
+        uint256 amount = msg.sender == product.seller ? 0 : product.price * seats;
+        require(msg.value == (product.paymentToken == address(0) ? amount : 0), "Payment does not match the price.");
+
+        uint256 tokenId = _mintLicense(msg.sender, tokenURI_, ipAddress);
+
+        uint256 fee = _collectPayment(product.paymentToken, product.seller, amount);
+        emit LicensePurchased(tokenId, productId, msg.sender, product.seller, product.paymentToken, seats, amount, fee);
+        return tokenId;
+    }
+
+    // Pays an amount from the buyer to the seller, less the platform fee, which goes to the fee recipient.
+    // Native payments were already sent with the call; token payments are drawn from the buyer's allowance.
+    function _collectPayment(address paymentToken, address seller, uint256 amount) private returns (uint256) {
+        uint256 fee = (amount * platformFeeBps) / 10000;
+        if (paymentToken == address(0)) {
+            _pay(seller, amount - fee);
+            _pay(feeRecipient, fee);
+            return fee;
+        }
+        if (amount - fee > 0) {
+            IERC20(paymentToken).safeTransferFrom(msg.sender, seller, amount - fee);
+        }
+        if (fee > 0) {
+            IERC20(paymentToken).safeTransferFrom(msg.sender, feeRecipient, fee);
+        }
+        return fee;
+    }
+
+    function _mintLicense(address buyer, string memory tokenURI_, string memory ipAddress)
+        private
+        returns (uint256)
     {
         uint256 tokenId = _nextTokenId;
         _nextTokenId++;
@@ -50,6 +318,14 @@ contract SoftwareLicense is ERC721, Ownable {
         }
         return tokenId;
     }
+
+    function _pay(address to, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "Payment transfer failed.");
+    }
     
     /**
      * @dev Overrides the default ERC721 _update function to enforce non-transferability.
@@ -124,8 +400,25 @@ contract SoftwareLicense is ERC721, Ownable {
         return _isLicenseBlocked[tokenId];
     }
 
+    function isVoucherRedeemed(uint256 nonce) public view returns (bool) {
+        return _redeemedVouchers[nonce];
+    }
+
+    function getProduct(bytes32 productId) public view returns (address seller, uint256 price, address paymentToken, bool active) {
+        Product memory product = _products[productId];
+        return (product.seller, product.price, product.paymentToken, product.active);
+    }
+
     // Event emitted when a license's blocked status changes.
     event LicenseBlockedStatusChanged(uint256 indexed tokenId, bool isBlocked);
-    // Event for logging license validation attempts.
-    event LicenseValidated(uint256 indexed tokenId, address indexed owner, string ipAddress, bool isValid);
+    // Events for product registration and the platform fee.
+    event ProductRegistered(bytes32 indexed productId, bytes32 indexed softwareId, address indexed seller, uint256 price, address paymentToken);
+    event ProductActiveChanged(bytes32 indexed productId, bool active);
+    event PlatformFeeChanged(uint256 feeBps, address recipient);
+    // Event emitted when a license is purchased; amount is the total paid in paymentToken (the zero address
+    // for the native currency), fee the platform's share of it.
+    event LicensePurchased(uint256 indexed tokenId, bytes32 indexed productId, address indexed buyer, address seller, address paymentToken, uint256 seats, uint256 amount, uint256 fee);
+    // Events for mint vouchers.
+    event VoucherSignerChanged(address signer);
+    event MintVoucherRedeemed(uint256 indexed tokenId, bytes32 indexed productId, address indexed buyer, uint256 nonce, uint256 seats, uint256 price, uint256 fee);
 }
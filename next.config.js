@@ -8,6 +8,10 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Starts the license event indexer (src/instrumentation.ts) with the server.
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
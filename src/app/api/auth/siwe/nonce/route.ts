@@ -0,0 +1,13 @@
+
+import { NextResponse } from 'next/server';
+import { issueSiweNonce } from '@/lib/wallet-auth';
+
+export async function GET() {
+  try {
+    const nonce = await issueSiweNonce();
+    return NextResponse.json({ success: true, nonce }, { status: 200 });
+  } catch (error) {
+    console.error('API Error in /api/auth/siwe/nonce:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+
+import { NextResponse } from 'next/server';
+import { verifySiweSignIn } from '@/lib/wallet-auth';
+
+export async function POST(request: Request) {
+  try {
+    const { message, signature } = await request.json();
+
+    if (!message || !signature) {
+      return NextResponse.json({ success: false, message: 'Missing message or signature' }, { status: 400 });
+    }
+
+    // Pin the domain in production so a message signed on another site cannot be replayed here.
+    const domain = process.env.SIWE_DOMAIN || request.headers.get('host') || '';
+    const result = await verifySiweSignIn(message, signature, domain);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    } else {
+      return NextResponse.json({ ...result, code: 'SIWE_VERIFICATION_FAILED' }, { status: 401 });
+    }
+  } catch (error) {
+    console.error('API Error in /api/auth/siwe/verify:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -1,27 +1,38 @@
 
 import { NextResponse } from 'next/server';
 import { bindDeviceToLicense } from '@/lib/auth';
+import { requireWalletSession } from '@/lib/session';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code a binding can fail with.
+const BIND_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  NOT_LICENSE_OWNER: 403,
+  LICENSE_NOT_FOUND: 404,
+  // The license has no free seat for another device.
+  NO_FREE_SEAT: 409,
+};
 
 export async function POST(request: Request) {
   try {
-    const { licenseId, deviceId } = await request.json();
+    await requireWalletSession();
+
+    const { licenseId, deviceId, label } = await request.json();
 
     if (!licenseId || !deviceId) {
       return NextResponse.json({ success: false, message: 'Missing licenseId or deviceId' }, { status: 400 });
     }
 
-    const result = await bindDeviceToLicense(licenseId, deviceId);
+    const result = await bindDeviceToLicense(licenseId, deviceId, typeof label === 'string' ? label : undefined);
 
     if (result.success) {
       return NextResponse.json(result, { status: 200 });
-    } else {
-      // Return a 409 Conflict status if the license is already bound to another device
-      if (result.message.includes("already bound")) {
-         return NextResponse.json(result, { status: 409 });
-      }
-      return NextResponse.json(result, { status: 500 });
     }
+    return NextResponse.json(result, { status: (result.code && BIND_ERROR_STATUS[result.code]) || 500 });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
     console.error('API Error in /api/license/bind-device:', error);
     return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
   }
@@ -0,0 +1,39 @@
+
+import { NextResponse } from 'next/server';
+import { blockLicense } from '@/lib/auth';
+import { authorizeLicenseSeller } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code blocking can fail with.
+const BLOCK_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  NOT_LICENSE_SELLER: 403,
+  LICENSE_NOT_FOUND: 404,
+  // Only active licenses can be blocked.
+  LICENSE_INACTIVE: 409,
+};
+
+export async function POST(request: Request) {
+  try {
+    const { licenseId, reason } = await request.json();
+
+    if (!licenseId) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId' }, { status: 400 });
+    }
+
+    await authorizeLicenseSeller(licenseId);
+
+    const result = await blockLicense(licenseId, typeof reason === 'string' ? reason : undefined);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && BLOCK_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/license/block:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { decideDeviceResetRequest } from '@/lib/auth';
+import { requireSession } from '@/lib/session';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code a decision can fail with; anything else is a server error.
+const DECISION_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  RESET_NOT_FOUND: 404,
+  LICENSE_NOT_FOUND: 404,
+  NOT_LICENSE_SELLER: 403,
+  RESET_DECIDED: 409,
+};
+
+export async function POST(request: Request) {
+  try {
+    await requireSession();
+
+    const { requestId, decision } = await request.json();
+
+    if (!requestId || (decision !== 'approve' && decision !== 'reject')) {
+      return NextResponse.json({ success: false, message: 'Missing requestId or decision' }, { status: 400 });
+    }
+
+    const result = await decideDeviceResetRequest(requestId, decision === 'approve');
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && DECISION_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/license/device-reset:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+
+import { NextResponse } from 'next/server';
+import { requestKeyChallenge } from '@/lib/auth';
+
+// The HTTP status for each error code a challenge request can fail with.
+const CHALLENGE_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+};
+
+export async function POST(request: Request) {
+  try {
+    const { licenseId, deviceId } = await request.json();
+
+    if (!licenseId || !deviceId) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId or deviceId' }, { status: 400 });
+    }
+
+    const result = await requestKeyChallenge(licenseId, deviceId);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && CHALLENGE_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    console.error('API Error in /api/license/get-key/challenge:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
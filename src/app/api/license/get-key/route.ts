@@ -2,26 +2,44 @@
 import { NextResponse } from 'next/server';
 import { getDecryptionKey } from '@/lib/auth';
 
+// The HTTP status for each error code a key request can fail with.
+const KEY_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  // A bad or replayed signature means the caller has not proven who they are.
+  INVALID_SIGNATURE: 401,
+  // Clear authorization failures: wrong owner, blocked, revoked or expired, IP not allowed, no free seat.
+  NOT_LICENSE_OWNER: 403,
+  LICENSE_INACTIVE: 403,
+  LICENSE_EXPIRED: 403,
+  IP_NOT_ALLOWED: 403,
+  CHAIN_VALIDATION_FAILED: 403,
+  DEVICE_MISMATCH: 403,
+  LICENSE_NOT_FOUND: 404,
+  SOFTWARE_NOT_FOUND: 404,
+  // The license is valid but nothing it covers has been released on this channel.
+  NO_RELEASE: 404,
+  // Every lease of a floating license is checked out; the client may retry later.
+  NO_FREE_LEASE: 409,
+  CHAIN_UNAVAILABLE: 503,
+};
+
 export async function POST(request: Request) {
   try {
-    const { licenseId, deviceId, walletAddress } = await request.json();
+    // The owning wallet is proven by a signature over a challenge from /api/license/get-key/challenge.
+    // The key comes back sealed for the device's delivery public key.
+    const { licenseId, deviceId, deliveryPublicKey, nonce, signature, channel } = await request.json();
 
-    if (!licenseId || !deviceId || !walletAddress) {
+    if (!licenseId || !deviceId || !deliveryPublicKey || !nonce || !signature) {
       return NextResponse.json({ success: false, message: 'Missing required parameters.' }, { status: 400 });
     }
 
-    const result = await getDecryptionKey(licenseId, deviceId, walletAddress);
+    const result = await getDecryptionKey(licenseId, deviceId, deliveryPublicKey, nonce, signature, channel || 'stable');
 
     if (result.success) {
       return NextResponse.json(result, { status: 200 });
-    } else {
-      // Use a 403 Forbidden status for clear authorization failures (e.g., blocked, wrong owner).
-      if (result.message.includes("blocked") || result.message.includes("revoked") || result.message.includes("owner") || result.message.includes("Wallet address")) {
-        return NextResponse.json(result, { status: 403 });
-      }
-      // For other internal failures (e.g., couldn't find software key), return a 500 error.
-      return NextResponse.json(result, { status: 500 });
     }
+    // Failures without a code (e.g., the software's key could not be found) are server errors.
+    return NextResponse.json(result, { status: (result.code && KEY_ERROR_STATUS[result.code]) || 500 });
   } catch (error) {
     console.error('API Error in /api/license/get-key:', error);
     return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
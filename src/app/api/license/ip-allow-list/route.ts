@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { updateLicenseIpAllowList } from '@/lib/auth';
+import { authorizeLicenseSeller } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code an allow-list update can fail with.
+const ALLOW_LIST_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_RANGE: 400,
+  TOO_MANY_RANGES: 400,
+  NOT_LICENSE_SELLER: 403,
+  LICENSE_NOT_FOUND: 404,
+};
+
+export async function POST(request: Request) {
+  try {
+    const { licenseId, ranges } = await request.json();
+
+    if (!licenseId || !Array.isArray(ranges)) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId or ranges' }, { status: 400 });
+    }
+
+    await authorizeLicenseSeller(licenseId);
+
+    const result = await updateLicenseIpAllowList(licenseId, ranges);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && ALLOW_LIST_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/license/ip-allow-list:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { checkinLicenseLease } from '@/lib/auth';
+
+// The HTTP status for each error code a check-in can fail with.
+const CHECKIN_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  LEASE_NOT_FOUND: 404,
+};
+
+// Authorized by the lease token handed out at checkout. Clients call this with
+// navigator.sendBeacon when they close, so the body may arrive as plain text.
+export async function POST(request: Request) {
+  try {
+    const { licenseId, leaseId, leaseToken } = JSON.parse(await request.text());
+
+    if (!licenseId || !leaseId || !leaseToken) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId, leaseId or leaseToken' }, { status: 400 });
+    }
+
+    const result = await checkinLicenseLease(licenseId, leaseId, leaseToken);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && CHECKIN_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    console.error('API Error in /api/license/lease/checkin:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { checkoutLicenseLease } from '@/lib/auth';
+import { requireWalletSession } from '@/lib/session';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code a checkout can fail with.
+const CHECKOUT_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  NOT_FLOATING: 400,
+  NOT_LICENSE_OWNER: 403,
+  LICENSE_INACTIVE: 403,
+  LICENSE_EXPIRED: 403,
+  // Every lease of the pool is checked out; the client may retry later.
+  NO_FREE_LEASE: 409,
+};
+
+export async function POST(request: Request) {
+  try {
+    await requireWalletSession();
+
+    const { licenseId, deviceId, label } = await request.json();
+
+    if (!licenseId || !deviceId) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId or deviceId' }, { status: 400 });
+    }
+
+    const result = await checkoutLicenseLease(licenseId, deviceId, typeof label === 'string' ? label : undefined);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && CHECKOUT_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/license/lease/checkout:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { heartbeatLicenseLease } from '@/lib/auth';
+
+// The HTTP status for each error code a heartbeat can fail with. 410 tells the client its lease is gone.
+const HEARTBEAT_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  // The lease expired or was checked in, or the license stopped being usable.
+  LEASE_LOST: 410,
+  LICENSE_INACTIVE: 410,
+  LICENSE_EXPIRED: 410,
+  LICENSE_NOT_FOUND: 410,
+};
+
+// Authorized by the lease token handed out at checkout, not by a session.
+export async function POST(request: Request) {
+  try {
+    const { licenseId, leaseId, leaseToken } = await request.json();
+
+    if (!licenseId || !leaseId || !leaseToken) {
+      return NextResponse.json({ success: false, message: 'Missing licenseId, leaseId or leaseToken' }, { status: 400 });
+    }
+
+    const result = await heartbeatLicenseLease(licenseId, leaseId, leaseToken);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    }
+    return NextResponse.json(result, { status: (result.code && HEARTBEAT_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    console.error('API Error in /api/license/lease/heartbeat:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 
 import { NextResponse } from 'next/server';
 import { reactivateLicense } from '@/lib/auth';
+import { authorizeLicenseSeller } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
 
 export async function POST(request: Request) {
   try {
@@ -9,8 +11,9 @@ export async function POST(request: Request) {
     if (!licenseId) {
       return NextResponse.json({ success: false, message: 'Missing licenseId' }, { status: 400 });
     }
+
+    await authorizeLicenseSeller(licenseId);
     
-    // A real app should have an authentication layer to ensure only the seller can call this.
     const result = await reactivateLicense(licenseId);
 
     if (result.success) {
@@ -19,6 +22,9 @@ export async function POST(request: Request) {
       return NextResponse.json(result, { status: 500 });
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
     console.error('API Error in /api/license/reactivate:', error);
     return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
   }
@@ -1,6 +1,8 @@
 
 import { NextResponse } from 'next/server';
 import { revokeLicense } from '@/lib/auth';
+import { authorizeLicenseSeller } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
 
 export async function POST(request: Request) {
   try {
@@ -10,7 +12,8 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, message: 'Missing licenseId' }, { status: 400 });
     }
 
-    // A real app should have an authentication layer to ensure only the seller can call this.
+    await authorizeLicenseSeller(licenseId);
+
     const result = await revokeLicense(licenseId);
 
     if (result.success) {
@@ -19,6 +22,9 @@ export async function POST(request: Request) {
       return NextResponse.json(result, { status: 500 });
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
     console.error('API Error in /api/license/revoke:', error);
     return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
   }
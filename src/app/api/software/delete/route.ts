@@ -1,6 +1,8 @@
 
 import { NextResponse } from 'next/server';
 import { deleteSoftware } from '@/lib/auth';
+import { authorizeSoftwareOwner } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
 
 export async function POST(request: Request) {
   try {
@@ -9,9 +11,8 @@ export async function POST(request: Request) {
     if (!softwareId) {
       return NextResponse.json({ success: false, message: 'Missing softwareId' }, { status: 400 });
     }
-    
-    // In a real-world app, you'd add an authentication layer here
-    // to ensure only the software's owner can delete it.
+
+    await authorizeSoftwareOwner(softwareId);
     const result = await deleteSoftware(softwareId);
 
     if (result.success) {
@@ -20,6 +21,9 @@ export async function POST(request: Request) {
       return NextResponse.json(result, { status: 500 });
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
     console.error('API Error in /api/software/delete:', error);
     return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
   }
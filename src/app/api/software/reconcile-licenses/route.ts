@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { reconcileSoftwareLicenses } from '@/lib/auth';
+import { authorizeSoftwareOwner } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+export async function POST(request: Request) {
+  try {
+    const { softwareId } = await request.json();
+
+    if (!softwareId) {
+      return NextResponse.json({ success: false, message: 'Missing softwareId' }, { status: 400 });
+    }
+
+    await authorizeSoftwareOwner(softwareId);
+    const result = await reconcileSoftwareLicenses(softwareId);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 200 });
+    } else {
+      return NextResponse.json(result, { status: 500 });
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/software/reconcile-licenses:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getReleasesForSoftware, publishRelease } from '@/lib/auth';
+import { authorizeSoftwareOwner } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code publishing a release can fail with.
+const PUBLISH_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  // The upload expired or was already used for another release.
+  UPLOAD_NOT_FOUND: 400,
+  NOT_SOFTWARE_OWNER: 403,
+  SOFTWARE_NOT_FOUND: 404,
+  RELEASE_EXISTS: 409,
+};
+
+export async function GET(request: Request) {
+  try {
+    const softwareId = new URL(request.url).searchParams.get('softwareId');
+
+    if (!softwareId) {
+      return NextResponse.json({ success: false, message: 'Missing softwareId' }, { status: 400 });
+    }
+
+    await authorizeSoftwareOwner(softwareId);
+    const releases = await getReleasesForSoftware(softwareId);
+
+    return NextResponse.json({ success: true, releases }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in GET /api/software/releases:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
+
+/**
+ * Publishes a release from a file already encrypted and stored through /api/upload/file.
+ */
+export async function POST(request: Request) {
+  try {
+    const { softwareId, uploadId, version, changelog, channel } = await request.json();
+
+    if (!softwareId || !uploadId || !version) {
+      return NextResponse.json({ success: false, message: 'Missing softwareId, uploadId or version' }, { status: 400 });
+    }
+
+    await authorizeSoftwareOwner(softwareId);
+    const result = await publishRelease(softwareId, uploadId, { version, changelog: changelog || '', channel: channel || 'stable' });
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 201 });
+    }
+    return NextResponse.json(result, { status: (result.code && PUBLISH_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in POST /api/software/releases:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
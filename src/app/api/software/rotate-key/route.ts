@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { rotateSoftwareKey } from '@/lib/auth';
+import { authorizeSoftwareOwner } from '@/lib/policy';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// The HTTP status for each error code starting a rotation can fail with.
+const ROTATION_ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  NOT_SOFTWARE_OWNER: 403,
+  SOFTWARE_NOT_FOUND: 404,
+  ROTATION_RUNNING: 409,
+};
+
+export async function POST(request: Request) {
+  try {
+    const { softwareId } = await request.json();
+
+    if (!softwareId) {
+      return NextResponse.json({ success: false, message: 'Missing softwareId' }, { status: 400 });
+    }
+
+    await authorizeSoftwareOwner(softwareId);
+    const result = await rotateSoftwareKey(softwareId);
+
+    if (result.success) {
+      return NextResponse.json(result, { status: 202 });
+    }
+    return NextResponse.json(result, { status: (result.code && ROTATION_ERROR_STATUS[result.code]) || 500 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('API Error in /api/software/rotate-key:', error);
+    return NextResponse.json({ success: false, message: 'An unexpected server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getStorageProvider, readLocalObject } from '@/lib/storage';
+
+/**
+ * Serves objects written by the local storage provider. Files are already
+ * encrypted and metadata is public, so no session is required, exactly like
+ * an IPFS gateway or a public bucket.
+ */
+export async function GET(request: Request, { params }: { params: { key: string } }) {
+  try {
+    if (getStorageProvider().name !== 'local') {
+        return NextResponse.json({ success: false, message: "Local storage is not enabled." }, { status: 404 });
+    }
+
+    const object = await readLocalObject(params.key);
+    if (!object) {
+        return NextResponse.json({ success: false, message: "File not found." }, { status: 404 });
+    }
+
+    return new NextResponse(object.body, {
+        status: 200,
+        headers: {
+            'Content-Type': object.contentType,
+            'Content-Length': String(object.size),
+            // Keys are random and objects are never rewritten, so they can be cached indefinitely.
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            // /run fetches files from the browser, like it does from IPFS gateways.
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+
+  } catch (error: any) {
+    console.error("Error in /api/storage:", error);
+    const message = error.message || "An unexpected server error occurred while reading the file.";
+    return NextResponse.json({ success: false, message }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { createEncryptionStream, encryptedLength } from '@/lib/encryption';
+import { getStorageProvider } from '@/lib/storage';
+import { recordPendingUpload } from '@/lib/uploads';
+import { requireSession } from '@/lib/session';
+import { AuthError, authErrorResponse } from '@/lib/errors';
+
+// Encrypts the request body segment by segment while it is streamed on to storage,
+// so neither the plaintext nor the ciphertext is ever held in memory as a whole.
+async function encryptAndStore(body: ReadableStream<Uint8Array>, fileName: string, decryptionKey: string, plaintextLength?: number): Promise<{ fileUrl: string; fileKey: string; fileSize: number }> {
+    let fileSize = 0;
+    const countBytes = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            fileSize += chunk.length;
+            controller.enqueue(chunk);
+        },
+    });
+
+    const encrypted = body.pipeThrough(countBytes).pipeThrough(createEncryptionStream(decryptionKey));
+    const { key, url } = await getStorageProvider().putStream(encrypted, {
+        fileName: `${fileName}.enc`,
+        contentType: 'application/octet-stream',
+        contentLength: plaintextLength === undefined ? undefined : encryptedLength(plaintextLength),
+    });
+
+    return { fileUrl: url, fileKey: key, fileSize };
+}
+
+/**
+ * Receives the raw software file as the request body and stores it encrypted.
+ * The original name comes from the X-File-Name header (URI-encoded) and the
+ * content key from X-Decryption-Key. Responds with an upload ID that the
+ * listing form passes to /api/upload.
+ */
+export async function POST(request: Request) {
+  try {
+    // The seller is always the signed-in user, never a value sent by the browser.
+    const session = await requireSession();
+
+    const encodedFileName = request.headers.get('x-file-name');
+    const decryptionKey = request.headers.get('x-decryption-key');
+    const mimeType = request.headers.get('content-type') || 'application/octet-stream';
+
+    if (!encodedFileName || !decryptionKey || !request.body) {
+        return NextResponse.json({ success: false, message: "A file, its name and a decryption key are required." }, { status: 400 });
+    }
+    if (!/^[0-9a-fA-F]{64}$/.test(decryptionKey)) {
+        return NextResponse.json({ success: false, message: "The decryption key must be a 256-bit hex string." }, { status: 400 });
+    }
+
+    const fileName = decodeURIComponent(encodedFileName);
+    const contentLength = request.headers.get('content-length');
+    const { fileUrl, fileKey, fileSize } = await encryptAndStore(request.body, fileName, decryptionKey, contentLength ? Number(contentLength) : undefined);
+
+    const uploadId = await recordPendingUpload(session.userId, { fileUrl, fileKey, fileName, mimeType, fileSize, decryptionKey });
+
+    return NextResponse.json({ success: true, message: "File encrypted and stored.", uploadId }, { status: 200 });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error("Error in /api/upload/file:", error);
+    const message = error.message || "An unexpected server error occurred during the file upload.";
+    return NextResponse.json({ success: false, message }, { status: 500 });
+  }
+}
@@ -4,13 +4,33 @@
 import { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Download, ShieldCheck, ExternalLink, Fingerprint, Ban, Rocket, Zap } from 'lucide-react';
+import { ArrowLeft, Download, ShieldCheck, ExternalLink, Fingerprint, Ban, Rocket, Zap, RefreshCcw, Clock, ArrowUpCircle } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { getLicensesForBuyer, bindDeviceToLicense, getSoftwareFileUrl } from '@/lib/auth';
+import { getLicensesForBuyer, bindDeviceToLicense, getVerifiedWallet, getDeviceResetStatus, resetLicenseDevice } from '@/lib/auth';
+import { signInWithEthereum } from '@/lib/siwe-client';
 import { cn } from '@/lib/utils';
+import { getDeviceId } from '@/lib/device';
+import { isLicenseExpired, isRenewable, normalizeLicenseTerms } from '@/lib/license-terms';
+import { explorerTransactionUrl, findChain, recordChainId } from '@/lib/chains';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { BrowserProvider } from 'ethers';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+
+type BoundDevice = {
+    deviceId: string;
+    label?: string;
+    boundAt: string;
+    lastSeenAt?: string;
+};
+
+type DeviceResetStatus = {
+    policy: { allowance: number; periodDays: number; cooldownHours: number };
+    remaining: number;
+    cooldownUntil: string | null;
+    pending: boolean;
+    history: Array<{ _id: string; status: 'completed' | 'pending' | 'approved' | 'rejected'; deviceId: string; deviceLabel?: string; reason?: string; requestedAt: string; decidedAt?: string }>;
+};
 
 type License = {
     _id: string;
@@ -19,18 +39,17 @@ type License = {
     tokenId: number;
     mintDate: string;
     transactionHash: string;
+    // The chain the license's token lives on; absent on licenses from before multi-chain support.
+    chainId?: number;
     buyerIp: string;
     status: 'active' | 'revoked' | 'blocked';
-    deviceId?: string;
-};
-
-const getDeviceId = () => {
-    let deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) {
-        deviceId = crypto.randomUUID();
-        localStorage.setItem('deviceId', deviceId);
-    }
-    return deviceId;
+    seats?: number;
+    devices?: BoundDevice[];
+    floating?: boolean;
+    licenseType?: string;
+    termDays?: number;
+    expiresAt?: string | null;
+    trial?: boolean;
 };
 
 export default function BuyerDashboardPage() {
@@ -39,11 +58,16 @@ export default function BuyerDashboardPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState<string | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [seatsLicenseId, setSeatsLicenseId] = useState<string | null>(null);
+  const [resettingDevice, setResettingDevice] = useState<string | null>(null);
+  const [resetStatus, setResetStatus] = useState<DeviceResetStatus | null>(null);
+  const [resetReason, setResetReason] = useState("");
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
 
-  const fetchLicenses = useCallback(async (address: string) => {
+  const fetchLicenses = useCallback(async () => {
     setIsLoading(true);
     try {
-        const licenseList = await getLicensesForBuyer(address);
+        const licenseList = await getLicensesForBuyer();
         setLicenses(licenseList);
     } catch (error) {
         console.error("Failed to fetch licenses:", error);
@@ -65,16 +89,14 @@ export default function BuyerDashboardPage() {
     }
 
     try {
-        const provider = new BrowserProvider(window.ethereum);
-        const accounts = await provider.send("eth_requestAccounts", []);
-        
-        if (accounts && accounts.length > 0) {
-            const address = accounts[0];
-            sessionStorage.setItem('walletAddress', address);
-            setWalletAddress(address);
-            await fetchLicenses(address);
+        // Prove ownership of the wallet by signing a SIWE message before any license is shown.
+        const result = await signInWithEthereum();
+
+        if (result.success && result.walletAddress) {
+            setWalletAddress(result.walletAddress);
+            await fetchLicenses();
         } else {
-            toast({ title: "Connection Required", description: "Please connect a wallet to view your licenses." });
+            toast({ title: "Verification Failed", description: result.message || "Could not verify your wallet.", variant: "destructive" });
             setIsLoading(false);
         }
     } catch (error) {
@@ -86,29 +108,20 @@ export default function BuyerDashboardPage() {
 
 
   useEffect(() => {
-    const checkConnection = async () => {
-        const storedAddress = sessionStorage.getItem('walletAddress');
-        if (storedAddress) {
-            setWalletAddress(storedAddress);
-            await fetchLicenses(storedAddress);
-            return;
-        }
+    setCurrentDeviceId(getDeviceId());
+  }, []);
 
-        if (window.ethereum) {
-            const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-            if (accounts.length > 0) {
-                const address = accounts[0];
-                sessionStorage.setItem('walletAddress', address);
-                setWalletAddress(address);
-                await fetchLicenses(address);
-            } else {
-                setIsLoading(false);
-            }
+  useEffect(() => {
+    const checkVerifiedWallet = async () => {
+        const verifiedAddress = await getVerifiedWallet();
+        if (verifiedAddress) {
+            setWalletAddress(verifiedAddress);
+            await fetchLicenses();
         } else {
-             setIsLoading(false);
+            setIsLoading(false);
         }
     };
-    checkConnection();
+    checkVerifiedWallet();
   }, [fetchLicenses]);
 
   const handleDownloadLicenseFile = async (license: License) => {
@@ -126,17 +139,12 @@ export default function BuyerDashboardPage() {
             throw new Error(bindResult.message);
         }
 
-        // Fetch just the encrypted file URL without full key validation.
-        const urlResult = await getSoftwareFileUrl(license.softwareId);
-        if (!urlResult.success || !urlResult.fileUrl) {
-           throw new Error(urlResult.message || "Failed to get software details.");
-        }
-
-      // Create the license file with identifiers only. NO KEY.
+      // Create the license file with identifiers only. NO KEY and no file URL:
+      // /run resolves the newest release the license covers each time it is loaded.
       const licenseFileData = {
         licenseId: license._id,
         softwareId: license.softwareId,
-        encryptedFileUrl: urlResult.fileUrl,
+        channel: 'stable',
       };
 
       const blob = new Blob([JSON.stringify(licenseFileData, null, 2)], { type: 'application/json' });
@@ -166,11 +174,43 @@ export default function BuyerDashboardPage() {
     } finally {
       setIsDownloading(null);
       if (walletAddress) {
-        fetchLicenses(walletAddress); // Refresh license list to show updated device status
+        fetchLicenses(); // Refresh license list to show updated device status
       }
     }
   };
 
+  const fetchResetStatus = useCallback(async (licenseId: string) => {
+    const result = await getDeviceResetStatus(licenseId);
+    setResetStatus(result.success && result.status ? result.status : null);
+  }, []);
+
+  useEffect(() => {
+    setResetStatus(null);
+    setResetReason("");
+    if (seatsLicenseId) {
+        fetchResetStatus(seatsLicenseId);
+    }
+  }, [seatsLicenseId, fetchResetStatus]);
+
+  const handleResetDevice = async (licenseId: string, deviceId: string) => {
+    setResettingDevice(deviceId);
+    try {
+        const result = await resetLicenseDevice(licenseId, deviceId, resetReason);
+        if (result.success) {
+            toast({ title: result.status === 'pending' ? "Sent for Approval" : "Device Reset", description: result.message, duration: 9000 });
+            setResetReason("");
+            await fetchLicenses();
+        } else {
+            toast({ title: "Reset Failed", description: result.message, variant: "destructive" });
+        }
+    } finally {
+        setResettingDevice(null);
+        fetchResetStatus(licenseId);
+    }
+  };
+
+  const seatsLicense = licenses.find(license => license._id === seatsLicenseId);
+
   return (
     <div className="flex min-h-screen w-full flex-col bg-gradient-to-br from-primary to-accent text-white">
       <header className="sticky top-0 flex h-16 items-center justify-between px-4 md:px-6 z-40">
@@ -240,6 +280,7 @@ export default function BuyerDashboardPage() {
                         <TableHead className="text-white text-center">License Status</TableHead>
                         <TableHead className="text-white text-center">Device Status</TableHead>
                         <TableHead className="text-white text-center">Purchase Date</TableHead>
+                        <TableHead className="text-white text-center">Expires</TableHead>
                         <TableHead className="text-white text-center">Transaction</TableHead>
                         <TableHead className="text-right text-white">Actions</TableHead>
                     </TableRow>
@@ -247,28 +288,34 @@ export default function BuyerDashboardPage() {
                 <TableBody>
                     {isLoading ? (
                         <TableRow className="border-b-0 hover:bg-transparent">
-                           <TableCell colSpan={6} className="text-center text-gray-300 py-12">
+                           <TableCell colSpan={7} className="text-center text-gray-300 py-12">
                                Loading your licenses...
                            </TableCell>
                         </TableRow>
                     ) : !walletAddress ? (
                          <TableRow className="border-b-0 hover:bg-transparent">
-                            <TableCell colSpan={6} className="text-center text-gray-300 py-12">
-                                Please connect your wallet to see your licenses.
-                                <Button onClick={connectAndFetch} variant="link" className="text-white underline ml-2">Connect Now</Button>
+                            <TableCell colSpan={7} className="text-center text-gray-300 py-12">
+                                Please sign in with your wallet to see your licenses.
+                                <Button onClick={connectAndFetch} variant="link" className="text-white underline ml-2">Sign In with Wallet</Button>
                             </TableCell>
                         </TableRow>
                     ) : licenses.length === 0 ? (
                         <TableRow className="border-b-0 hover:bg-transparent">
-                            <TableCell colSpan={6} className="text-center text-gray-300 py-12">
+                            <TableCell colSpan={7} className="text-center text-gray-300 py-12">
                                 You have not purchased any software licenses yet.
                             </TableCell>
                         </TableRow>
                     ) : (
-                        licenses.map((license) => (
+                        licenses.map((license) => {
+                            const terms = normalizeLicenseTerms(license.licenseType, license.termDays);
+                            const isExpired = isLicenseExpired(license.expiresAt);
+                            const chain = findChain(recordChainId(license));
+                            const transactionUrl = explorerTransactionUrl(chain, license.transactionHash);
+                            return (
                              <TableRow key={license._id} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
                                 <TableCell className="font-medium text-white">
                                     {license.softwareTitle}
+                                    {license.trial && <span className="ml-2 rounded border border-yellow-400/30 bg-yellow-400/10 px-1.5 py-0.5 text-xs text-yellow-300">Trial</span>}
                                 </TableCell>
                                 <TableCell className="text-center">
                                      <div className='flex items-center justify-center gap-2 text-sm'>
@@ -280,34 +327,78 @@ export default function BuyerDashboardPage() {
                                 </TableCell>
                                 <TableCell className="text-center">
                                     <div className='flex items-center justify-center gap-2 text-sm text-gray-300'>
-                                        {license.deviceId ? (
+                                        {license.floating ? (
                                             <>
                                                 <Fingerprint className="h-4 w-4 text-green-400" />
-                                                <span className="font-mono text-xs" title={license.deviceId}>
-                                                    {`Bound to ...${license.deviceId.slice(-8)}`}
-                                                </span>
+                                                <span>{`Floating · ${license.seats || 1} concurrent`}</span>
                                             </>
+                                        ) : license.devices && license.devices.length > 0 ? (
+                                            <button type="button" className="flex items-center gap-2 hover:text-white" onClick={() => setSeatsLicenseId(license._id)}>
+                                                <Fingerprint className="h-4 w-4 text-green-400" />
+                                                <span>{`${license.devices.length} / ${license.seats || 1} ${(license.seats || 1) === 1 ? 'seat' : 'seats'}`}</span>
+                                            </button>
                                         ) : (
                                             <>
                                                 <Fingerprint className="h-4 w-4 text-yellow-400" />
-                                                <span>Not Bound</span>
+                                                <span>{(license.seats || 1) > 1 ? `0 / ${license.seats} seats` : 'Not Bound'}</span>
                                             </>
                                         )}
                                     </div>
                                 </TableCell>
                                 <TableCell className="text-center text-white">{new Date(license.mintDate).toLocaleDateString()}</TableCell>
                                 <TableCell className="text-center">
-                                    <a 
-                                        href={`https://amoy.polygonscan.com/tx/${license.transactionHash}`} 
-                                        target="_blank" 
-                                        rel="noopener noreferrer"
-                                        className="text-white hover:text-green-400 transition-colors inline-block"
-                                    >
-                                        <ExternalLink className="h-5 w-5" />
-                                    </a>
+                                    <div className={cn('flex items-center justify-center gap-2 text-sm', isExpired ? 'text-red-400' : 'text-gray-300')}>
+                                        {license.expiresAt && <Clock className="h-4 w-4" />}
+                                        <span>
+                                            {!license.expiresAt ? 'Never' : `${isExpired ? 'Expired ' : ''}${new Date(license.expiresAt).toLocaleDateString()}`}
+                                        </span>
+                                    </div>
+                                </TableCell>
+                                <TableCell className="text-center">
+                                    {transactionUrl ? (
+                                        <a 
+                                            href={transactionUrl} 
+                                            target="_blank" 
+                                            rel="noopener noreferrer"
+                                            title={chain?.name}
+                                            className="text-white hover:text-green-400 transition-colors inline-block"
+                                        >
+                                            <ExternalLink className="h-5 w-5" />
+                                        </a>
+                                    ) : (
+                                        <span className="text-sm text-gray-400">{chain?.name || 'N/A'}</span>
+                                    )}
                                 </TableCell>
                                 <TableCell className="text-right">
                                     <TooltipProvider>
+                                        {license.trial && license.status !== 'revoked' && (
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <Button asChild variant="outline" size="icon" className="mr-2 border-yellow-400/30 bg-yellow-400/10 text-yellow-300 backdrop-blur-sm hover:bg-yellow-400/20 h-8 w-8">
+                                                        <Link href={`/marketplace?upgrade=${license._id}`}>
+                                                            <ArrowUpCircle className="h-4 w-4" />
+                                                        </Link>
+                                                    </Button>
+                                                </TooltipTrigger>
+                                                <TooltipContent>
+                                                    <p>Upgrade to Paid License</p>
+                                                </TooltipContent>
+                                            </Tooltip>
+                                        )}
+                                        {!license.trial && isRenewable(terms) && license.status !== 'revoked' && (
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <Button asChild variant="outline" size="icon" className="mr-2 border-white/30 bg-white/10 backdrop-blur-sm hover:bg-white/20 h-8 w-8">
+                                                        <Link href={`/marketplace?renew=${license._id}`}>
+                                                            <RefreshCcw className="h-4 w-4" />
+                                                        </Link>
+                                                    </Button>
+                                                </TooltipTrigger>
+                                                <TooltipContent>
+                                                    <p>Renew Subscription</p>
+                                                </TooltipContent>
+                                            </Tooltip>
+                                        )}
                                         <Tooltip>
                                             <TooltipTrigger asChild>
                                                 <Button 
@@ -315,7 +406,7 @@ export default function BuyerDashboardPage() {
                                                     size="icon" 
                                                     className="border-white/30 bg-white/10 backdrop-blur-sm hover:bg-white/20 disabled:opacity-50 h-8 w-8" 
                                                     onClick={() => handleDownloadLicenseFile(license)} 
-                                                    disabled={license.status !== 'active' || isDownloading === license._id}
+                                                    disabled={license.status !== 'active' || isExpired || isDownloading === license._id}
                                                 >
                                                     {isDownloading === license._id ? (
                                                         <span className="text-xs">...</span>
@@ -325,18 +416,87 @@ export default function BuyerDashboardPage() {
                                                 </Button>
                                             </TooltipTrigger>
                                             <TooltipContent>
-                                                <p>{license.status !== 'active' ? `License is ${license.status}` : 'Download License File'}</p>
+                                                <p>{license.status !== 'active' ? `License is ${license.status}` : isExpired ? 'License has expired' : 'Download License File'}</p>
                                             </TooltipContent>
                                         </Tooltip>
                                     </TooltipProvider>
                                 </TableCell>
                             </TableRow>
-                        ))
+                            );
+                        })
                     )}
                 </TableBody>
             </Table>
         </div>
       </main>
+      <Dialog open={!!seatsLicense} onOpenChange={(isOpen) => !isOpen && setSeatsLicenseId(null)}>
+        <DialogContent>
+            <DialogHeader>
+                <DialogTitle>Devices for {seatsLicense?.softwareTitle}</DialogTitle>
+                <DialogDescription>
+                    {seatsLicense?.devices?.length || 0} of {seatsLicense?.seats || 1} seats in use. Reset a device you no longer use to move its seat to a new one.
+                </DialogDescription>
+            </DialogHeader>
+            {resetStatus && !seatsLicense?.trial && (
+                <div className="rounded-lg border border-white/20 p-2 text-xs text-gray-300">
+                    <p>
+                        {resetStatus.remaining} of {resetStatus.policy.allowance} self-service {resetStatus.policy.allowance === 1 ? 'reset' : 'resets'} left in this {resetStatus.policy.periodDays}-day period.
+                        {resetStatus.remaining === 0 && ' Further resets need the seller\'s approval.'}
+                    </p>
+                    {resetStatus.cooldownUntil && <p className="text-yellow-300">Next reset possible after {new Date(resetStatus.cooldownUntil).toLocaleString()}.</p>}
+                    {resetStatus.pending && <p className="text-yellow-300">A reset request is waiting for the seller&apos;s approval.</p>}
+                </div>
+            )}
+            {resetStatus && resetStatus.remaining === 0 && !resetStatus.pending && !seatsLicense?.trial && (
+                <Textarea
+                    placeholder="Tell the seller why you need another reset (optional)"
+                    value={resetReason}
+                    onChange={(e) => setResetReason(e.target.value)}
+                    maxLength={500}
+                    className="border-white/20 bg-white/10 text-sm text-white placeholder:text-gray-400"
+                />
+            )}
+            <div className="space-y-2">
+                {seatsLicense?.devices?.map(device => (
+                    <div key={device.deviceId} className="flex items-center justify-between gap-4 rounded-lg bg-white/5 p-2 text-sm">
+                        <div className="min-w-0">
+                            <p className="font-medium">
+                                {device.label || <span className="font-mono text-xs" title={device.deviceId}>{`...${device.deviceId.slice(-8)}`}</span>}
+                                {device.deviceId === currentDeviceId && <span className="ml-2 text-xs text-green-400">(This device)</span>}
+                            </p>
+                            <p className="text-xs text-gray-400">
+                                Bound {new Date(device.boundAt).toLocaleDateString()}
+                                {device.lastSeenAt && ` · Last used ${new Date(device.lastSeenAt).toLocaleString()}`}
+                            </p>
+                        </div>
+                        {!seatsLicense.trial && seatsLicense.status === 'active' && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="border-white/30 bg-white/10 hover:bg-white/20"
+                                onClick={() => handleResetDevice(seatsLicense._id, device.deviceId)}
+                                disabled={resettingDevice !== null || !resetStatus || !!resetStatus.cooldownUntil || (resetStatus.remaining === 0 && resetStatus.pending)}
+                            >
+                                {resettingDevice === device.deviceId ? 'Resetting...' : resetStatus?.remaining === 0 ? 'Request Reset' : 'Reset'}
+                            </Button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {resetStatus && resetStatus.history.length > 0 && (
+                <div className="space-y-1">
+                    <h4 className="text-sm font-semibold">Reset History</h4>
+                    <div className="max-h-40 space-y-1 overflow-y-auto text-xs text-gray-400">
+                        {resetStatus.history.map(reset => (
+                            <p key={reset._id}>
+                                {new Date(reset.requestedAt).toLocaleString()} · {reset.deviceLabel || `...${reset.deviceId.slice(-8)}`} · <span className="capitalize">{reset.status === 'completed' ? 'Reset' : reset.status}</span>
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
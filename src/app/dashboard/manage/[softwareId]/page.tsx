@@ -5,11 +5,18 @@ import { useEffect, useState, useCallback } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, ShieldCheck, Ban, RefreshCcw, Flame, Zap } from 'lucide-react';
+import { ArrowLeft, ShieldCheck, Ban, RefreshCcw, Flame, Zap, KeyRound, UploadCloud, RotateCcw, Globe, Link2, Tag } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from '@/components/ui/badge';
 import { useToast } from "@/hooks/use-toast";
-import { getLicensesForSoftware } from '@/lib/auth';
+import { getDeviceResetRequests, getKeyRotationHistory, getLeaseUsage, getLicensesForSoftware, getReleasesForSoftware, getSoftwareChainListing } from '@/lib/auth';
+import { formatBytes, generateSecureKey, uploadFile } from '@/lib/upload-client';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,6 +28,28 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { cn } from '@/lib/utils';
+import { BrowserProvider, Contract, ZeroAddress } from 'ethers';
+import { SOFTWARE_LICENSE_ABI } from '@/lib/abi';
+import { displayPaymentToken, formatTokenAmount } from '@/lib/payment-tokens';
+import { findChain } from '@/lib/chains';
+import { ensureNetwork } from '@/lib/wallet-network';
+
+// The listing's price on one chain and the product registered on that chain's contract.
+// Prices are in the payment token's smallest unit; a null token is the native currency.
+type ChainOfferListing = {
+    chainId: number;
+    price: string;
+    paymentToken: string | null;
+    product: { seller: string; price: string; paymentToken: string | null; active: boolean } | null;
+    error?: string;
+};
+
+type ChainListing = {
+    softwareKey: string;
+    productId: string | null;
+    sellerWalletAddress: string | null;
+    chains: ChainOfferListing[];
+};
 
 type License = {
     _id: string;
@@ -29,9 +58,72 @@ type License = {
     mintDate: string;
     status: 'active' | 'revoked' | 'blocked';
     reason?: string;
+    seats?: number;
+    devicesBound?: number;
+    buyerIp?: string;
+    ipAllowList?: string[];
+};
+
+type ActionType = 'revoke' | 'reactivate' | 'block';
+
+const ACTION_TITLES: Record<ActionType, string> = {
+    revoke: 'Revoked',
+    reactivate: 'Reactivated',
+    block: 'Blocked',
+};
+
+type LicenseSyncIssue = {
+    licenseId: string;
+    tokenId: number;
+    databaseStatus: string;
+    chainState: 'active' | 'blocked' | 'burned' | 'unknown';
+    action: 'blocked-on-chain' | 'blocked-in-database' | 'revoked-in-database' | 'none';
+    error?: string;
+};
+
+const SYNC_ACTION_LABELS: Record<LicenseSyncIssue['action'], string> = {
+    'blocked-on-chain': 'Blocked on the blockchain',
+    'blocked-in-database': 'Marked blocked',
+    'revoked-in-database': 'Marked revoked',
+    'none': 'Not fixed',
+};
+
+type KeyRotation = {
+    _id: string;
+    status: 'running' | 'completed' | 'failed';
+    fromVersion?: number;
+    toVersion?: number;
+    startedAt: string;
+    completedAt?: string;
+    error?: string;
+};
+
+type LeaseUsage = Record<string, {
+    seats: number;
+    leases: Array<{ deviceId: string; label?: string; checkedOutAt: string; heartbeatAt: string; expiresAt: string }>;
+}>;
+
+type DeviceReset = {
+    _id: string;
+    licenseId: string;
+    buyerAddress: string;
+    deviceId: string;
+    deviceLabel?: string;
+    reason?: string;
+    status: 'completed' | 'pending' | 'approved' | 'rejected';
+    requestedAt: string;
+    decidedAt?: string;
 };
 
-type ActionType = 'revoke' | 'reactivate';
+type Release = {
+    _id: string;
+    version: string;
+    channel: 'stable' | 'beta';
+    changelog: string;
+    releasedAt: string;
+    fileName?: string;
+    fileSize?: number;
+};
 
 export default function ManageSoftwarePage({ params }: { params: { softwareId: string } }) {
   const { toast } = useToast();
@@ -40,6 +132,30 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
   const [isProcessing, setIsProcessing] = useState<string | null>(null); // Store ID of license being processed
   const [selectedLicense, setSelectedLicense] = useState<License | null>(null);
   const [actionType, setActionType] = useState<ActionType | null>(null);
+  const [blockReason, setBlockReason] = useState("");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncIssues, setSyncIssues] = useState<LicenseSyncIssue[] | null>(null);
+  const [keyVersion, setKeyVersion] = useState(1);
+  const [rotations, setRotations] = useState<KeyRotation[]>([]);
+  const [isRotateDialogOpen, setIsRotateDialogOpen] = useState(false);
+  const [isStartingRotation, setIsStartingRotation] = useState(false);
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [releaseVersion, setReleaseVersion] = useState("");
+  const [releaseChannel, setReleaseChannel] = useState<'stable' | 'beta'>('stable');
+  const [changelog, setChangelog] = useState("");
+  const [releaseFile, setReleaseFile] = useState<File | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishProgress, setPublishProgress] = useState(0);
+  const [deviceResets, setDeviceResets] = useState<DeviceReset[]>([]);
+  const [decidingReset, setDecidingReset] = useState<string | null>(null);
+  const [isFloating, setIsFloating] = useState(false);
+  const [leaseUsage, setLeaseUsage] = useState<LeaseUsage>({});
+  const [ipLicense, setIpLicense] = useState<License | null>(null);
+  const [ipRanges, setIpRanges] = useState("");
+  const [isSavingIpRanges, setIsSavingIpRanges] = useState(false);
+  const [chainListing, setChainListing] = useState<ChainListing | null>(null);
+  // The chain whose price is being published.
+  const [publishingChainId, setPublishingChainId] = useState<number | null>(null);
 
   const fetchLicenses = useCallback(async () => {
     setIsLoading(true);
@@ -58,13 +174,260 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
     }
   }, [params.softwareId, toast]);
 
+  const fetchRotations = useCallback(async () => {
+    const history = await getKeyRotationHistory(params.softwareId);
+    setKeyVersion(history.keyVersion);
+    setRotations(history.rotations);
+  }, [params.softwareId]);
+
+  const fetchReleases = useCallback(async () => {
+    setReleases(await getReleasesForSoftware(params.softwareId));
+  }, [params.softwareId]);
+
+  const fetchLeaseUsage = useCallback(async () => {
+    const result = await getLeaseUsage(params.softwareId);
+    setIsFloating(result.floating);
+    setLeaseUsage(result.usage);
+  }, [params.softwareId]);
+
+  // Leases come and go with every heartbeat, so floating usage is refreshed while the page is open.
+  useEffect(() => {
+    fetchLeaseUsage();
+    if (!isFloating) return;
+    const interval = setInterval(fetchLeaseUsage, 15000);
+    return () => clearInterval(interval);
+  }, [isFloating, fetchLeaseUsage]);
+
+  const fetchDeviceResets = useCallback(async () => {
+    setDeviceResets(await getDeviceResetRequests(params.softwareId));
+  }, [params.softwareId]);
+
+  const fetchChainListing = useCallback(async () => {
+    const result = await getSoftwareChainListing(params.softwareId);
+    setChainListing(result.success && result.listing ? result.listing : null);
+  }, [params.softwareId]);
+
   useEffect(() => {
     fetchLicenses();
-  }, [fetchLicenses]);
+    fetchRotations();
+    fetchReleases();
+    fetchDeviceResets();
+    fetchChainListing();
+  }, [fetchLicenses, fetchRotations, fetchReleases, fetchDeviceResets, fetchChainListing]);
+
+  // Buyers purchase through each chain's contract, which charges the price the seller registered there, in the registered token.
+  const isOfferCurrent = (offer: ChainOfferListing) => !!offer.product && offer.product.active && offer.product.price === offer.price
+    && offer.product.paymentToken?.toLowerCase() === offer.paymentToken?.toLowerCase();
+
+  const describeOffer = (offer: ChainOfferListing) => {
+    const chain = findChain(offer.chainId);
+    if (offer.error) {
+        return offer.error;
+    }
+    if (!offer.product) {
+        return "Not published. Buyers cannot purchase this software here until you publish its price.";
+    }
+    const registered = formatTokenAmount(offer.product.price, displayPaymentToken(chain, offer.product.paymentToken));
+    if (isOfferCurrent(offer)) {
+        return `Published at ${registered} per seat. Payments go to your wallet, less the platform fee.`;
+    }
+    return `Out of date: the blockchain lists ${registered} per seat${offer.product.active ? '' : ' and off sale'}, the listing ${formatTokenAmount(offer.price, displayPaymentToken(chain, offer.paymentToken))}. Publish again to resume sales.`;
+  };
+
+  const handlePublishPrice = async (offer: ChainOfferListing) => {
+    const chain = findChain(offer.chainId);
+    if (!chainListing || !chain) return;
+    if (typeof window.ethereum === 'undefined') {
+        toast({ title: "MetaMask not found", description: "Please install MetaMask to publish the price.", variant: "destructive" });
+        return;
+    }
+    setPublishingChainId(offer.chainId);
+    try {
+        const provider = new BrowserProvider(window.ethereum);
+        await provider.send("eth_requestAccounts", []);
+        const networkError = await ensureNetwork(provider, chain);
+        if (networkError) {
+            toast({ title: "Wrong Network", description: networkError, variant: "destructive" });
+            return;
+        }
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+        if (address.toLowerCase() !== chainListing.sellerWalletAddress?.toLowerCase()) {
+            toast({ title: "Wrong Wallet", description: "Switch MetaMask to the wallet on your seller account, which receives the payments.", variant: "destructive" });
+            return;
+        }
+
+        toast({ title: "Publishing Price...", description: "Please confirm the transaction in MetaMask." });
+        const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, signer);
+        const tx = await contract.registerProduct(chainListing.softwareKey, BigInt(offer.price), offer.paymentToken || ZeroAddress);
+        await tx.wait();
+        toast({ title: "Price Published", description: `Buyers can now purchase this software on ${chain.name}.` });
+    } catch (error: any) {
+        console.error("Publishing the price failed:", error);
+        toast({ title: "Publishing Failed", description: error.reason || error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+        setPublishingChainId(null);
+        fetchChainListing();
+    }
+  };
+
+  const handleDecideReset = async (reset: DeviceReset, decision: 'approve' | 'reject') => {
+    setDecidingReset(reset._id);
+    try {
+        const response = await fetch('/api/license/device-reset', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ requestId: reset._id, decision }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+            toast({ title: decision === 'approve' ? "Reset Approved" : "Reset Rejected", description: result.message });
+        } else {
+            toast({ title: "Action Failed", description: result.message || "An unexpected error occurred.", variant: "destructive" });
+        }
+    } catch (error) {
+        toast({ title: "API Error", description: "Could not connect to the device reset endpoint.", variant: "destructive" });
+    } finally {
+        setDecidingReset(null);
+        fetchDeviceResets();
+        fetchLicenses();
+    }
+  };
+
+  const openIpDialog = (license: License) => {
+    setIpLicense(license);
+    setIpRanges((license.ipAllowList || []).join('\n'));
+  };
+
+  const handleSaveIpRanges = async () => {
+    if (!ipLicense) return;
+    setIsSavingIpRanges(true);
+    try {
+        const ranges = ipRanges.split(/[\s,]+/).filter(Boolean);
+        const response = await fetch('/api/license/ip-allow-list', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ licenseId: ipLicense._id, ranges }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+            toast({ title: "IP Access Updated", description: result.message });
+            setIpLicense(null);
+            fetchLicenses();
+        } else {
+            toast({ title: "Update Failed", description: result.message || "An unexpected error occurred.", variant: "destructive" });
+        }
+    } catch (error) {
+        toast({ title: "API Error", description: "Could not connect to the IP allow-list endpoint.", variant: "destructive" });
+    } finally {
+        setIsSavingIpRanges(false);
+    }
+  };
+
+  const handlePublishRelease = async () => {
+    if (!releaseFile || !releaseVersion) {
+        toast({ title: "Missing Information", description: "Choose a file and enter a version for the release.", variant: "destructive" });
+        return;
+    }
+
+    setIsPublishing(true);
+    setPublishProgress(0);
+    try {
+        // Every release gets its own content key, exactly like a new listing.
+        const fileResult = await uploadFile(releaseFile, generateSecureKey(), (sent) => {
+            setPublishProgress(releaseFile.size > 0 ? (sent / releaseFile.size) * 95 : 95);
+        });
+        if (!fileResult.success || !fileResult.uploadId) {
+            toast({ title: "Upload Error", description: fileResult.message || 'The file could not be uploaded.', variant: "destructive" });
+            return;
+        }
+
+        const response = await fetch('/api/software/releases', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ softwareId: params.softwareId, uploadId: fileResult.uploadId, version: releaseVersion, changelog, channel: releaseChannel }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+            setPublishProgress(100);
+            toast({ title: "Release Published", description: result.message });
+            setReleaseVersion("");
+            setChangelog("");
+            setReleaseFile(null);
+            fetchReleases();
+        } else {
+            toast({ title: "Publish Failed", description: result.message || "An unexpected error occurred.", variant: "destructive" });
+        }
+    } catch (error: any) {
+        toast({ title: "Upload Error", description: error.message || "Could not publish the release.", variant: "destructive" });
+    } finally {
+        setIsPublishing(false);
+    }
+  };
+
+  // Re-encryption runs in the background, so poll until the running rotation finishes.
+  const isRotationRunning = rotations.some(rotation => rotation.status === 'running');
+  useEffect(() => {
+    if (!isRotationRunning) return;
+    const interval = setInterval(fetchRotations, 3000);
+    return () => clearInterval(interval);
+  }, [isRotationRunning, fetchRotations]);
+
+  const handleRotateKey = async () => {
+    setIsRotateDialogOpen(false);
+    setIsStartingRotation(true);
+    try {
+        const response = await fetch('/api/software/rotate-key', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ softwareId: params.softwareId }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+            toast({ title: "Key Rotation Started", description: result.message });
+        } else {
+            toast({ title: "Key Rotation Failed", description: result.message || "An unexpected error occurred.", variant: "destructive" });
+        }
+    } catch (error) {
+        toast({ title: "API Error", description: "Could not connect to the key rotation endpoint.", variant: "destructive" });
+    } finally {
+        setIsStartingRotation(false);
+        fetchRotations();
+    }
+  };
 
   const openConfirmationModal = (license: License, action: ActionType) => {
     setSelectedLicense(license);
     setActionType(action);
+    setBlockReason("");
+  };
+
+  const handleSyncWithChain = async () => {
+    setIsSyncing(true);
+    try {
+        const response = await fetch('/api/software/reconcile-licenses', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ softwareId: params.softwareId }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+            setSyncIssues(result.issues);
+            toast({ title: "Blockchain Sync Complete", description: result.message });
+            fetchLicenses();
+        } else {
+            toast({ title: "Sync Failed", description: result.message || "An unexpected error occurred.", variant: "destructive" });
+        }
+    } catch (error) {
+        toast({ title: "API Error", description: "Could not connect to the reconciliation endpoint.", variant: "destructive" });
+    } finally {
+        setIsSyncing(false);
+    }
   };
   
   const handleConfirmAction = async () => {
@@ -78,14 +441,14 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
         const response = await fetch(endpoint, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ licenseId: selectedLicense._id }),
+            body: JSON.stringify({ licenseId: selectedLicense._id, ...(actionType === 'block' ? { reason: blockReason } : {}) }),
         });
         
         const result = await response.json();
         
         if (response.ok && result.success) {
             toast({
-                title: `License ${actionType === 'revoke' ? 'Revoked' : 'Reactivated'}`,
+                title: `License ${ACTION_TITLES[actionType]}`,
                 description: result.message,
             });
             fetchLicenses(); // Refresh the list
@@ -154,15 +517,249 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
         </div>
       </header>
       <main className="flex flex-1 flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <div className="rounded-xl border border-white/20 bg-white/10 p-4 shadow-lg backdrop-blur-xl space-y-4">
+            <div>
+                <h2 className="text-xl font-bold">Releases</h2>
+                <p className="text-sm text-gray-300">
+                    Publish an update for existing license holders. Stable releases reach every buyer; beta releases only reach buyers who opt in.
+                </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                    <Label htmlFor="release-version">Version</Label>
+                    <Input id="release-version" placeholder="e.g. 1.1.0" value={releaseVersion} onChange={(e) => setReleaseVersion(e.target.value)} disabled={isPublishing} className="bg-white/10 border-white/20 text-white placeholder:text-gray-400" />
+                </div>
+                <div className="space-y-2">
+                    <Label>Channel</Label>
+                    <Select value={releaseChannel} onValueChange={(value) => setReleaseChannel(value as 'stable' | 'beta')} disabled={isPublishing}>
+                        <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="stable">Stable</SelectItem>
+                            <SelectItem value="beta">Beta</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="release-file">File</Label>
+                    <Input id="release-file" type="file" onChange={(e) => setReleaseFile(e.target.files?.[0] || null)} disabled={isPublishing} className="bg-white/10 border-white/20 text-white file:text-white" />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="release-changelog">Changelog</Label>
+                <Textarea id="release-changelog" placeholder="What changed in this release?" value={changelog} onChange={(e) => setChangelog(e.target.value)} disabled={isPublishing} className="bg-white/10 border-white/20 text-white placeholder:text-gray-400" />
+            </div>
+            {isPublishing && (
+                <div className="space-y-1">
+                    <Progress value={publishProgress} />
+                    <p className="text-xs text-gray-300">
+                        {publishProgress < 95 && releaseFile ? `${formatBytes((publishProgress / 95) * releaseFile.size)} of ${formatBytes(releaseFile.size)}` : 'Publishing release...'}
+                    </p>
+                </div>
+            )}
+            <Button
+                variant="outline"
+                className="border-white/30 bg-white/20 hover:bg-white/30"
+                onClick={handlePublishRelease}
+                disabled={isPublishing}
+            >
+                <UploadCloud className="mr-2 h-4 w-4" />
+                {isPublishing ? 'Publishing...' : 'Publish Release'}
+            </Button>
+            {releases.length > 0 && (
+                <Table>
+                    <TableHeader>
+                        <TableRow className="border-b-white/20 hover:bg-transparent">
+                            <TableHead className="text-white">Version</TableHead>
+                            <TableHead className="text-white">Channel</TableHead>
+                            <TableHead className="text-white">Released</TableHead>
+                            <TableHead className="text-white">File</TableHead>
+                            <TableHead className="text-white">Changelog</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {releases.map((release) => (
+                            <TableRow key={release._id} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
+                                <TableCell className="font-mono text-sm text-white">{release.version}</TableCell>
+                                <TableCell className="text-sm capitalize text-white">{release.channel}</TableCell>
+                                <TableCell className="text-sm text-white">{new Date(release.releasedAt).toLocaleString()}</TableCell>
+                                <TableCell className="text-sm text-gray-400">
+                                    {release.fileName || 'N/A'}{typeof release.fileSize === 'number' ? ` (${formatBytes(release.fileSize)})` : ''}
+                                </TableCell>
+                                <TableCell className="whitespace-pre-line text-sm text-gray-400">{release.changelog || 'N/A'}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            )}
+        </div>
+        {chainListing && (
+            <div className="rounded-xl border border-white/20 bg-white/10 p-4 shadow-lg backdrop-blur-xl">
+                <h2 className="text-xl font-bold">Blockchain Listing</h2>
+                <div className="mt-2 space-y-3">
+                    {chainListing.chains.map(offer => (
+                        <div key={offer.chainId} className="flex flex-wrap items-center justify-between gap-4">
+                            <div>
+                                <p className="font-medium">{findChain(offer.chainId)?.name || `Chain ${offer.chainId}`}</p>
+                                <p className="text-sm text-gray-300">{describeOffer(offer)}</p>
+                            </div>
+                            {!offer.error && !isOfferCurrent(offer) && (
+                                <Button
+                                    variant="outline"
+                                    className="border-white/30 bg-white/20 hover:bg-white/30"
+                                    onClick={() => handlePublishPrice(offer)}
+                                    disabled={publishingChainId !== null || !chainListing.sellerWalletAddress}
+                                >
+                                    <Tag className="mr-2 h-4 w-4" />
+                                    {publishingChainId === offer.chainId ? 'Publishing...' : 'Publish Price'}
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+        <div className="rounded-xl border border-white/20 bg-white/10 p-4 shadow-lg backdrop-blur-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-xl font-bold">Content Key</h2>
+                    <p className="text-sm text-gray-300">
+                        Version {keyVersion}. Rotate the key if it may have leaked: every release is re-encrypted and existing licenses keep working.
+                    </p>
+                </div>
+                <Button
+                    variant="outline"
+                    className="border-white/30 bg-white/20 hover:bg-white/30"
+                    onClick={() => setIsRotateDialogOpen(true)}
+                    disabled={isRotationRunning || isStartingRotation}
+                >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    {isRotationRunning ? 'Rotating...' : 'Rotate Key'}
+                </Button>
+            </div>
+            {rotations.length > 0 && (
+                <Table>
+                    <TableHeader>
+                        <TableRow className="border-b-white/20 hover:bg-transparent">
+                            <TableHead className="text-white">Started</TableHead>
+                            <TableHead className="text-white">Version</TableHead>
+                            <TableHead className="text-white">Status</TableHead>
+                            <TableHead className="text-white">Details</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rotations.map((rotation) => (
+                            <TableRow key={rotation._id} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
+                                <TableCell className="text-sm text-white">{new Date(rotation.startedAt).toLocaleString()}</TableCell>
+                                <TableCell className="text-sm text-white">
+                                    {rotation.fromVersion ? `${rotation.fromVersion} → ${rotation.toVersion ?? rotation.fromVersion + 1}` : 'N/A'}
+                                </TableCell>
+                                <TableCell className="text-sm capitalize text-white">{rotation.status}</TableCell>
+                                <TableCell className="text-sm text-gray-400">
+                                    {rotation.error || (rotation.completedAt ? `Finished ${new Date(rotation.completedAt).toLocaleString()}` : 'Re-encrypting...')}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            )}
+        </div>
+        <div className="rounded-xl border border-white/20 bg-white/10 p-4 shadow-lg backdrop-blur-xl space-y-4">
+            <div>
+                <h2 className="text-xl font-bold">Device Resets</h2>
+                <p className="text-sm text-gray-300">
+                    Buyers move licenses to new devices within the allowance you set. Requests beyond it wait here for your decision.
+                </p>
+            </div>
+            {deviceResets.length === 0 ? (
+                <p className="text-sm text-gray-400">No device resets yet.</p>
+            ) : (
+                <Table>
+                    <TableHeader>
+                        <TableRow className="border-b-white/20 hover:bg-transparent">
+                            <TableHead className="text-white">Requested</TableHead>
+                            <TableHead className="text-white">Buyer Wallet</TableHead>
+                            <TableHead className="text-white">Device</TableHead>
+                            <TableHead className="text-white">Reason</TableHead>
+                            <TableHead className="text-white">Status</TableHead>
+                            <TableHead className="text-right text-white">Actions</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {deviceResets.map((reset) => (
+                            <TableRow key={reset._id} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
+                                <TableCell className="text-sm text-white">{new Date(reset.requestedAt).toLocaleString()}</TableCell>
+                                <TableCell className="font-mono text-xs text-white">{reset.buyerAddress}</TableCell>
+                                <TableCell className="text-sm text-gray-300" title={reset.deviceId}>{reset.deviceLabel || `...${reset.deviceId.slice(-8)}`}</TableCell>
+                                <TableCell className="text-sm text-gray-400">{reset.reason || 'N/A'}</TableCell>
+                                <TableCell className="text-sm capitalize text-white">{reset.status === 'completed' ? 'Self-service' : reset.status}</TableCell>
+                                <TableCell className="text-right">
+                                    {reset.status === 'pending' && (
+                                        <div className="flex justify-end gap-2">
+                                            <Button variant="outline" size="sm" className="border-green-500/50 bg-green-500/20 text-green-300 hover:bg-green-500/30" onClick={() => handleDecideReset(reset, 'approve')} disabled={decidingReset !== null}>
+                                                <RotateCcw className="mr-1 h-3 w-3" /> Approve
+                                            </Button>
+                                            <Button variant="outline" size="sm" className="border-red-500/50 bg-red-500/20 text-red-300 hover:bg-red-500/30" onClick={() => handleDecideReset(reset, 'reject')} disabled={decidingReset !== null}>
+                                                Reject
+                                            </Button>
+                                        </div>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            )}
+        </div>
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold">Manage Licenses</h1>
+          <Button
+              variant="outline"
+              className="border-white/30 bg-white/20 hover:bg-white/30"
+              onClick={handleSyncWithChain}
+              disabled={isSyncing || isLoading}
+              title="Compare every license's status with the blockchain and fix mismatches"
+          >
+              <Link2 className="mr-2 h-4 w-4" />
+              {isSyncing ? 'Checking...' : 'Sync with Blockchain'}
+          </Button>
         </div>
+        {syncIssues && syncIssues.length > 0 && (
+            <div className="rounded-xl border border-yellow-500/30 bg-yellow-500/10 p-4 shadow-lg backdrop-blur-xl space-y-2">
+                <h2 className="font-semibold text-yellow-200">Status Mismatches</h2>
+                <Table>
+                    <TableHeader>
+                        <TableRow className="border-b-white/20 hover:bg-transparent">
+                            <TableHead className="text-white">Token ID</TableHead>
+                            <TableHead className="text-white">Database</TableHead>
+                            <TableHead className="text-white">Blockchain</TableHead>
+                            <TableHead className="text-white">Result</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {syncIssues.map((issue) => (
+                            <TableRow key={issue.licenseId} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
+                                <TableCell className="font-mono text-sm text-white">{issue.tokenId}</TableCell>
+                                <TableCell className="text-sm capitalize text-white">{issue.databaseStatus}</TableCell>
+                                <TableCell className="text-sm capitalize text-white">{issue.chainState}</TableCell>
+                                <TableCell className={cn("text-sm", issue.error ? "text-red-300" : "text-gray-300")}>
+                                    {issue.error || SYNC_ACTION_LABELS[issue.action]}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        )}
         <div className="rounded-xl border border-white/20 bg-white/10 p-4 shadow-lg backdrop-blur-xl">
             <Table>
                 <TableHeader>
                     <TableRow className="border-b-white/20 hover:bg-transparent">
                         <TableHead className="text-white">Buyer Wallet</TableHead>
                         <TableHead className="text-white">Token ID</TableHead>
+                        <TableHead className="text-white text-center">{isFloating ? 'Leases In Use' : 'Seats Used'}</TableHead>
+                        <TableHead className="text-white">IP Access</TableHead>
                         <TableHead className="text-white">Status</TableHead>
                         <TableHead className="text-white">Reason</TableHead>
                         <TableHead className="text-right text-white">Actions</TableHead>
@@ -171,13 +768,13 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
                 <TableBody>
                     {isLoading ? (
                         <TableRow className="border-b-0 hover:bg-transparent">
-                           <TableCell colSpan={5} className="text-center text-gray-300 py-12">
+                           <TableCell colSpan={7} className="text-center text-gray-300 py-12">
                                Loading licenses...
                            </TableCell>
                         </TableRow>
                     ) : licenses.length === 0 ? (
                         <TableRow className="border-b-0 hover:bg-transparent">
-                            <TableCell colSpan={5} className="text-center text-gray-300 py-12">
+                            <TableCell colSpan={7} className="text-center text-gray-300 py-12">
                                 No licenses have been sold for this software yet.
                             </TableCell>
                         </TableRow>
@@ -190,6 +787,29 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
                                 <TableCell className="font-mono text-sm text-center text-white">
                                     {license.tokenId}
                                 </TableCell>
+                                <TableCell className="text-sm text-center text-gray-300">
+                                    {isFloating ? (
+                                        <div className="space-y-1">
+                                            <p className="text-white">{leaseUsage[license._id]?.leases.length || 0} / {leaseUsage[license._id]?.seats || license.seats || 1}</p>
+                                            {leaseUsage[license._id]?.leases.map(lease => (
+                                                <p key={lease.deviceId} className="text-xs text-gray-400" title={`Checked out ${new Date(lease.checkedOutAt).toLocaleString()}`}>
+                                                    {lease.label || `...${lease.deviceId.slice(-8)}`} &middot; seen {new Date(lease.heartbeatAt).toLocaleTimeString()}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <>{license.devicesBound || 0} / {license.seats || 1}</>
+                                    )}
+                                </TableCell>
+                                <TableCell className="text-sm text-gray-300">
+                                    <button type="button" className="flex items-center gap-2 text-left hover:text-white" onClick={() => openIpDialog(license)}>
+                                        <Globe className="h-4 w-4 shrink-0" />
+                                        <span>
+                                            {license.buyerIp ? <span className="font-mono text-xs">{license.buyerIp}</span> : 'Any address'}
+                                            {license.ipAllowList?.length ? <span className="block text-xs text-gray-400">+ {license.ipAllowList.length} allowed {license.ipAllowList.length === 1 ? 'range' : 'ranges'}</span> : null}
+                                        </span>
+                                    </button>
+                                </TableCell>
                                 <TableCell>
                                     <Badge variant={license.status === 'active' ? 'default' : license.status === 'blocked' ? 'destructive' : 'secondary'}
                                     className={
@@ -221,6 +841,18 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
                                             Reactivate
                                         </Button>
                                     )}
+                                    {license.status === 'active' && (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="mr-2 border-yellow-500/30 bg-yellow-500/10 text-yellow-300 hover:bg-yellow-500/20"
+                                            onClick={() => openConfirmationModal(license, 'block')}
+                                            disabled={isProcessing === license._id}
+                                        >
+                                            <Ban className="mr-2 h-4 w-4" />
+                                            Block
+                                        </Button>
+                                    )}
                                     {license.status !== 'revoked' && (
                                          <Button 
                                             variant="outline" 
@@ -251,22 +883,78 @@ export default function ManageSoftwarePage({ params }: { params: { softwareId: s
             <AlertDialogDescription>
                 {actionType === 'revoke'
                     ? "This will permanently revoke the license by burning the NFT. This action cannot be undone."
-                    : "This will reactivate the license, allowing the user to access the software again. The block reason will be cleared."
+                    : actionType === 'block'
+                    ? "This will block the license on the blockchain and stop it from receiving decryption keys until you reactivate it."
+                    : "This will lift the license's block on the blockchain, allowing the user to access the software again. The block reason will be cleared."
                 }
             </AlertDialogDescription>
             </AlertDialogHeader>
+            {actionType === 'block' && (
+                <Textarea
+                    placeholder="Reason for the block (optional)"
+                    value={blockReason}
+                    onChange={(e) => setBlockReason(e.target.value)}
+                    maxLength={500}
+                />
+            )}
             <AlertDialogFooter>
             <AlertDialogCancel onClick={() => setSelectedLicense(null)}>Cancel</AlertDialogCancel>
             <AlertDialogAction
                 onClick={handleConfirmAction}
                 className={actionType === 'revoke' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
             >
-               {actionType === 'revoke' ? 'Yes, Revoke License' : 'Yes, Reactivate'}
+               {actionType === 'revoke' ? 'Yes, Revoke License' : actionType === 'block' ? 'Yes, Block License' : 'Yes, Reactivate'}
             </AlertDialogAction>
             </AlertDialogFooter>
         </AlertDialogContent>
     </AlertDialog>
 
+    <Dialog open={!!ipLicense} onOpenChange={(isOpen) => !isOpen && setIpLicense(null)}>
+        <DialogContent>
+            <DialogHeader>
+                <DialogTitle>IP Access for Token #{ipLicense?.tokenId}</DialogTitle>
+                <DialogDescription>
+                    {ipLicense?.buyerIp
+                        ? `This license is locked to ${ipLicense.buyerIp}. Keys are also handed out to addresses in the ranges below, e.g. for a buyer's office network or VPN.`
+                        : "This license is not locked to an address. Listing ranges here restricts it to those networks."}
+                </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+                <Label htmlFor="ip-ranges">Allowed Ranges</Label>
+                <Textarea
+                    id="ip-ranges"
+                    placeholder={"One address or CIDR range per line, e.g.\n203.0.113.0/24\n2001:db8::/48"}
+                    value={ipRanges}
+                    onChange={(e) => setIpRanges(e.target.value)}
+                    disabled={isSavingIpRanges}
+                    rows={6}
+                    className="font-mono text-sm"
+                />
+            </div>
+            <DialogFooter>
+                <Button variant="outline" onClick={() => setIpLicense(null)} disabled={isSavingIpRanges}>Cancel</Button>
+                <Button onClick={handleSaveIpRanges} disabled={isSavingIpRanges}>
+                    {isSavingIpRanges ? 'Saving...' : 'Save Ranges'}
+                </Button>
+            </DialogFooter>
+        </DialogContent>
+    </Dialog>
+
+    <AlertDialog open={isRotateDialogOpen} onOpenChange={setIsRotateDialogOpen}>
+        <AlertDialogContent>
+            <AlertDialogHeader>
+            <AlertDialogTitle>Rotate the content key?</AlertDialogTitle>
+            <AlertDialogDescription>
+                A new key will be generated for every release and its stored file re-encrypted with it. The old key stops working once the rotation completes. Buyers keep access and are served the new files automatically.
+            </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotateKey}>Yes, Rotate Key</AlertDialogAction>
+            </AlertDialogFooter>
+        </AlertDialogContent>
+    </AlertDialog>
+
     </>
   );
 }
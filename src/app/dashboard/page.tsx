@@ -19,8 +19,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { useToast } from "@/hooks/use-toast";
-import { getMySoftware, deleteUserAccount } from '@/lib/auth';
+import { getMySoftware, deleteUserAccount, getCurrentUser, signOut } from '@/lib/auth';
 import { cn } from '@/lib/utils';
+import { displayPaymentToken, formatPrice } from '@/lib/payment-tokens';
+import { findChain, getChains, softwareOffers, type ChainOffer } from '@/lib/chains';
 import { BrowserProvider } from 'ethers';
 import { MetaMaskIcon } from '@/components/ui/metamask-icon';
 
@@ -37,13 +39,25 @@ const iconComponents: { [key: string]: React.FC<React.SVGProps<SVGSVGElement>> }
 type Software = {
     _id: string;
     title: string;
-    price: number;
+    price?: number;
+    paymentToken?: string;
+    chains?: ChainOffer[];
     createdAt: string;
     totalLicenses: number;
     activeLicenses: number;
     blockedLicenses: number;
 };
 
+// A listing's price on every chain it is sold on; the chain is only named when there is a choice.
+function formatOffers(software: Software): string {
+  const named = getChains().length > 1;
+  return softwareOffers(software).map(offer => {
+    const chain = findChain(offer.chainId);
+    const price = formatPrice(offer.price, displayPaymentToken(chain, offer.paymentToken));
+    return named ? `${price} on ${chain?.name || `chain ${offer.chainId}`}` : price;
+  }).join(', ');
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const { toast } = useToast();
@@ -61,22 +75,19 @@ export default function DashboardPage() {
 
 
   const fetchSoftware = useCallback(async () => {
-    const user = sessionStorage.getItem('username');
-    if (user) {
-        setIsLoading(true);
-        try {
-            const softwareList = await getMySoftware(user);
-            setMySoftware(softwareList);
-        } catch (error) {
-            console.error("Failed to fetch software:", error);
-            toast({
-                title: "Error",
-                description: "Could not load your software.",
-                variant: "destructive"
-            });
-        } finally {
-            setIsLoading(false);
-        }
+    setIsLoading(true);
+    try {
+        const softwareList = await getMySoftware();
+        setMySoftware(softwareList);
+    } catch (error) {
+        console.error("Failed to fetch software:", error);
+        toast({
+            title: "Error",
+            description: "Could not load your software.",
+            variant: "destructive"
+        });
+    } finally {
+        setIsLoading(false);
     }
   }, [toast]);
 
@@ -106,19 +117,18 @@ export default function DashboardPage() {
   }, []);
 
   useEffect(() => {
-    const storedUsername = sessionStorage.getItem('username');
-    if (storedUsername) {
-      setUsername(storedUsername);
-      const sessionProfileIcon = sessionStorage.getItem('profileIcon');
-      setProfileIcon(sessionProfileIcon || null);
-    } else {
-      router.push('/');
-    }
-  }, [router]);
-  
-  useEffect(() => {
-    fetchSoftware();
-  }, [fetchSoftware]);
+    const loadUser = async () => {
+      const user = await getCurrentUser();
+      if (user) {
+        setUsername(user.username);
+        setProfileIcon(user.profileIcon || null);
+        fetchSoftware();
+      } else {
+        router.push('/');
+      }
+    };
+    loadUser();
+  }, [router, fetchSoftware]);
 
   const handleConnectWallet = async () => {
     if (typeof window.ethereum === 'undefined') {
@@ -148,9 +158,8 @@ export default function DashboardPage() {
   };
 
 
-  const handleSignOut = () => {
-    sessionStorage.removeItem('username');
-    sessionStorage.removeItem('profileIcon');
+  const handleSignOut = async () => {
+    await signOut();
     sessionStorage.removeItem('walletAddress');
     router.push('/');
   };
@@ -158,7 +167,7 @@ export default function DashboardPage() {
   const handleDeleteAccount = async () => {
     if (!username) return;
     setIsDeleting(true);
-    const result = await deleteUserAccount(username);
+    const result = await deleteUserAccount();
     setIsDeleting(false);
 
     if (result.success) {
@@ -351,7 +360,7 @@ export default function DashboardPage() {
                             mySoftware.map((software) => (
                                 <TableRow key={software._id} className="border-b-white/20 hover:bg-white/10 last:border-b-0">
                                     <TableCell className="font-medium text-white">{software.title}</TableCell>
-                                    <TableCell className="text-center text-white">{software.price > 0 ? `${software.price} POL` : 'Free'}</TableCell>
+                                    <TableCell className="text-center text-white">{formatOffers(software)}</TableCell>
                                     <TableCell className="text-center text-white">{software.totalLicenses}</TableCell>
                                     <TableCell className="text-center text-green-400">{software.activeLicenses}</TableCell>
                                     <TableCell className="text-center text-yellow-400">{software.blockedLicenses}</TableCell>
@@ -28,39 +28,25 @@ export default function ProfilePage() {
   const [isSaving, setIsSaving] = useState<boolean>(false);
 
   useEffect(() => {
-    const storedUsername = sessionStorage.getItem('username');
-    if (storedUsername) {
-      setUsername(storedUsername);
-      const fetchProfile = async () => {
-        const profile = await getUserProfile(storedUsername);
-        if (profile?.profileIcon) {
-          setSelectedIcon(profile.profileIcon);
-        } else {
-          // Fallback to session storage if DB is not updated yet or fails
-          const sessionProfileIcon = sessionStorage.getItem('profileIcon');
-          if (sessionProfileIcon) {
-            setSelectedIcon(sessionProfileIcon);
-          }
-        }
-      };
-      fetchProfile();
-    } else {
-      router.push('/');
-    }
+    const fetchProfile = async () => {
+      const profile = await getUserProfile();
+      if (profile) {
+        setUsername(profile.username);
+        setSelectedIcon(profile.profileIcon);
+      } else {
+        router.push('/');
+      }
+    };
+    fetchProfile();
   }, [router]);
   
   const handleSaveChanges = async () => {
     if (!username) return;
     setIsSaving(true);
     
-    const result = await updateUserProfile(username, { profileIcon: selectedIcon });
+    const result = await updateUserProfile({ profileIcon: selectedIcon });
 
     if (result.success) {
-      if (selectedIcon) {
-        sessionStorage.setItem('profileIcon', selectedIcon);
-      } else {
-        sessionStorage.removeItem('profileIcon');
-      }
       toast({
         title: "Profile Updated",
         description: "Your profile icon has been saved.",
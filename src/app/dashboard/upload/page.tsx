@@ -1,11 +1,11 @@
 
 "use client";
 
-import { useState, useEffect, useRef } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
-import { ArrowLeft, UploadCloud, File, X, Wallet, Fingerprint, Globe, KeyRound, Zap } from 'lucide-react';
+import { ArrowLeft, UploadCloud, File, X, Wallet, Fingerprint, Globe, KeyRound, Zap, Timer, RotateCcw, Users, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from "@/components/ui/label";
@@ -15,11 +15,24 @@ import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { formatBytes, generateSecureKey, uploadFile } from '@/lib/upload-client';
+import { DEFAULT_DEVICE_RESET_POLICY, DEFAULT_TERM_DAYS, DEFAULT_TRIAL_DAYS } from '@/lib/license-terms';
+import { getPaymentTokens } from '@/lib/payment-tokens';
+import { getChains, getDefaultChain } from '@/lib/chains';
 
-function generateSecureKey() {
-    const array = new Uint8Array(32);
-    crypto.getRandomValues(array);
-    return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+// The chains a listing can be sold on. Each has its own price, in one of the chain's currencies.
+const CHAINS = getChains();
+
+interface OfferForm {
+    enabled: boolean;
+    price: string;
+    // The token's address, or "native" for the chain's native currency.
+    paymentToken: string;
+}
+
+function initialOffers(): Record<number, OfferForm> {
+    const defaultChainId = getDefaultChain().chainId;
+    return Object.fromEntries(CHAINS.map(chain => [chain.chainId, { enabled: chain.chainId === defaultChainId, price: "", paymentToken: "native" }]));
 }
 
 
@@ -30,30 +43,32 @@ export default function UploadPage() {
     // Form state
     const [title, setTitle] = useState("");
     const [description, setDescription] = useState("");
-    const [price, setPrice] = useState("");
+    const [offers, setOffers] = useState<Record<number, OfferForm>>(initialOffers);
     const [version, setVersion] = useState("");
     const [category, setCategory] = useState("");
     const [licenseType, setLicenseType] = useState("");
     const [licenseTerms, setLicenseTerms] = useState("");
+    const [termDays, setTermDays] = useState("");
     const [file, setFile] = useState<File | null>(null);
     const [decryptionKey, setDecryptionKey] = useState("");
 
     // Licensing rules state
     const [ipLock, setIpLock] = useState(false);
     const [fingerprintLock, setFingerprintLock] = useState(true); // Default to true
+    const [floating, setFloating] = useState(false);
+    const [maxSeats, setMaxSeats] = useState("1");
+    const [resetAllowance, setResetAllowance] = useState(String(DEFAULT_DEVICE_RESET_POLICY.allowance));
+    const [resetPeriodDays, setResetPeriodDays] = useState(String(DEFAULT_DEVICE_RESET_POLICY.periodDays));
+    const [resetCooldownHours, setResetCooldownHours] = useState(String(DEFAULT_DEVICE_RESET_POLICY.cooldownHours));
+    const [offerTrial, setOfferTrial] = useState(false);
+    const [trialDays, setTrialDays] = useState(String(DEFAULT_TRIAL_DAYS));
+    const [limitUpdates, setLimitUpdates] = useState(false);
+    const [updateDays, setUpdateDays] = useState("365");
     
     // Upload process state
     const [isUploading, setIsUploading] = useState(false);
     const [uploadProgress, setUploadProgress] = useState(0);
-    const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-    useEffect(() => {
-        return () => {
-            if (progressIntervalRef.current) {
-                clearInterval(progressIntervalRef.current);
-            }
-        };
-    }, []);
+    const [sentBytes, setSentBytes] = useState(0);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
@@ -63,50 +78,97 @@ export default function UploadPage() {
         }
     };
     
-    const startProgressSimulation = () => {
-        setUploadProgress(0);
-        progressIntervalRef.current = setInterval(() => {
-            setUploadProgress(prev => {
-                if (prev >= 90) {
-                    if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-                    return 90;
-                }
-                return prev + 5;
-            });
-        }, 100);
+    // A floating license is shared by devices in turn, so it replaces the device lock.
+    const isDeviceLocked = fingerprintLock && !floating;
+
+    const isTimeLimited = licenseType === 'fixed-term' || licenseType === 'subscription';
+
+    const updateOffer = (chainId: number, changes: Partial<OfferForm>) => {
+        setOffers(current => ({ ...current, [chainId]: { ...current[chainId], ...changes } }));
+    };
+
+    const enabledOffers = CHAINS.filter(chain => offers[chain.chainId]?.enabled);
+    const isPriced = enabledOffers.length > 0 && enabledOffers.every(chain => offers[chain.chainId].price !== "" && Number(offers[chain.chainId].price) >= 0);
+
+    const handleLicenseTypeChange = (value: string) => {
+        setLicenseType(value);
+        if (value === 'fixed-term' || value === 'subscription') {
+            setTermDays(String(DEFAULT_TERM_DAYS[value]));
+        }
     };
 
     const handleSubmit = async () => {
-        const username = sessionStorage.getItem('username');
-        if (!file || !username || !title || !price || !version || !licenseType || !category || !licenseTerms || !decryptionKey) {
+        if (!file || !title || !isPriced || !version || !licenseType || !category || !licenseTerms || !decryptionKey) {
             toast({ title: "Missing Information", description: "Please fill out all fields before submitting.", variant: "destructive" });
             return;
         }
 
         setIsUploading(true);
-        startProgressSimulation();
+        setUploadProgress(0);
+        setSentBytes(0);
 
         try {
+            // 1. Stream the file itself; the progress bar tracks the bytes actually sent.
+            const fileResult = await uploadFile(file, decryptionKey, (sent) => {
+                setSentBytes(sent);
+                // Keep the last few percent for creating the listing.
+                setUploadProgress(file.size > 0 ? (sent / file.size) * 95 : 95);
+            });
+            if (!fileResult.success || !fileResult.uploadId) {
+                toast({
+                    title: "Upload Error",
+                    description: fileResult.message || 'The file could not be uploaded.',
+                    variant: "destructive",
+                    duration: 9000,
+                });
+                setIsUploading(false);
+                setUploadProgress(0);
+                return;
+            }
+
+            // 2. Create the listing for the stored file.
             const formData = new FormData();
-            formData.append('file', file);
+            formData.append('uploadId', fileResult.uploadId);
             formData.append('title', title);
             formData.append('description', description);
-            formData.append('price', price);
+            formData.append('chains', JSON.stringify(enabledOffers.map(chain => {
+                const offer = offers[chain.chainId];
+                return {
+                    chainId: chain.chainId,
+                    price: Number(offer.price),
+                    ...(offer.paymentToken !== 'native' ? { paymentToken: offer.paymentToken } : {}),
+                };
+            })));
             formData.append('version', version);
             formData.append('category', category);
             formData.append('licenseType', licenseType);
             formData.append('licenseTerms', licenseTerms);
-            formData.append('seller', username);
+            if (isTimeLimited) {
+                formData.append('termDays', termDays);
+            }
             formData.append('ipLock', String(ipLock));
-            formData.append('fingerprintLock', String(fingerprintLock));
-            formData.append('decryptionKey', decryptionKey);
+            formData.append('fingerprintLock', String(isDeviceLocked));
+            formData.append('floating', String(floating));
+            if (floating || isDeviceLocked) {
+                formData.append('maxSeats', maxSeats);
+            }
+            if (isDeviceLocked) {
+                formData.append('deviceResetAllowance', resetAllowance);
+                formData.append('deviceResetPeriodDays', resetPeriodDays);
+                formData.append('deviceResetCooldownHours', resetCooldownHours);
+            }
+            if (offerTrial) {
+                formData.append('trialDays', trialDays);
+            }
+            if (limitUpdates) {
+                formData.append('updateDays', updateDays);
+            }
 
             const response = await fetch('/api/upload', {
                 method: 'POST',
                 body: formData,
             });
             
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
             const result = await response.json();
             
             if (response.ok && result.success) {
@@ -127,7 +189,6 @@ export default function UploadPage() {
                 setUploadProgress(0);
             }
         } catch (error) {
-             if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
              console.error("Upload failed:", error);
              toast({
                 title: "Upload Error",
@@ -139,7 +200,7 @@ export default function UploadPage() {
         }
     };
 
-    const isFormReady = !!file && !!title && !!price && !!version && !!licenseType && !!category && !!licenseTerms && !!decryptionKey;
+    const isFormReady = !!file && !!title && isPriced && !!version && !!licenseType && !!category && !!licenseTerms && !!decryptionKey && (!isTimeLimited || parseInt(termDays, 10) > 0) && (!offerTrial || parseInt(trialDays, 10) > 0) && (!limitUpdates || parseInt(updateDays, 10) > 0);
 
     return (
         <main className="flex w-full flex-col items-center justify-center bg-gradient-to-br from-primary to-accent p-4 text-white min-h-screen">
@@ -193,13 +254,37 @@ export default function UploadPage() {
                          <div className="space-y-1">
                             <Input id="title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Software Title" className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading}/>
                         </div>
-                        <div className="grid grid-cols-2 gap-4">
-                           <div className="space-y-1">
-                                <Input id="price" type="number" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="Price (POL)" className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading}/>
-                            </div>
-                            <div className="space-y-1">
-                                <Input id="version" value={version} onChange={(e) => setVersion(e.target.value)} placeholder="Version" className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading}/>
-                            </div>
+                        <div className="space-y-2">
+                            {CHAINS.map(chain => {
+                                const offer = offers[chain.chainId];
+                                const tokens = getPaymentTokens(chain);
+                                return (
+                                    <div key={chain.chainId} className="flex items-center gap-2">
+                                        {CHAINS.length > 1 && (
+                                            <div className="flex w-40 flex-shrink-0 items-center gap-2">
+                                                <Switch id={`chain-${chain.chainId}`} checked={offer.enabled} onCheckedChange={(enabled) => updateOffer(chain.chainId, { enabled })} disabled={isUploading} />
+                                                <Label htmlFor={`chain-${chain.chainId}`} className="truncate text-sm" title={chain.name}>{chain.name}</Label>
+                                            </div>
+                                        )}
+                                        <Input id={`price-${chain.chainId}`} type="number" min="0" value={offer.price} onChange={(e) => updateOffer(chain.chainId, { price: e.target.value })} placeholder={`Price (${tokens.find(token => (token.address || 'native') === offer.paymentToken)?.symbol})`} className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading || !offer.enabled}/>
+                                        {tokens.length > 1 && (
+                                            <Select onValueChange={(paymentToken) => updateOffer(chain.chainId, { paymentToken })} value={offer.paymentToken} disabled={isUploading || !offer.enabled}>
+                                                <SelectTrigger className="h-11 w-28 border-white/30 bg-white/10 text-white backdrop-blur-sm">
+                                                    <SelectValue placeholder="Currency" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {tokens.map(token => (
+                                                        <SelectItem key={token.symbol} value={token.address || 'native'}>{token.symbol}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="space-y-1">
+                            <Input id="version" value={version} onChange={(e) => setVersion(e.target.value)} placeholder="Version" className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading}/>
                         </div>
                          <div className="grid grid-cols-2 gap-4">
                             <div className="space-y-1">
@@ -218,18 +303,23 @@ export default function UploadPage() {
                                 </Select>
                             </div>
                              <div className="space-y-1">
-                                <Select onValueChange={setLicenseType} value={licenseType} disabled={isUploading}>
+                                <Select onValueChange={handleLicenseTypeChange} value={licenseType} disabled={isUploading}>
                                     <SelectTrigger className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm">
                                         <SelectValue placeholder="License Type" />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        <SelectItem value="single-use">Single-use</SelectItem>
-                                        <SelectItem value="lifetime">Lifetime</SelectItem>
+                                        <SelectItem value="perpetual">Perpetual</SelectItem>
+                                        <SelectItem value="fixed-term">Fixed term</SelectItem>
                                         <SelectItem value="subscription">Subscription</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
                          </div>
+                         {isTimeLimited && (
+                            <div className="space-y-1">
+                                <Input id="termDays" type="number" min="1" value={termDays} onChange={(e) => setTermDays(e.target.value)} placeholder={licenseType === 'subscription' ? "Renewal period (days)" : "License term (days)"} className="h-11 border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm" disabled={isUploading}/>
+                            </div>
+                         )}
                           <div className="space-y-2 flex-grow flex flex-col">
                             {!file ? (
                                 <label htmlFor="file-upload" className="relative flex flex-col items-center justify-center w-full border-2 border-white/30 border-dashed rounded-lg cursor-pointer bg-white/5 hover:bg-white/10 transition-colors flex-grow min-h-[160px]">
@@ -280,10 +370,79 @@ export default function UploadPage() {
                                         <Fingerprint className="w-5 h-5"/>
                                         <div>
                                            <Label htmlFor="fingerprint-lock" className="font-medium">Device Fingerprint Lock</Label>
-                                            <p className="text-xs text-gray-400">Buyer can only use from their first device.</p>
+                                            <p className="text-xs text-gray-400">Each license seat runs on one device. Set how many seats a buyer can buy.</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {isDeviceLocked && (
+                                            <Input id="max-seats" type="number" min="1" max="1000" value={maxSeats} onChange={(e) => setMaxSeats(e.target.value)} aria-label="Max seats per license" title="Max seats per license" className="h-8 w-20 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                        )}
+                                        <Switch id="fingerprint-lock" checked={isDeviceLocked} onCheckedChange={setFingerprintLock} disabled={isUploading || floating}/>
+                                    </div>
+                                </div>
+                                {isDeviceLocked && (
+                                    <div className="flex items-center justify-between gap-2 p-2 rounded-lg bg-white/5">
+                                        <div className="flex items-center gap-3">
+                                            <RotateCcw className="w-5 h-5"/>
+                                            <div>
+                                                <Label htmlFor="reset-allowance" className="font-medium">Device Resets</Label>
+                                                <p className="text-xs text-gray-400">Self-service moves per period, hours apart. More need your approval.</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <Input id="reset-allowance" type="number" min="0" value={resetAllowance} onChange={(e) => setResetAllowance(e.target.value)} aria-label="Resets per period" title="Resets per period" className="h-8 w-14 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                            <span className="text-xs text-gray-400">per</span>
+                                            <Input id="reset-period" type="number" min="1" value={resetPeriodDays} onChange={(e) => setResetPeriodDays(e.target.value)} aria-label="Period in days" title="Period in days" className="h-8 w-16 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                            <span className="text-xs text-gray-400">days,</span>
+                                            <Input id="reset-cooldown" type="number" min="0" value={resetCooldownHours} onChange={(e) => setResetCooldownHours(e.target.value)} aria-label="Cooldown in hours" title="Cooldown in hours" className="h-8 w-14 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                            <span className="text-xs text-gray-400">h</span>
+                                        </div>
+                                    </div>
+                                )}
+                                 <div className="flex items-center justify-between p-2 rounded-lg bg-white/5">
+                                    <div className="flex items-center gap-3">
+                                        <Users className="w-5 h-5"/>
+                                        <div>
+                                           <Label htmlFor="floating" className="font-medium">Floating License</Label>
+                                            <p className="text-xs text-gray-400">A pool of concurrent uses shared by any of the buyer's devices.</p>
                                         </div>
                                     </div>
-                                    <Switch id="fingerprint-lock" checked={fingerprintLock} onCheckedChange={setFingerprintLock} disabled={isUploading}/>
+                                    <div className="flex items-center gap-2">
+                                        {floating && (
+                                            <Input id="max-concurrent" type="number" min="1" max="1000" value={maxSeats} onChange={(e) => setMaxSeats(e.target.value)} aria-label="Max concurrent uses per license" title="Max concurrent uses per license" className="h-8 w-20 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                        )}
+                                        <Switch id="floating" checked={floating} onCheckedChange={setFloating} disabled={isUploading}/>
+                                    </div>
+                                </div>
+                                 <div className="flex items-center justify-between p-2 rounded-lg bg-white/5">
+                                    <div className="flex items-center gap-3">
+                                        <Timer className="w-5 h-5"/>
+                                        <div>
+                                           <Label htmlFor="offer-trial" className="font-medium">Free Trial</Label>
+                                            <p className="text-xs text-gray-400">One device-locked trial per wallet and device.</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {offerTrial && (
+                                            <Input id="trial-days" type="number" min="1" value={trialDays} onChange={(e) => setTrialDays(e.target.value)} aria-label="Trial length in days" className="h-8 w-20 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                        )}
+                                        <Switch id="offer-trial" checked={offerTrial} onCheckedChange={setOfferTrial} disabled={isUploading}/>
+                                    </div>
+                                </div>
+                                 <div className="flex items-center justify-between p-2 rounded-lg bg-white/5">
+                                    <div className="flex items-center gap-3">
+                                        <CalendarClock className="w-5 h-5"/>
+                                        <div>
+                                           <Label htmlFor="limit-updates" className="font-medium">Limited Updates</Label>
+                                            <p className="text-xs text-gray-400">Licenses only get releases published within this many days.</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {limitUpdates && (
+                                            <Input id="update-days" type="number" min="1" value={updateDays} onChange={(e) => setUpdateDays(e.target.value)} aria-label="Update coverage in days" className="h-8 w-20 border-white/30 bg-white/10 text-white backdrop-blur-sm" disabled={isUploading}/>
+                                        )}
+                                        <Switch id="limit-updates" checked={limitUpdates} onCheckedChange={setLimitUpdates} disabled={isUploading}/>
+                                    </div>
                                 </div>
                              </div>
                         </div>
@@ -293,7 +452,13 @@ export default function UploadPage() {
                     {isUploading && (
                         <div className="space-y-1 text-center">
                             <Progress value={uploadProgress} className="h-2 bg-white/10 border border-white/20 backdrop-blur-sm" />
-                            <p className="text-xs text-gray-300">{uploadProgress === 100 ? "Complete!" : `Encrypting & Uploading... ${Math.round(uploadProgress)}%`}</p>
+                            <p className="text-xs text-gray-300">
+                                {uploadProgress === 100
+                                    ? "Complete!"
+                                    : file && sentBytes < file.size
+                                        ? `Encrypting & Uploading... ${formatBytes(sentBytes)} of ${formatBytes(file.size)} (${Math.round(uploadProgress)}%)`
+                                        : "Finalizing listing..."}
+                            </p>
                         </div>
                     )}
                  </div>
@@ -4,7 +4,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, ShoppingCart, User, Tag, Wallet, Zap, Gem, Rocket, Heart, Star, Cloud, Anchor, Search, Fingerprint, CircleDollarSign, X } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, User, Tag, Wallet, Zap, Gem, Rocket, Heart, Star, Cloud, Anchor, Search, Fingerprint, CircleDollarSign, X, Timer } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,19 +15,27 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { getAllSoftware, recordLicensePurchase } from '@/lib/auth';
+import { checkTrialEligibility, convertTrialLicense, getAllSoftware, getLicenseRenewalQuote, getTrialUpgradeQuote, completeLicensePurchase, recordTrialLicense, requestTrialVoucher, startLicensePurchase, startSponsoredTrial, renewLicense } from '@/lib/auth';
+import { signInWithEthereum } from '@/lib/siwe-client';
+import { ensureNetwork } from '@/lib/wallet-network';
+import { getDeviceId } from '@/lib/device';
 import { useToast } from "@/hooks/use-toast";
-import { BrowserProvider, Contract, ethers } from 'ethers';
-import { SOFTWARE_LICENSE_ABI } from '@/lib/abi';
+import { BrowserProvider, Contract, JsonRpcSigner, ZeroAddress, ethers } from 'ethers';
+import { ERC20_ABI, SOFTWARE_LICENSE_ABI } from '@/lib/abi';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { motion, AnimatePresence } from 'framer-motion';
+import { TOKEN_PERMIT_TYPES, tokenPermitDomain, type MintVoucher } from '@/lib/typed-data';
+import { displayPaymentToken, findPaymentToken, formatPrice, formatTokenAmount, tokenAmount, type PaymentToken } from '@/lib/payment-tokens';
+import { findChain, getChains, getDefaultChain, softwareOffer, type ChainConfig, type ChainOffer } from '@/lib/chains';
+import { describeLicenseTerms, licenseExpiry, licenseMetadataAttributes, normalizeLicenseTerms, renewedExpiry, trialExpiry, trialMetadataAttributes } from '@/lib/license-terms';
 
 
-const SOFTWARE_LICENSE_CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_SOFTWARE_LICENSE_CONTRACT_ADDRESS || '0xa3BBFe67BA745F4A2b566fc31Cc0724Ead830938';
+const CHAINS = getChains();
 
 const iconComponents: { [key: string]: React.FC<React.SVGProps<SVGSVGElement>> } = {
   Gem,
@@ -42,22 +50,170 @@ type Software = {
     _id: string;
     title: string;
     description: string;
-    price: number;
+    price?: number; // Listings from before multi-chain support: the price on the legacy chain
+    paymentToken?: string;
+    chains?: ChainOffer[]; // The chains the software is sold on, with its price on each
     sellerUsername: string;
     sellerWalletAddress: string; 
     sellerProfileIcon?: string;
-    fileUrl: string;
+    version?: string;
     createdAt: string;
     category: string;
     licenseType: string;
+    termDays?: number;
+    trialDays?: number;
     licensingRules: {
       ipLock: boolean;
       fingerprintLock: boolean;
+      maxSeats?: number;
+      floating?: boolean;
     }
 };
 
-const SoftwareCard = ({ software, onBuy, isBuying, onSelect }: { software: Software, onBuy: (software: Software) => void, isBuying: boolean, onSelect: (software: Software) => void }) => {
-  const isFree = software.price <= 0;
+type RenewalQuote = {
+    licenseId: string;
+    softwareTitle: string;
+    chainId: number;
+    price: number;
+    paymentToken: string | null;
+    seats: number;
+    sellerWalletAddress: string;
+    sellerUsername: string;
+    licenseType: string;
+    termDays?: number;
+    expiresAt: string | null;
+};
+
+type UpgradeQuote = {
+    licenseId: string;
+    softwareTitle: string;
+    chainId: number;
+    price: number;
+    paymentToken: string | null;
+    sellerWalletAddress: string;
+    licenseType: string;
+    termDays?: number;
+};
+
+// Total payment for a number of seats, formatted in the currency of a price on a chain.
+function formatSeatTotal(chain: ChainConfig | null, price: number, paymentToken: string | null | undefined, seats: number): string {
+    const token = displayPaymentToken(chain, paymentToken);
+    return formatTokenAmount(tokenAmount(price, token, seats), token);
+}
+
+// Uploads license metadata and returns its URL.
+async function uploadLicenseMetadata(metadata: object): Promise<string> {
+    const metadataResponse = await fetch('/api/metadata/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(metadata)
+    });
+
+    if (!metadataResponse.ok) {
+        const errorResult = await metadataResponse.json();
+        throw new Error(errorResult.message || "Failed to upload license metadata.");
+    }
+    const { metadataUrl } = await metadataResponse.json();
+    return metadataUrl;
+}
+
+// Finds the token a mint or purchase transaction minted.
+function mintedTokenId(contract: Contract, mintReceipt: any): number {
+    if (!mintReceipt.logs || mintReceipt.logs.length === 0) {
+        throw new Error("Mint transaction failed to emit the expected events.");
+    }
+    
+    const transferEvent = mintReceipt.logs.find((log: any) => {
+        try {
+            const parsedLog = contract.interface.parseLog(log);
+            return parsedLog?.name === "Transfer";
+        } catch (error) {
+            return false;
+        }
+    });
+
+    if (!transferEvent || !transferEvent.args) {
+        throw new Error("Could not find the Transfer event in the transaction receipt.");
+    }
+
+    return Number(transferEvent.args.tokenId);
+}
+
+// Mints the license a server-issued voucher allows to the signer's wallet. The signer pays the gas and the voucher's price.
+async function redeemMintVoucher(signer: JsonRpcSigner, chain: ChainConfig, voucher: MintVoucher, signature: string): Promise<{ tokenId: number; transactionHash: string }> {
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, signer);
+
+    const value = voucher.paymentToken === ZeroAddress ? BigInt(voucher.price) : BigInt(0);
+    const mintTx = await contract.redeemMintVoucher(voucher, signature, { value });
+    const mintReceipt = await mintTx.wait();
+    return { tokenId: mintedTokenId(contract, mintReceipt), transactionHash: mintTx.hash };
+}
+
+// Signs an EIP-2612 permit letting a chain's license contract draw a token payment from the signer's wallet.
+async function signTokenPermit(signer: JsonRpcSigner, chain: ChainConfig, token: PaymentToken, value: bigint): Promise<{ deadline: bigint; v: number; r: string; s: string }> {
+    const erc20 = new Contract(token.address!, ERC20_ABI, signer);
+    const owner = await signer.getAddress();
+    const [name, nonce] = await Promise.all([erc20.name(), erc20.nonces(owner)]);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + 15 * 60);
+
+    const signature = await signer.signTypedData(
+        tokenPermitDomain(name, token.permitVersion!, BigInt(chain.chainId), token.address!),
+        TOKEN_PERMIT_TYPES,
+        { owner, spender: chain.contractAddress, value, nonce, deadline }
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { deadline, v, r, s };
+}
+
+// Uploads the license metadata and buys the license through the chain's contract, which takes the
+// payment, pays the seller and mints the NFT to the signer's wallet in one transaction.
+// A token payment is drawn from the buyer's allowance, given with a permit where the token
+// supports one and with an approval transaction otherwise.
+async function purchaseLicenseNft(signer: JsonRpcSigner, chain: ChainConfig, purchase: { productId: string; paymentToken: string | null; amount: string }, seats: number, metadata: object, buyerIp: string): Promise<{ tokenId: number; transactionHash: string }> {
+    const metadataUrl = await uploadLicenseMetadata(metadata);
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, signer);
+    const amount = BigInt(purchase.amount);
+
+    let purchaseTx;
+    if (!purchase.paymentToken) {
+        purchaseTx = await contract.purchaseLicense(purchase.productId, seats, metadataUrl, buyerIp, { value: amount });
+    } else {
+        const token = findPaymentToken(chain, purchase.paymentToken);
+        if (!token) {
+            throw new Error("This software is priced in a currency the marketplace does not accept.");
+        }
+        const erc20 = new Contract(purchase.paymentToken, ERC20_ABI, signer);
+        const allowance: bigint = amount > BigInt(0) ? await erc20.allowance(await signer.getAddress(), chain.contractAddress) : amount;
+        if (allowance >= amount) {
+            purchaseTx = await contract.purchaseLicense(purchase.productId, seats, metadataUrl, buyerIp);
+        } else if (token.permitVersion) {
+            const permit = await signTokenPermit(signer, chain, token, amount);
+            purchaseTx = await contract.purchaseLicenseWithPermit(purchase.productId, seats, metadataUrl, buyerIp, permit);
+        } else {
+            const approveTx = await erc20.approve(chain.contractAddress, amount);
+            await approveTx.wait();
+            purchaseTx = await contract.purchaseLicense(purchase.productId, seats, metadataUrl, buyerIp);
+        }
+    }
+    const purchaseReceipt = await purchaseTx.wait();
+    return { tokenId: mintedTokenId(contract, purchaseReceipt), transactionHash: purchaseTx.hash };
+}
+
+// Pays a seller straight from the signer's wallet, in the chain's native currency or the listing's token,
+// and returns the payment transaction. Nothing due is paid with an empty native transaction, which still
+// backs the payment once.
+async function paySeller(signer: JsonRpcSigner, sellerWalletAddress: string, amount: bigint, paymentToken: string | null): Promise<string> {
+    const seller = ethers.getAddress(sellerWalletAddress);
+    const tx = paymentToken && amount > BigInt(0)
+        ? await new Contract(paymentToken, ERC20_ABI, signer).transfer(seller, amount)
+        : await signer.sendTransaction({ to: seller, value: amount });
+    await tx.wait();
+    return tx.hash;
+}
+
+const SoftwareCard = ({ software, chain, onBuy, isBuying, onSelect }: { software: Software, chain: ChainConfig, onBuy: (software: Software) => void, isBuying: boolean, onSelect: (software: Software) => void }) => {
+  const offer = softwareOffer(software, chain.chainId);
+  const isFree = !offer || offer.price <= 0;
   const SellerIcon = software.sellerProfileIcon ? iconComponents[software.sellerProfileIcon] || User : User;
 
   return (
@@ -100,7 +256,7 @@ const SoftwareCard = ({ software, onBuy, isBuying, onSelect }: { software: Softw
          <div className="flex items-center justify-between">
             <motion.div layoutId={`card-price-${software._id}`} className="flex items-center gap-2">
                 <Tag className="h-5 w-5 text-green-400"/>
-                <span className="text-lg font-bold text-white">{isFree ? 'Free' : `${software.price} POL`}</span>
+                <span className="text-lg font-bold text-white">{isFree ? 'Free' : formatPrice(offer.price, displayPaymentToken(chain, offer.paymentToken))}</span>
             </motion.div>
             <motion.div layoutId={`card-buy-${software._id}`}>
                 <Button 
@@ -128,13 +284,20 @@ export default function MarketplacePage() {
   
   const [selectedSoftwareForPurchase, setSelectedSoftwareForPurchase] = useState<Software | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [seatQuantity, setSeatQuantity] = useState("1");
   
   const [selectedSoftwareForView, setSelectedSoftwareForView] = useState<Software | null>(null);
   
   const [buyerAddress, setBuyerAddress] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedChainId, setSelectedChainId] = useState<number>(() => getDefaultChain().chainId);
   const [searchTerm, setSearchTerm] = useState('');
+  const [renewalQuote, setRenewalQuote] = useState<RenewalQuote | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [upgradeQuote, setUpgradeQuote] = useState<UpgradeQuote | null>(null);
   const { toast } = useToast();
+  // Listings are shown, priced and bought on one chain at a time.
+  const selectedChain = findChain(selectedChainId) || getDefaultChain();
 
   const fetchAllSoftware = useCallback(async () => {
     setIsLoading(true);
@@ -159,7 +322,7 @@ export default function MarketplacePage() {
   }, [fetchAllSoftware]);
 
   const handleFilter = useCallback(() => {
-    let filtered = allSoftware;
+    let filtered = allSoftware.filter(s => softwareOffer(s, selectedChainId));
 
     if (selectedCategory !== 'all') {
       filtered = filtered.filter(s => s.category === selectedCategory);
@@ -172,11 +335,11 @@ export default function MarketplacePage() {
     }
     
     setFilteredSoftware(filtered);
-  }, [allSoftware, selectedCategory, searchTerm]);
+  }, [allSoftware, selectedCategory, selectedChainId, searchTerm]);
 
   useEffect(() => {
     handleFilter();
-  }, [selectedCategory, searchTerm, allSoftware, handleFilter]);
+  }, [selectedCategory, selectedChainId, searchTerm, allSoftware, handleFilter]);
   
   const handleBuyClick = async (software: Software) => {
     if (typeof window.ethereum === 'undefined') {
@@ -185,6 +348,7 @@ export default function MarketplacePage() {
     }
 
     setSelectedSoftwareForPurchase(software);
+    setSeatQuantity("1");
 
     try {
         const provider = new BrowserProvider(window.ethereum);
@@ -203,7 +367,8 @@ export default function MarketplacePage() {
         const sellerChecksumAddress = ethers.getAddress(software.sellerWalletAddress);
         const isSelfPurchase = address.toLowerCase() === sellerChecksumAddress.toLowerCase();
 
-        if (software.price <= 0 || isSelfPurchase) {
+        // Free and seller licenses skip the confirmation, so they cover a single seat.
+        if ((softwareOffer(software, selectedChain.chainId)?.price ?? 0) <= 0 || isSelfPurchase) {
           handleBuyLicense(software);
         } else {
           setIsModalOpen(true);
@@ -221,6 +386,14 @@ export default function MarketplacePage() {
         return;
     }
 
+    // Only a purchase confirmed in the modal can cover more than one seat.
+    const seats = softwareToBuy ? 1 : parseInt(seatQuantity, 10);
+    const maxSeats = finalSoftware.licensingRules.maxSeats || 1;
+    if (!Number.isInteger(seats) || seats < 1 || seats > maxSeats) {
+        toast({ title: "Invalid Seat Count", description: `Choose between 1 and ${maxSeats} seats.`, variant: "destructive" });
+        return;
+    }
+
     setIsBuying(finalSoftware._id);
     setIsModalOpen(false);
     
@@ -233,110 +406,66 @@ export default function MarketplacePage() {
     try {
         const provider = new BrowserProvider(window.ethereum);
         
-        const amoyChainId = '0x13882';
-        const network = await provider.getNetwork();
-        if (network.chainId.toString() !== BigInt(amoyChainId).toString()) {
-            try {
-                await window.ethereum.request({
-                    method: 'wallet_switchEthereumChain',
-                    params: [{ chainId: amoyChainId }],
-                });
-            } catch (switchError: any) {
-                if (switchError.code === 4902) {
-                    toast({ title: "Network not added", description: "Please add the Polygon Amoy testnet to MetaMask.", variant: "destructive" });
-                } else {
-                    toast({ title: "Network Switch Failed", description: "Could not switch to Polygon Amoy. Please do it manually.", variant: "destructive" });
-                }
-                setIsBuying(null);
-                return;
-            }
+        const networkError = await ensureNetwork(provider, selectedChain);
+        if (networkError) {
+            toast({ title: "Network Switch Failed", description: networkError, variant: "destructive" });
+            setIsBuying(null);
+            return;
         }
 
         const signer = await provider.getSigner();
-        const currentBuyerAddress = await signer.getAddress();
-        const sellerChecksumAddress = ethers.getAddress(finalSoftware.sellerWalletAddress);
-        const isSelfPurchase = currentBuyerAddress.toLowerCase() === sellerChecksumAddress.toLowerCase();
-
 
-        let buyerIp = '';
-        if (finalSoftware.licensingRules.ipLock) {
-            const ipResponse = await fetch('https://api.ipify.org?format=json');
-            if (!ipResponse.ok) throw new Error("Could not fetch buyer's IP address. The purchase cannot proceed as IP Lock is enabled.");
-            const ipData = await ipResponse.json();
-            buyerIp = ipData.ip;
+        // The server verifies the purchase transaction against the verified wallet.
+        const signIn = await signInWithEthereum();
+        if (!signIn.success) {
+            toast({ title: "Verification Failed", description: signIn.message || "Could not verify your wallet.", variant: "destructive" });
+            return;
         }
-        
-        if (finalSoftware.price > 0 && !isSelfPurchase) {
-            toast({ title: "Processing Payment...", description: "Please confirm the transaction in MetaMask." });
-            const tx = await signer.sendTransaction({
-                to: sellerChecksumAddress,
-                value: ethers.parseEther(finalSoftware.price.toString())
-            });
-            await tx.wait();
-        } else if(isSelfPurchase) {
-             toast({ title: "Seller Purchase Detected", description: "Skipping payment. Minting license directly.", duration: 4000 });
-        } else {
-             toast({ title: "Free Software", description: "Skipping payment for free software. Minting license directly.", duration: 4000 });
+
+        const started = await startLicensePurchase(finalSoftware._id, seats, selectedChain.chainId);
+        if (!started.success || !started.purchase) {
+            toast({ title: "Purchase Unavailable", description: started.message, variant: "destructive" });
+            return;
         }
+        const { purchaseId } = started.purchase;
+
+        // The server chose the IP lock from the address it saw, and only accepts a license minted with it.
+        const { buyerIp } = started.purchase;
         
-        toast({ title: "Minting License...", description: "Uploading metadata and minting your NFT license." });
+        toast({
+            title: "Purchasing License...",
+            description: started.purchase.amount === '0'
+                ? "No payment is due. Please confirm the mint in MetaMask."
+                : started.purchase.paymentToken
+                    ? `Please allow the ${displayPaymentToken(selectedChain, started.purchase.paymentToken).symbol} payment and confirm the purchase in MetaMask. It pays the seller and mints your NFT license in one step.`
+                    : "Please confirm the transaction in MetaMask. It pays the seller and mints your NFT license in one step.",
+        });
         
+        const terms = normalizeLicenseTerms(finalSoftware.licenseType, finalSoftware.termDays);
         const metadata = {
             name: `Software License: ${finalSoftware.title}`,
             description: `This NFT represents a unique, verifiable license for ${finalSoftware.title}. ${finalSoftware.description}`,
             image: "https://bafybeifqi5yrkg7r3scz5g4spu2z5i7nd3rlol74y2k72i4h5qjcaa2gxy.ipfs.nftstorage.link/ss-logo-blue.png",
             attributes: [
                 { trait_type: "Software Title", value: finalSoftware.title },
+                // Let the chain indexer complete the purchase even if this page is closed before it does.
+                { trait_type: "Software ID", value: finalSoftware._id },
+                { trait_type: "Purchase ID", value: purchaseId },
                 { trait_type: "Seller", value: finalSoftware.sellerUsername },
                 { trait_type: "Purchase Date", value: new Date().toISOString() },
                 { trait_type: "IP Locked", value: String(finalSoftware.licensingRules.ipLock) },
                 { trait_type: "Device Locked", value: String(finalSoftware.licensingRules.fingerprintLock) },
+                { trait_type: finalSoftware.licensingRules.floating ? "Concurrent Uses" : "Seats", value: seats },
+                // The license covers later releases too; this is the version current at purchase.
+                { trait_type: "Version at Purchase", value: finalSoftware.version || 'N/A' },
+                ...licenseMetadataAttributes(terms, licenseExpiry(terms, new Date())),
             ],
-            software_file_url: finalSoftware.fileUrl
         };
         
-        const metadataResponse = await fetch('/api/metadata/upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(metadata)
-        });
-
-        if (!metadataResponse.ok) {
-            const errorResult = await metadataResponse.json();
-            throw new Error(errorResult.message || "Failed to upload license metadata.");
-        }
-        const { metadataUrl } = await metadataResponse.json();
-        
-        const contract = new Contract(SOFTWARE_LICENSE_CONTRACT_ADDRESS, SOFTWARE_LICENSE_ABI, signer);
+        const { tokenId, transactionHash } = await purchaseLicenseNft(signer, selectedChain, started.purchase, seats, metadata, buyerIp);
         
-        const mintTx = await contract.mintLicense(currentBuyerAddress, metadataUrl, buyerIp, { from: currentBuyerAddress });
-        const mintReceipt = await mintTx.wait();
-        
-        if (!mintReceipt.logs || mintReceipt.logs.length === 0) {
-            throw new Error("Mint transaction failed to emit the expected events.");
-        }
-        
-        const transferEvent = mintReceipt.logs.find((log: any) => {
-            try {
-                const parsedLog = contract.interface.parseLog(log);
-                return parsedLog?.name === "Transfer";
-            } catch (error) {
-                return false;
-            }
-        });
-
-        if (!transferEvent || !transferEvent.args) {
-            throw new Error("Could not find the Transfer event in the transaction receipt.");
-        }
-        const tokenId = Number(transferEvent.args.tokenId);
-        
-        const recordResult = await recordLicensePurchase({
-            softwareId: finalSoftware._id,
-            buyerAddress: currentBuyerAddress,
-            tokenId: tokenId,
-            transactionHash: mintTx.hash,
-            buyerIp: buyerIp
-        });
+        toast({ title: "Verifying Purchase...", description: "Waiting for the purchase to be confirmed on the blockchain." });
+        const recordResult = await completeLicensePurchase(purchaseId, transactionHash);
         
         if (recordResult.success) {
             toast({ 
@@ -358,6 +487,234 @@ export default function MarketplacePage() {
     }
   };
   
+  // Trials are minted without payment, but the wallet must be proven first: the server
+  // allows one trial per wallet and per device.
+  const handleStartTrial = async (software: Software) => {
+    if (typeof window.ethereum === 'undefined') {
+        toast({ title: "MetaMask not found", description: "Please install MetaMask to start a trial.", variant: "destructive"});
+        return;
+    }
+
+    setIsBuying(software._id);
+    const chain = selectedChain;
+    try {
+        const signIn = await signInWithEthereum();
+        if (!signIn.success) {
+            toast({ title: "Verification Failed", description: signIn.message || "Could not verify your wallet.", variant: "destructive" });
+            return;
+        }
+
+        const deviceId = getDeviceId();
+        const eligibility = await checkTrialEligibility(software._id, deviceId, chain.chainId);
+        if (!eligibility.success || !eligibility.trialDays) {
+            toast({ title: "Trial Unavailable", description: eligibility.message, variant: "destructive" });
+            return;
+        }
+
+        const metadata = {
+            name: `Software Trial: ${software.title}`,
+            description: `This NFT represents a trial license for ${software.title}. ${software.description}`,
+            image: "https://bafybeifqi5yrkg7r3scz5g4spu2z5i7nd3rlol74y2k72i4h5qjcaa2gxy.ipfs.nftstorage.link/ss-logo-blue.png",
+            attributes: [
+                { trait_type: "Software Title", value: software.title },
+                { trait_type: "Software ID", value: software._id },
+                { trait_type: "Seller", value: software.sellerUsername },
+                { trait_type: "Start Date", value: new Date().toISOString() },
+                ...trialMetadataAttributes(eligibility.trialDays, trialExpiry(eligibility.trialDays, new Date())),
+            ],
+        };
+
+        let result;
+        if (eligibility.sponsored) {
+            // The platform mints sponsored trials itself, so there is nothing to confirm in MetaMask.
+            toast({ title: "Minting Trial License...", description: "The platform is minting your trial. No payment or gas is needed." });
+            result = await startSponsoredTrial(software._id, deviceId, await uploadLicenseMetadata(metadata), chain.chainId);
+        } else {
+            const provider = new BrowserProvider(window.ethereum);
+            const networkError = await ensureNetwork(provider, chain);
+            if (networkError) {
+                toast({ title: "Network Switch Failed", description: networkError, variant: "destructive" });
+                return;
+            }
+            const signer = await provider.getSigner();
+
+            toast({ title: "Minting Trial License...", description: "Confirm the mint in MetaMask. No payment is taken." });
+            const metadataUrl = await uploadLicenseMetadata(metadata);
+
+            // The server decides what the trial mints, including the IP lock, and signs it as a voucher.
+            const issued = await requestTrialVoucher(software._id, deviceId, metadataUrl, chain.chainId);
+            if (!issued.success || !issued.voucher || !issued.signature) {
+                toast({ title: "Trial Unavailable", description: issued.message, variant: "destructive" });
+                return;
+            }
+            const { transactionHash } = await redeemMintVoucher(signer, chain, issued.voucher, issued.signature);
+
+            result = await recordTrialLicense({ softwareId: software._id, voucherNonce: issued.voucher.nonce, transactionHash, deviceId });
+        }
+        if (result.success && result.expiresAt) {
+            toast({
+                title: "Trial Started",
+                description: `Your trial of "${software.title}" runs until ${new Date(result.expiresAt).toLocaleDateString()} on this device. Upgrade it from My Licenses at any time.`,
+                duration: 9000
+            });
+        } else {
+            toast({ title: "Recording Error", description: result.message, variant: "destructive" });
+        }
+    } catch (error: any) {
+        console.error("Trial failed:", error);
+        toast({ title: "Trial Failed", description: error.reason || error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+        setIsBuying(null);
+    }
+  };
+
+  // The buyer dashboard links here with ?renew=<licenseId> to renew a subscription,
+  // or with ?upgrade=<licenseId> to convert a trial into a paid license.
+  useEffect(() => {
+    const searchParams = new URLSearchParams(window.location.search);
+    const renewId = searchParams.get('renew');
+    const upgradeId = searchParams.get('upgrade');
+
+    if (renewId) {
+        getLicenseRenewalQuote(renewId).then((result) => {
+            if (result.success && result.quote) {
+                setRenewalQuote(result.quote);
+            } else {
+                toast({ title: "Renewal Unavailable", description: result.message, variant: "destructive" });
+            }
+        });
+    } else if (upgradeId) {
+        getTrialUpgradeQuote(upgradeId).then((result) => {
+            if (result.success && result.quote) {
+                setUpgradeQuote(result.quote);
+            } else {
+                toast({ title: "Upgrade Unavailable", description: result.message, variant: "destructive" });
+            }
+        });
+    }
+  }, [toast]);
+
+  const handleUpgradeTrial = async () => {
+    if (!upgradeQuote) return;
+    if (typeof window.ethereum === 'undefined') {
+        toast({ title: "MetaMask not found", description: "Please install MetaMask to upgrade your trial.", variant: "destructive"});
+        return;
+    }
+
+    // The upgrade is paid on the chain the trial lives on.
+    const chain = findChain(upgradeQuote.chainId);
+    if (!chain) {
+        toast({ title: "Upgrade Unavailable", description: "The chain this trial lives on is not supported.", variant: "destructive" });
+        return;
+    }
+
+    setIsRenewing(true);
+    try {
+        const provider = new BrowserProvider(window.ethereum);
+        const networkError = await ensureNetwork(provider, chain);
+        if (networkError) {
+            toast({ title: "Network Switch Failed", description: networkError, variant: "destructive" });
+            return;
+        }
+
+        // The trial's NFT is kept, so the upgrade is only a payment; no second license is minted.
+        const signer = await provider.getSigner();
+        toast({ title: "Processing Payment...", description: "Please confirm the payment in MetaMask." });
+        const amount = tokenAmount(upgradeQuote.price, displayPaymentToken(chain, upgradeQuote.paymentToken));
+        const transactionHash = await paySeller(signer, upgradeQuote.sellerWalletAddress, amount, upgradeQuote.paymentToken);
+
+        const result = await convertTrialLicense(upgradeQuote.licenseId, transactionHash);
+        if (result.success) {
+            toast({ title: "Trial Upgraded", description: `${result.message} Your existing license file keeps working.`, duration: 9000 });
+            setUpgradeQuote(null);
+            window.history.replaceState(null, '', '/marketplace');
+        } else {
+            toast({ title: "Upgrade Error", description: result.message, variant: "destructive" });
+        }
+    } catch (error: any) {
+        console.error("Trial upgrade failed:", error);
+        toast({ title: "Upgrade Failed", description: error.reason || error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+        setIsRenewing(false);
+    }
+  };
+
+  const handleRenewLicense = async () => {
+    if (!renewalQuote) return;
+    if (typeof window.ethereum === 'undefined') {
+        toast({ title: "MetaMask not found", description: "Please install MetaMask to renew your license.", variant: "destructive"});
+        return;
+    }
+
+    // The renewal is paid on the chain the license lives on.
+    const chain = findChain(renewalQuote.chainId);
+    if (!chain) {
+        toast({ title: "Renewal Unavailable", description: "The chain this license lives on is not supported.", variant: "destructive" });
+        return;
+    }
+
+    setIsRenewing(true);
+    try {
+        const provider = new BrowserProvider(window.ethereum);
+        const networkError = await ensureNetwork(provider, chain);
+        if (networkError) {
+            toast({ title: "Network Switch Failed", description: networkError, variant: "destructive" });
+            return;
+        }
+
+        const signer = await provider.getSigner();
+
+        // Every renewal is backed by a payment transaction, even for free listings, so it can only be counted once.
+        toast({ title: "Processing Payment...", description: "Please confirm the renewal payment in MetaMask." });
+        const amount = tokenAmount(renewalQuote.price, displayPaymentToken(chain, renewalQuote.paymentToken), renewalQuote.seats);
+        const transactionHash = await paySeller(signer, renewalQuote.sellerWalletAddress, amount, renewalQuote.paymentToken);
+
+        // Publish refreshed metadata carrying the new expiry.
+        const terms = normalizeLicenseTerms(renewalQuote.licenseType, renewalQuote.termDays);
+        const expectedExpiry = renewedExpiry(terms, renewalQuote.expiresAt ? new Date(renewalQuote.expiresAt) : null);
+        let metadataUrl: string | undefined;
+        const metadataResponse = await fetch('/api/metadata/upload', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                name: `Software License: ${renewalQuote.softwareTitle}`,
+                description: `This NFT represents a unique, verifiable license for ${renewalQuote.softwareTitle}.`,
+                image: "https://bafybeifqi5yrkg7r3scz5g4spu2z5i7nd3rlol74y2k72i4h5qjcaa2gxy.ipfs.nftstorage.link/ss-logo-blue.png",
+                attributes: [
+                    { trait_type: "Software Title", value: renewalQuote.softwareTitle },
+                    { trait_type: "Seller", value: renewalQuote.sellerUsername },
+                    { trait_type: "Renewal Date", value: new Date().toISOString() },
+                    ...licenseMetadataAttributes(terms, expectedExpiry),
+                ],
+            })
+        });
+        if (metadataResponse.ok) {
+            metadataUrl = (await metadataResponse.json()).metadataUrl;
+        }
+
+        const result = await renewLicense(renewalQuote.licenseId, transactionHash, metadataUrl);
+        if (result.success && result.expiresAt) {
+            toast({
+                title: "License Renewed",
+                description: `Your license for "${renewalQuote.softwareTitle}" now runs until ${new Date(result.expiresAt).toLocaleDateString()}.`,
+                duration: 9000
+            });
+            setRenewalQuote(null);
+            window.history.replaceState(null, '', '/marketplace');
+        } else {
+            toast({ title: "Renewal Error", description: result.message, variant: "destructive" });
+        }
+    } catch (error: any) {
+        console.error("Renewal failed:", error);
+        toast({ title: "Renewal Failed", description: error.reason || error.message || "An unexpected error occurred.", variant: "destructive" });
+    } finally {
+        setIsRenewing(false);
+    }
+  };
+
+  const purchaseOffer = selectedSoftwareForPurchase && softwareOffer(selectedSoftwareForPurchase, selectedChain.chainId);
+  const viewOffer = selectedSoftwareForView && softwareOffer(selectedSoftwareForView, selectedChain.chainId);
+
   const SelectedIcon = selectedSoftwareForView?.sellerProfileIcon && iconComponents[selectedSoftwareForView.sellerProfileIcon]
     ? iconComponents[selectedSoftwareForView.sellerProfileIcon] 
     : User;
@@ -419,6 +776,18 @@ export default function MarketplacePage() {
                    onChange={(e) => setSearchTerm(e.target.value)}
                    className="h-11 w-[200px] border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm"
                  />
+                 {CHAINS.length > 1 && (
+                    <Select onValueChange={(value) => setSelectedChainId(Number(value))} defaultValue={String(selectedChainId)}>
+                        <SelectTrigger className="h-11 w-[200px] border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm">
+                            <SelectValue placeholder="Chain" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {CHAINS.map(chain => (
+                                <SelectItem key={chain.chainId} value={String(chain.chainId)}>{chain.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                 )}
                  <Select onValueChange={setSelectedCategory} defaultValue="all">
                     <SelectTrigger className="h-11 w-[180px] border-white/30 bg-white/10 text-white placeholder:text-gray-400 backdrop-blur-sm">
                         <SelectValue placeholder="All Categories" />
@@ -444,7 +813,7 @@ export default function MarketplacePage() {
         ) : filteredSoftware.length > 0 ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
                 {filteredSoftware.map((software) => (
-                    <SoftwareCard key={software._id} software={software} onBuy={handleBuyClick} isBuying={isBuying === software._id} onSelect={setSelectedSoftwareForView}/>
+                    <SoftwareCard key={software._id} software={software} chain={selectedChain} onBuy={handleBuyClick} isBuying={isBuying === software._id} onSelect={setSelectedSoftwareForView}/>
                 ))}
             </div>
         ) : (
@@ -482,7 +851,7 @@ export default function MarketplacePage() {
                     
                     <div className="flex items-center gap-2 mb-4">
                         <Badge variant="outline" className="border-white/20 bg-white/10 text-white text-xs capitalize">{selectedSoftwareForView.category}</Badge>
-                        <Badge variant="outline" className="border-white/20 bg-white/10 text-white text-xs capitalize">{selectedSoftwareForView.licenseType}</Badge>
+                        <Badge variant="outline" className="border-white/20 bg-white/10 text-white text-xs">{describeLicenseTerms(normalizeLicenseTerms(selectedSoftwareForView.licenseType, selectedSoftwareForView.termDays))}</Badge>
                     </div>
 
                     <div className="space-y-2 mb-6">
@@ -494,15 +863,35 @@ export default function MarketplacePage() {
                              <div className="flex items-center gap-2">
                                 <Fingerprint className={cn("h-5 w-5", selectedSoftwareForView.licensingRules.fingerprintLock ? "text-green-400" : "text-gray-500")} /> <span>Device-Locked License {selectedSoftwareForView.licensingRules.fingerprintLock ? "(Enabled)" : "(Disabled)"}</span>
                              </div>
+                             {selectedSoftwareForView.licensingRules.floating ? (
+                                <div className="flex items-center gap-2">
+                                    <User className="h-5 w-5 text-green-400" /> <span>Floating License: up to {selectedSoftwareForView.licensingRules.maxSeats || 1} concurrent uses per license, on any of your devices</span>
+                                </div>
+                             ) : (selectedSoftwareForView.licensingRules.maxSeats || 1) > 1 && (
+                                <div className="flex items-center gap-2">
+                                    <User className="h-5 w-5 text-green-400" /> <span>Up to {selectedSoftwareForView.licensingRules.maxSeats} seats per license</span>
+                                </div>
+                             )}
                          </motion.div>
                     </div>
 
                     <div className="flex items-center justify-between mt-4">
                         <motion.div layoutId={`card-price-${selectedSoftwareForView._id}`} className="flex items-center gap-2">
                             <Tag className="h-5 w-5 text-green-400"/>
-                            <span className="text-2xl font-bold text-white">{selectedSoftwareForView.price <= 0 ? 'Free' : `${selectedSoftwareForView.price} POL`}</span>
+                            <span className="text-2xl font-bold text-white">{formatPrice(viewOffer?.price ?? 0, displayPaymentToken(selectedChain, viewOffer?.paymentToken))}</span>
                         </motion.div>
-                        <motion.div layoutId={`card-buy-${selectedSoftwareForView._id}`}>
+                        <motion.div layoutId={`card-buy-${selectedSoftwareForView._id}`} className="flex items-center gap-2">
+                             {!!selectedSoftwareForView.trialDays && (
+                                <Button
+                                    variant="outline"
+                                    className="text-white bg-black/10 hover:bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 text-lg px-6 py-5"
+                                    onClick={(e) => { e.stopPropagation(); handleStartTrial(selectedSoftwareForView); }}
+                                    disabled={isBuying === selectedSoftwareForView._id}
+                                >
+                                    <Timer className="mr-2 h-6 w-6" />
+                                    {selectedSoftwareForView.trialDays}-Day Trial
+                                </Button>
+                             )}
                              <Button 
                                 variant="outline" 
                                 className="text-yellow-400 hover:text-yellow-300 bg-black/10 hover:bg-yellow-400/10 backdrop-blur-sm rounded-lg border border-yellow-400/20 text-lg px-6 py-5" 
@@ -530,9 +919,23 @@ export default function MarketplacePage() {
             </AlertDialogDescription>
             </AlertDialogHeader>
             <div className="space-y-4 text-sm">
+                {(selectedSoftwareForPurchase?.licensingRules.maxSeats || 1) > 1 && (
+                    <div className="flex justify-between items-center">
+                        <Label htmlFor="seat-quantity" className="text-gray-400">{selectedSoftwareForPurchase?.licensingRules.floating ? 'Concurrent uses' : 'Seats'} (up to {selectedSoftwareForPurchase?.licensingRules.maxSeats}):</Label>
+                        <Input id="seat-quantity" type="number" min="1" max={selectedSoftwareForPurchase?.licensingRules.maxSeats} value={seatQuantity} onChange={(e) => setSeatQuantity(e.target.value)} className="h-8 w-24 border-white/30 bg-white/10 text-white" />
+                    </div>
+                )}
                 <div className="flex justify-between">
                     <span className="text-gray-400">Price:</span>
-                    <span className="font-bold text-white">{selectedSoftwareForPurchase?.price} POL</span>
+                    <span className="font-bold text-white">
+                        {purchaseOffer && Number.isInteger(Number(seatQuantity)) && Number(seatQuantity) > 0
+                            ? formatSeatTotal(selectedChain, purchaseOffer.price, purchaseOffer.paymentToken, Number(seatQuantity))
+                            : `${purchaseOffer?.price} ${displayPaymentToken(selectedChain, purchaseOffer?.paymentToken).symbol} per seat`}
+                    </span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-400">Chain:</span>
+                    <span className="text-white">{selectedChain.name}</span>
                 </div>
                 <div className="flex justify-between items-center">
                     <span className="text-gray-400">Your Wallet:</span>
@@ -553,6 +956,68 @@ export default function MarketplacePage() {
             </AlertDialogFooter>
         </AlertDialogContent>
     </AlertDialog>
+
+     <AlertDialog open={!!renewalQuote} onOpenChange={(isOpen) => !isOpen && !isRenewing && setRenewalQuote(null)}>
+        <AlertDialogContent>
+            <AlertDialogHeader>
+            <AlertDialogTitle>Renew Subscription</AlertDialogTitle>
+            <AlertDialogDescription>
+                You are about to renew your license for <span className="font-bold text-white">{renewalQuote?.softwareTitle}</span> for another {renewalQuote?.termDays} days.
+            </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-4 text-sm">
+                <div className="flex justify-between">
+                    <span className="text-gray-400">Price:</span>
+                    <span className="font-bold text-white">{renewalQuote && renewalQuote.price > 0 ? formatSeatTotal(findChain(renewalQuote.chainId), renewalQuote.price, renewalQuote.paymentToken, renewalQuote.seats) : 'Free'}</span>
+                </div>
+                {renewalQuote && renewalQuote.seats > 1 && (
+                    <div className="flex justify-between">
+                        <span className="text-gray-400">Seats:</span>
+                        <span className="text-white">{renewalQuote.seats} × {formatPrice(renewalQuote.price, displayPaymentToken(findChain(renewalQuote.chainId), renewalQuote.paymentToken))}</span>
+                    </div>
+                )}
+                <div className="flex justify-between">
+                    <span className="text-gray-400">Current Expiry:</span>
+                    <span className="text-white">{renewalQuote?.expiresAt ? new Date(renewalQuote.expiresAt).toLocaleDateString() : 'N/A'}</span>
+                </div>
+            </div>
+            <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRenewing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+                onClick={(e) => { e.preventDefault(); handleRenewLicense(); }}
+                disabled={isRenewing}
+            >
+                {isRenewing ? "Processing..." : "Confirm & Pay"}
+            </AlertDialogAction>
+            </AlertDialogFooter>
+        </AlertDialogContent>
+    </AlertDialog>
+
+     <AlertDialog open={!!upgradeQuote} onOpenChange={(isOpen) => !isOpen && !isRenewing && setUpgradeQuote(null)}>
+        <AlertDialogContent>
+            <AlertDialogHeader>
+            <AlertDialogTitle>Upgrade Trial</AlertDialogTitle>
+            <AlertDialogDescription>
+                You are about to upgrade your trial of <span className="font-bold text-white">{upgradeQuote?.softwareTitle}</span> to a {upgradeQuote ? describeLicenseTerms(normalizeLicenseTerms(upgradeQuote.licenseType, upgradeQuote.termDays)).toLowerCase() : 'full license'}.
+            </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-4 text-sm">
+                <div className="flex justify-between">
+                    <span className="text-gray-400">Price:</span>
+                    <span className="font-bold text-white">{upgradeQuote ? formatPrice(upgradeQuote.price, displayPaymentToken(findChain(upgradeQuote.chainId), upgradeQuote.paymentToken)) : 'Free'}</span>
+                </div>
+            </div>
+            <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRenewing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+                onClick={(e) => { e.preventDefault(); handleUpgradeTrial(); }}
+                disabled={isRenewing}
+            >
+                {isRenewing ? "Processing..." : "Confirm & Pay"}
+            </AlertDialogAction>
+            </AlertDialogFooter>
+        </AlertDialogContent>
+    </AlertDialog>
     </div>
     </>
 
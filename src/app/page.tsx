@@ -11,6 +11,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { signInWithEmailPassword } from "@/lib/auth";
+import { signInWithEthereum } from "@/lib/siwe-client";
+import { MetaMaskIcon } from "@/components/ui/metamask-icon";
 
 export default function Home() {
   const [isTransitioned, setIsTransitioned] = useState(false);
@@ -51,12 +53,7 @@ export default function Home() {
         title: "Sign In Successful",
         description: `Welcome back, ${result.user.username}!`,
       });
-      sessionStorage.setItem('username', result.user.username);
-      if (result.user.profileIcon) {
-        sessionStorage.setItem('profileIcon', result.user.profileIcon);
-      } else {
-        sessionStorage.removeItem('profileIcon');
-      }
+      // The session itself lives in an HTTP-only cookie set by the server.
       if (result.user.walletAddress) {
         sessionStorage.setItem('walletAddress', result.user.walletAddress);
       } else {
@@ -72,6 +69,38 @@ export default function Home() {
     }
   };
 
+  const handleWalletSignIn = async () => {
+    setIsSigningIn(true);
+    try {
+      const result = await signInWithEthereum();
+      if (result.success && result.username) {
+        toast({
+          title: "Sign In Successful",
+          description: `Welcome back, ${result.username}!`,
+        });
+        if (result.walletAddress) {
+          sessionStorage.setItem('walletAddress', result.walletAddress);
+        }
+        router.push('/dashboard');
+      } else {
+        toast({
+          title: "Sign In Failed",
+          description: result.success ? "No seller account is linked to this wallet." : result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Wallet sign-in error:", error);
+      toast({
+        title: "Sign In Failed",
+        description: "Could not sign in with MetaMask. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       handleSignIn();
@@ -205,6 +234,14 @@ export default function Home() {
                       </Link>
                     </Button>
                   </div>
+                  <Button
+                    variant="ghost"
+                    className="w-full text-gray-300 hover:bg-white/10 hover:text-white"
+                    onClick={handleWalletSignIn}
+                    disabled={isSigningIn}
+                  >
+                    <MetaMaskIcon className="mr-2 h-5 w-5" />Sign in with your seller wallet
+                  </Button>
                 </div>
               </div>
             </div>
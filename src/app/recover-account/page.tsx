@@ -19,13 +19,16 @@ export default function RecoverAccountPage() {
   
   const [phrase, setPhrase] = useState(Array(12).fill(""));
   const [email, setEmail] = useState("");
+  const [recoveryToken, setRecoveryToken] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
   useEffect(() => {
     const emailFromParams = searchParams.get('email');
-    if (emailFromParams) {
+    const tokenFromParams = searchParams.get('token');
+    if (emailFromParams && tokenFromParams) {
       setEmail(decodeURIComponent(emailFromParams));
+      setRecoveryToken(tokenFromParams);
     } else {
       toast({
         title: "Error",
@@ -79,7 +82,7 @@ export default function RecoverAccountPage() {
     
     setIsSubmitting(true);
     const enteredPhrase = phrase.join(" ").trim();
-    const result = await recoverAccount(email, enteredPhrase);
+    const result = await recoverAccount(email, enteredPhrase, recoveryToken);
     setIsSubmitting(false);
 
     if (result.success) {
@@ -87,7 +90,7 @@ export default function RecoverAccountPage() {
         title: "Success!",
         description: "Account verified. You can now reset your password.",
       });
-      router.push(`/reset-password?email=${encodeURIComponent(email)}`);
+      router.push(`/reset-password?email=${encodeURIComponent(email)}&token=${result.resetToken}`);
     } else {
       toast({
         title: "Recovery Failed",
@@ -18,6 +18,7 @@ export default function ResetPasswordPage() {
   const { toast } = useToast();
 
   const [email, setEmail] = useState('');
+  const [resetToken, setResetToken] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -29,8 +30,10 @@ export default function ResetPasswordPage() {
 
   useEffect(() => {
     const emailFromParams = searchParams.get('email');
-    if (emailFromParams) {
+    const tokenFromParams = searchParams.get('token');
+    if (emailFromParams && tokenFromParams) {
       setEmail(decodeURIComponent(emailFromParams));
+      setResetToken(tokenFromParams);
       passwordRef.current?.focus();
     } else {
       toast({
@@ -60,7 +63,7 @@ export default function ResetPasswordPage() {
     }
     
     setIsSubmitting(true);
-    const result = await resetPassword(email, password);
+    const result = await resetPassword(email, resetToken, password);
     setIsSubmitting(false);
 
     if (result.success) {
@@ -131,7 +134,7 @@ export default function ResetPasswordPage() {
 
        <div className="flex items-center">
         <Button asChild variant="ghost" size="icon" className="text-white hover:bg-white/10 hover:text-white">
-          <Link href={email ? `/recover-account?email=${encodeURIComponent(email)}` : "/forgot-password"}>
+          <Link href="/forgot-password">
             <ArrowLeft className="h-6 w-6" />
           </Link>
         </Button>
@@ -1,50 +1,35 @@
 
 "use client";
 
-import { useState, useCallback, ChangeEvent } from 'react';
+import { useState, useEffect, ChangeEvent } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, UploadCloud, File, X, Rocket, Zap } from 'lucide-react';
+import { ArrowLeft, UploadCloud, File, X, Rocket, Zap, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { getDecryptionKey } from '@/lib/auth';
+import { getDecryptionKey, requestKeyChallenge } from '@/lib/auth';
+import { KEY_REQUEST_TYPES, SOFTWARE_SHOP_DOMAIN } from '@/lib/typed-data';
 import { BrowserProvider } from 'ethers';
 import { cn } from '@/lib/utils';
-import CryptoJS from 'crypto-js';
-
-// Simple function to generate a persistent device ID
-const getDeviceId = () => {
-    let deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) {
-        deviceId = crypto.randomUUID();
-        localStorage.setItem('deviceId', deviceId);
-    }
-    return deviceId;
-};
+import { getDeliveryKeyPair, getDeviceId } from '@/lib/device';
+import { decryptSoftwareStream, openKeyDelivery } from '@/lib/encryption';
+import { formatBytes } from '@/lib/upload-client';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
-// Use crypto-js for robust decryption
-function decryptData(encryptedBase64: string, key: string): string {
+// Decrypts the download as it arrives. Chunked containers are verified segment by segment,
+// so tampering is reported as an error and only one segment is in memory at a time; the
+// result is collected into a Blob, which browsers can spill to disk for large files.
+// Headerless uploads fall back to the legacy CBC path.
+async function decryptData(encrypted: ReadableStream<Uint8Array>, key: string, mimeType: string): Promise<Blob> {
     try {
-        const keyHex = CryptoJS.enc.Hex.parse(key);
-        // The IV should ideally be part of the encrypted payload and extracted,
-        // but for this example, we assume a zero-filled IV if not present.
-        const iv = CryptoJS.enc.Hex.parse('00000000000000000000000000000000'); 
-
-        const decrypted = CryptoJS.AES.decrypt(encryptedBase64, keyHex, {
-            iv: iv,
-            mode: CryptoJS.mode.CBC,
-            padding: CryptoJS.pad.Pkcs7
-        });
-
-        // Convert the decrypted WordArray to a UTF-8 string.
-        const decryptedText = decrypted.toString(CryptoJS.enc.Utf8);
-        
-        if (!decryptedText) {
-            // This can happen if the key is wrong or the data is corrupted,
-            // resulting in a WordArray that can't be converted to valid UTF-8.
-            throw new Error("Decryption resulted in an empty string. The key may be incorrect or the ciphertext corrupted.");
+        const decrypted = await decryptSoftwareStream(encrypted, key);
+        const blob = await new Response(decrypted).blob();
+
+        if (blob.size === 0) {
+            throw new Error("Decryption produced an empty file. The key may be incorrect or the ciphertext corrupted.");
         }
 
-        return decryptedText;
+        return new Blob([blob], { type: mimeType });
     } catch (error) {
         console.error("Decryption failed:", error);
         // Provide a more specific error message if possible.
@@ -53,20 +38,85 @@ function decryptData(encryptedBase64: string, key: string): string {
     }
 }
 
+// Only plain-text formats are previewed inline, and only their beginning; everything
+// else is offered as a download only.
+const PREVIEW_LIMIT_BYTES = 256 * 1024;
+
+function isPreviewable(mimeType: string): boolean {
+    return mimeType.startsWith('text/') || mimeType === 'application/json';
+}
+
+interface LoadedSoftware {
+    fileName: string;
+    mimeType: string;
+    size: number;
+    downloadUrl: string;
+    preview: string | null;
+    release?: { version: string; channel: string; changelog: string; releasedAt: string; };
+}
+
+// A lease of a floating license, held while its software is loaded.
+interface HeldLease {
+    licenseId: string;
+    leaseId: string;
+    leaseToken: string;
+    heartbeatIntervalMs: number;
+}
+
 
 export default function RunSoftwarePage() {
     const { toast } = useToast();
     const [licenseFile, setLicenseFile] = useState<File | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [softwareContent, setSoftwareContent] = useState<string | null>(null);
-    const [fileName, setFileName] = useState("");
+    const [software, setSoftware] = useState<LoadedSoftware | null>(null);
+    const [includeBeta, setIncludeBeta] = useState(false);
+    const [lease, setLease] = useState<HeldLease | null>(null);
+
+    // Release the previous object URL whenever the loaded file changes or the page unmounts.
+    useEffect(() => {
+        return () => {
+            if (software) URL.revokeObjectURL(software.downloadUrl);
+        };
+    }, [software]);
+
+    // Keep a floating license's lease alive while the software is loaded, and check it in when
+    // another license is loaded or the page goes away. If the lease is lost (it expired, or the
+    // license was blocked), the loaded software is unloaded.
+    useEffect(() => {
+        if (!lease) return;
+        const body = JSON.stringify({ licenseId: lease.licenseId, leaseId: lease.leaseId, leaseToken: lease.leaseToken });
+
+        const interval = setInterval(async () => {
+            try {
+                const response = await fetch('/api/license/lease/heartbeat', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+                if (response.status === 410) {
+                    const result = await response.json();
+                    setLease(null);
+                    setSoftware(null);
+                    toast({ title: "License Lease Lost", description: result.message, variant: "destructive", duration: 9000 });
+                }
+            } catch (error) {
+                // A missed heartbeat is harmless; the lease outlives several intervals.
+                console.error("Lease heartbeat failed:", error);
+            }
+        }, lease.heartbeatIntervalMs);
+
+        const checkin = () => navigator.sendBeacon('/api/license/lease/checkin', new Blob([body], { type: 'application/json' }));
+        window.addEventListener('pagehide', checkin);
+
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('pagehide', checkin);
+            checkin();
+        };
+    }, [lease, toast]);
 
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
             if (file.name.endsWith('.license.json')) {
                 setLicenseFile(file);
-                setSoftwareContent(null); // Reset previous content
+                setSoftware(null); // Reset previous content
                 handleLoadSoftware(file); // Automatically trigger load on file select
             } else {
                 toast({ title: "Invalid File", description: "Please upload a valid .license.json file.", variant: "destructive" });
@@ -83,53 +133,73 @@ export default function RunSoftwarePage() {
         }
 
         setIsLoading(true);
-        setSoftwareContent(null);
-        setFileName("");
+        setSoftware(null);
+        setLease(null);
 
         try {
             // 1. Check for wallet
             if (!window.ethereum) throw new Error("MetaMask is not installed.");
             const provider = new BrowserProvider(window.ethereum);
             const signer = await provider.getSigner();
-            const walletAddress = await signer.getAddress();
             
-            // 2. Read license file content to get URLs and IDs
+            // 2. Read license file content to get the IDs. Older license files also carry an
+            // `encryptedFileUrl`; it is ignored because the server resolves the release to load.
             const licenseFileText = await fileToLoad.text();
             const licenseData = JSON.parse(licenseFileText);
-            const { licenseId, softwareId, encryptedFileUrl } = licenseData;
-            if (!licenseId || !encryptedFileUrl || !softwareId) throw new Error("Invalid license file format.");
+            const { licenseId, softwareId } = licenseData;
+            if (!licenseId || !softwareId) throw new Error("Invalid license file format.");
+            const channel = includeBeta ? 'beta' : (licenseData.channel || 'stable');
             
-            // 3. Get decryption key from server (performs all security checks)
+            // 3. Prove ownership of the license wallet by signing a one-time challenge, together with
+            // the device key the content key will be sealed for
             const deviceId = getDeviceId();
-            const keyResult = await getDecryptionKey(licenseId, deviceId, walletAddress);
-            if (!keyResult.success || !keyResult.key) {
+            const deliveryKeys = await getDeliveryKeyPair();
+            const challenge = await requestKeyChallenge(licenseId, deviceId);
+            if (!challenge.success || !challenge.nonce) {
+                throw new Error(challenge.message || "Could not start license validation.");
+            }
+            toast({ title: "Signature Required", description: "Please sign the key request in MetaMask to prove you own this license." });
+            const signature = await signer.signTypedData(SOFTWARE_SHOP_DOMAIN, KEY_REQUEST_TYPES, { licenseId, deviceId, deliveryPublicKey: deliveryKeys.publicKey, nonce: challenge.nonce });
+
+            // 4. Get decryption key from server (performs all security checks)
+            const keyResult = await getDecryptionKey(licenseId, deviceId, deliveryKeys.publicKey, challenge.nonce, signature, channel);
+            if (!keyResult.success || !keyResult.keyDelivery || !keyResult.fileUrl) {
                 throw new Error(keyResult.message || "Failed to validate license.");
             }
-            const decryptionKey = keyResult.key;
+            if (keyResult.lease) {
+                setLease({ licenseId, leaseId: keyResult.lease.leaseId, leaseToken: keyResult.lease.leaseToken, heartbeatIntervalMs: keyResult.lease.heartbeatIntervalMs });
+            }
+            const decryptionKey = await openKeyDelivery(keyResult.keyDelivery, deliveryKeys.keyPair.privateKey);
 
-            // 4. Fetch the ENCRYPTED software file from the URL provided in the license
-            toast({ title: "Fetching Software...", description: "Downloading encrypted content from the cloud."});
-            const response = await fetch(encryptedFileUrl);
-            if (!response.ok) {
+            // 5. Fetch the ENCRYPTED file of the newest release the license covers
+            toast({ title: "Fetching Software...", description: keyResult.release ? `Downloading version ${keyResult.release.version}.` : "Downloading encrypted content from the cloud."});
+            const response = await fetch(keyResult.fileUrl);
+            if (!response.ok || !response.body) {
                  throw new Error(`Failed to download the encrypted software file. Status: ${response.status}`);
             }
-            const encryptedDataAsBase64 = await response.text();
-             
-            // Extract the original filename from the URL, removing the .enc extension
-            const fullFileName = encryptedFileUrl.substring(encryptedFileUrl.lastIndexOf('/') + 1);
-            setFileName(fullFileName.replace('.enc', ''));
 
-            // 5. Decrypt the fetched file content in the browser
+            // 6. Decrypt the content in the browser while it downloads, with the name and
+            // type recorded when the seller uploaded it
             toast({ title: "Decrypting...", description: "Unlocking file content locally in your browser." });
-            const decryptedContent = decryptData(encryptedDataAsBase64, decryptionKey);
+            const fileName = keyResult.fileName || 'software.bin';
+            const mimeType = keyResult.mimeType || 'application/octet-stream';
+            const blob = await decryptData(response.body, decryptionKey, mimeType);
 
-            setSoftwareContent(decryptedContent);
+            setSoftware({
+                fileName,
+                mimeType,
+                size: blob.size,
+                downloadUrl: URL.createObjectURL(blob),
+                preview: isPreviewable(mimeType) ? await blob.slice(0, PREVIEW_LIMIT_BYTES).text() : null,
+                release: keyResult.release,
+            });
             toast({ title: "Success", description: "Software loaded and decrypted successfully." });
 
         } catch (error: any) {
             console.error("Failed to load software:", error);
             toast({ title: "Error Loading Software", description: error.message, variant: "destructive", duration: 9000 });
-            setSoftwareContent(null);
+            setSoftware(null);
+            setLease(null);
         } finally {
             setIsLoading(false);
         }
@@ -197,7 +267,7 @@ export default function RunSoftwarePage() {
                                         <File className="w-6 h-6 text-white flex-shrink-0"/>
                                         <span className="font-medium text-sm truncate" title={licenseFile.name}>{licenseFile.name}</span>
                                     </div>
-                                    <Button variant="ghost" size="icon" className="text-white hover:bg-white/20 h-7 w-7 flex-shrink-0 z-10" onClick={(e) => { e.preventDefault(); e.stopPropagation(); setLicenseFile(null); setSoftwareContent(null); const input = document.getElementById('license-upload') as HTMLInputElement; if(input) input.value = ''; }}>
+                                    <Button variant="ghost" size="icon" className="text-white hover:bg-white/20 h-7 w-7 flex-shrink-0 z-10" onClick={(e) => { e.preventDefault(); e.stopPropagation(); setLicenseFile(null); setSoftware(null); setLease(null); const input = document.getElementById('license-upload') as HTMLInputElement; if(input) input.value = ''; }}>
                                         <X className="h-4 w-4"/>
                                     </Button>
                                 </div>
@@ -205,6 +275,11 @@ export default function RunSoftwarePage() {
                            <input id="license-upload" type="file" accept=".json,.license.json" className="sr-only" onChange={handleFileChange} />
                         </label>
                         
+                        <div className="flex items-center justify-between rounded-lg border border-white/20 bg-white/5 p-3">
+                            <Label htmlFor="include-beta" className="text-sm text-gray-300">Include beta releases</Label>
+                            <Switch id="include-beta" checked={includeBeta} onCheckedChange={setIncludeBeta} disabled={isLoading} />
+                        </div>
+
                         <Button
                             variant="outline"
                             size="lg"
@@ -218,12 +293,32 @@ export default function RunSoftwarePage() {
                     </div>
                 </div>
 
-                {softwareContent && (
-                    <div className="w-full max-w-2xl rounded-xl border border-white/20 bg-black/20 p-8 shadow-lg backdrop-blur-xl mt-8">
-                         <h2 className="text-xl font-bold mb-4">Loaded Software: {fileName}</h2>
-                         <pre className="text-sm whitespace-pre-wrap bg-black/30 p-4 rounded-md font-mono text-left max-h-[50vh] overflow-auto">
-                            <code>{softwareContent}</code>
-                         </pre>
+                {software && (
+                    <div className="w-full max-w-2xl rounded-xl border border-white/20 bg-black/20 p-8 shadow-lg backdrop-blur-xl mt-8 space-y-4">
+                         <div className="flex items-center justify-between gap-4">
+                            <div className="overflow-hidden">
+                                <h2 className="text-xl font-bold truncate" title={software.fileName}>Loaded Software: {software.fileName}</h2>
+                                <p className="text-sm text-gray-300">
+                                    {software.release && <>Version {software.release.version}{software.release.channel === 'beta' ? ' (beta)' : ''} &middot; </>}
+                                    {software.mimeType} &middot; {formatBytes(software.size)}
+                                </p>
+                                {lease && <p className="text-xs text-green-300">Floating license lease held. Keep this page open while you use the software.</p>}
+                            </div>
+                            <Button asChild variant="outline" className="border-white/30 bg-white/20 hover:bg-white/30 flex-shrink-0">
+                                <a href={software.downloadUrl} download={software.fileName}>
+                                    <Download className="mr-2 h-4 w-4" />
+                                    Download
+                                </a>
+                            </Button>
+                         </div>
+                         {software.release?.changelog && (
+                            <p className="whitespace-pre-line text-sm text-gray-300">{software.release.changelog}</p>
+                         )}
+                         {software.preview !== null && (
+                            <pre className="text-sm whitespace-pre-wrap bg-black/30 p-4 rounded-md font-mono text-left max-h-[50vh] overflow-auto">
+                                <code>{software.preview}</code>
+                            </pre>
+                         )}
                     </div>
                 )}
             </main>
@@ -119,8 +119,7 @@ export default function VerifyPhrasePage() {
         title: "Account Created!",
         description: "You have successfully created your account. Welcome!",
       });
-      // Store username for the dashboard and clear temporary signup data
-      sessionStorage.setItem('username', username);
+      // The server has signed the new user in; clear temporary signup data
       sessionStorage.removeItem('signup_username');
       sessionStorage.removeItem('signup_email');
       sessionStorage.removeItem('signup_password');
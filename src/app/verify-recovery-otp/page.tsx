@@ -53,7 +53,7 @@ export default function VerifyRecoveryOtpPage() {
         title: "Success",
         description: "Verification successful. You can now recover your account.",
       });
-      router.push(`/recover-account?email=${encodeURIComponent(email)}`);
+      router.push(`/recover-account?email=${encodeURIComponent(email)}&token=${result.recoveryToken}`);
     } else {
       toast({
         title: "Error",
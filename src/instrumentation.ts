@@ -0,0 +1,20 @@
+/**
+ * Runs once when a server process starts. The chain indexer is opt-in, so that
+ * only the processes meant to follow the chain do so. Relayed transactions that
+ * were still in flight when a process stopped are followed up to their outcome.
+ * Files replaced by key rotations are removed once their grace period is over.
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.LICENSE_INDEXER_ENABLED === 'true') {
+        const { startLicenseIndexer } = await import('./lib/license-indexer');
+        startLicenseIndexer();
+    }
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.RELAYER_PRIVATE_KEY) {
+        const { resumeRelayedTransactions } = await import('./lib/relayer');
+        resumeRelayedTransactions().catch(error => console.error("Could not resume relayed transactions:", error));
+    }
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startRetiredFileSweep } = await import('./lib/key-rotation');
+        startRetiredFileSweep();
+    }
+}
@@ -2,19 +2,43 @@
 'use server';
 
 import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 import clientPromise from './mongodb';
 import { ObjectId } from 'mongodb';
 import nodemailer from 'nodemailer';
-import { Contract, JsonRpcProvider } from 'ethers';
+import { Contract, ZeroHash } from 'ethers';
 import { SOFTWARE_LICENSE_ABI } from './abi';
+import { createSession, destroySession, getSession, requireSession, requireWalletSession, revokeUserSessions } from './session';
+import { AuthError } from './errors';
+import { authorizeLicenseSeller, authorizeSoftwareOwner } from './policy';
+import { issueKeyChallenge, redeemKeyChallenge } from './wallet-auth';
+import { createKeyDelivery } from './content-keys';
+import { createRelease, getReleasesCollection, listReleases, resolveRelease, RELEASE_CHANNELS, ReleaseChannel } from './releases';
+import { claimPendingUpload } from './uploads';
+import { claimPayment, PaymentUse, releasePayment } from './used-payments';
+import { renewSubscription } from './renewals';
+import { claimTrial, hasClaimedTrial, recordTrialConversion, releaseTrialClaim } from './trials';
+import { bindSeat, boundDevices, isDeviceBound, MAX_SEATS_PER_LICENSE, seatCount, touchSeat } from './seats';
+import { getRequestIp, isIpInCidr, normalizeCidr, normalizeIp } from './ip';
+import { burnChainLicense, CHAIN_BLOCK_REASON, getChainProduct, isNonexistentTokenError, licenseChain, LicenseSyncIssue, mintChainLicense, reconcileLicenseStatuses, setChainLicenseBlocked, softwareChainKey, softwareProductId } from './license-chain';
+import { ChainConfig, chainProvider, ChainOffer, findChain, getChains, LEGACY_CHAIN_ID, recordChainId, requireChain, softwareOffer, softwareOffers } from './chains';
+import { isRelayerConfigured } from './relayer';
+import { completePurchase, getPurchase, openPurchase, PurchaseStatus } from './purchases';
+import { findPaymentToken, nativePaymentToken, normalizePrice, tokenAmount } from './payment-tokens';
+import { verifyDirectPayment } from './payments';
+import { confirmVoucherRedemption, issueMintVoucher } from './mint-vouchers';
+import { activeLeases, checkinLease, checkoutLease, heartbeatLease, LEASE_HEARTBEAT_INTERVAL_MS } from './leases';
+import { decideDeviceReset, DeviceResetStatus, getDeviceResetAllowance, getDeviceResetRequest, listDeviceResets, requestDeviceReset } from './device-resets';
+import { DeviceResetPolicy, isLicenseExpired, isRenewable, LICENSE_TERM_TYPES, LicenseTermType, licenseExpiry, normalizeDeviceResetPolicy, normalizeLicenseTerms, normalizeUpdateDays, trialExpiry, updatesUntil } from './license-terms';
+import { getKeyRotations, startKeyRotation } from './key-rotation';
+import type { KeyDelivery } from './encryption';
+import type { MintVoucher } from './typed-data';
 
 
 if (!process.env.NEXT_PUBLIC_MONGODB_URI) {
   throw new Error('Server configuration error: MONGODB_URI is not set in your .env file.');
 }
 
-const SOFTWARE_LICENSE_CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_SOFTWARE_LICENSE_CONTRACT_ADDRESS || '0xa3BBFe67BA745F4A2b566fc31Cc0724Ead830938';
-
 
 interface UserData {
   username: string;
@@ -30,14 +54,6 @@ interface CheckUserExistsParams {
     email?: string;
 }
 
-interface LicenseData {
-    softwareId: string;
-    buyerAddress: string;
-    tokenId: number;
-    transactionHash: string;
-    buyerIp: string;
-}
-
 
 /**
  * Checks if a username or email already exists in the database.
@@ -116,6 +132,9 @@ export async function createUser(userData: {username: string, email: string, pas
     if (!result.insertedId) {
         return { success: false, message: 'Failed to create user in the database.' };
     }
+
+    // Sign the new user in straight away.
+    await createSession({ userId: result.insertedId, username });
     
     return { success: true, message: "User created successfully." };
 
@@ -159,6 +178,7 @@ export async function signInWithEmailPassword(email: string, password: string):
         const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
 
         if (isPasswordValid) {
+            await createSession({ userId: user._id, username: user.username });
             return { success: true, message: 'Sign-in successful.', user: { username: user.username, profileIcon: user.profileIcon, walletAddress: user.walletAddress } };
         } else {
             return { success: false, message: 'Incorrect password.' };
@@ -170,16 +190,71 @@ export async function signInWithEmailPassword(email: string, password: string):
 }
 
 /**
- * Fetches software uploaded by a specific user, including license stats.
- * @param username The username of the seller.
+ * Returns the signed-in user for the current session.
+ * @returns The user's public details, or null if nobody is signed in.
+ */
+export async function getCurrentUser(): Promise<{ username: string; profileIcon?: string; walletAddress?: string; } | null> {
+    try {
+        const session = await getSession();
+        if (!session?.userId) {
+            return null;
+        }
+
+        const client = await clientPromise;
+        const db = client.db();
+
+        const user = await db.collection('users').findOne({ _id: session.userId }, { projection: { username: 1, profileIcon: 1, walletAddress: 1 } });
+        if (!user) {
+            return null;
+        }
+
+        return { username: user.username, profileIcon: user.profileIcon, walletAddress: user.walletAddress };
+    } catch (error) {
+        console.error("Error fetching current user:", error);
+        return null;
+    }
+}
+
+/**
+ * Returns the wallet address the current session has proven ownership of through SIWE.
+ * @returns The verified wallet address in lowercase, or null if none has been verified.
+ */
+export async function getVerifiedWallet(): Promise<string | null> {
+    try {
+        const session = await getSession();
+        return session?.walletAddress ?? null;
+    } catch (error) {
+        console.error("Error fetching verified wallet:", error);
+        return null;
+    }
+}
+
+/**
+ * Signs out the current user by revoking their session and clearing the session cookie.
+ * @returns An object indicating success or failure.
+ */
+export async function signOut(): Promise<{ success: boolean; message: string }> {
+    try {
+        await destroySession();
+        return { success: true, message: 'Signed out successfully.' };
+    } catch (error) {
+        console.error("Error signing out:", error);
+        return { success: false, message: 'An unexpected server error occurred during sign-out.' };
+    }
+}
+
+/**
+ * Fetches software uploaded by the signed-in seller, including license stats.
  * @returns A list of software objects with license statistics.
  */
-export async function getMySoftware(username: string): Promise<any[]> {
+export async function getMySoftware(): Promise<any[]> {
     try {
+        const session = await requireSession();
+
         const client = await clientPromise;
         const db = client.db();
 
-        const softwareList = await db.collection('software').find({ sellerUsername: username }).sort({ createdAt: -1 }).toArray();
+        const softwareList = await db.collection('software').find({ sellerId: session.userId }, { projection: { contentKey: 0 } }).sort({ createdAt: -1 }).toArray();
 
         const softwareWithStats = await Promise.all(softwareList.map(async (software) => {
             const licenses = await db.collection('licenses').find({ softwareId: software._id }).toArray();
@@ -236,11 +311,15 @@ export async function getAllSoftware(): Promise<any[]> {
                     title: 1,
                     description: 1,
                     price: 1,
+                    paymentToken: 1,
+                    chains: 1,
                     sellerUsername: 1,
-                    fileUrl: 1,
+                    version: 1,
                     createdAt: 1,
                     category: 1,
                     licenseType: 1,
+                    termDays: 1,
+                    trialDays: 1,
                     licensingRules: 1,
                     sellerProfileIcon: '$sellerInfo.profileIcon',
                     sellerWalletAddress: '$sellerInfo.walletAddress',
@@ -259,17 +338,18 @@ export async function getAllSoftware(): Promise<any[]> {
 }
 
 /**
- * Fetches user profile information.
- * @param username The username to fetch profile for.
+ * Fetches the signed-in user's profile information.
  * @returns The user profile object or null if not found.
  */
-export async function getUserProfile(username: string): Promise<{ username: string; profileIcon: string | null; } | null> {
+export async function getUserProfile(): Promise<{ username: string; profileIcon: string | null; } | null> {
     try {
+        const session = await requireSession();
+
         const client = await clientPromise;
         const db = client.db();
 
         const user = await db.collection('users').findOne(
-            { username: username },
+            { _id: session.userId },
             { projection: { username: 1, profileIcon: 1, _id: 0 } }
         );
 
@@ -287,18 +367,19 @@ export async function getUserProfile(username: string): Promise<{ username: stri
 }
 
 /**
- * Updates a user's profile.
- * @param username The username of the user to update.
+ * Updates the signed-in user's profile.
  * @param profileData The data to update.
  * @returns An object indicating success or failure.
  */
-export async function updateUserProfile(username: string, profileData: { profileIcon: string | null }): Promise<{ success: boolean; message: string }> {
+export async function updateUserProfile(profileData: { profileIcon: string | null }): Promise<{ success: boolean; message: string }> {
   try {
+    const session = await requireSession();
+
     const client = await clientPromise;
     const db = client.db();
 
     const result = await db.collection('users').updateOne(
-      { username: username },
+      { _id: session.userId },
       { $set: { profileIcon: profileData.profileIcon } }
     );
 
@@ -308,11 +389,39 @@ export async function updateUserProfile(username: string, profileData: { profile
       return { success: false, message: 'User not found or profile is already up-to-date.' };
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
     console.error('Error updating profile:', error);
     return { success: false, message: 'An unexpected server error occurred.' };
   }
 }
 
+// A password reset moves through the emailed code, the security phrase and the new password. Each
+// step hands the browser a single-use token for the next one; only its hash is stored, and it expires.
+type PasswordResetStep = 'phrase' | 'password';
+
+const PASSWORD_RESET_TTL_MS = 15 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+// Matches the user whose reset is at the step and holds the token, if it has not expired.
+function passwordResetFilter(email: string, token: string, step: PasswordResetStep) {
+    return {
+        email,
+        'passwordReset.tokenHash': hashResetToken(typeof token === 'string' ? token : ''),
+        'passwordReset.step': step,
+        'passwordReset.expiresAt': { $gt: new Date() },
+    };
+}
+
+function newPasswordReset(step: PasswordResetStep): { token: string; passwordReset: { tokenHash: string; step: PasswordResetStep; expiresAt: Date } } {
+    const token = randomBytes(32).toString('hex');
+    return { token, passwordReset: { tokenHash: hashResetToken(token), step, expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS) } };
+}
+
 /**
  * Sends a real recovery OTP via email and stores its hash in the database.
  * @param email The email to send the OTP to.
@@ -374,12 +483,12 @@ export async function sendRecoveryOtp(email: string): Promise<{ success: boolean
 }
 
 /**
- * Verifies a recovery OTP against the hash stored in the database.
+ * Verifies a recovery OTP against the hash stored in the database and starts a password reset.
  * @param email The user's email.
  * @param otp The OTP to verify.
- * @returns An object indicating success or failure.
+ * @returns An object indicating success or failure, with the token recoverAccount takes next.
  */
-export async function verifyRecoveryOtp(email: string, otp: string): Promise<{ success: boolean; message: string }> {
+export async function verifyRecoveryOtp(email: string, otp: string): Promise<{ success: boolean; message: string; recoveryToken?: string }> {
      try {
         const client = await clientPromise;
         const db = client.db();
@@ -398,9 +507,10 @@ export async function verifyRecoveryOtp(email: string, otp: string): Promise<{ s
         const isOtpValid = await bcrypt.compare(otp, user.recoveryOtpHash);
 
         if (isOtpValid) {
-            // Clear OTP after successful verification
-            await db.collection('users').updateOne({ _id: user._id }, { $unset: { recoveryOtpHash: "", recoveryOtpExpiry: "" } });
-            return { success: true, message: "OTP verified successfully." };
+            // Clear OTP after successful verification; the reset goes on with the security phrase.
+            const { token, passwordReset } = newPasswordReset('phrase');
+            await db.collection('users').updateOne({ _id: user._id }, { $set: { passwordReset }, $unset: { recoveryOtpHash: "", recoveryOtpExpiry: "" } });
+            return { success: true, message: "OTP verified successfully.", recoveryToken: token };
         } else {
             return { success: false, message: "Invalid recovery code." };
         }
@@ -410,45 +520,75 @@ export async function verifyRecoveryOtp(email: string, otp: string): Promise<{ s
     }
 }
 
-export async function recoverAccount(email: string, phrase: string): Promise<{ success: boolean; message: string }> {
+/**
+ * Verifies the account's security phrase, after the emailed code, and lets the password be reset.
+ * @param email The user's email.
+ * @param phrase The 12-word security phrase.
+ * @param recoveryToken The token verifyRecoveryOtp returned.
+ * @returns An object indicating success or failure, with the token resetPassword takes.
+ */
+export async function recoverAccount(email: string, phrase: string, recoveryToken: string): Promise<{ success: boolean; message: string; resetToken?: string }> {
     try {
         const client = await clientPromise;
         const db = client.db();
-        const user = await db.collection('users').findOne({ email: email });
+        const user = await db.collection('users').findOne(passwordResetFilter(email, recoveryToken, 'phrase'));
 
-        if (!user || !user.securityPhraseHash) {
+        if (!user) {
+            return { success: false, message: "Your recovery session has expired. Please request a new recovery code." };
+        }
+        if (!user.securityPhraseHash) {
             return { success: false, message: "Account not found or no security phrase is set for it." };
         }
 
         const isPhraseValid = await bcrypt.compare(phrase, user.securityPhraseHash);
-        
-        if (isPhraseValid) {
-            return { success: true, message: "Account verified." };
-        } else {
+        if (!isPhraseValid) {
             return { success: false, message: "The security phrase you entered is incorrect." };
         }
+
+        // The recovery token is exchanged once for the reset token.
+        const { token, passwordReset } = newPasswordReset('password');
+        const exchanged = await db.collection('users').updateOne(passwordResetFilter(email, recoveryToken, 'phrase'), { $set: { passwordReset } });
+        if (exchanged.modifiedCount === 0) {
+            return { success: false, message: "Your recovery session has expired. Please request a new recovery code." };
+        }
+        return { success: true, message: "Account verified.", resetToken: token };
     } catch (error) {
         console.error("Error recovering account:", error);
         return { success: false, message: "An unexpected server error occurred during account recovery." };
     }
 }
 
-export async function resetPassword(email: string, newPassword: string):Promise<{ success: boolean; message: string }> {
+/**
+ * Sets a new password at the end of account recovery. The reset token is used up, and every
+ * existing session is signed out.
+ * @param email The user's email.
+ * @param resetToken The token recoverAccount returned.
+ * @param newPassword The new password.
+ * @returns An object indicating success or failure.
+ */
+export async function resetPassword(email: string, resetToken: string, newPassword: string): Promise<{ success: boolean; message: string }> {
      try {
+        if (!newPassword) {
+            return { success: false, message: "A new password is required." };
+        }
         const client = await clientPromise;
         const db = client.db();
         
         const newPasswordHash = await bcrypt.hash(newPassword, 10);
 
-        const result = await db.collection('users').updateOne(
-            { email: email },
-            { $set: { passwordHash: newPasswordHash } }
+        // Setting the password and using up the token happen together, so a token works once.
+        const user = await db.collection('users').findOneAndUpdate(
+            passwordResetFilter(email, resetToken, 'password'),
+            { $set: { passwordHash: newPasswordHash }, $unset: { passwordReset: "" } },
+            { projection: { _id: 1 } }
         );
-
-        if (result.modifiedCount === 0) {
-            return { success: false, message: "Could not find the user to update." };
+        if (!user) {
+            return { success: false, message: "This password reset has expired. Please start the recovery again." };
         }
 
+        // Sign out every existing session now that the old password no longer applies.
+        await revokeUserSessions(user._id);
+
         return { success: true, message: "Password updated successfully." };
     } catch (error) {
         console.error("Error resetting password:", error);
@@ -457,21 +597,17 @@ export async function resetPassword(email: string, newPassword: string):Promise<
 }
 
 /**
- * Deletes a user account and their associated software from the database.
- * @param username The username of the account to delete.
+ * Deletes the signed-in user's account and their associated software from the database.
  * @returns An object indicating success or failure.
  */
-export async function deleteUserAccount(username: string): Promise<{ success: boolean; message: string }> {
-  if (!username) {
-    return { success: false, message: "Username is required." };
-  }
-
+export async function deleteUserAccount(): Promise<{ success: boolean; message: string }> {
   try {
+    const session = await requireSession();
+
     const client = await clientPromise;
     const db = client.db();
     
-    // Find the user to get their ID
-    const user = await db.collection('users').findOne({ username });
+    const user = await db.collection('users').findOne({ _id: session.userId });
     if (!user) {
       return { success: false, message: "User not found." };
     }
@@ -479,305 +615,1210 @@ export async function deleteUserAccount(username: string): Promise<{ success: bo
     // It's good practice to wrap deletions in a transaction if your database supports it
     // For simplicity, we'll perform sequential deletions.
     
-    // 1. Delete all software uploaded by the user
+    // 1. Delete all software uploaded by the user, with its releases
+    const softwareIds = await db.collection('software').distinct('_id', { sellerId: user._id });
+    await (await getReleasesCollection()).deleteMany({ softwareId: { $in: softwareIds } });
     await db.collection('software').deleteMany({ sellerId: user._id });
 
     // 2. Delete the user account
     const result = await db.collection('users').deleteOne({ _id: user._id });
 
     if (result.deletedCount > 0) {
+      await revokeUserSessions(user._id);
+      await destroySession();
       return { success: true, message: "Account and all associated data deleted successfully." };
     } else {
       return { success: false, message: "Failed to delete the user account." };
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
     console.error("Error deleting user account:", error);
     return { success: false, message: "An unexpected server error occurred during account deletion." };
   }
 }
 
 /**
- * Records a license purchase in the database after a successful on-chain transaction.
- * @param licenseData The license data to record.
- * @returns An object indicating success or failure.
+ * Opens a purchase of a license at the listing's current price on a chain, for the wallet verified
+ * on the current session. The buyer then calls purchaseLicense on that chain's contract with the
+ * product ID and the amount due, which pays the seller and mints the license in one transaction,
+ * and reports the transaction, which the server verifies on the chain.
+ * @param softwareId The ID of the software being bought.
+ * @param seats The number of seats to buy.
+ * @param chainId The chain to buy on.
+ * @returns The purchase ID, the chain, the product ID, the payment token (null for the native currency)
+ * and the amount due in its smallest unit, or an error message.
  */
-export async function recordLicensePurchase(licenseData: LicenseData): Promise<{ success: boolean; message: string }> {
-  const { softwareId, buyerAddress, tokenId, transactionHash, buyerIp } = licenseData;
-
-  if (!softwareId || !buyerAddress || tokenId === undefined || !transactionHash) {
-      return { success: false, message: "Missing required license data." };
+export async function startLicensePurchase(softwareId: string, seats: number = 1, chainId: number = LEGACY_CHAIN_ID): Promise<{ success: boolean; message: string; purchase?: { purchaseId: string; status: PurchaseStatus; chainId: number; productId: string; paymentToken: string | null; amount: string; buyerIp: string; }; }> {
+  if (!softwareId || !ObjectId.isValid(softwareId)) {
+      return { success: false, message: "Invalid software ID." };
+  }
+  const chain = findChain(chainId);
+  if (!chain) {
+      return { success: false, message: "This chain is not supported." };
   }
 
   try {
+    const { walletAddress } = await requireWalletSession();
+
     const client = await clientPromise;
     const db = client.db();
 
     const software = await db.collection('software').findOne({ _id: new ObjectId(softwareId) });
     if (!software) {
-      return { success: false, message: "The purchased software does not exist." };
-    }
-
-    const newLicense = {
-      softwareId: software._id,
-      softwareTitle: software.title,
-      buyerAddress: buyerAddress.toLowerCase(),
-      tokenId,
-      transactionHash,
-      mintDate: new Date(),
-      buyerIp: buyerIp || "", // Store the IP if provided, otherwise empty string
-      deviceId: "", // Initialize deviceId as empty
-      status: 'active', // Initial status
+      return { success: false, message: "The software does not exist." };
+    }
+
+    const maxSeats = Math.min(software.licensingRules?.maxSeats || 1, MAX_SEATS_PER_LICENSE);
+    if (!Number.isInteger(seats) || seats < 1 || seats > maxSeats) {
+      return { success: false, message: `A license for this software covers between 1 and ${maxSeats} seats.` };
+    }
+
+    const seller = await db.collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+    if (!seller?.walletAddress) {
+      return { success: false, message: "The seller has no wallet to receive the payment." };
+    }
+
+    // The lock is the address license checks will see, not one the browser reports.
+    const buyerIp = software.licensingRules?.ipLock ? getRequestIp() || '' : '';
+    if (software.licensingRules?.ipLock && !buyerIp) {
+      return { success: false, message: "Could not determine your IP address. The purchase cannot start as IP Lock is enabled." };
+    }
+    const purchase = await openPurchase(software, chain, walletAddress, seller.walletAddress, seats, buyerIp);
+    return {
+      success: true,
+      message: purchase.amount === '0' ? "Nothing is due for this license." : "Purchase started.",
+      purchase: {
+        purchaseId: purchase._id.toString(),
+        status: purchase.status,
+        chainId: purchase.chainId,
+        productId: purchase.productId,
+        paymentToken: purchase.paymentToken,
+        amount: purchase.amount,
+        buyerIp: purchase.buyerIp,
+      },
     };
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
+    console.error("Error starting license purchase:", error);
+    return { success: false, message: "An unexpected server error occurred while starting the purchase." };
+  }
+}
 
-    await db.collection('licenses').insertOne(newLicense);
+// Loads a purchase of the wallet verified on the current session.
+async function getOwnPurchase(purchaseId: string) {
+    const { walletAddress } = await requireWalletSession();
+    const purchase = ObjectId.isValid(purchaseId) ? await getPurchase(new ObjectId(purchaseId)) : null;
+    if (!purchase || purchase.buyerAddress !== walletAddress) {
+        throw new AuthError('PURCHASE_NOT_FOUND', 'Purchase not found.', 404);
+    }
+    return purchase;
+}
 
-    return { success: true, message: "License purchase recorded successfully." };
+/**
+ * Verifies a purchase transaction on the chain: it must be confirmed and have bought the purchase's
+ * software, seats and amount for the buyer's wallet. Then records the license for the minted token.
+ * @param purchaseId The ID of the purchase.
+ * @param transactionHash The purchaseLicense transaction.
+ * @returns An object indicating success or failure, with the purchase's status and the token ID.
+ */
+export async function completeLicensePurchase(purchaseId: string, transactionHash: string): Promise<{ success: boolean; message: string; status?: PurchaseStatus; tokenId?: number }> {
+  if (!purchaseId || !transactionHash) {
+      return { success: false, message: "A purchase and a purchase transaction are required." };
+  }
+  try {
+    const purchase = await getOwnPurchase(purchaseId);
+    // The chain indexer may have completed the purchase already.
+    if (purchase.status === 'recorded' && purchase.transactionHash === transactionHash.toLowerCase()) {
+      return { success: true, message: "License purchase recorded successfully.", status: purchase.status, tokenId: purchase.tokenId };
+    }
+    const completed = await completePurchase(purchase, { transactionHash });
+    return { success: true, message: "License purchase recorded successfully.", status: completed.status, tokenId: completed.tokenId };
   } catch (error) {
-    console.error("Error recording license purchase:", error);
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
+    console.error("Error completing license purchase:", error);
     return { success: false, message: "An unexpected server error occurred while recording the purchase." };
   }
 }
 
 /**
- * Fetches all licenses owned by a specific buyer.
- * @param buyerAddress The wallet address of the buyer.
+ * Fetches all licenses owned by the wallet verified on the current session.
  * @returns A list of license objects.
  */
-export async function getLicensesForBuyer(buyerAddress: string): Promise<any[]> {
-    if (!buyerAddress) {
-        return [];
-    }
+export async function getLicensesForBuyer(): Promise<any[]> {
     try {
+        const { walletAddress } = await requireWalletSession();
+
         const client = await clientPromise;
         const db = client.db();
 
-        const licenses = await db.collection('licenses').find({ buyerAddress: buyerAddress.toLowerCase() }).sort({ mintDate: -1 }).toArray();
+        const licenses = await db.collection('licenses').find({ buyerAddress: walletAddress }, { projection: { deliveryKey: 0, leases: 0 } }).sort({ mintDate: -1 }).toArray();
+
+        const floatingIds = await db.collection('software').distinct('_id', {
+            _id: { $in: licenses.map(license => license.softwareId) },
+            'licensingRules.floating': true,
+        });
 
         // Convert ObjectId to string for client-side usage
-        return licenses.map(license => ({
+        return licenses.map(({ deviceId, ...license }) => ({
             ...license,
             _id: license._id.toString(),
             softwareId: license.softwareId.toString(),
+            seats: seatCount(license),
+            devices: boundDevices({ ...license, deviceId }),
+            floating: !license.trial && floatingIds.some(id => id.equals(license.softwareId)),
         }));
     } catch (error) {
+        if (error instanceof AuthError) {
+            return [];
+        }
         console.error("Error fetching licenses for buyer:", error);
         return [];
     }
 }
 
-// Helper function to send a violation email to the seller
-async function sendViolationEmail(license: any) {
-    if (!process.env.EMAIL_SERVER_USER || !process.env.EMAIL_SERVER_PASSWORD) {
-        console.error("Email service is not configured for violation notifications.");
-        return;
+/**
+ * Fetches what renewing a license would cost, for the marketplace's renewal flow.
+ * Renewals are paid on the chain the license lives on.
+ * Only the verified wallet holding the license can ask.
+ * @param licenseId The ID of the license.
+ * @returns The license's terms, current expiry, chain and the renewal price, or an error message.
+ */
+export async function getLicenseRenewalQuote(licenseId: string): Promise<{ success: boolean; message: string; quote?: { licenseId: string; softwareTitle: string; chainId: number; price: number; paymentToken: string | null; seats: number; sellerWalletAddress: string; sellerUsername: string; licenseType: string; termDays?: number; expiresAt: string | null; }; }> {
+    if (!licenseId || !ObjectId.isValid(licenseId)) {
+        return { success: false, message: "Invalid license ID." };
     }
-    
     try {
+        const { walletAddress } = await requireWalletSession();
+
         const client = await clientPromise;
         const db = client.db();
-        
-        const software = await db.collection('software').findOne({ _id: license.softwareId });
-        if (!software) return;
 
-        const seller = await db.collection('users').findOne({ _id: software.sellerId });
-        if (!seller || !seller.email) return;
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, message: "Your verified wallet does not hold this license." };
+        }
 
-        const transporter = nodemailer.createTransport({
-            host: process.env.EMAIL_SERVER_HOST || 'smtp.gmail.com',
-            port: parseInt(process.env.EMAIL_SERVER_PORT || "465"),
-            secure: true,
-            auth: {
-                user: process.env.EMAIL_SERVER_USER,
-                pass: process.env.EMAIL_SERVER_PASSWORD,
-            },
-        });
+        const terms = normalizeLicenseTerms(license.licenseType, license.termDays);
+        if (!isRenewable(terms)) {
+            return { success: false, message: "Only subscription licenses can be renewed." };
+        }
 
-        await transporter.sendMail({
-            from: `"Software Shop Security" <${process.env.EMAIL_FROM || process.env.EMAIL_SERVER_USER}>`,
-            to: seller.email,
-            subject: `[Security Alert] License for "${software.title}" has been blocked`,
-            html: `
-                <div style="font-family: sans-serif; padding: 20px;">
-                    <h2>License Blocked Notification</h2>
-                    <p>Hello ${seller.username},</p>
-                    <p>This is an automated alert to inform you that a license for your software, <strong>${software.title}</strong>, has been automatically blocked due to a security violation.</p>
-                    <h3>Violation Details:</h3>
-                    <ul>
-                        <li><strong>Software:</strong> ${software.title}</li>
-                        <li><strong>License Token ID:</strong> ${license.tokenId}</li>
-                        <li><strong>Reason for Block:</strong> Device violation (attempted use on a new device).</li>
-                        <li><strong>Buyer's Wallet:</strong> ${license.buyerAddress}</li>
-                    </ul>
-                    <p>The license is now inactive. You can review this license and choose to reactivate or permanently revoke it from your seller dashboard.</p>
-                    <p>Thank you,<br/>The Software Shop Team</p>
-                </div>
-            `,
-        });
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) {
+            return { success: false, message: "The software for this license is no longer listed." };
+        }
+        const offer = softwareOffer(software, recordChainId(license));
+        if (!offer) {
+            return { success: false, message: "This software is no longer sold on the chain this license lives on." };
+        }
+        const seller = await db.collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+        if (!seller?.walletAddress) {
+            return { success: false, message: "The seller has no wallet to receive the renewal payment." };
+        }
 
-    } catch(error) {
-        console.error("Failed to send violation email:", error);
+        return {
+            success: true,
+            message: "Quote retrieved.",
+            quote: {
+                licenseId,
+                softwareTitle: software.title,
+                chainId: offer.chainId,
+                price: offer.price, // Per seat; every seat is renewed together
+                paymentToken: offer.paymentToken || null,
+                seats: seatCount(license),
+                sellerWalletAddress: seller.walletAddress,
+                sellerUsername: software.sellerUsername,
+                licenseType: terms.type,
+                termDays: terms.termDays,
+                expiresAt: license.expiresAt ? license.expiresAt.toISOString() : null,
+            },
+        };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error fetching renewal quote:", error);
+        return { success: false, message: "An unexpected server error occurred." };
     }
 }
 
 /**
- * Binds a device ID to a license if it's not already bound to a different device.
+ * Checks that a renewal or trial upgrade was paid straight to the seller's wallet on the license's
+ * chain, at the listing's current price there and in its currency. Free listings are paid with an
+ * empty native transaction. The payment is then claimed for this use, so it cannot pay for anything else;
+ * callers release it if they cannot record the use.
+ * @throws If the seller has no wallet, the listing is no longer sold on the chain or its currency is no
+ * longer accepted, the payment does not check out, or it was already used.
+ */
+async function verifySellerPayment(software: any, license: any, buyerAddress: string, seats: number, transactionHash: string, use: PaymentUse): Promise<void> {
+    const client = await clientPromise;
+    const seller = await client.db().collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+    if (!seller?.walletAddress) {
+        throw new AuthError('SELLER_WALLET_MISSING', "The seller has no wallet to receive the payment.", 409);
+    }
+    const chain = licenseChain(license);
+    const offer = softwareOffer(software, chain.chainId);
+    if (!offer) {
+        throw new AuthError('NOT_SOLD_ON_CHAIN', `This software is no longer sold on ${chain.name}.`, 400);
+    }
+    const token = findPaymentToken(chain, offer.paymentToken);
+    if (!token) {
+        throw new AuthError('UNSUPPORTED_CURRENCY', "This software is priced in a currency the marketplace no longer accepts.", 400);
+    }
+    const amount = tokenAmount(offer.price, token, seats);
+    await verifyDirectPayment(chain, transactionHash, {
+        from: buyerAddress,
+        to: seller.walletAddress,
+        amount,
+        token: amount > BigInt(0) ? token : nativePaymentToken(chain),
+    });
+    await claimPayment(transactionHash, { use, licenseId: license._id, chainId: chain.chainId });
+}
+
+/**
+ * Records the renewal of a subscription license after the buyer paid for it on-chain,
+ * extending its expiry by one period. The payment is verified on the chain first.
  * @param licenseId The ID of the license.
- * @param deviceId The unique identifier of the device.
- * @returns An object indicating success or failure.
+ * @param transactionHash The payment transaction.
+ * @param metadataUrl The refreshed NFT metadata showing the new expiry, if uploaded.
+ * @returns An object indicating success or failure, with the new expiry date.
  */
-export async function bindDeviceToLicense(licenseId: string, deviceId: string): Promise<{ success: boolean; message: string }> {
-    if (!licenseId || !deviceId) {
-        return { success: false, message: "License ID and Device ID are required." };
+export async function renewLicense(licenseId: string, transactionHash: string, metadataUrl?: string): Promise<{ success: boolean; message: string; expiresAt?: string }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !transactionHash) {
+        return { success: false, message: "A valid license ID and payment transaction are required." };
     }
     try {
+        const { walletAddress } = await requireWalletSession();
+
         const client = await clientPromise;
         const db = client.db();
-        
-        if (!ObjectId.isValid(licenseId)) {
-            return { success: false, message: "Invalid license ID format." };
-        }
-        
-        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
+
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
         if (!license) {
-            return { success: false, message: "License not found." };
+            return { success: false, message: "Your verified wallet does not hold this license." };
+        }
+        if (license.status === 'revoked') {
+            return { success: false, message: "A revoked license cannot be renewed." };
         }
 
-        const software = await db.collection('software').findOne({ _id: license.softwareId });
-        if (!software?.licensingRules.fingerprintLock) {
-            // If fingerprint lock is not enabled for this software, there's nothing to do.
-            return { success: true, message: "Device binding is not required for this license." };
+        const terms = normalizeLicenseTerms(license.licenseType, license.termDays);
+        if (!isRenewable(terms)) {
+            return { success: false, message: "Only subscription licenses can be renewed." };
         }
 
-        if (license.deviceId && license.deviceId !== deviceId) {
-            // This is a security violation. Return a specific error without blocking.
-            return { success: false, message: "This license is already bound to another device." };
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) {
+            return { success: false, message: "The software for this license is no longer listed." };
         }
-        
-        if (!license.deviceId) {
-            // First time use, bind the device.
-            const result = await db.collection('licenses').updateOne(
-                { _id: new ObjectId(licenseId) },
-                { $set: { deviceId: deviceId } }
-            );
-            if (result.modifiedCount > 0) {
-                 return { success: true, message: "Device successfully bound to license." };
-            }
+        await verifySellerPayment(software, license, walletAddress, seatCount(license), transactionHash, 'renewal');
+
+        let expiresAt: Date;
+        try {
+            expiresAt = await renewSubscription(license._id, terms, { transactionHash, metadataUrl }, software.licensingRules?.updateDays);
+        } catch (error) {
+            await releasePayment(transactionHash);
+            throw error;
         }
-        
-        return { success: true, message: "Device is already correctly bound." };
+        return { success: true, message: "License renewed.", expiresAt: expiresAt.toISOString() };
     } catch (error) {
-        console.error("Error binding device to license:", error);
-        return { success: false, message: "An unexpected server error occurred during device binding." };
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error renewing license:", error);
+        return { success: false, message: "An unexpected server error occurred." };
     }
 }
 
+// Whether the platform's relayer mints trials on a chain itself, so the buyer pays no gas.
+function sponsorsTrials(chain: ChainConfig | null): boolean {
+    return process.env.SPONSORED_TRIALS === 'true' && isRelayerConfigured(chain);
+}
+
 /**
- * Gets the encrypted file URL for a given software ID without any validation.
- * @param softwareId The ID of the software.
- * @returns An object with success status and the file URL or an error message.
+ * Loads the software for a new trial and checks that the wallet and device may still start one.
+ * @returns The software, the chain the trial is minted on and, for IP-locked software, the address this request comes from.
+ * @throws If the software offers no trial or is not sold on the chain, the trial was already used, or the IP cannot be determined.
  */
-export async function getSoftwareFileUrl(softwareId: string): Promise<{ success: boolean; message: string; fileUrl?: string; }> {
-    if (!softwareId || !ObjectId.isValid(softwareId)) {
-        return { success: false, message: "Invalid software ID." };
+async function prepareTrial(softwareId: string, chainId: number, walletAddress: string, deviceId: string) {
+    const client = await clientPromise;
+    const software = await client.db().collection('software').findOne({ _id: new ObjectId(softwareId) });
+    if (!software) {
+        throw new AuthError('SOFTWARE_NOT_FOUND', "The software does not exist.", 404);
+    }
+    if (!software.trialDays) {
+        throw new AuthError('NO_TRIAL', "This software does not offer a trial.", 400);
+    }
+    if (!findChain(chainId)) {
+        throw new AuthError('UNSUPPORTED_CHAIN', `Chain ${chainId} is not supported.`, 400);
+    }
+    const chain = requireChain(chainId);
+    if (!softwareOffer(software, chain.chainId)) {
+        throw new AuthError('NOT_SOLD_ON_CHAIN', `This software is not sold on ${chain.name}.`, 400);
+    }
+    if (await hasClaimedTrial(software._id, walletAddress, deviceId)) {
+        throw new AuthError('TRIAL_USED', "This wallet or device has already used its trial of this software.", 409);
     }
-    try {
-        const client = await clientPromise;
-        const db = client.db();
-        const software = await db.collection('software').findOne(
-            { _id: new ObjectId(softwareId) },
-            { projection: { fileUrl: 1 } }
-        );
 
-        if (!software || !software.fileUrl) {
-            return { success: false, message: "Could not find the software file URL." };
+    // The lock is the address license checks will see, not one the browser reports.
+    let ipAddress = '';
+    if (software.licensingRules?.ipLock) {
+        const requestIp = getRequestIp();
+        if (!requestIp) {
+            throw new AuthError('IP_UNKNOWN', "Could not determine your IP address. The trial cannot start as IP Lock is enabled.", 400);
         }
-        
-        return { success: true, message: "URL retrieved.", fileUrl: software.fileUrl };
-    } catch (error) {
-        console.error("Error in getSoftwareFileUrl:", error);
-        return { success: false, message: "An unexpected server error occurred." };
+        ipAddress = requestIp;
     }
+    return { software, chain, ipAddress };
 }
 
-
 /**
- * Verifies a license and device, then returns a decryption key.
- * This function now includes a real-time smart contract check for NFT ownership.
- * @param licenseId The ID of the license.
- * @param deviceId The unique identifier of the device.
- * @param walletAddress The wallet address of the user.
- * @returns An object with success status and the key or an error message.
+ * Records a minted trial license, bound to the device it was started on.
+ * The trial must already be claimed for the license's ID.
+ * @returns When the trial ends.
  */
-export async function getDecryptionKey(licenseId: string, deviceId: string, walletAddress: string): Promise<{ success: boolean; message: string; key?: string; fileUrl?: string; }> {
-  if (!licenseId || !deviceId || !walletAddress) {
-    return { success: false, message: "License ID, Device ID, and Wallet Address are required." };
-  }
-  
-  if (!process.env.NEXT_PUBLIC_AMOY_RPC_URL) {
-      console.error("Server configuration error: NEXT_PUBLIC_AMOY_RPC_URL is not set.");
-      return { success: false, message: "The server is not configured to communicate with the blockchain." };
-  }
-
-  try {
+async function insertTrialLicense(software: any, licenseId: ObjectId, walletAddress: string, deviceId: string, mint: { chainId: number; tokenId: number; transactionHash: string; mintDate: Date; metadataUrl: string; buyerIp: string; }): Promise<Date> {
     const client = await clientPromise;
-    const db = client.db();
-
-    if (!ObjectId.isValid(licenseId)) {
-      return { success: false, message: "Invalid license ID format." };
-    }
-
-    const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
-
-    if (!license) {
-      return { success: false, message: "License not found in the database." };
-    }
-    
-    // Primary check: license status in our DB. If blocked/revoked, fail fast.
-    if (license.status !== 'active') {
-        return { success: false, message: `License is not active. Current status: ${license.status}. Contact the seller for assistance.` };
-    }
+    const expiresAt = trialExpiry(software.trialDays, mint.mintDate);
+    await client.db().collection('licenses').insertOne({
+        _id: licenseId,
+        softwareId: software._id,
+        softwareTitle: software.title,
+        buyerAddress: walletAddress,
+        chainId: mint.chainId,
+        tokenId: mint.tokenId,
+        transactionHash: mint.transactionHash.toLowerCase(),
+        mintDate: mint.mintDate,
+        trial: true,
+        trialDays: software.trialDays,
+        expiresAt,
+        updatesUntil: updatesUntil(normalizeUpdateDays(software.licensingRules?.updateDays), mint.mintDate),
+        metadataUrl: mint.metadataUrl,
+        buyerIp: mint.buyerIp,
+        // Trials are bound to their device from the start and have a single seat.
+        seats: 1,
+        devices: [{ deviceId, label: 'Trial device', boundAt: mint.mintDate }],
+        status: 'active',
+    });
+    return expiresAt;
+}
 
-    const software = await db.collection('software').findOne({ _id: license.softwareId });
-    if (!software) {
-        return { success: false, message: "Could not find the associated software." };
+/**
+ * Checks whether the verified wallet and this device may still start a trial of a software,
+ * so the buyer does not pay gas for a mint that would be rejected.
+ * @param softwareId The ID of the software.
+ * @param deviceId The device the trial would be bound to.
+ * @param chainId The chain the trial would be minted on.
+ * @returns An object indicating whether a trial can be started, with its length in days and
+ * whether the platform mints it (see startSponsoredTrial) instead of the buyer.
+ */
+export async function checkTrialEligibility(softwareId: string, deviceId: string, chainId: number = LEGACY_CHAIN_ID): Promise<{ success: boolean; message: string; trialDays?: number; sponsored?: boolean }> {
+    if (!softwareId || !ObjectId.isValid(softwareId) || !deviceId) {
+        return { success: false, message: "A valid software ID and device ID are required." };
     }
-    
-    // --- Smart Contract Validation ---
-    const provider = new JsonRpcProvider(process.env.NEXT_PUBLIC_AMOY_RPC_URL);
-    const contract = new Contract(SOFTWARE_LICENSE_CONTRACT_ADDRESS, SOFTWARE_LICENSE_ABI, provider);
-    
     try {
-        const ownerOfToken = await contract.ownerOf(license.tokenId);
-        if (ownerOfToken.toLowerCase() !== walletAddress.toLowerCase()) {
-            return { success: false, message: "Smart contract check failed: The connected wallet is not the owner of this license NFT." };
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const software = await client.db().collection('software').findOne({ _id: new ObjectId(softwareId) }, { projection: { trialDays: 1, price: 1, paymentToken: 1, chains: 1 } });
+        if (!software) {
+            return { success: false, message: "The software does not exist." };
         }
-    } catch(contractError: any) {
-        console.error("Smart contract call error:", contractError);
-        if (contractError.reason && contractError.reason.includes('invalid token ID')) {
-             await db.collection('licenses').updateOne(
-              { _id: new ObjectId(licenseId) },
-              { $set: { status: 'revoked', reason: 'Token does not exist (burned)', lastViolationDate: new Date() } }
-            );
-            return { success: false, message: "This license has been revoked and no longer exists on the blockchain." };
+        if (!software.trialDays) {
+            return { success: false, message: "This software does not offer a trial." };
         }
-        return { success: false, message: "Could not verify license ownership on the blockchain." };
-    }
-    
-    // DEVICE LOCK VALIDATION
-    if (software.licensingRules.fingerprintLock) {
-        if (license.deviceId && license.deviceId !== deviceId) {
-            return { success: false, message: "Device mismatch. This license is not bound to this device." };
+        const chain = findChain(chainId);
+        if (!chain || !softwareOffer(software, chain.chainId)) {
+            return { success: false, message: "This software is not sold on the selected chain." };
+        }
+        if (await hasClaimedTrial(software._id, walletAddress, deviceId)) {
+            return { success: false, message: "This wallet or device has already used its trial of this software." };
         }
-    }
 
-    if (!software.decryptionKey || !software.fileUrl) {
-        return { success: false, message: "Could not find the software's decryption key or file URL." };
+        return { success: true, message: "A trial can be started.", trialDays: software.trialDays, sponsored: sponsorsTrials(chain) };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error checking trial eligibility:", error);
+        return { success: false, message: "An unexpected server error occurred." };
     }
+}
 
-    const decryptionKey = software.decryptionKey;
-    const fileUrl = software.fileUrl;
+/**
+ * Issues the mint voucher for a trial: a single seat, free, with the uploaded metadata and, for
+ * IP-locked software, the address this request comes from. The buyer redeems it on the chain's contract.
+ * @param softwareId The ID of the software.
+ * @param deviceId The device the trial will be bound to.
+ * @param metadataUrl The uploaded trial license metadata.
+ * @param chainId The chain the trial is minted on.
+ * @returns The voucher and the platform's signature, or an error message.
+ */
+export async function requestTrialVoucher(softwareId: string, deviceId: string, metadataUrl: string, chainId: number = LEGACY_CHAIN_ID): Promise<{ success: boolean; message: string; voucher?: MintVoucher; signature?: string }> {
+    if (!softwareId || !ObjectId.isValid(softwareId) || !deviceId || !metadataUrl) {
+        return { success: false, message: "A valid software ID, device ID and metadata URL are required." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+        const { software, chain, ipAddress } = await prepareTrial(softwareId, chainId, walletAddress, deviceId);
+        // Trials are free, so the contract never looks the product up; a seller without a wallet has none registered.
+        const seller = await (await clientPromise).db().collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+
+        const { voucher, signature } = await issueMintVoucher({
+            softwareId: software._id,
+            productId: seller?.walletAddress ? softwareProductId(software._id, seller.walletAddress) : ZeroHash,
+            chain,
+            buyerAddress: walletAddress,
+            purpose: 'trial',
+            seats: 1,
+            tokenURI: metadataUrl,
+            ipAddress,
+            context: { deviceId },
+        });
+        return { success: true, message: "Trial voucher issued.", voucher, signature };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error issuing trial voucher:", error);
+        return { success: false, message: "An unexpected server error occurred while preparing the trial." };
+    }
+}
+
+/**
+ * Starts a trial whose NFT the platform's relayer mints to the buyer, so the buyer needs no gas.
+ * Only available when sponsored trials are enabled (see checkTrialEligibility).
+ * @param softwareId The ID of the software.
+ * @param deviceId The device the trial will be bound to.
+ * @param metadataUrl The uploaded trial license metadata.
+ * @param chainId The chain the trial is minted on.
+ * @returns An object indicating success or failure, with the trial's end date.
+ */
+export async function startSponsoredTrial(softwareId: string, deviceId: string, metadataUrl: string, chainId: number = LEGACY_CHAIN_ID): Promise<{ success: boolean; message: string; expiresAt?: string }> {
+    if (!softwareId || !ObjectId.isValid(softwareId) || !deviceId || !metadataUrl) {
+        return { success: false, message: "A valid software ID, device ID and metadata URL are required." };
+    }
+    if (!sponsorsTrials(findChain(chainId))) {
+        return { success: false, message: "Sponsored trials are not enabled." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+        const { software, chain, ipAddress } = await prepareTrial(softwareId, chainId, walletAddress, deviceId);
+
+        // The claim is taken before minting, so the platform never pays for a second trial.
+        const licenseId = new ObjectId();
+        await claimTrial(software._id, walletAddress, deviceId, licenseId);
+
+        let mint;
+        try {
+            mint = await mintChainLicense(chain, walletAddress, metadataUrl, ipAddress, { purpose: 'trial', softwareId: software._id, deviceId });
+        } catch (error) {
+            await releaseTrialClaim(licenseId);
+            throw error;
+        }
+
+        const expiresAt = await insertTrialLicense(software, licenseId, walletAddress, deviceId, {
+            ...mint,
+            chainId: chain.chainId,
+            metadataUrl,
+            buyerIp: ipAddress,
+        });
+        return { success: true, message: "Trial started.", expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error starting sponsored trial:", error);
+        return { success: false, message: "An unexpected server error occurred while starting the trial." };
+    }
+}
+
+/**
+ * Records a trial license after its NFT was minted with a trial voucher. The redemption is
+ * verified on the chain first. The trial is bound to the device it was started on and ends
+ * after the software's trial period.
+ * @param trialData The software, the voucher's nonce, the redeeming transaction and the device starting the trial.
+ * @returns An object indicating success or failure, with the trial's end date.
+ */
+export async function recordTrialLicense(trialData: { softwareId: string; voucherNonce: string; transactionHash: string; deviceId: string; }): Promise<{ success: boolean; message: string; expiresAt?: string }> {
+    const { softwareId, voucherNonce, transactionHash, deviceId } = trialData;
+    if (!softwareId || !ObjectId.isValid(softwareId) || !voucherNonce || !transactionHash || !deviceId) {
+        return { success: false, message: "Missing required trial data." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+
+        const software = await db.collection('software').findOne({ _id: new ObjectId(softwareId) });
+        if (!software) {
+            return { success: false, message: "The software does not exist." };
+        }
+        if (!software.trialDays) {
+            return { success: false, message: "This software does not offer a trial." };
+        }
+
+        const redemption = await confirmVoucherRedemption(voucherNonce, walletAddress, transactionHash);
+        if (redemption.purpose !== 'trial' || !redemption.softwareId.equals(software._id) || redemption.deviceId !== deviceId) {
+            return { success: false, message: "This voucher was not issued for a trial of this software on this device." };
+        }
+        const { tokenId, voucher } = redemption;
+
+        // Claiming first means a second trial for the same wallet or device is never recorded.
+        const licenseId = new ObjectId();
+        await claimTrial(software._id, walletAddress, deviceId, licenseId);
+
+        const expiresAt = await insertTrialLicense(software, licenseId, walletAddress, deviceId, {
+            chainId: recordChainId(redemption),
+            tokenId,
+            transactionHash,
+            mintDate: redemption.mintDate,
+            metadataUrl: voucher.tokenURI,
+            buyerIp: voucher.ipAddress,
+        });
+
+        return { success: true, message: "Trial started.", expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error recording trial license:", error);
+        return { success: false, message: "An unexpected server error occurred while starting the trial." };
+    }
+}
+
+/**
+ * Fetches the price and payee for upgrading a trial license to a paid one, paid on the chain the trial lives on.
+ * @param licenseId The ID of the trial license.
+ * @returns The chain, the price and the seller's wallet, or an error message.
+ */
+export async function getTrialUpgradeQuote(licenseId: string): Promise<{ success: boolean; message: string; quote?: { licenseId: string; softwareTitle: string; chainId: number; price: number; paymentToken: string | null; sellerWalletAddress: string; licenseType: string; termDays?: number; }; }> {
+    if (!licenseId || !ObjectId.isValid(licenseId)) {
+        return { success: false, message: "Invalid license ID." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, message: "Your verified wallet does not hold this license." };
+        }
+        if (!license.trial) {
+            return { success: false, message: "This license is not a trial." };
+        }
+
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) {
+            return { success: false, message: "The software for this license is no longer listed." };
+        }
+        const offer = softwareOffer(software, recordChainId(license));
+        if (!offer) {
+            return { success: false, message: "This software is no longer sold on the chain this license lives on." };
+        }
+        const seller = await db.collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+        if (!seller?.walletAddress) {
+            return { success: false, message: "The seller has no wallet to receive the payment." };
+        }
+
+        const terms = normalizeLicenseTerms(software.licenseType, software.termDays);
+        return {
+            success: true,
+            message: "Quote retrieved.",
+            quote: { licenseId, softwareTitle: software.title, chainId: offer.chainId, price: offer.price, paymentToken: offer.paymentToken || null, sellerWalletAddress: seller.walletAddress, licenseType: terms.type, termDays: terms.termDays },
+        };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error fetching trial upgrade quote:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Converts a trial license into a paid license after the buyer paid the listing price to the
+ * seller, which is verified on the chain. The same license and NFT are kept; only its terms and expiry change.
+ * @param licenseId The ID of the trial license.
+ * @param transactionHash The payment transaction.
+ * @returns An object indicating success or failure.
+ */
+export async function convertTrialLicense(licenseId: string, transactionHash: string): Promise<{ success: boolean; message: string }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !transactionHash) {
+        return { success: false, message: "A valid license ID and payment transaction are required." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, message: "Your verified wallet does not hold this license." };
+        }
+        if (!license.trial) {
+            return { success: false, message: "This license is not a trial." };
+        }
+        if (license.status === 'revoked') {
+            return { success: false, message: "A revoked license cannot be upgraded." };
+        }
+
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) {
+            return { success: false, message: "The software for this license is no longer listed." };
+        }
+        await verifySellerPayment(software, license, walletAddress, 1, transactionHash, 'trial-conversion');
+
+        try {
+            await recordTrialConversion(license._id, transactionHash);
+        } catch (error) {
+            await releasePayment(transactionHash);
+            throw error;
+        }
+
+        const terms = normalizeLicenseTerms(software.licenseType, software.termDays);
+        const now = new Date();
+        await db.collection('licenses').updateOne(
+            { _id: license._id },
+            {
+                $set: {
+                    licenseType: terms.type,
+                    termDays: terms.termDays,
+                    expiresAt: licenseExpiry(terms, now),
+                    updatesUntil: updatesUntil(normalizeUpdateDays(software.licensingRules?.updateDays), now),
+                    convertedAt: now,
+                    conversionTransactionHash: transactionHash,
+                },
+                $unset: { trial: '', trialDays: '' },
+            }
+        );
+
+        return { success: true, message: "Your trial has been upgraded to a full license." };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error converting trial license:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+// Helper function to send a violation email to the seller
+async function sendViolationEmail(license: any) {
+    if (!process.env.EMAIL_SERVER_USER || !process.env.EMAIL_SERVER_PASSWORD) {
+        console.error("Email service is not configured for violation notifications.");
+        return;
+    }
+    
+    try {
+        const client = await clientPromise;
+        const db = client.db();
+        
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) return;
+
+        const seller = await db.collection('users').findOne({ _id: software.sellerId });
+        if (!seller || !seller.email) return;
+
+        const transporter = nodemailer.createTransport({
+            host: process.env.EMAIL_SERVER_HOST || 'smtp.gmail.com',
+            port: parseInt(process.env.EMAIL_SERVER_PORT || "465"),
+            secure: true,
+            auth: {
+                user: process.env.EMAIL_SERVER_USER,
+                pass: process.env.EMAIL_SERVER_PASSWORD,
+            },
+        });
+
+        await transporter.sendMail({
+            from: `"Software Shop Security" <${process.env.EMAIL_FROM || process.env.EMAIL_SERVER_USER}>`,
+            to: seller.email,
+            subject: `[Security Alert] License for "${software.title}" has been blocked`,
+            html: `
+                <div style="font-family: sans-serif; padding: 20px;">
+                    <h2>License Blocked Notification</h2>
+                    <p>Hello ${seller.username},</p>
+                    <p>This is an automated alert to inform you that a license for your software, <strong>${software.title}</strong>, has been automatically blocked due to a security violation.</p>
+                    <h3>Violation Details:</h3>
+                    <ul>
+                        <li><strong>Software:</strong> ${software.title}</li>
+                        <li><strong>License Token ID:</strong> ${license.tokenId}</li>
+                        <li><strong>Reason for Block:</strong> Device violation (attempted use on a new device).</li>
+                        <li><strong>Buyer's Wallet:</strong> ${license.buyerAddress}</li>
+                    </ul>
+                    <p>The license is now inactive. You can review this license and choose to reactivate or permanently revoke it from your seller dashboard.</p>
+                    <p>Thank you,<br/>The Software Shop Team</p>
+                </div>
+            `,
+        });
+
+    } catch(error) {
+        console.error("Failed to send violation email:", error);
+    }
+}
+
+/**
+ * Binds a device ID to a free seat of a license. Single-seat licenses can only ever hold one device.
+ * The license must belong to the wallet verified on the current session.
+ * @param licenseId The ID of the license.
+ * @param deviceId The unique identifier of the device.
+ * @param label An optional name for the device or its user.
+ * @returns An object indicating success or failure, with the error's code on failure.
+ */
+export async function bindDeviceToLicense(licenseId: string, deviceId: string, label?: string): Promise<{ success: boolean; message: string; code?: string }> {
+    if (!licenseId || !deviceId) {
+        return { success: false, code: 'INVALID_REQUEST', message: "License ID and Device ID are required." };
+    }
+    try {
+        const client = await clientPromise;
+        const db = client.db();
+        
+        if (!ObjectId.isValid(licenseId)) {
+            return { success: false, code: 'INVALID_REQUEST', message: "Invalid license ID format." };
+        }
+        
+        const { walletAddress } = await requireWalletSession();
+
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
+        if (!license) {
+            return { success: false, code: 'LICENSE_NOT_FOUND', message: "License not found." };
+        }
+
+        if (license.buyerAddress !== walletAddress) {
+            return { success: false, code: 'NOT_LICENSE_OWNER', message: "This license does not belong to your verified wallet." };
+        }
+
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software?.licensingRules.fingerprintLock && !license.trial) {
+            // If fingerprint lock is not enabled for this software, there's nothing to do.
+            return { success: true, message: "Device binding is not required for this license." };
+        }
+
+        const seat = await bindSeat(license, deviceId, label?.trim().slice(0, 64) || undefined);
+        return { success: seat.bound, message: seat.message, ...(seat.bound ? {} : { code: 'NO_FREE_SEAT' }) };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error binding device to license:", error);
+        return { success: false, message: "An unexpected server error occurred during device binding." };
+    }
+}
+
+/**
+ * Releases a device from a license so the license can be used on another one. Resets within the
+ * listing's allowance happen right away; later ones wait for the seller's approval.
+ * The license must belong to the wallet verified on the current session.
+ * @param licenseId The ID of the license.
+ * @param deviceId The device to release.
+ * @param reason The buyer's explanation, shown to the seller.
+ * @returns An object indicating success or failure, and whether the reset is done or pending.
+ */
+export async function resetLicenseDevice(licenseId: string, deviceId: string, reason?: string): Promise<{ success: boolean; message: string; status?: DeviceResetStatus }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !deviceId) {
+        return { success: false, message: "A valid license ID and device ID are required." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, message: "This license does not belong to your verified wallet." };
+        }
+        if (license.trial) {
+            return { success: false, message: "Trial licenses cannot be moved to another device." };
+        }
+        if (license.status !== 'active') {
+            return { success: false, message: `This license is ${license.status}.` };
+        }
+
+        const software = await db.collection('software').findOne({ _id: license.softwareId });
+        if (!software) {
+            return { success: false, message: "The software for this license is no longer listed." };
+        }
+
+        const policy = normalizeDeviceResetPolicy(software.licensingRules?.deviceResets);
+        const result = await requestDeviceReset(license, software, policy, deviceId, reason?.trim().slice(0, 500));
+        return { success: true, message: result.message, status: result.status };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error resetting license device:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Fetches a license's device reset allowance and history, for the buyer's device list.
+ * The license must belong to the wallet verified on the current session.
+ * @param licenseId The ID of the license.
+ * @returns The reset policy, what is left of it, and the reset history, newest first.
+ */
+export async function getDeviceResetStatus(licenseId: string): Promise<{ success: boolean; message: string; status?: { policy: DeviceResetPolicy; remaining: number; cooldownUntil: string | null; pending: boolean; history: any[] } }> {
+    if (!licenseId || !ObjectId.isValid(licenseId)) {
+        return { success: false, message: "Invalid license ID." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, message: "This license does not belong to your verified wallet." };
+        }
+        const software = await db.collection('software').findOne({ _id: license.softwareId }, { projection: { licensingRules: 1 } });
+
+        const policy = normalizeDeviceResetPolicy(software?.licensingRules?.deviceResets);
+        const allowance = await getDeviceResetAllowance(license, policy);
+        const history = await listDeviceResets({ licenseId: license._id });
+
+        return {
+            success: true,
+            message: "Reset status retrieved.",
+            status: {
+                policy,
+                remaining: allowance.remaining,
+                cooldownUntil: allowance.cooldownUntil ? allowance.cooldownUntil.toISOString() : null,
+                pending: allowance.pending,
+                history: history.map(({ _id, status, deviceId, deviceLabel, reason, requestedAt, decidedAt }) => ({
+                    _id: _id.toString(), status, deviceId, deviceLabel, reason, requestedAt, decidedAt,
+                })),
+            },
+        };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error fetching device reset status:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Checks out a lease of a floating license for a device.
+ * The license must belong to the wallet verified on the current session.
+ * @param licenseId The ID of the license.
+ * @param deviceId The device checking out.
+ * @param label An optional name for the device or its user.
+ * @returns The lease and its secret token, or a message and its code if no lease can be checked out.
+ */
+export async function checkoutLicenseLease(licenseId: string, deviceId: string, label?: string): Promise<{ success: boolean; message: string; code?: string; lease?: { leaseId: string; leaseToken: string; expiresAt: string; heartbeatIntervalMs: number; } }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !deviceId) {
+        return { success: false, code: 'INVALID_REQUEST', message: "A valid license ID and device ID are required." };
+    }
+    try {
+        const { walletAddress } = await requireWalletSession();
+
+        const client = await clientPromise;
+        const db = client.db();
+        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId), buyerAddress: walletAddress });
+        if (!license) {
+            return { success: false, code: 'NOT_LICENSE_OWNER', message: "This license does not belong to your verified wallet." };
+        }
+        if (license.status !== 'active') {
+            return { success: false, code: 'LICENSE_INACTIVE', message: `This license is ${license.status}.` };
+        }
+        if (isLicenseExpired(license.expiresAt)) {
+            return { success: false, code: 'LICENSE_EXPIRED', message: "This license has expired." };
+        }
+
+        const software = await db.collection('software').findOne({ _id: license.softwareId }, { projection: { licensingRules: 1 } });
+        if (!software?.licensingRules?.floating || license.trial) {
+            return { success: false, code: 'NOT_FLOATING', message: "This is not a floating license." };
+        }
+
+        const checkout = await checkoutLease(license, deviceId, label?.trim().slice(0, 64) || undefined);
+        if (!checkout.lease) {
+            return { success: false, code: 'NO_FREE_LEASE', message: checkout.message };
+        }
+        return {
+            success: true,
+            message: checkout.message,
+            lease: { ...checkout.lease, expiresAt: checkout.lease.expiresAt.toISOString(), heartbeatIntervalMs: LEASE_HEARTBEAT_INTERVAL_MS },
+        };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error checking out lease:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Keeps a floating license lease alive. The lease token returned at checkout authorizes the call,
+ * so a running client does not need to sign anything again.
+ * @param licenseId The ID of the license.
+ * @param leaseId The ID of the lease.
+ * @param leaseToken The lease's secret token.
+ * @returns The lease's new expiry, or a message and its code if the lease was lost.
+ */
+export async function heartbeatLicenseLease(licenseId: string, leaseId: string, leaseToken: string): Promise<{ success: boolean; message: string; code?: string; expiresAt?: string }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !leaseId || !leaseToken) {
+        return { success: false, code: 'INVALID_REQUEST', message: "License ID, lease ID and lease token are required." };
+    }
+    try {
+        const client = await clientPromise;
+        const license = await client.db().collection('licenses').findOne({ _id: new ObjectId(licenseId) }, { projection: { status: 1, expiresAt: 1 } });
+        if (!license) {
+            return { success: false, code: 'LICENSE_NOT_FOUND', message: "License not found." };
+        }
+
+        // A license that was blocked, revoked or ran out while in use loses its lease at the next heartbeat.
+        if (license.status !== 'active' || isLicenseExpired(license.expiresAt)) {
+            await checkinLease(license._id, leaseId, leaseToken);
+            return license.status !== 'active'
+                ? { success: false, code: 'LICENSE_INACTIVE', message: `The license is ${license.status}.` }
+                : { success: false, code: 'LICENSE_EXPIRED', message: "The license has expired." };
+        }
+
+        const expiresAt = await heartbeatLease(license._id, leaseId, leaseToken);
+        if (!expiresAt) {
+            return { success: false, code: 'LEASE_LOST', message: "The lease has expired or is unknown. Check out a new one." };
+        }
+        return { success: true, message: "Lease extended.", expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+        console.error("Error extending lease:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Checks a floating license lease back in so another device can use the slot.
+ * @param licenseId The ID of the license.
+ * @param leaseId The ID of the lease.
+ * @param leaseToken The lease's secret token.
+ * @returns An object indicating success or failure, with the error's code on failure.
+ */
+export async function checkinLicenseLease(licenseId: string, leaseId: string, leaseToken: string): Promise<{ success: boolean; message: string; code?: string }> {
+    if (!licenseId || !ObjectId.isValid(licenseId) || !leaseId || !leaseToken) {
+        return { success: false, code: 'INVALID_REQUEST', message: "License ID, lease ID and lease token are required." };
+    }
+    try {
+        const checkedIn = await checkinLease(new ObjectId(licenseId), leaseId, leaseToken);
+        return checkedIn
+            ? { success: true, message: "Lease checked in." }
+            : { success: false, code: 'LEASE_NOT_FOUND', message: "The lease is unknown or was already checked in." };
+    } catch (error) {
+        console.error("Error checking in lease:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Issues a short-lived challenge that must be signed by the license owner before calling getDecryptionKey.
+ * @param licenseId The ID of the license.
+ * @param deviceId The unique identifier of the device.
+ * @returns An object with success status and the nonce to sign, or the error's code on failure.
+ */
+export async function requestKeyChallenge(licenseId: string, deviceId: string): Promise<{ success: boolean; message: string; code?: string; nonce?: string; expiresAt?: string; }> {
+    if (!licenseId || !deviceId || !ObjectId.isValid(licenseId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "A valid License ID and Device ID are required." };
+    }
+    try {
+        const { nonce, expiresAt } = await issueKeyChallenge(licenseId, deviceId);
+        return { success: true, message: "Challenge issued.", nonce, expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+        console.error("Error issuing key challenge:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Verifies a license and device, then returns a decryption key.
+ * The caller must sign an EIP-712 KeyRequest over (licenseId, deviceId, deliveryPublicKey, nonce)
+ * with the wallet that owns the license NFT; the recovered signer is then checked against the smart contract.
+ * @param licenseId The ID of the license.
+ * @param deviceId The unique identifier of the device.
+ * @param deliveryPublicKey The device's delivery public key, which the content key is sealed for.
+ * @param nonce The challenge nonce issued by requestKeyChallenge.
+ * @param signature The owner's signature over the KeyRequest.
+ * @param channel The release channel the license holder follows.
+ * @returns An object with success status, the license's key delivery and the release it opens, or an error
+ * message and its code, which the get-key route answers with a matching HTTP status.
+ */
+export async function getDecryptionKey(licenseId: string, deviceId: string, deliveryPublicKey: string, nonce: string, signature: string, channel: ReleaseChannel = 'stable'): Promise<{ success: boolean; message: string; code?: string; keyDelivery?: KeyDelivery; fileUrl?: string; fileName?: string; mimeType?: string; release?: { version: string; channel: ReleaseChannel; changelog: string; releasedAt: string; }; lease?: { leaseId: string; leaseToken: string; expiresAt: string; heartbeatIntervalMs: number; }; }> {
+  if (!licenseId || !deviceId || !deliveryPublicKey || !nonce || !signature) {
+    return { success: false, code: 'INVALID_REQUEST', message: "License ID, Device ID, delivery public key, challenge nonce and signature are required." };
+  }
+
+  if (!RELEASE_CHANNELS.includes(channel)) {
+    return { success: false, code: 'INVALID_REQUEST', message: "Unknown release channel." };
+  }
+
+  try {
+    const challengeResult = await redeemKeyChallenge({ licenseId, deviceId, deliveryPublicKey, nonce }, signature);
+    if (!challengeResult.success || !challengeResult.walletAddress) {
+      return { success: false, code: 'INVALID_SIGNATURE', message: challengeResult.message };
+    }
+    const walletAddress = challengeResult.walletAddress;
+
+    const client = await clientPromise;
+    const db = client.db();
+
+    if (!ObjectId.isValid(licenseId)) {
+      return { success: false, code: 'INVALID_REQUEST', message: "Invalid license ID format." };
+    }
+
+    const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
+
+    if (!license) {
+      return { success: false, code: 'LICENSE_NOT_FOUND', message: "License not found in the database." };
+    }
+    
+    // Primary check: license status in our DB. If blocked/revoked, fail fast.
+    if (license.status !== 'active') {
+        return { success: false, code: 'LICENSE_INACTIVE', message: `License is not active. Current status: ${license.status}. Contact the seller for assistance.` };
+    }
+
+    if (isLicenseExpired(license.expiresAt)) {
+        if (license.trial) {
+            return { success: false, code: 'LICENSE_EXPIRED', message: `Your trial expired on ${license.expiresAt.toLocaleDateString('en-US', { dateStyle: 'medium' })}. Upgrade it to a paid license from My Licenses to keep using the software.` };
+        }
+        return { success: false, code: 'LICENSE_EXPIRED', message: `License expired on ${license.expiresAt.toLocaleDateString('en-US', { dateStyle: 'medium' })}. Renew it from the marketplace to keep using the software.` };
+    }
+
+    const software = await db.collection('software').findOne({ _id: license.softwareId });
+    if (!software) {
+        return { success: false, code: 'SOFTWARE_NOT_FOUND', message: "Could not find the associated software." };
+    }
+    
+    // --- Smart Contract Validation, on the chain the license lives on ---
+    const chain = findChain(recordChainId(license));
+    if (!chain?.rpcUrl) {
+        console.error(`Server configuration error: chain ${recordChainId(license)} of license ${licenseId} is not in the chain registry or has no RPC URL.`);
+        return { success: false, code: 'CHAIN_UNAVAILABLE', message: "The server is not configured to communicate with the blockchain." };
+    }
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, chainProvider(chain));
+    
+    try {
+        const [ownerOfToken, isBlockedOnChain] = await Promise.all([
+            contract.ownerOf(license.tokenId),
+            contract.isLicenseBlocked(license.tokenId),
+        ]);
+        if (ownerOfToken.toLowerCase() !== walletAddress.toLowerCase()) {
+            return { success: false, code: 'NOT_LICENSE_OWNER', message: "Smart contract check failed: The signing wallet is not the owner of this license NFT." };
+        }
+        // A block set on the chain directly is carried over, so the seller sees it on the manage page.
+        if (isBlockedOnChain) {
+            await db.collection('licenses').updateOne(
+              { _id: new ObjectId(licenseId), status: 'active' },
+              { $set: { status: 'blocked', reason: CHAIN_BLOCK_REASON, lastViolationDate: new Date() } }
+            );
+            return { success: false, code: 'LICENSE_INACTIVE', message: "This license is blocked on the blockchain. Contact the seller for assistance." };
+        }
+    } catch(contractError: any) {
+        console.error("Smart contract call error:", contractError);
+        if (isNonexistentTokenError(contractError)) {
+             await db.collection('licenses').updateOne(
+              { _id: new ObjectId(licenseId) },
+              { $set: { status: 'revoked', reason: 'Token does not exist (burned)', lastViolationDate: new Date() } }
+            );
+            return { success: false, code: 'LICENSE_INACTIVE', message: "This license has been revoked and no longer exists on the blockchain." };
+        }
+        return { success: false, code: 'CHAIN_UNAVAILABLE', message: "Could not verify license ownership on the blockchain." };
+    }
+
+    // IP LOCK VALIDATION. An IP-locked license runs from the address it was bought from, or from
+    // any range the seller allowed for it; a seller-defined range list also limits unlocked licenses.
+    // An IP-locked license without a recorded address only runs from the seller's ranges.
+    const clientIp = getRequestIp();
+    const lockedIp = software.licensingRules.ipLock && license.buyerIp ? normalizeIp(license.buyerIp) : null;
+    const allowedRanges: string[] = license.ipAllowList || [];
+    const inAllowedRange = !!clientIp && allowedRanges.some(range => isIpInCidr(clientIp, range));
+    if (software.licensingRules.ipLock || allowedRanges.length > 0) {
+        if (!clientIp) {
+            return { success: false, code: 'IP_NOT_ALLOWED', message: "IP address not allowed: your IP address could not be determined, and this license is IP-locked." };
+        }
+        if (software.licensingRules.ipLock && !lockedIp && !inAllowedRange) {
+            return { success: false, code: 'IP_NOT_ALLOWED', message: "IP address not allowed: this license is IP-locked but has no recorded address. Contact the seller to allow your network." };
+        }
+        if (clientIp !== lockedIp && !inAllowedRange) {
+            return { success: false, code: 'IP_NOT_ALLOWED', message: `IP address not allowed: this license cannot be used from ${clientIp}. Contact the seller to allow your network.` };
+        }
+    }
+
+    // The contract checks the client's own address against the lock it stored at mint time. The seller's
+    // ranges are only known here, so an address they let in is not sent to the contract, whose only other
+    // check, the blocked flag, was read above.
+    if (!inAllowedRange || clientIp === lockedIp) {
+        try {
+            const isValid = await contract.validateLicense(license.tokenId, clientIp || '');
+            if (!isValid) {
+                return { success: false, code: 'CHAIN_VALIDATION_FAILED', message: "The license failed on-chain validation: it is blocked on the blockchain or its IP lock does not match." };
+            }
+        } catch (contractError) {
+            console.error("validateLicense call error:", contractError);
+            return { success: false, code: 'CHAIN_UNAVAILABLE', message: "Could not validate the license on the blockchain." };
+        }
+    }
+    
+    // DEVICE LOCK VALIDATION. Trials are always limited to the device they were started on.
+    // A device that is not bound yet takes a free seat, if there is one.
+    if ((software.licensingRules.fingerprintLock && !software.licensingRules.floating) || license.trial) {
+        if (!isDeviceBound(license, deviceId)) {
+            if (license.trial) {
+                return { success: false, code: 'DEVICE_MISMATCH', message: "Device mismatch. Trial licenses only run on the device they were started on." };
+            }
+            const seat = await bindSeat(license, deviceId);
+            if (!seat.bound) {
+                return { success: false, code: 'DEVICE_MISMATCH', message: `Device mismatch. ${seat.message}` };
+            }
+        }
+        await touchSeat(license._id, deviceId);
+    }
+
+    const release = await resolveRelease({ softwareId: license.softwareId, updatesUntil: license.updatesUntil }, channel);
+    if (!release) {
+        return { success: false, code: 'NO_RELEASE', message: "There is no release of this software covered by your license." };
+    }
+
+    // FLOATING LICENSES. The key is only released with a lease from the pool, which the client
+    // keeps alive with heartbeats while the software is in use.
+    let lease: { leaseId: string; leaseToken: string; expiresAt: Date } | undefined;
+    if (software.licensingRules.floating && !license.trial) {
+        const checkout = await checkoutLease(license, deviceId);
+        if (!checkout.lease) {
+            return { success: false, code: 'NO_FREE_LEASE', message: checkout.message };
+        }
+        lease = checkout.lease;
+    }
+
+    // The content key is sealed for this device's key pair, bound to the license and device, and the release is logged.
+    // The file URL comes back with the key: after a key rotation it is the only URL the key opens.
+    const { keyDelivery, fileUrl } = await createKeyDelivery(
+        { _id: license._id, softwareId: license.softwareId },
+        release._id,
+        { walletAddress, deviceId, publicKey: deliveryPublicKey }
+    );
 
-    return { success: true, message: "Key retrieved successfully.", key: decryptionKey, fileUrl };
+    // Uploads made before file metadata was recorded fall back to a generic binary download.
+    const fileName = release.fileName || `${software.title}.bin`;
+    const mimeType = release.mimeType || 'application/octet-stream';
+
+    return {
+        success: true,
+        message: "Key retrieved successfully.",
+        keyDelivery,
+        fileUrl,
+        fileName,
+        mimeType,
+        release: { version: release.version, channel: release.channel, changelog: release.changelog, releasedAt: release.releasedAt.toISOString() },
+        ...(lease ? { lease: { ...lease, expiresAt: lease.expiresAt.toISOString(), heartbeatIntervalMs: LEASE_HEARTBEAT_INTERVAL_MS } } : {}),
+    };
 
   } catch (error) {
     console.error("Error in getDecryptionKey:", error);
@@ -795,18 +1836,22 @@ export async function getLicensesForSoftware(softwareId: string): Promise<any[]>
         return [];
     }
     try {
+        await authorizeSoftwareOwner(softwareId);
+
         const client = await clientPromise;
         const db = client.db();
 
         const licenses = await db.collection('licenses')
-            .find({ softwareId: new ObjectId(softwareId) })
+            .find({ softwareId: new ObjectId(softwareId) }, { projection: { deliveryKey: 0, 'leases.tokenHash': 0 } })
             .sort({ mintDate: -1 })
             .toArray();
 
-        return licenses.map(license => ({
+        return licenses.map(({ deviceId, ...license }) => ({
             ...license,
             _id: license._id.toString(),
             softwareId: license.softwareId.toString(),
+            seats: seatCount(license),
+            devicesBound: boundDevices({ ...license, deviceId }).length,
         }));
     } catch (error) {
         console.error("Error fetching licenses for software:", error);
@@ -815,34 +1860,28 @@ export async function getLicensesForSoftware(softwareId: string): Promise<any[]>
 }
 
 /**
- * Revokes a license by burning the NFT and updating the database.
+ * Revokes a license by burning the NFT on the chain it lives on and updating the database.
  * @param licenseId The ID of the license to revoke.
  * @returns An object indicating success or failure.
  */
 export async function revokeLicense(licenseId: string): Promise<{ success: boolean; message: string }> {
-    if (!process.env.NEXT_PUBLIC_SELLER_PRIVATE_KEY || !process.env.NEXT_PUBLIC_AMOY_RPC_URL) {
-        return { success: false, message: "Server is not configured for blockchain transactions." };
-    }
      if (!licenseId || !ObjectId.isValid(licenseId)) {
         return { success: false, message: "Invalid license ID." };
     }
     
     try {
-        const client = await clientPromise;
-        const db = client.db();
+        // Only the seller of the licensed software may burn its licenses.
+        const { license } = await authorizeLicenseSeller(licenseId);
 
-        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
-        if (!license) {
-            return { success: false, message: "License not found." };
+        const chain = licenseChain(license);
+        if (!isRelayerConfigured(chain)) {
+            return { success: false, message: "Server is not configured for blockchain transactions." };
         }
 
-        const provider = new JsonRpcProvider(process.env.NEXT_PUBLIC_AMOY_RPC_URL);
-        const { Wallet } = await import('ethers');
-        const signer = new Wallet(process.env.NEXT_PUBLIC_SELLER_PRIVATE_KEY, provider);
-        const contract = new Contract(SOFTWARE_LICENSE_CONTRACT_ADDRESS, SOFTWARE_LICENSE_ABI, signer);
+        const client = await clientPromise;
+        const db = client.db();
 
-        const tx = await contract.revokeLicense(license.tokenId);
-        await tx.wait();
+        await burnChainLicense(chain, license.tokenId);
 
         await db.collection('licenses').updateOne(
             { _id: new ObjectId(licenseId) },
@@ -851,13 +1890,55 @@ export async function revokeLicense(licenseId: string): Promise<{ success: boole
 
         return { success: true, message: `License ${license.tokenId} has been permanently revoked.` };
     } catch (error: any) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error revoking license:", error);
         return { success: false, message: `Failed to revoke license: ${error.reason || error.message}` };
     }
 }
 
 /**
- * Reactivates a "blocked" license by setting its status back to "active" in the database.
+ * Blocks a license on the blockchain and in the database. A blocked license receives no
+ * decryption keys until it is reactivated. Only the seller of the licensed software can do this.
+ * @param licenseId The ID of the license to block.
+ * @param reason Why the license is blocked, shown to the seller and the buyer.
+ * @returns An object indicating success or failure, with the error's code on failure.
+ */
+export async function blockLicense(licenseId: string, reason?: string): Promise<{ success: boolean; message: string; code?: string }> {
+    if (!licenseId || !ObjectId.isValid(licenseId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Invalid license ID." };
+    }
+
+    try {
+        const { license } = await authorizeLicenseSeller(licenseId);
+
+        if (license.status !== 'active') {
+            return { success: false, code: 'LICENSE_INACTIVE', message: `Only active licenses can be blocked. This license is ${license.status}.` };
+        }
+
+        // The chain is written first: if the transaction fails, the license stays active on both sides.
+        await setChainLicenseBlocked(licenseChain(license), license.tokenId, true);
+
+        const client = await clientPromise;
+        await client.db().collection('licenses').updateOne(
+            { _id: license._id },
+            { $set: { status: 'blocked', reason: reason?.trim().slice(0, 500) || 'Blocked by seller', lastViolationDate: new Date() } }
+        );
+
+        return { success: true, message: `License ${license.tokenId} has been blocked.` };
+    } catch (error: any) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error blocking license:", error);
+        return { success: false, message: `Failed to block license: ${error.reason || error.message}` };
+    }
+}
+
+/**
+ * Reactivates a "blocked" license by lifting its block on the blockchain and setting its status
+ * back to "active" in the database.
  * @param licenseId The ID of the license to reactivate.
  * @returns An object indicating success or failure.
  */
@@ -867,18 +1948,17 @@ export async function reactivateLicense(licenseId: string): Promise<{ success: b
     }
     
     try {
+        const { license } = await authorizeLicenseSeller(licenseId);
+
         const client = await clientPromise;
         const db = client.db();
         
-        const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
-        if (!license) {
-            return { success: false, message: "License not found." };
-        }
-        
         if (license.status === 'revoked') {
             return { success: false, message: "Cannot reactivate a revoked (burned) license." };
         }
 
+        await setChainLicenseBlocked(licenseChain(license), license.tokenId, false);
+
         await db.collection('licenses').updateOne(
             { _id: new ObjectId(licenseId) },
             { $set: { status: 'active' }, $unset: { reason: "", lastViolationDate: "" } }
@@ -887,8 +1967,103 @@ export async function reactivateLicense(licenseId: string): Promise<{ success: b
         return { success: true, message: "License has been reactivated." };
 
     } catch (error: any) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error reactivating license:", error);
-        return { success: false, message: `Failed to reactivate license: ${error.message}` };
+        return { success: false, message: `Failed to reactivate license: ${error.reason || error.message}` };
+    }
+}
+
+/**
+ * Compares the status of every license of a software with the chain it lives on and fixes mismatches.
+ * A license blocked on either side is blocked on both, and burned tokens are marked revoked.
+ * Only the seller of the software can do this.
+ * @param softwareId The ID of the software.
+ * @returns How many licenses were checked, and every mismatch found with what was done about it.
+ */
+export async function reconcileSoftwareLicenses(softwareId: string): Promise<{ success: boolean; message: string; checked?: number; issues?: LicenseSyncIssue[] }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { success: false, message: "Invalid software ID." };
+    }
+    if (!getChains().some(chain => isRelayerConfigured(chain))) {
+        return { success: false, message: "Server is not configured for blockchain transactions." };
+    }
+
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+
+        const client = await clientPromise;
+        const licenses = await client.db().collection('licenses')
+            .find({ softwareId: software._id }, { projection: { chainId: 1, tokenId: 1, status: 1 } })
+            .toArray();
+
+        const { checked, issues } = await reconcileLicenseStatuses(licenses);
+        const failed = issues.filter(issue => issue.error).length;
+        const fixed = issues.length - failed;
+
+        let message = issues.length === 0
+            ? `All ${checked} licenses match the blockchain.`
+            : `Checked ${checked} licenses and fixed ${fixed} ${fixed === 1 ? 'mismatch' : 'mismatches'}.`;
+        if (failed > 0) {
+            message += ` ${failed} could not be checked or fixed; try again later.`;
+        }
+        return { success: true, message, checked, issues };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error reconciling licenses:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+// Enough for a handful of office and VPN networks; longer lists belong in a proper network policy.
+const MAX_IP_RANGES_PER_LICENSE = 50;
+
+/**
+ * Replaces the IP ranges a license may be used from, in CIDR notation. A bare address allows
+ * that address only. An empty list removes the ranges, leaving only the license's own IP lock.
+ * Only the seller of the licensed software can do this.
+ * @param licenseId The ID of the license.
+ * @param ranges The allowed ranges, e.g. "203.0.113.0/24" or "2001:db8::/48".
+ * @returns An object indicating success or failure, with the normalized ranges or the error's code.
+ */
+export async function updateLicenseIpAllowList(licenseId: string, ranges: string[]): Promise<{ success: boolean; message: string; code?: string; ranges?: string[] }> {
+    if (!licenseId || !ObjectId.isValid(licenseId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Invalid license ID." };
+    }
+    if (!Array.isArray(ranges) || ranges.length > MAX_IP_RANGES_PER_LICENSE) {
+        return { success: false, code: 'TOO_MANY_RANGES', message: `A license can have at most ${MAX_IP_RANGES_PER_LICENSE} IP ranges.` };
+    }
+
+    const normalized: string[] = [];
+    for (const range of ranges) {
+        const cidr = typeof range === 'string' ? normalizeCidr(range) : null;
+        if (!cidr) {
+            return { success: false, code: 'INVALID_RANGE', message: `"${range}" is not a valid IP address or CIDR range.` };
+        }
+        if (!normalized.includes(cidr)) {
+            normalized.push(cidr);
+        }
+    }
+
+    try {
+        const { license } = await authorizeLicenseSeller(licenseId);
+
+        const client = await clientPromise;
+        await client.db().collection('licenses').updateOne(
+            { _id: license._id },
+            normalized.length > 0 ? { $set: { ipAllowList: normalized } } : { $unset: { ipAllowList: '' } }
+        );
+
+        return { success: true, message: normalized.length > 0 ? "Allowed IP ranges updated." : "Allowed IP ranges removed.", ranges: normalized };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error updating IP allow-list:", error);
+        return { success: false, message: "An unexpected server error occurred." };
     }
 }
 
@@ -896,59 +2071,112 @@ export async function reactivateLicense(licenseId: string): Promise<{ success: b
 interface LicensingRules {
     ipLock: boolean;
     fingerprintLock: boolean;
+    maxSeats?: number; // Most devices a buyer can license at once; 1 unless set
+    deviceResets?: DeviceResetPolicy; // Self-service device resets; the default policy unless set
+    floating?: boolean; // Seats are concurrent leases shared by any device instead of bound devices
+    updateDays?: number; // Days of new releases included with a license; every release unless set
 }
 
 interface SoftwareData {
     title: string;
     description: string;
-    price: number;
-    fileUrl: string;
-    seller: string;
+    chains: ChainOffer[]; // The chains the software is sold on, with its price on each
+    uploadId: string; // The file stored through /api/upload/file, which becomes the first release
     version: string;
     category: string;
     licenseType: string;
     licenseTerms: string;
+    termDays?: number;
+    trialDays?: number;
     logoUrl?: string;
     licensingRules: LicensingRules;
-    decryptionKey: string;
+}
+
+// Checks a seller's prices: each on a chain in the registry, at most once, in a currency accepted there,
+// and rounded to the decimals of that currency.
+function normalizeChainOffers(offers: ChainOffer[]): ChainOffer[] | null {
+    const normalized: ChainOffer[] = [];
+    for (const offer of Array.isArray(offers) ? offers : []) {
+        const chain = findChain(offer?.chainId);
+        const token = chain && findPaymentToken(chain, offer.paymentToken);
+        const price = token && normalizePrice(offer.price, token);
+        if (!chain || !token || price === null || normalized.some(existing => existing.chainId === chain.chainId)) {
+            return null;
+        }
+        normalized.push({
+            chainId: chain.chainId,
+            price,
+            // Prices in the native currency are stored without a token.
+            ...(token.address ? { paymentToken: token.address.toLowerCase() } : {}),
+        });
+    }
+    return normalized.length > 0 ? normalized : null;
 }
 
 /**
- * Uploads software metadata to the database. This is a server-only function.
- * @param softwareData The software data to upload.
+ * Lists software on behalf of the signed-in seller, from a file they already sent to /api/upload/file.
+ * @param softwareData The software data to upload, with the file's upload ID.
  * @returns An object indicating success or failure.
  */
 export async function uploadSoftware(softwareData: SoftwareData): Promise<{ success: boolean; message: string; softwareId?: ObjectId }> {
     try {
+        const session = await requireSession();
+
         const client = await clientPromise;
         const db = client.db();
 
-        const { title, description, price, fileUrl, seller, version, category, licenseType, licenseTerms, logoUrl, licensingRules, decryptionKey } = softwareData;
+        const { title, description, chains, uploadId, version, category, licenseType, licenseTerms, termDays, trialDays, logoUrl, licensingRules } = softwareData;
 
         // Basic validation
-        if (!title || price === undefined || !fileUrl || !seller || !licensingRules || !version || !licenseType || !licenseTerms || !decryptionKey) {
+        if (!title || !chains || !uploadId || !licensingRules || !version || !licenseType || !licenseTerms) {
             return { success: false, message: "All software details and licensing rules are required." };
         }
+        if (!LICENSE_TERM_TYPES.includes(licenseType as LicenseTermType)) {
+            return { success: false, message: "Unknown license type." };
+        }
+        const terms = normalizeLicenseTerms(licenseType, termDays);
+        const offers = normalizeChainOffers(chains);
+        if (!offers) {
+            return { success: false, message: "Choose at least one chain to sell on, each once, in a currency the marketplace accepts there and at a valid price in it." };
+        }
 
-        const user = await db.collection('users').findOne({ username: seller });
+        const user = await db.collection('users').findOne({ _id: session.userId });
         if (!user) {
             return { success: false, message: "Seller does not exist." };
         }
 
+        // Only a file this seller uploaded can back the listing, and only one listing.
+        const upload = await claimPendingUpload(uploadId, user._id);
+        if (!upload) {
+            return { success: false, message: "The uploaded file has expired or was not found. Please upload it again." };
+        }
+
+        const softwareId = new ObjectId();
         const newSoftware = {
+            _id: softwareId,
             sellerId: user._id,
             sellerUsername: user.username,
             title,
             description,
-            price: parseFloat(price.toString()) || 0,
+            chains: offers,
             version,
             category,
-            licenseType,
+            licenseType: terms.type,
+            termDays: terms.termDays,
+            trialDays: trialDays && trialDays > 0 ? Math.floor(trialDays) : undefined, // No trial when unset
             licenseTerms,
-            fileUrl,
             logoUrl,
-            licensingRules,
-            decryptionKey, // Storing the generated key
+            licensingRules: {
+                ipLock: !!licensingRules.ipLock,
+                // A floating license is shared by devices in turn, so it is never locked to one.
+                fingerprintLock: !!licensingRules.fingerprintLock && !licensingRules.floating,
+                floating: !!licensingRules.floating,
+                // Seats only mean something when licenses are bound to devices or leased.
+                maxSeats: licensingRules.fingerprintLock || licensingRules.floating ? Math.min(Math.max(Math.floor(licensingRules.maxSeats || 1), 1), MAX_SEATS_PER_LICENSE) : 1,
+                deviceResets: normalizeDeviceResetPolicy(licensingRules.deviceResets),
+                updateDays: normalizeUpdateDays(licensingRules.updateDays),
+            },
+            keyVersion: 1,
             createdAt: new Date(),
         };
 
@@ -958,13 +2186,300 @@ export async function uploadSoftware(softwareData: SoftwareData): Promise<{ succ
              return { success: false, message: "Failed to insert software record into database." };
         }
 
+        // The uploaded file becomes the first stable release; its key is only stored wrapped by the KMS.
+        const { decryptionKey, ...artifact } = upload;
+        await createRelease(
+            softwareId,
+            { version, changelog: 'Initial release.', channel: 'stable' },
+            artifact,
+            decryptionKey,
+            user._id
+        );
+
         return { success: true, message: "Software uploaded successfully.", softwareId: result.insertedId };
     } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error uploading software:", error);
         return { success: false, message: "An unexpected server error occurred." };
     }
 }
 
+/**
+ * Publishes a new release of a software from a file already sent to /api/upload/file.
+ * Existing license holders get it automatically if their license covers it.
+ * @param softwareId The ID of the software.
+ * @param uploadId The ID returned by the file upload.
+ * @param release The version, changelog and channel of the release.
+ * @returns An object indicating success or failure, with the new release's ID or the error's code.
+ */
+export async function publishRelease(softwareId: string, uploadId: string, release: { version: string; changelog: string; channel: ReleaseChannel }): Promise<{ success: boolean; message: string; code?: string; releaseId?: string }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Invalid software ID." };
+    }
+    if (!release.version || !release.version.trim()) {
+        return { success: false, code: 'INVALID_REQUEST', message: "A version is required." };
+    }
+    if (!RELEASE_CHANNELS.includes(release.channel)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Unknown release channel." };
+    }
+
+    try {
+        const { session, software } = await authorizeSoftwareOwner(softwareId);
+
+        const upload = await claimPendingUpload(uploadId, session.userId);
+        if (!upload) {
+            return { success: false, code: 'UPLOAD_NOT_FOUND', message: "The uploaded file was not found or has expired. Please upload it again." };
+        }
+
+        const { decryptionKey, ...artifact } = upload;
+        const releaseId = await createRelease(
+            software._id,
+            { version: release.version.trim(), changelog: release.changelog || '', channel: release.channel },
+            artifact,
+            decryptionKey,
+            session.userId
+        );
+
+        return { success: true, message: `Version ${release.version.trim()} published.`, releaseId: releaseId.toString() };
+    } catch (error: any) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error publishing release:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Fetches every release of a software, newest first, for the seller's view.
+ * @param softwareId The ID of the software.
+ * @returns The releases, without key material.
+ */
+export async function getReleasesForSoftware(softwareId: string): Promise<any[]> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return [];
+    }
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+        const releases = await listReleases(software._id);
+
+        return releases.map(release => ({
+            ...release,
+            _id: release._id.toString(),
+            softwareId: release.softwareId.toString(),
+            publishedBy: release.publishedBy?.toString(),
+        }));
+    } catch (error) {
+        console.error("Error fetching releases:", error);
+        return [];
+    }
+}
+
+/**
+ * Starts rotating a software's content key: the stored file is re-encrypted with a new key
+ * and existing licenses keep working. Only the seller who owns the software can do this.
+ * @param softwareId The ID of the software.
+ * @returns An object indicating whether the rotation was started, with the error's code if not.
+ */
+export async function rotateSoftwareKey(softwareId: string): Promise<{ success: boolean; message: string; code?: string; rotationId?: string }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Invalid software ID." };
+    }
+    try {
+        const { session, software } = await authorizeSoftwareOwner(softwareId);
+        return await startKeyRotation(software._id, session.userId);
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error starting key rotation:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
+/**
+ * Fetches a software's current key version and its key rotation history, for the seller's view.
+ * @param softwareId The ID of the software.
+ * @returns The key version and the rotation records, newest first.
+ */
+export async function getKeyRotationHistory(softwareId: string): Promise<{ keyVersion: number; rotations: any[] }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { keyVersion: 1, rotations: [] };
+    }
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+        const rotations = await getKeyRotations(software._id);
+
+        return {
+            keyVersion: software.keyVersion || 1,
+            rotations: rotations.map(rotation => ({
+                ...rotation,
+                _id: rotation._id.toString(),
+                softwareId: rotation.softwareId.toString(),
+                requestedBy: rotation.requestedBy.toString(),
+            })),
+        };
+    } catch (error) {
+        console.error("Error fetching key rotation history:", error);
+        return { keyVersion: 1, rotations: [] };
+    }
+}
+
+/**
+ * Reports how a software is listed on the contract of every chain it is sold on, for the seller's view.
+ * Buyers can only purchase it on a chain once the seller has registered it there at the listing's price
+ * and in its currency.
+ * @param softwareId The ID of the software.
+ * @returns The software's key to register, the product ID it is sold under (null until the seller has a wallet)
+ * and, per chain, the listing's price per seat in its payment token's smallest unit, the token (null for the
+ * native currency) and the contract's registration, if any.
+ */
+export async function getSoftwareChainListing(softwareId: string): Promise<{ success: boolean; message: string; listing?: { softwareKey: string; productId: string | null; sellerWalletAddress: string | null; chains: Array<{ chainId: number; price: string; paymentToken: string | null; product: { seller: string; price: string; paymentToken: string | null; active: boolean } | null; error?: string; }>; } }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { success: false, message: "Invalid software ID." };
+    }
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+        const client = await clientPromise;
+        const seller = await client.db().collection('users').findOne({ _id: software.sellerId }, { projection: { walletAddress: 1 } });
+
+        // The seller registers the software's key, under a product ID derived from their wallet.
+        const softwareKey = softwareChainKey(software._id);
+        const productId = seller?.walletAddress ? softwareProductId(software._id, seller.walletAddress) : null;
+        const chains = [];
+        for (const offer of softwareOffers(software)) {
+            const chain = findChain(offer.chainId);
+            const token = chain && findPaymentToken(chain, offer.paymentToken);
+            if (!chain || !token) {
+                chains.push({ chainId: offer.chainId, price: '0', paymentToken: offer.paymentToken || null, product: null, error: "This chain or its currency is no longer supported." });
+                continue;
+            }
+            const entry = { chainId: chain.chainId, price: tokenAmount(offer.price, token).toString(), paymentToken: token.address };
+            if (!productId) {
+                chains.push({ ...entry, product: null });
+                continue;
+            }
+            try {
+                const product = await getChainProduct(requireChain(chain.chainId), productId);
+                chains.push({ ...entry, product: product ? { seller: product.seller, price: product.price.toString(), paymentToken: product.paymentToken, active: product.active } : null });
+            } catch (error) {
+                console.error(`Error reading the software's listing on ${chain.name}:`, error);
+                chains.push({ ...entry, product: null, error: "The listing on this chain could not be read." });
+            }
+        }
+        return {
+            success: true,
+            message: "Blockchain listings retrieved.",
+            listing: { softwareKey, productId, sellerWalletAddress: seller?.walletAddress || null, chains },
+        };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
+        console.error("Error reading the software's blockchain listing:", error);
+        return { success: false, message: "The blockchain listing could not be read." };
+    }
+}
+
+/**
+ * Reports the live lease usage of every license of a floating software, for the seller's view.
+ * @param softwareId The ID of the software.
+ * @returns Whether the software is floating and, per license ID, its pool size and active leases.
+ */
+export async function getLeaseUsage(softwareId: string): Promise<{ floating: boolean; usage: Record<string, { seats: number; leases: Array<{ deviceId: string; label?: string; checkedOutAt: string; heartbeatAt: string; expiresAt: string }> }> }> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return { floating: false, usage: {} };
+    }
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+        if (!software.licensingRules?.floating) {
+            return { floating: false, usage: {} };
+        }
+
+        const client = await clientPromise;
+        const licenses = await client.db().collection('licenses')
+            .find({ softwareId: software._id, status: 'active' }, { projection: { seats: 1, leases: 1 } })
+            .toArray();
+
+        const usage: Record<string, { seats: number; leases: Array<{ deviceId: string; label?: string; checkedOutAt: string; heartbeatAt: string; expiresAt: string }> }> = {};
+        for (const license of licenses) {
+            usage[license._id.toString()] = {
+                seats: seatCount(license),
+                // Lease tokens never leave the server.
+                leases: activeLeases(license).map(({ deviceId, label, checkedOutAt, heartbeatAt, expiresAt }) => ({
+                    deviceId,
+                    label,
+                    checkedOutAt: checkedOutAt.toISOString(),
+                    heartbeatAt: heartbeatAt.toISOString(),
+                    expiresAt: expiresAt.toISOString(),
+                })),
+            };
+        }
+        return { floating: true, usage };
+    } catch (error) {
+        console.error("Error fetching lease usage:", error);
+        return { floating: false, usage: {} };
+    }
+}
+
+/**
+ * Lists the device reset requests for a software, pending ones included, for the seller's approval queue.
+ * @param softwareId The ID of the software.
+ * @returns The reset records, newest first.
+ */
+export async function getDeviceResetRequests(softwareId: string): Promise<any[]> {
+    if (!softwareId || !ObjectId.isValid(softwareId)) {
+        return [];
+    }
+    try {
+        const { software } = await authorizeSoftwareOwner(softwareId);
+        const resets = await listDeviceResets({ softwareId: software._id });
+
+        return resets.map(reset => ({
+            ...reset,
+            _id: reset._id.toString(),
+            licenseId: reset.licenseId.toString(),
+            softwareId: reset.softwareId.toString(),
+            sellerId: reset.sellerId?.toString(),
+            decidedBy: reset.decidedBy?.toString(),
+        }));
+    } catch (error) {
+        console.error("Error fetching device reset requests:", error);
+        return [];
+    }
+}
+
+/**
+ * Approves or rejects a device reset request that went over the buyer's allowance.
+ * Only the seller of the licensed software can decide.
+ * @param requestId The ID of the reset request.
+ * @param approve Whether to approve the request; approving releases the device.
+ * @returns An object indicating success or failure, with the error's code on failure.
+ */
+export async function decideDeviceResetRequest(requestId: string, approve: boolean): Promise<{ success: boolean; message: string; code?: string }> {
+    if (!requestId || !ObjectId.isValid(requestId)) {
+        return { success: false, code: 'INVALID_REQUEST', message: "Invalid request ID." };
+    }
+    try {
+        const request = await getDeviceResetRequest(new ObjectId(requestId));
+        if (!request) {
+            return { success: false, code: 'RESET_NOT_FOUND', message: "Reset request not found." };
+        }
+        const { session } = await authorizeLicenseSeller(request.licenseId);
+
+        await decideDeviceReset(request._id, approve, session.userId);
+        return { success: true, message: approve ? "The device was released from the license." : "The reset request was rejected." };
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, code: error.code, message: error.message };
+        }
+        console.error("Error deciding device reset request:", error);
+        return { success: false, message: "An unexpected server error occurred." };
+    }
+}
+
 /**
  * Deletes a software entry and all of its associated licenses.
  * @param softwareId The ID of the software to delete.
@@ -976,19 +2491,17 @@ export async function deleteSoftware(softwareId: string): Promise<{ success: boo
     }
 
     try {
+        // Also confirms the software exists before attempting to delete it.
+        await authorizeSoftwareOwner(softwareId);
+
         const client = await clientPromise;
         const db = client.db();
 
         const sId = new ObjectId(softwareId);
 
-        // Optional: Check if software exists before attempting to delete
-        const softwareExists = await db.collection('software').findOne({ _id: sId });
-        if (!softwareExists) {
-            return { success: false, message: "Software not found." };
-        }
-
-        // Delete all licenses associated with this software
+        // Delete all licenses and releases associated with this software
         await db.collection('licenses').deleteMany({ softwareId: sId });
+        await (await getReleasesCollection()).deleteMany({ softwareId: sId });
 
         // Delete the software itself
         const result = await db.collection('software').deleteOne({ _id: sId });
@@ -999,6 +2512,9 @@ export async function deleteSoftware(softwareId: string): Promise<{ success: boo
 
         return { success: true, message: "Software and all associated licenses have been deleted." };
     } catch (error) {
+        if (error instanceof AuthError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error deleting software:", error);
         return { success: false, message: "An unexpected server error occurred while deleting the software." };
     }
@@ -0,0 +1,229 @@
+import { getAddress, isAddress, JsonRpcProvider } from 'ethers';
+import type { PaymentToken } from './payment-tokens';
+
+/**
+ * The registry of EVM chains licenses are sold on, shared by the browser (which switches
+ * the wallet to a chain and sends transactions to its contract) and the server (which
+ * verifies them on that chain). Every chain has its own deployment of the license
+ * contract and its own payment tokens. A listing is sold on each chain its seller priced
+ * it for (`chains` on the software), and every license, purchase and voucher records the
+ * chain its token lives on in `chainId`. Records from before chains were recorded live on
+ * Polygon Amoy.
+ *
+ * Chains (environment, readable in the browser):
+ * - Polygon Amoy, from NEXT_PUBLIC_AMOY_RPC_URL, NEXT_PUBLIC_SOFTWARE_LICENSE_CONTRACT_ADDRESS
+ *   and the NEXT_PUBLIC_PAYMENT_TOKEN_* token.
+ * - A local development chain (Anvil or Hardhat) once NEXT_PUBLIC_LOCAL_CHAIN_CONTRACT_ADDRESS
+ *   is set, with NEXT_PUBLIC_LOCAL_CHAIN_RPC_URL (default http://127.0.0.1:8545),
+ *   NEXT_PUBLIC_LOCAL_CHAIN_ID (default 31337) and optionally a test token in
+ *   NEXT_PUBLIC_LOCAL_CHAIN_PAYMENT_TOKEN_ADDRESS (symbol and decimals as for Amoy's token).
+ * - Any other chains in NEXT_PUBLIC_CHAINS, a JSON array of ChainConfig objects.
+ * NEXT_PUBLIC_DEFAULT_CHAIN_ID picks the chain the marketplace opens on (default: the first).
+ */
+
+export interface ChainConfig {
+    chainId: number;
+    name: string;
+    rpcUrl: string;
+    // Where transactions can be looked up, e.g. https://amoy.polygonscan.com. Local chains have none.
+    explorerUrl?: string;
+    contractAddress: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+    // The ERC-20 tokens listings can be priced in besides the native currency.
+    paymentTokens: PaymentToken[];
+    // How many blocks must follow a transaction before it counts as confirmed, instead of the configured default.
+    confirmations?: number;
+    // The block the contract was deployed in, where the license indexer starts.
+    startBlock?: number;
+}
+
+// A seller's price for a listing on one chain.
+export interface ChainOffer {
+    chainId: number;
+    price: number;
+    // The ERC-20 token the price is in; absent for the chain's native currency.
+    paymentToken?: string;
+}
+
+// What a listing keeps of its prices; listings from before multi-chain support have only `price` and `paymentToken`.
+type ListedSoftware = { chains?: ChainOffer[]; price?: number; paymentToken?: string | null; [key: string]: any };
+
+export const AMOY_CHAIN_ID = 80002;
+// The chain of records that predate multi-chain support.
+export const LEGACY_CHAIN_ID = AMOY_CHAIN_ID;
+
+function erc20Token(address: string | undefined, symbol: string | undefined, decimals: string | undefined, permitVersion?: string): PaymentToken | null {
+    if (!address || !isAddress(address)) {
+        return null;
+    }
+    const parsedDecimals = Number(decimals);
+    return {
+        address: getAddress(address),
+        symbol: symbol || 'USDC',
+        decimals: Number.isInteger(parsedDecimals) && parsedDecimals >= 0 ? parsedDecimals : 6,
+        permitVersion: permitVersion || undefined,
+    };
+}
+
+function amoyChain(): ChainConfig {
+    const token = erc20Token(
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_ADDRESS,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_SYMBOL,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_DECIMALS,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_PERMIT_VERSION
+    );
+    return {
+        chainId: AMOY_CHAIN_ID,
+        name: 'Polygon Amoy',
+        rpcUrl: process.env.NEXT_PUBLIC_AMOY_RPC_URL || '',
+        explorerUrl: 'https://amoy.polygonscan.com',
+        contractAddress: process.env.NEXT_PUBLIC_SOFTWARE_LICENSE_CONTRACT_ADDRESS || '0xa3BBFe67BA745F4A2b566fc31Cc0724Ead830938',
+        nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+        paymentTokens: token ? [token] : [],
+    };
+}
+
+function localChain(): ChainConfig | null {
+    const contractAddress = process.env.NEXT_PUBLIC_LOCAL_CHAIN_CONTRACT_ADDRESS;
+    if (!contractAddress) {
+        return null;
+    }
+    const token = erc20Token(
+        process.env.NEXT_PUBLIC_LOCAL_CHAIN_PAYMENT_TOKEN_ADDRESS,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_SYMBOL,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_DECIMALS,
+        process.env.NEXT_PUBLIC_PAYMENT_TOKEN_PERMIT_VERSION
+    );
+    return {
+        chainId: Number(process.env.NEXT_PUBLIC_LOCAL_CHAIN_ID) || 31337,
+        name: 'Local Development Chain',
+        rpcUrl: process.env.NEXT_PUBLIC_LOCAL_CHAIN_RPC_URL || 'http://127.0.0.1:8545',
+        contractAddress,
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        paymentTokens: token ? [token] : [],
+        // Local nodes mine a block per transaction and nothing is reorganized.
+        confirmations: 1,
+        startBlock: 0,
+    };
+}
+
+function configuredChains(): ChainConfig[] {
+    if (!process.env.NEXT_PUBLIC_CHAINS) {
+        return [];
+    }
+    try {
+        const chains = JSON.parse(process.env.NEXT_PUBLIC_CHAINS);
+        if (!Array.isArray(chains)) {
+            throw new Error("NEXT_PUBLIC_CHAINS must be a JSON array.");
+        }
+        return chains
+            .filter(chain => Number.isInteger(chain?.chainId) && chain.rpcUrl && isAddress(chain.contractAddress))
+            .map(chain => ({
+                ...chain,
+                name: chain.name || `Chain ${chain.chainId}`,
+                nativeCurrency: chain.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 },
+                paymentTokens: (chain.paymentTokens || [])
+                    .map((token: any) => erc20Token(token?.address, token?.symbol, token?.decimals?.toString(), token?.permitVersion))
+                    .filter(Boolean),
+            }));
+    } catch (error) {
+        console.error('Ignoring NEXT_PUBLIC_CHAINS:', error);
+        return [];
+    }
+}
+
+let chains: ChainConfig[] | null = null;
+
+/**
+ * Every chain licenses can be sold on.
+ */
+export function getChains(): ChainConfig[] {
+    if (!chains) {
+        const registry = new Map<number, ChainConfig>();
+        for (const chain of [amoyChain(), localChain(), ...configuredChains()]) {
+            if (chain) {
+                registry.set(chain.chainId, chain);
+            }
+        }
+        chains = Array.from(registry.values());
+    }
+    return chains;
+}
+
+/**
+ * Looks up a chain by its ID.
+ * @returns The chain, or null if it is not in the registry.
+ */
+export function findChain(chainId?: number | null): ChainConfig | null {
+    return getChains().find(chain => chain.chainId === Number(chainId)) || null;
+}
+
+/**
+ * The chain the marketplace opens on.
+ */
+export function getDefaultChain(): ChainConfig {
+    return findChain(Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID)) || getChains()[0];
+}
+
+/**
+ * The chain a license, purchase or voucher lives on.
+ * @param record Anything with the `chainId` it was recorded with; older records have none.
+ */
+export function recordChainId(record: { chainId?: number | null; [key: string]: any }): number {
+    return record.chainId ? Number(record.chainId) : LEGACY_CHAIN_ID;
+}
+
+/**
+ * Like findChain, for server code that must talk to the chain: an unknown chain, or one
+ * without a node to talk to, fails.
+ * @throws If the chain is not in the registry or has no RPC URL.
+ */
+export function requireChain(chainId?: number | null): ChainConfig {
+    const chain = findChain(chainId);
+    if (!chain) {
+        throw new Error(`Chain ${chainId} is not supported.`);
+    }
+    if (!chain.rpcUrl) {
+        throw new Error("The server is not configured to communicate with the blockchain.");
+    }
+    return chain;
+}
+
+/**
+ * A read-only connection to a chain's node.
+ */
+export function chainProvider(chain: ChainConfig): JsonRpcProvider {
+    if (!chain.rpcUrl) {
+        throw new Error("The server is not configured to communicate with the blockchain.");
+    }
+    return new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+}
+
+/**
+ * The block explorer's page for a transaction, or null if the chain has no explorer.
+ */
+export function explorerTransactionUrl(chain: ChainConfig | null, transactionHash: string): string | null {
+    return chain?.explorerUrl ? `${chain.explorerUrl.replace(/\/$/, '')}/tx/${transactionHash}` : null;
+}
+
+/**
+ * The chains a listing is sold on, with its price on each. Listings from before
+ * multi-chain support have a single price, on the legacy chain.
+ */
+export function softwareOffers(software: ListedSoftware): ChainOffer[] {
+    if (Array.isArray(software.chains) && software.chains.length > 0) {
+        return software.chains;
+    }
+    return [{
+        chainId: LEGACY_CHAIN_ID,
+        price: Number(software.price) || 0,
+        ...(software.paymentToken ? { paymentToken: software.paymentToken } : {}),
+    }];
+}
+
+/**
+ * A listing's price on one chain, or null if it is not sold there.
+ */
+export function softwareOffer(software: ListedSoftware, chainId: number): ChainOffer | null {
+    return softwareOffers(software).find(offer => offer.chainId === chainId) || null;
+}
@@ -0,0 +1,89 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { getKms, WrappedKey } from './kms';
+import { KeyDelivery, sealKeyDelivery } from './encryption';
+
+/**
+ * Envelope encryption for content keys. A release document only holds its
+ * content key wrapped by the KMS (`contentKey`). When a license owner asks for
+ * the key, it is sealed for the key pair of the device asking, bound to the
+ * license and device (see sealKeyDelivery), so only that device can open it,
+ * and every delivery is logged in `keyDeliveries`.
+ *
+ * All licenses of a release decrypt the same file, so they share its content
+ * key. The sealing only protects the key on its way to the device: once opened,
+ * the key is the same for every license, and a leaked copy carries nothing that
+ * names the license it came from. What can be told is which licenses and devices
+ * were sent the key, from the `keyDeliveries` log, not which of them leaked it.
+ * A key rotation replaces the key for every license of the product at once;
+ * licenses that should lose access are simply not sent the new one.
+ */
+
+// Content keys wrapped before releases existed were bound to the software instead.
+export function softwareKeyContext(softwareId: ObjectId): string {
+    return `software:${softwareId.toHexString()}`;
+}
+
+export function releaseKeyContext(releaseId: ObjectId): string {
+    return `release:${releaseId.toHexString()}`;
+}
+
+/**
+ * Wraps a release's content key for storage on its document.
+ * @param releaseId The ID the release document is stored under.
+ * @param contentKeyHex The content key the artifact was encrypted with.
+ * @returns The wrapped key to store as `contentKey`.
+ */
+export async function wrapReleaseKey(releaseId: ObjectId, contentKeyHex: string): Promise<WrappedKey> {
+    return getKms().wrapKey(contentKeyHex, releaseKeyContext(releaseId));
+}
+
+/**
+ * Unwraps a release's content key together with the URL of the file it encrypts.
+ * Both are read from the same document version, so a key rotation running at the
+ * same time can never pair the new key with the old file or the other way round.
+ * @param releaseId The ID of the release.
+ * @returns The content key as a hex string and the current file URL.
+ * @throws If the release has no content key.
+ */
+export async function unwrapReleaseKey(releaseId: ObjectId): Promise<{ contentKey: string; fileUrl: string }> {
+    const client = await clientPromise;
+    const release = await client.db().collection('releases').findOne({ _id: releaseId }, { projection: { contentKey: 1, fileUrl: 1 } });
+    if (!release?.contentKey) {
+        throw new Error("Could not find the release's content key.");
+    }
+    return {
+        contentKey: await getKms().unwrapKey(release.contentKey, releaseKeyContext(releaseId)),
+        fileUrl: release.fileUrl,
+    };
+}
+
+/**
+ * Delivers a release's content key to one license on one device and records the delivery.
+ * The key itself is the release's shared key; only the sealed envelope and the log entry
+ * are specific to the license and device.
+ * @param license The license document the key is released for.
+ * @param releaseId The release the license holder is about to run.
+ * @param recipient The wallet and device the key is released to, and the device's delivery public key.
+ * @returns The content key sealed for the device, and the URL of the file it decrypts.
+ * @throws If the device public key is not valid.
+ */
+export async function createKeyDelivery(license: { _id: ObjectId; softwareId: ObjectId }, releaseId: ObjectId, recipient: { walletAddress: string; deviceId: string; publicKey: string }): Promise<{ keyDelivery: KeyDelivery; fileUrl: string }> {
+    const client = await clientPromise;
+    const db = client.db();
+
+    const { contentKey, fileUrl } = await unwrapReleaseKey(releaseId);
+    const keyDelivery = await sealKeyDelivery(contentKey, recipient.publicKey, license._id.toHexString(), recipient.deviceId);
+
+    await db.collection('keyDeliveries').insertOne({
+        licenseId: license._id,
+        softwareId: license.softwareId,
+        releaseId,
+        walletAddress: recipient.walletAddress,
+        deviceId: recipient.deviceId,
+        devicePublicKey: recipient.publicKey,
+        deliveredAt: new Date(),
+    });
+
+    return { keyDelivery, fileUrl };
+}
@@ -0,0 +1,232 @@
+import { Document, ObjectId, WithId } from 'mongodb';
+import nodemailer from 'nodemailer';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+import { DeviceResetPolicy } from './license-terms';
+import { boundDevices, isDeviceBound, releaseSeat } from './seats';
+
+/**
+ * Device resets let the owner of a device-locked license free the seat a device
+ * holds, so the license can move to a new machine. A listing's reset policy sets
+ * how many resets are self-service per period and how far apart they must be;
+ * a request beyond the allowance waits in the seller's approval queue instead.
+ * Every request is kept in the `deviceResets` collection as the license's audit
+ * trail, and the seller is emailed about each one.
+ */
+
+export type DeviceResetStatus = 'completed' | 'pending' | 'approved' | 'rejected';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getDeviceResetsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('deviceResets');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ licenseId: 1, requestedAt: -1 }),
+            collection.createIndex({ softwareId: 1, requestedAt: -1 }),
+            // A license can have at most one request waiting for the seller.
+            collection.createIndex({ licenseId: 1 }, { unique: true, partialFilterExpression: { pending: true } }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Reports how much of its reset allowance a license has left.
+ * @param license The license document.
+ * @param policy The reset policy of the license's software.
+ * @returns The resets left in the current period, when the cooldown ends and whether a request is pending.
+ */
+export async function getDeviceResetAllowance(license: Document, policy: DeviceResetPolicy): Promise<{ used: number; remaining: number; cooldownUntil: Date | null; pending: boolean }> {
+    const resets = await getDeviceResetsCollection();
+    const now = Date.now();
+
+    const [used, pending] = await Promise.all([
+        // Only self-service resets count; ones the seller approved were granted on top of the allowance.
+        resets.countDocuments({ licenseId: license._id, status: 'completed', requestedAt: { $gte: new Date(now - policy.periodDays * DAY_MS) } }),
+        resets.countDocuments({ licenseId: license._id, pending: true }),
+    ]);
+
+    const cooldownEnd = license.lastDeviceResetAt ? license.lastDeviceResetAt.getTime() + policy.cooldownHours * HOUR_MS : 0;
+    return {
+        used,
+        remaining: Math.max(policy.allowance - used, 0),
+        cooldownUntil: cooldownEnd > now ? new Date(cooldownEnd) : null,
+        pending: pending > 0,
+    };
+}
+
+/**
+ * Resets a device on a license, or queues the request for the seller once the allowance is used up.
+ * @param license The license document.
+ * @param software The software the license was issued for.
+ * @param policy The software's reset policy.
+ * @param deviceId The device to release.
+ * @param reason The buyer's explanation, shown to the seller.
+ * @returns Whether the device was released right away or the request is waiting for approval.
+ * @throws If the device is not bound, the license is on cooldown or a request is already pending.
+ */
+export async function requestDeviceReset(license: WithId<Document>, software: WithId<Document>, policy: DeviceResetPolicy, deviceId: string, reason?: string): Promise<{ status: DeviceResetStatus; message: string }> {
+    const device = boundDevices(license).find(bound => bound.deviceId === deviceId);
+    if (!device) {
+        throw new AuthError('DEVICE_NOT_BOUND', "That device is not bound to this license.", 400);
+    }
+
+    const allowance = await getDeviceResetAllowance(license, policy);
+    if (allowance.cooldownUntil) {
+        throw new AuthError('RESET_COOLDOWN', `Device resets for this license are on cooldown until ${allowance.cooldownUntil.toLocaleString()}.`, 429);
+    }
+
+    const resets = await getDeviceResetsCollection();
+    const record = {
+        licenseId: license._id,
+        softwareId: software._id,
+        sellerId: software.sellerId,
+        buyerAddress: license.buyerAddress,
+        deviceId,
+        deviceLabel: device.label,
+        reason: reason || undefined,
+        requestedAt: new Date(),
+    };
+
+    if (allowance.remaining === 0) {
+        try {
+            await resets.insertOne({ ...record, status: 'pending' as DeviceResetStatus, pending: true });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                throw new AuthError('RESET_PENDING', "A reset request for this license is already waiting for the seller's approval.", 409);
+            }
+            throw error;
+        }
+        notifySeller(software, license, 'pending').catch(error => console.error("Could not send the device reset notification:", error));
+        return {
+            status: 'pending',
+            message: `You have used all ${policy.allowance} device resets for this period. Your request was sent to the seller for approval.`,
+        };
+    }
+
+    // Claim the reset by moving the cooldown marker, so two requests at once cannot both pass the checks above.
+    const client = await clientPromise;
+    const licenses = client.db().collection('licenses');
+    const claimed = await licenses.updateOne(
+        { _id: license._id, lastDeviceResetAt: license.lastDeviceResetAt ?? { $exists: false } },
+        { $set: { lastDeviceResetAt: record.requestedAt } }
+    );
+    if (claimed.modifiedCount === 0) {
+        throw new AuthError('RESET_IN_PROGRESS', "Another device reset for this license is in progress. Please try again.", 409);
+    }
+
+    if (!await releaseSeat(license, deviceId)) {
+        await licenses.updateOne(
+            { _id: license._id, lastDeviceResetAt: record.requestedAt },
+            license.lastDeviceResetAt ? { $set: { lastDeviceResetAt: license.lastDeviceResetAt } } : { $unset: { lastDeviceResetAt: '' } }
+        );
+        throw new AuthError('DEVICE_NOT_BOUND', "That device is not bound to this license.", 400);
+    }
+
+    await resets.insertOne({ ...record, status: 'completed' as DeviceResetStatus, decidedAt: record.requestedAt });
+    notifySeller(software, license, 'completed').catch(error => console.error("Could not send the device reset notification:", error));
+
+    const left = allowance.remaining - 1;
+    return {
+        status: 'completed',
+        message: `The device was released. You have ${left} self-service ${left === 1 ? 'reset' : 'resets'} left this period.`,
+    };
+}
+
+export async function getDeviceResetRequest(requestId: ObjectId): Promise<WithId<Document> | null> {
+    const resets = await getDeviceResetsCollection();
+    return resets.findOne({ _id: requestId });
+}
+
+/**
+ * Approves or rejects a pending reset request. Approving releases the device right away.
+ * @param requestId The pending request.
+ * @param approve Whether the seller approves it.
+ * @param decidedBy The seller deciding.
+ * @returns The decided request.
+ * @throws If the request is not pending any more.
+ */
+export async function decideDeviceReset(requestId: ObjectId, approve: boolean, decidedBy: ObjectId): Promise<WithId<Document>> {
+    const resets = await getDeviceResetsCollection();
+    const decided = await resets.findOneAndUpdate(
+        { _id: requestId, pending: true },
+        {
+            $set: { status: (approve ? 'approved' : 'rejected') as DeviceResetStatus, decidedAt: new Date(), decidedBy },
+            $unset: { pending: '' },
+        },
+        { returnDocument: 'after' }
+    );
+    if (!decided) {
+        throw new AuthError('RESET_DECIDED', "This reset request has already been decided.", 409);
+    }
+
+    if (approve) {
+        const client = await clientPromise;
+        const licenses = client.db().collection('licenses');
+        const license = await licenses.findOne({ _id: decided.licenseId });
+        // The buyer may have released the device some other way in the meantime; the approval still stands.
+        if (license && isDeviceBound(license, decided.deviceId)) {
+            await releaseSeat(license, decided.deviceId);
+        }
+        await licenses.updateOne({ _id: decided.licenseId }, { $set: { lastDeviceResetAt: decided.decidedAt } });
+    }
+    return decided;
+}
+
+/**
+ * Lists reset requests, newest first: one license's audit trail, or every request for a product.
+ */
+export async function listDeviceResets(filter: { licenseId: ObjectId } | { softwareId: ObjectId }) {
+    const resets = await getDeviceResetsCollection();
+    return resets.find(filter, { projection: { pending: 0 } }).sort({ requestedAt: -1 }).limit(100).toArray();
+}
+
+async function notifySeller(software: WithId<Document>, license: Document, status: 'completed' | 'pending'): Promise<void> {
+    if (!process.env.EMAIL_SERVER_USER || !process.env.EMAIL_SERVER_PASSWORD) {
+        return;
+    }
+    const client = await clientPromise;
+    const seller = await client.db().collection('users').findOne({ _id: software.sellerId }, { projection: { email: 1, username: 1 } });
+    if (!seller?.email) {
+        return;
+    }
+
+    const transporter = nodemailer.createTransport({
+        host: process.env.EMAIL_SERVER_HOST || 'smtp.gmail.com',
+        port: parseInt(process.env.EMAIL_SERVER_PORT || "465"),
+        secure: true,
+        auth: {
+            user: process.env.EMAIL_SERVER_USER,
+            pass: process.env.EMAIL_SERVER_PASSWORD,
+        },
+    });
+
+    await transporter.sendMail({
+        from: `"Software Shop" <${process.env.EMAIL_FROM || process.env.EMAIL_SERVER_USER}>`,
+        to: seller.email,
+        subject: status === 'pending'
+            ? `Device reset awaiting your approval for "${software.title}"`
+            : `A license for "${software.title}" was moved to a new device`,
+        html: `
+            <div style="font-family: sans-serif; padding: 20px;">
+                <h2>${status === 'pending' ? 'Device Reset Approval Needed' : 'Device Reset Notification'}</h2>
+                <p>Hello ${seller.username},</p>
+                <p>${status === 'pending'
+                    ? `The holder of a license for <strong>${software.title}</strong> has used up their self-service device resets and asked for another one.`
+                    : `The holder of a license for <strong>${software.title}</strong> released one of their devices to use the license on another one.`}</p>
+                <ul>
+                    <li><strong>License Token ID:</strong> ${license.tokenId}</li>
+                    <li><strong>Buyer's Wallet:</strong> ${license.buyerAddress}</li>
+                </ul>
+                ${status === 'pending' ? '<p>You can approve or reject the request from the software\'s page in your seller dashboard.</p>' : ''}
+                <p>Thank you,<br/>The Software Shop Team</p>
+            </div>
+        `,
+    });
+}
@@ -0,0 +1,55 @@
+import { generateDeliveryKeyPair } from './encryption';
+
+/**
+ * Returns this browser's persistent device ID, creating it on first use.
+ * Device-locked and trial licenses are bound to it.
+ */
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem('deviceId');
+    if (!deviceId) {
+        deviceId = crypto.randomUUID();
+        localStorage.setItem('deviceId', deviceId);
+    }
+    return deviceId;
+}
+
+const KEY_STORE_DATABASE = 'software-shop';
+const KEY_STORE = 'keys';
+const DELIVERY_KEY_PAIR = 'deliveryKeyPair';
+
+function openKeyStore(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(KEY_STORE_DATABASE, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function keyStoreRequest<T>(database: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const request = run(database.transaction(KEY_STORE, mode).objectStore(KEY_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Returns this browser's key pair for receiving content keys, creating it on first use.
+ * The private key is not extractable and is kept in IndexedDB, so it never leaves the device.
+ * @returns The key pair, and its public key as sent with key requests.
+ */
+export async function getDeliveryKeyPair(): Promise<{ keyPair: CryptoKeyPair; publicKey: string }> {
+    const database = await openKeyStore();
+    try {
+        const stored = await keyStoreRequest<{ keyPair: CryptoKeyPair; publicKey: string } | undefined>(database, 'readonly', store => store.get(DELIVERY_KEY_PAIR));
+        if (stored) {
+            return stored;
+        }
+        const created = await generateDeliveryKeyPair();
+        await keyStoreRequest(database, 'readwrite', store => store.put(created, DELIVERY_KEY_PAIR));
+        return created;
+    } finally {
+        database.close();
+    }
+}
@@ -0,0 +1,161 @@
+import CryptoJS from 'crypto-js';
+import { describe, expect, it } from 'vitest';
+import {
+    ALGORITHM_AES_256_GCM,
+    bytesToBase64,
+    CONTAINER_VERSION,
+    createEncryptionStream,
+    decryptSoftware,
+    decryptSoftwareStream,
+    encryptedLength,
+    generateDeliveryKeyPair,
+    openKeyDelivery,
+    sealKeyDelivery,
+} from './encryption';
+
+const KEY = '00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff';
+const OTHER_KEY = 'ffeeddccbbaa99887766554433221100ffeeddccbbaa99887766554433221100';
+// Small segments, so a few hundred bytes span several of them.
+const SEGMENT_SIZE = 64;
+// Magic, version, algorithm, prefix length, segment size and the 7-byte nonce prefix.
+const CHUNKED_HEADER_LENGTH = 4 + 3 + 4 + 7;
+
+function randomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i += 65536) {
+        crypto.getRandomValues(bytes.subarray(i, Math.min(i + 65536, length)));
+    }
+    return bytes;
+}
+
+function streamOf(bytes: Uint8Array, chunkSize = 50): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (offset >= bytes.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(bytes.slice(offset, offset + chunkSize));
+            offset += chunkSize;
+        },
+    });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encrypt(plaintext: Uint8Array, key = KEY): Promise<Uint8Array> {
+    return readAll(streamOf(plaintext).pipeThrough(createEncryptionStream(key, SEGMENT_SIZE)));
+}
+
+describe('chunked containers', () => {
+    it.each([0, 1, SEGMENT_SIZE, SEGMENT_SIZE + 1, 5 * SEGMENT_SIZE, 1000])('round-trips %i bytes', async length => {
+        const plaintext = randomBytes(length);
+        const container = await encrypt(plaintext);
+
+        expect(container.length).toBe(encryptedLength(length, SEGMENT_SIZE));
+        expect(await decryptSoftware(container, KEY)).toEqual(plaintext);
+        expect(await readAll(await decryptSoftwareStream(streamOf(container, 37), KEY))).toEqual(plaintext);
+    });
+
+    it('refuses a container cut off at a segment boundary', async () => {
+        const container = await encrypt(randomBytes(3 * SEGMENT_SIZE + 10));
+        const sealedSegment = SEGMENT_SIZE + 16;
+        const truncated = container.slice(0, CHUNKED_HEADER_LENGTH + 2 * sealedSegment);
+
+        await expect(decryptSoftware(truncated, KEY)).rejects.toThrow();
+    });
+
+    it('refuses a container cut off inside a segment', async () => {
+        const container = await encrypt(randomBytes(3 * SEGMENT_SIZE));
+
+        await expect(decryptSoftware(container.slice(0, container.length - 5), KEY)).rejects.toThrow();
+    });
+
+    it('refuses swapped segments, a changed byte and the wrong key', async () => {
+        const container = await encrypt(randomBytes(3 * SEGMENT_SIZE + 10));
+        const sealedSegment = SEGMENT_SIZE + 16;
+
+        const swapped = container.slice();
+        swapped.set(container.subarray(CHUNKED_HEADER_LENGTH + sealedSegment, CHUNKED_HEADER_LENGTH + 2 * sealedSegment), CHUNKED_HEADER_LENGTH);
+        swapped.set(container.subarray(CHUNKED_HEADER_LENGTH, CHUNKED_HEADER_LENGTH + sealedSegment), CHUNKED_HEADER_LENGTH + sealedSegment);
+        await expect(decryptSoftware(swapped, KEY)).rejects.toThrow();
+
+        const tampered = container.slice();
+        tampered[CHUNKED_HEADER_LENGTH + 3] ^= 0x01;
+        await expect(decryptSoftware(tampered, KEY)).rejects.toThrow();
+
+        await expect(decryptSoftware(container, OTHER_KEY)).rejects.toThrow();
+    });
+});
+
+describe('earlier formats', () => {
+    async function singleShotContainer(plaintext: Uint8Array): Promise<Uint8Array> {
+        const iv = randomBytes(12);
+        const header = new Uint8Array([0x53, 0x53, 0x45, 0x43, CONTAINER_VERSION, ALGORITHM_AES_256_GCM, iv.length, ...iv]);
+        const keyBytes = new Uint8Array(KEY.match(/../g)!.map(byte => parseInt(byte, 16)));
+        const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt']);
+        const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, plaintext));
+        const container = new Uint8Array(header.length + ciphertext.length);
+        container.set(header);
+        container.set(ciphertext, header.length);
+        return container;
+    }
+
+    it('decrypts version 1 containers, raw or as Base64 text', async () => {
+        const plaintext = randomBytes(300);
+        const container = await singleShotContainer(plaintext);
+
+        expect(await decryptSoftware(container, KEY)).toEqual(plaintext);
+        expect(await decryptSoftware(new TextEncoder().encode(bytesToBase64(container)), KEY)).toEqual(plaintext);
+    });
+
+    it('refuses a truncated version 1 container', async () => {
+        const container = await singleShotContainer(randomBytes(300));
+
+        await expect(decryptSoftware(container.slice(0, container.length - 1), KEY)).rejects.toThrow('integrity check');
+    });
+
+    it('decrypts legacy CBC uploads', async () => {
+        const plaintext = new TextEncoder().encode('legacy upload');
+        const encrypted = CryptoJS.AES.encrypt(CryptoJS.lib.WordArray.create(plaintext as any), CryptoJS.enc.Hex.parse(KEY), {
+            iv: CryptoJS.enc.Hex.parse('00000000000000000000000000000000'),
+            mode: CryptoJS.mode.CBC,
+            padding: CryptoJS.pad.Pkcs7,
+        }).toString();
+
+        expect(await decryptSoftware(new TextEncoder().encode(encrypted), KEY)).toEqual(plaintext);
+    });
+});
+
+describe('key deliveries', () => {
+    it('opens on the device it was sealed for', async () => {
+        const { keyPair, publicKey } = await generateDeliveryKeyPair();
+        const delivery = await sealKeyDelivery(KEY, publicKey, 'license-1', 'device-1');
+
+        expect(delivery.wrappedKey).not.toContain(KEY);
+        expect(await openKeyDelivery(delivery, keyPair.privateKey)).toBe(KEY);
+    });
+
+    it('does not open with another device key pair', async () => {
+        const { publicKey } = await generateDeliveryKeyPair();
+        const other = await generateDeliveryKeyPair();
+        const delivery = await sealKeyDelivery(KEY, publicKey, 'license-1', 'device-1');
+
+        await expect(openKeyDelivery(delivery, other.keyPair.privateKey)).rejects.toThrow('could not be opened');
+    });
+
+    it('does not open when moved to another license or device', async () => {
+        const { keyPair, publicKey } = await generateDeliveryKeyPair();
+        const delivery = await sealKeyDelivery(KEY, publicKey, 'license-1', 'device-1');
+
+        await expect(openKeyDelivery({ ...delivery, licenseId: 'license-2' }, keyPair.privateKey)).rejects.toThrow('could not be opened');
+        await expect(openKeyDelivery({ ...delivery, deviceId: 'device-2' }, keyPair.privateKey)).rejects.toThrow('could not be opened');
+    });
+
+    it('refuses a public key that is not a P-256 key', async () => {
+        await expect(sealKeyDelivery(KEY, bytesToBase64(new Uint8Array(65)), 'license-1', 'device-1')).rejects.toThrow('not a valid P-256 key');
+    });
+});
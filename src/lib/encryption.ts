@@ -0,0 +1,529 @@
+import CryptoJS from 'crypto-js';
+
+/**
+ * Encrypted container format for uploaded software. Used by the upload route to
+ * encrypt files and by the /run page to decrypt them, so it only relies on
+ * WebCrypto and web streams, which are available in both Node and the browser.
+ *
+ * Layout (version 2, chunked, written by all new uploads):
+ *   magic        4 bytes   "SSEC"
+ *   version      1 byte    container format version
+ *   algorithm    1 byte    1 = AES-256-GCM
+ *   prefixLength 1 byte    length of the nonce prefix that follows the segment size
+ *   segmentSize  4 bytes   plaintext bytes per segment, big-endian
+ *   noncePrefix  prefixLength random per-file bytes
+ *   segments     ...       each segment's AES-GCM output, including its 16-byte tag
+ *
+ * Every segment is sealed on its own, with the nonce noncePrefix || index || final,
+ * so files can be encrypted and decrypted with bounded memory. The index stops
+ * segments from being reordered and the final flag stops the file from being
+ * truncated at a segment boundary. The header is passed as additional
+ * authenticated data for every segment.
+ *
+ * Layout (version 1, single-shot):
+ *   magic      4 bytes   "SSEC"
+ *   version    1 byte    container format version
+ *   algorithm  1 byte    1 = AES-256-GCM
+ *   ivLength   1 byte    length of the IV that follows
+ *   iv         ivLength  random per-file nonce
+ *   ciphertext ...       AES-GCM output, including the 16-byte authentication tag
+ *
+ * Containers are stored as raw bytes. Earlier uploads may instead hold a version 1
+ * container as Base64 text, or be plain CryptoJS AES-CBC output with an all-zero
+ * IV stored as Base64; the latter carry no header and go through the legacy path.
+ */
+
+const CONTAINER_MAGIC = [0x53, 0x53, 0x45, 0x43]; // "SSEC"
+export const CONTAINER_VERSION = 1;
+export const CHUNKED_CONTAINER_VERSION = 2;
+export const ALGORITHM_AES_256_GCM = 1;
+const HEADER_FIXED_LENGTH = CONTAINER_MAGIC.length + 3;
+const CHUNKED_HEADER_FIXED_LENGTH = HEADER_FIXED_LENGTH + 4;
+const NONCE_PREFIX_LENGTH = 7;
+const GCM_TAG_LENGTH = 16;
+// Segments past this index would wrap the 4-byte counter in the nonce.
+const MAX_SEGMENTS = 0xffffffff;
+
+// 1 MiB keeps per-segment overhead negligible while bounding memory on both ends.
+export const DEFAULT_SEGMENT_SIZE = 1024 * 1024;
+
+function hexToBytes(hex: string): Uint8Array {
+    if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) {
+        throw new Error('The decryption key is not a valid hex string.');
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Build the string in chunks to stay clear of argument-count limits on large files.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64.trim());
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+async function importAesKey(keyHex: string): Promise<CryptoKey> {
+    const keyBytes = hexToBytes(keyHex);
+    if (keyBytes.length !== 32) {
+        throw new Error('The decryption key must be 256 bits long.');
+    }
+    return crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Checks whether the bytes start with the encrypted container header.
+ * @param bytes The stored file content.
+ * @returns True for versioned containers, false for legacy CBC payloads.
+ */
+export function isEncryptedContainer(bytes: Uint8Array): boolean {
+    return bytes.length >= HEADER_FIXED_LENGTH && CONTAINER_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * A FIFO of byte chunks that can hand out exact-length slices without
+ * re-copying everything that has been buffered so far.
+ */
+class ByteQueue {
+    private chunks: Uint8Array[] = [];
+    length = 0;
+
+    push(chunk: Uint8Array) {
+        if (chunk.length > 0) {
+            this.chunks.push(chunk);
+            this.length += chunk.length;
+        }
+    }
+
+    peek(count: number): Uint8Array {
+        return this.read(count, false);
+    }
+
+    take(count: number): Uint8Array {
+        return this.read(count, true);
+    }
+
+    private read(count: number, consume: boolean): Uint8Array {
+        const out = new Uint8Array(count);
+        let offset = 0;
+        let index = 0;
+        while (offset < count) {
+            const chunk = this.chunks[index];
+            const needed = count - offset;
+            if (chunk.length <= needed) {
+                out.set(chunk, offset);
+                offset += chunk.length;
+                if (consume) this.chunks.shift(); else index++;
+            } else {
+                out.set(chunk.subarray(0, needed), offset);
+                if (consume) this.chunks[0] = chunk.subarray(needed);
+                offset += needed;
+            }
+        }
+        if (consume) this.length -= count;
+        return out;
+    }
+}
+
+function segmentNonce(noncePrefix: Uint8Array, index: number, final: boolean): Uint8Array {
+    if (index > MAX_SEGMENTS) {
+        throw new Error('The file is too large to be encrypted as a single container.');
+    }
+    const nonce = new Uint8Array(noncePrefix.length + 5);
+    nonce.set(noncePrefix, 0);
+    new DataView(nonce.buffer).setUint32(noncePrefix.length, index);
+    nonce[nonce.length - 1] = final ? 1 : 0;
+    return nonce;
+}
+
+/**
+ * Creates a transform that encrypts a byte stream into a version 2 container.
+ * Only one segment is held in memory at a time. The last segment is kept back
+ * until the input ends so it can be sealed with the final flag.
+ * @param keyHex The 256-bit content key as a hex string.
+ * @param segmentSize The number of plaintext bytes per segment.
+ * @returns A TransformStream from plaintext bytes to container bytes.
+ */
+export function createEncryptionStream(keyHex: string, segmentSize = DEFAULT_SEGMENT_SIZE): TransformStream<Uint8Array, Uint8Array> {
+    const pending = new ByteQueue();
+    let key: CryptoKey;
+    let header: Uint8Array;
+    let noncePrefix: Uint8Array;
+    let index = 0;
+
+    const seal = async (plaintext: Uint8Array, final: boolean) => {
+        const iv = segmentNonce(noncePrefix, index++, final);
+        return new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, plaintext));
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        async start(controller) {
+            key = await importAesKey(keyHex);
+            noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+
+            header = new Uint8Array(CHUNKED_HEADER_FIXED_LENGTH + noncePrefix.length);
+            header.set(CONTAINER_MAGIC, 0);
+            header[CONTAINER_MAGIC.length] = CHUNKED_CONTAINER_VERSION;
+            header[CONTAINER_MAGIC.length + 1] = ALGORITHM_AES_256_GCM;
+            header[CONTAINER_MAGIC.length + 2] = noncePrefix.length;
+            new DataView(header.buffer).setUint32(HEADER_FIXED_LENGTH, segmentSize);
+            header.set(noncePrefix, CHUNKED_HEADER_FIXED_LENGTH);
+
+            controller.enqueue(header);
+        },
+        async transform(chunk, controller) {
+            pending.push(chunk);
+            while (pending.length > segmentSize) {
+                controller.enqueue(await seal(pending.take(segmentSize), false));
+            }
+        },
+        async flush(controller) {
+            controller.enqueue(await seal(pending.take(pending.length), true));
+        },
+    });
+}
+
+/**
+ * Computes the size of the version 2 container produced for a plaintext of the given size,
+ * so storage backends that need a Content-Length up front can still receive a stream.
+ * @param plaintextLength The number of plaintext bytes.
+ * @param segmentSize The number of plaintext bytes per segment.
+ * @returns The container size in bytes.
+ */
+export function encryptedLength(plaintextLength: number, segmentSize = DEFAULT_SEGMENT_SIZE): number {
+    // Even an empty file has one (final) segment, and a file that fills its last segment exactly has no extra one.
+    const segments = Math.max(1, Math.ceil(plaintextLength / segmentSize));
+    return CHUNKED_HEADER_FIXED_LENGTH + NONCE_PREFIX_LENGTH + plaintextLength + segments * GCM_TAG_LENGTH;
+}
+
+/**
+ * Creates a transform that decrypts a version 2 container back into the original bytes,
+ * verifying each segment's tag before it is released downstream.
+ * @param keyHex The 256-bit content key as a hex string.
+ * @returns A TransformStream from container bytes to plaintext bytes.
+ * @throws (through the stream) If the header is unsupported or any segment fails its integrity check.
+ */
+export function createDecryptionStream(keyHex: string): TransformStream<Uint8Array, Uint8Array> {
+    const pending = new ByteQueue();
+    let keyPromise: Promise<CryptoKey>;
+    let header: Uint8Array | null = null;
+    let noncePrefix: Uint8Array;
+    let encryptedSegmentSize = 0;
+    let index = 0;
+
+    const readHeader = () => {
+        if (pending.length < CHUNKED_HEADER_FIXED_LENGTH) return false;
+        const fixed = pending.peek(CHUNKED_HEADER_FIXED_LENGTH);
+        if (!isEncryptedContainer(fixed)) {
+            throw new Error('The file is not an encrypted software container.');
+        }
+        const version = fixed[CONTAINER_MAGIC.length];
+        const algorithm = fixed[CONTAINER_MAGIC.length + 1];
+        if (version !== CHUNKED_CONTAINER_VERSION) {
+            throw new Error(`Unsupported container version: ${version}.`);
+        }
+        if (algorithm !== ALGORITHM_AES_256_GCM) {
+            throw new Error(`Unsupported encryption algorithm: ${algorithm}.`);
+        }
+
+        const prefixLength = fixed[CONTAINER_MAGIC.length + 2];
+        if (pending.length < CHUNKED_HEADER_FIXED_LENGTH + prefixLength) return false;
+
+        header = pending.take(CHUNKED_HEADER_FIXED_LENGTH + prefixLength);
+        noncePrefix = header.subarray(CHUNKED_HEADER_FIXED_LENGTH);
+        encryptedSegmentSize = new DataView(header.buffer).getUint32(HEADER_FIXED_LENGTH) + GCM_TAG_LENGTH;
+        return true;
+    };
+
+    const open = async (segment: Uint8Array, final: boolean) => {
+        const iv = segmentNonce(noncePrefix, index++, final);
+        try {
+            const key = await keyPromise;
+            return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: header! }, key, segment));
+        } catch (error) {
+            throw new Error('The file failed its integrity check. It may have been tampered with or the key is incorrect.');
+        }
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        start() {
+            keyPromise = importAesKey(keyHex);
+        },
+        async transform(chunk, controller) {
+            pending.push(chunk);
+            if (!header && !readHeader()) return;
+            while (pending.length > encryptedSegmentSize) {
+                controller.enqueue(await open(pending.take(encryptedSegmentSize), false));
+            }
+        },
+        async flush(controller) {
+            if (!header && !readHeader()) {
+                throw new Error('The file is truncated: its container header is incomplete.');
+            }
+            if (pending.length < GCM_TAG_LENGTH) {
+                throw new Error('The file is truncated: its final segment is missing.');
+            }
+            controller.enqueue(await open(pending.take(pending.length), true));
+        },
+    });
+}
+
+function streamOf(bytes: Uint8Array): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(bytes);
+            controller.close();
+        },
+    });
+}
+
+/**
+ * Decrypts a version 1 container, verifying its authentication tag.
+ * @param container The single-shot container bytes.
+ * @param keyHex The 256-bit content key as a hex string.
+ * @returns The original file bytes.
+ * @throws If the header is unsupported or the content has been tampered with.
+ */
+export async function decryptPayload(container: Uint8Array, keyHex: string): Promise<Uint8Array> {
+    if (!isEncryptedContainer(container)) {
+        throw new Error('The file is not an encrypted software container.');
+    }
+
+    const version = container[CONTAINER_MAGIC.length];
+    const algorithm = container[CONTAINER_MAGIC.length + 1];
+    const ivLength = container[CONTAINER_MAGIC.length + 2];
+    if (version !== CONTAINER_VERSION) {
+        throw new Error(`Unsupported container version: ${version}.`);
+    }
+    if (algorithm !== ALGORITHM_AES_256_GCM) {
+        throw new Error(`Unsupported encryption algorithm: ${algorithm}.`);
+    }
+
+    const headerLength = HEADER_FIXED_LENGTH + ivLength;
+    const header = container.subarray(0, headerLength);
+    const iv = container.subarray(HEADER_FIXED_LENGTH, headerLength);
+    const ciphertext = container.subarray(headerLength);
+
+    const key = await importAesKey(keyHex);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: header }, key, ciphertext);
+        return new Uint8Array(plaintext);
+    } catch (error) {
+        throw new Error('The file failed its integrity check. It may have been tampered with or the key is incorrect.');
+    }
+}
+
+/**
+ * Decrypts a legacy upload: CryptoJS AES-CBC with PKCS#7 padding and an all-zero IV, stored as Base64.
+ * CBC has no authentication tag, so a wrong key can only be detected through invalid padding.
+ * @param encryptedBase64 The stored Base64 ciphertext.
+ * @param keyHex The content key as a hex string.
+ * @returns The original file bytes.
+ */
+export function decryptLegacyPayload(encryptedBase64: string, keyHex: string): Uint8Array {
+    const decrypted = CryptoJS.AES.decrypt(encryptedBase64, CryptoJS.enc.Hex.parse(keyHex), {
+        iv: CryptoJS.enc.Hex.parse('00000000000000000000000000000000'),
+        mode: CryptoJS.mode.CBC,
+        padding: CryptoJS.pad.Pkcs7,
+    });
+
+    if (decrypted.sigBytes <= 0) {
+        throw new Error('Decryption produced no data. The key may be incorrect or the ciphertext corrupted.');
+    }
+
+    const bytes = new Uint8Array(decrypted.sigBytes);
+    for (let i = 0; i < decrypted.sigBytes; i++) {
+        bytes[i] = (decrypted.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+    }
+    return bytes;
+}
+
+/**
+ * Decrypts stored software content, choosing the container or legacy path from its header.
+ * @param stored The stored file content exactly as downloaded from storage.
+ * @param keyHex The content key as a hex string.
+ * @returns The original file bytes.
+ */
+export async function decryptSoftware(stored: Uint8Array, keyHex: string): Promise<Uint8Array> {
+    if (isEncryptedContainer(stored)) {
+        if (stored[CONTAINER_MAGIC.length] === CHUNKED_CONTAINER_VERSION) {
+            const plaintext = streamOf(stored).pipeThrough(createDecryptionStream(keyHex));
+            return new Uint8Array(await new Response(plaintext).arrayBuffer());
+        }
+        return decryptPayload(stored, keyHex);
+    }
+
+    // Anything else was stored as Base64 text: either a container or a legacy CBC payload.
+    const encryptedBase64 = new TextDecoder().decode(stored);
+    const bytes = base64ToBytes(encryptedBase64);
+    if (isEncryptedContainer(bytes)) {
+        return decryptPayload(bytes, keyHex);
+    }
+    return decryptLegacyPayload(encryptedBase64, keyHex);
+}
+
+/**
+ * Decrypts stored software content as it is downloaded. Chunked containers are
+ * decrypted segment by segment; older single-shot formats cannot be, so they are
+ * buffered and decrypted in one go.
+ * @param source The stored file content as a byte stream, e.g. a fetch response body.
+ * @param keyHex The content key as a hex string.
+ * @returns A stream of the original file bytes.
+ */
+export async function decryptSoftwareStream(source: ReadableStream<Uint8Array>, keyHex: string): Promise<ReadableStream<Uint8Array>> {
+    const reader = source.getReader();
+    const head = new ByteQueue();
+    let done = false;
+    while (head.length < HEADER_FIXED_LENGTH && !done) {
+        const result = await reader.read();
+        if (result.done) done = true; else head.push(result.value);
+    }
+
+    // Put the bytes read for sniffing back in front of the rest of the download.
+    const peeked = head.take(head.length);
+    const stored = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(peeked);
+            if (done) controller.close();
+        },
+        async pull(controller) {
+            const result = await reader.read();
+            if (result.done) controller.close(); else controller.enqueue(result.value);
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+
+    if (isEncryptedContainer(peeked) && peeked[CONTAINER_MAGIC.length] === CHUNKED_CONTAINER_VERSION) {
+        return stored.pipeThrough(createDecryptionStream(keyHex));
+    }
+
+    const plaintext = await decryptSoftware(new Uint8Array(await new Response(stored).arrayBuffer()), keyHex);
+    return streamOf(plaintext);
+}
+
+/**
+ * A content key as delivered to one license on one device. The server wraps it
+ * for a key pair the device holds (ECDH P-256): an ephemeral server key and the
+ * device's public key agree on a secret, from which HKDF derives the wrapping
+ * key, with the license and device bound into both the derivation and the
+ * AES-GCM tag. Only the device's private key, which never leaves the device,
+ * can open the delivery, and a delivery moved to another license or device
+ * fails to open.
+ */
+export interface KeyDelivery {
+    licenseId: string;
+    deviceId: string;
+    // The server's ephemeral ECDH public key, raw and Base64-encoded.
+    ephemeralPublicKey: string;
+    // The IV followed by the wrapped content key, as Base64.
+    wrappedKey: string;
+}
+
+const DELIVERY_KEY_ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' };
+
+function keyDeliveryContext(licenseId: string, deviceId: string): Uint8Array {
+    return new TextEncoder().encode(`license:${licenseId}:device:${deviceId}`);
+}
+
+// Derives the AES key that wraps a delivery from the ECDH agreement between the two key pairs.
+async function deriveDeliveryKey(privateKey: CryptoKey, publicKey: CryptoKey, context: Uint8Array): Promise<CryptoKey> {
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: context },
+        hkdfKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Generates the key pair a device receives content keys with. The private key cannot be exported.
+ * @returns The key pair, and its public key raw and Base64-encoded, to send with key requests.
+ */
+export async function generateDeliveryKeyPair(): Promise<{ keyPair: CryptoKeyPair; publicKey: string }> {
+    const keyPair = await crypto.subtle.generateKey(DELIVERY_KEY_ALGORITHM, false, ['deriveBits']);
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+    return { keyPair, publicKey: bytesToBase64(publicKey) };
+}
+
+async function importDeliveryPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+    try {
+        return await crypto.subtle.importKey('raw', base64ToBytes(publicKeyBase64), DELIVERY_KEY_ALGORITHM, false, []);
+    } catch (error) {
+        throw new Error('The device public key is not a valid P-256 key.');
+    }
+}
+
+/**
+ * Wraps a content key for delivery to one license on one device.
+ * @param contentKeyHex The release's content key as a hex string.
+ * @param devicePublicKey The device's delivery public key, raw and Base64-encoded.
+ * @param licenseId The license the delivery is for.
+ * @param deviceId The device the delivery is for.
+ * @returns The key delivery; it holds no key material that opens it without the device's private key.
+ * @throws If the public key is not a valid P-256 key.
+ */
+export async function sealKeyDelivery(contentKeyHex: string, devicePublicKey: string, licenseId: string, deviceId: string): Promise<KeyDelivery> {
+    const publicKey = await importDeliveryPublicKey(devicePublicKey);
+    const ephemeral = await crypto.subtle.generateKey(DELIVERY_KEY_ALGORITHM, false, ['deriveBits']);
+    const context = keyDeliveryContext(licenseId, deviceId);
+    const key = await deriveDeliveryKey(ephemeral.privateKey, publicKey, context);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = new Uint8Array(
+        await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: context }, key, hexToBytes(contentKeyHex))
+    );
+
+    const sealed = new Uint8Array(iv.length + wrapped.length);
+    sealed.set(iv, 0);
+    sealed.set(wrapped, iv.length);
+    return {
+        licenseId,
+        deviceId,
+        ephemeralPublicKey: bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey))),
+        wrappedKey: bytesToBase64(sealed),
+    };
+}
+
+/**
+ * Recovers the content key from a key delivery on the device it was sealed for.
+ * @param delivery The delivery returned by the server for one license and device.
+ * @param devicePrivateKey The device's delivery private key.
+ * @returns The content key as a hex string.
+ * @throws If the delivery was altered or belongs to a different license, device or key pair.
+ */
+export async function openKeyDelivery(delivery: KeyDelivery, devicePrivateKey: CryptoKey): Promise<string> {
+    const sealed = base64ToBytes(delivery.wrappedKey);
+    try {
+        const context = keyDeliveryContext(delivery.licenseId, delivery.deviceId);
+        const key = await deriveDeliveryKey(devicePrivateKey, await importDeliveryPublicKey(delivery.ephemeralPublicKey), context);
+        const contentKey = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: sealed.subarray(0, 12), additionalData: context },
+            key,
+            sealed.subarray(12)
+        );
+        return bytesToHex(new Uint8Array(contentKey));
+    } catch (error) {
+        throw new Error('The key delivery could not be opened. It may have been altered or issued for another license or device.');
+    }
+}
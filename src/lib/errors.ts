@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Thrown when the caller is not signed in, is not allowed to perform an action, or asked for
+ * something that cannot be done (e.g. a transaction that does not pay for the license).
+ * Carries a machine-readable code and the HTTP status API routes should answer with; its
+ * message is meant for the caller, unlike those of other errors.
+ */
+export class AuthError extends Error {
+    code: string;
+    status: number;
+
+    constructor(code: string, message: string, status: number = 401) {
+        super(message);
+        this.name = 'AuthError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+/**
+ * Converts an AuthError into the JSON response shape used by the API routes.
+ * @param error The authorization error to convert.
+ * @returns A NextResponse carrying the error code, message and HTTP status.
+ */
+export function authErrorResponse(error: AuthError) {
+    return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+    );
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+let requestHeaders = new Headers();
+vi.mock('next/headers', () => ({ headers: () => requestHeaders }));
+
+const { getRequestIp, isIpInCidr, normalizeCidr, normalizeIp } = await import('./ip');
+
+describe('normalizeIp', () => {
+    it('writes addresses in canonical form', () => {
+        expect(normalizeIp(' 203.0.113.7 ')).toBe('203.0.113.7');
+        expect(normalizeIp('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+        expect(normalizeIp('2001:db8:0:0:1:0:0:1')).toBe('2001:db8::1:0:0:1');
+        expect(normalizeIp('::')).toBe('::');
+        expect(normalizeIp('::1')).toBe('::1');
+    });
+
+    it('reads IPv4-mapped IPv6 addresses as IPv4', () => {
+        expect(normalizeIp('::ffff:203.0.113.7')).toBe('203.0.113.7');
+        expect(normalizeIp('::ffff:cb00:7107')).toBe('203.0.113.7');
+    });
+
+    it('refuses anything that is not an address', () => {
+        for (const address of ['', 'localhost', '256.1.1.1', '1.2.3', '1.2.3.4.5', '01234.1.1.1', '2001:db8::1::2', '1:2:3:4:5:6:7', '2001:db8::g', '::ffff:1.2.3.256']) {
+            expect(normalizeIp(address)).toBeNull();
+        }
+    });
+});
+
+describe('normalizeCidr', () => {
+    it('clears host bits and treats a bare address as a single host', () => {
+        expect(normalizeCidr('10.0.0.7/8')).toBe('10.0.0.0/8');
+        expect(normalizeCidr('2001:db8::1/32')).toBe('2001:db8::/32');
+        expect(normalizeCidr('203.0.113.7')).toBe('203.0.113.7/32');
+        expect(normalizeCidr('0.0.0.0/0')).toBe('0.0.0.0/0');
+    });
+
+    it('refuses invalid prefixes and addresses', () => {
+        for (const range of ['10.0.0.0/33', '2001:db8::/129', '10.0.0.0/-1', '10.0.0.0/8.5', '10.0.0.0/', '10.0.0.0/8/8', 'example.com/24']) {
+            expect(normalizeCidr(range)).toBeNull();
+        }
+    });
+});
+
+describe('isIpInCidr', () => {
+    it('matches addresses inside the range only', () => {
+        expect(isIpInCidr('203.0.113.200', '203.0.113.0/24')).toBe(true);
+        expect(isIpInCidr('203.0.114.1', '203.0.113.0/24')).toBe(false);
+        expect(isIpInCidr('2001:db8:ffff::1', '2001:db8::/32')).toBe(true);
+        expect(isIpInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+        expect(isIpInCidr('198.51.100.1', '0.0.0.0/0')).toBe(true);
+        expect(isIpInCidr('203.0.113.7', '203.0.113.7/32')).toBe(true);
+    });
+
+    it('matches mapped addresses against IPv4 ranges, and never mixes versions otherwise', () => {
+        expect(isIpInCidr('::ffff:203.0.113.7', '203.0.113.0/24')).toBe(true);
+        expect(isIpInCidr('2001:db8::1', '0.0.0.0/0')).toBe(false);
+        expect(isIpInCidr('203.0.113.7', '::/0')).toBe(false);
+        expect(isIpInCidr('not an address', '0.0.0.0/0')).toBe(false);
+    });
+});
+
+describe('getRequestIp', () => {
+    afterEach(() => {
+        requestHeaders = new Headers();
+        delete process.env.TRUSTED_PROXIES;
+    });
+
+    it('ignores forwarding headers when no proxies are trusted', () => {
+        // Without a proxy in front, the client writes these headers itself and could claim a locked address.
+        requestHeaders = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' });
+        expect(getRequestIp()).toBeNull();
+    });
+
+    it('uses the address the nearest trusted proxy saw', () => {
+        process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+        requestHeaders = new Headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' });
+        expect(getRequestIp()).toBe('203.0.113.7');
+    });
+
+    it('skips trusted proxies and ignores what the client put in front of them', () => {
+        process.env.TRUSTED_PROXIES = '10.0.0.0/8, 192.0.2.1';
+        requestHeaders = new Headers({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 192.0.2.1, 10.1.2.3' });
+        expect(getRequestIp()).toBe('203.0.113.7');
+    });
+
+    it('falls back to X-Real-IP and normalizes the address', () => {
+        process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+        requestHeaders = new Headers({ 'x-real-ip': '::ffff:203.0.113.7' });
+        expect(getRequestIp()).toBe('203.0.113.7');
+    });
+
+    it('returns null without an address or when the nearest untrusted hop is not one', () => {
+        process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+        expect(getRequestIp()).toBeNull();
+        requestHeaders = new Headers({ 'x-forwarded-for': '203.0.113.7, garbage' });
+        expect(getRequestIp()).toBeNull();
+    });
+});
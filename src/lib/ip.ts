@@ -0,0 +1,190 @@
+import { headers } from 'next/headers';
+
+/**
+ * IP address helpers for IP-locked licenses: parsing IPv4 and IPv6 addresses,
+ * matching them against CIDR ranges, and finding the client address of a
+ * request behind reverse proxies.
+ */
+
+interface ParsedIp {
+    version: 4 | 6;
+    value: bigint;
+}
+
+function parseIpv4(address: string): bigint | null {
+    const parts = address.split('.');
+    if (parts.length !== 4) {
+        return null;
+    }
+    let value = BigInt(0);
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+            return null;
+        }
+        value = (value << BigInt(8)) + BigInt(part);
+    }
+    return value;
+}
+
+function parseIpv6(address: string): bigint | null {
+    // An embedded IPv4 tail (e.g. ::ffff:1.2.3.4) stands for the last two groups.
+    let groups = address;
+    const lastColon = address.lastIndexOf(':');
+    if (address.includes('.', lastColon)) {
+        const ipv4 = parseIpv4(address.slice(lastColon + 1));
+        if (ipv4 === null) {
+            return null;
+        }
+        groups = `${address.slice(0, lastColon + 1)}${(ipv4 >> BigInt(16)).toString(16)}:${(ipv4 & BigInt(0xffff)).toString(16)}`;
+    }
+
+    const halves = groups.split('::');
+    if (halves.length > 2) {
+        return null;
+    }
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) {
+        return null;
+    }
+
+    let value = BigInt(0);
+    for (const group of [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+            return null;
+        }
+        value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+    }
+    return value;
+}
+
+const IPV4_MAPPED_PREFIX = BigInt(0xffff) << BigInt(32);
+
+/**
+ * Parses an IP address. IPv4 addresses mapped into IPv6 (::ffff:1.2.3.4) are read as IPv4,
+ * so both spellings of the same client match the same lock.
+ */
+function parseIp(address: string): ParsedIp | null {
+    const ipv4 = parseIpv4(address);
+    if (ipv4 !== null) {
+        return { version: 4, value: ipv4 };
+    }
+    const ipv6 = parseIpv6(address);
+    if (ipv6 === null) {
+        return null;
+    }
+    if (ipv6 >> BigInt(32) === BigInt(0xffff)) {
+        return { version: 4, value: ipv6 - IPV4_MAPPED_PREFIX };
+    }
+    return { version: 6, value: ipv6 };
+}
+
+function formatIp(ip: ParsedIp): string {
+    if (ip.version === 4) {
+        return [24, 16, 8, 0].map(shift => Number((ip.value >> BigInt(shift)) & BigInt(255))).join('.');
+    }
+    const groups = [];
+    for (let shift = 112; shift >= 0; shift -= 16) {
+        groups.push(Number((ip.value >> BigInt(shift)) & BigInt(0xffff)).toString(16));
+    }
+    // Shorten the longest run of two or more zero groups to "::".
+    let bestStart = -1;
+    let bestLength = 1;
+    for (let i = 0; i < groups.length; i++) {
+        let j = i;
+        while (j < groups.length && groups[j] === '0') j++;
+        if (j - i > bestLength) {
+            bestStart = i;
+            bestLength = j - i;
+        }
+        i = j;
+    }
+    if (bestStart === -1) {
+        return groups.join(':');
+    }
+    return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+}
+
+/**
+ * Puts an address in canonical form, so equal addresses compare equal as strings.
+ * @returns The normalized address, or null if it is not an IP address.
+ */
+export function normalizeIp(address: string): string | null {
+    const parsed = parseIp(address.trim());
+    return parsed ? formatIp(parsed) : null;
+}
+
+/**
+ * Normalizes a CIDR range such as "203.0.113.0/24" or "2001:db8::/32". A bare address is a single-host range.
+ * @returns The normalized range, or null if it is not valid.
+ */
+export function normalizeCidr(range: string): string | null {
+    const [address, prefix, ...rest] = range.trim().split('/');
+    const parsed = parseIp(address);
+    if (!parsed || rest.length > 0) {
+        return null;
+    }
+    const maxBits = parsed.version === 4 ? 32 : 128;
+    const bits = prefix === undefined ? maxBits : Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > maxBits || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+        return null;
+    }
+    // Host bits are cleared, so "10.0.0.7/8" is stored as "10.0.0.0/8".
+    const hostBits = BigInt(maxBits - bits);
+    const network = (parsed.value >> hostBits) << hostBits;
+    return `${formatIp({ version: parsed.version, value: network })}/${bits}`;
+}
+
+export function isIpInCidr(address: string, range: string): boolean {
+    const ip = parseIp(address);
+    const [networkAddress, prefix] = range.split('/');
+    const network = parseIp(networkAddress);
+    if (!ip || !network || ip.version !== network.version) {
+        return false;
+    }
+    const maxBits = ip.version === 4 ? 32 : 128;
+    const hostBits = BigInt(maxBits - Number(prefix ?? maxBits));
+    return ip.value >> hostBits === network.value >> hostBits;
+}
+
+function trustedProxies(): string[] {
+    return (process.env.TRUSTED_PROXIES || '')
+        .split(',')
+        .map(range => normalizeCidr(range))
+        .filter((range): range is string => !!range);
+}
+
+/**
+ * Finds the client address of the current request. The X-Forwarded-For chain is read from the
+ * nearest hop backwards, skipping the reverse proxies listed in TRUSTED_PROXIES; the first address
+ * that is not a trusted proxy is the client. Anything before it was supplied by the client itself
+ * and is ignored. Without trusted proxies nothing vouches for the forwarding headers, which the
+ * client can then set to any address, so there is no client address and IP-locked checks fail closed.
+ * @returns The normalized client address, or null if the request carries none or no proxies are trusted.
+ */
+export function getRequestIp(): string | null {
+    const proxies = trustedProxies();
+    if (proxies.length === 0) {
+        return null;
+    }
+
+    const requestHeaders = headers();
+    const forwarded = (requestHeaders.get('x-forwarded-for') || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean);
+    const chain = forwarded.length > 0 ? forwarded : [requestHeaders.get('x-real-ip') || ''].filter(Boolean);
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+        const address = normalizeIp(chain[i]);
+        if (!address) {
+            return null;
+        }
+        if (i > 0 && proxies.some(range => isIpInCidr(address, range))) {
+            continue;
+        }
+        return address;
+    }
+    return null;
+}
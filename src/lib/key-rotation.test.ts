@@ -0,0 +1,98 @@
+import { ObjectId } from 'mongodb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { collections } from './test/fake-mongo';
+
+vi.mock('./mongodb', () => import('./test/fake-mongo'));
+
+const storage = {
+    name: 'local' as const,
+    stored: new Map<string, Uint8Array>(),
+    putStream: vi.fn(async (body: ReadableStream<Uint8Array>) => {
+        storage.stored.set('new-file', new Uint8Array(await new Response(body).arrayBuffer()));
+        return { url: 'https://storage.example/new-file', key: 'new-file' };
+    }),
+    putJson: vi.fn(),
+    remove: vi.fn(),
+};
+vi.mock('./storage', () => ({ getStorageProvider: () => storage }));
+
+const { removeRetiredFiles, startKeyRotation } = await import('./key-rotation');
+const { unwrapReleaseKey, wrapReleaseKey } = await import('./content-keys');
+const { createEncryptionStream, decryptSoftwareStream } = await import('./encryption');
+const { generateKey } = await import('./kms');
+
+const PLAINTEXT = new TextEncoder().encode('the software the licenses pay for');
+
+async function encrypt(keyHex: string) {
+    return new Uint8Array(await new Response(new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptionStream(keyHex))).arrayBuffer());
+}
+
+function retiredFiles() {
+    return collections.get('retiredFiles') || [];
+}
+
+describe('key rotation', () => {
+    const softwareId = new ObjectId();
+    const releaseId = new ObjectId();
+
+    beforeEach(async () => {
+        collections.clear();
+        storage.stored.clear();
+        storage.remove.mockReset().mockImplementation(async (key: string) => { storage.stored.delete(key); });
+        vi.stubEnv('KMS_MASTER_KEY', '00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+        vi.stubEnv('KEY_ROTATION_GRACE_MS', '60000');
+
+        const oldKey = generateKey();
+        storage.stored.set('old-file', await encrypt(oldKey));
+        collections.set('software', [{ _id: softwareId, keyVersion: 1 }]);
+        collections.set('releases', [{
+            _id: releaseId, softwareId, version: '1.0.0', channel: 'stable', releasedAt: new Date(),
+            fileUrl: 'https://storage.example/old-file', fileKey: 'old-file', fileName: 'app.zip', fileSize: PLAINTEXT.length,
+            contentKey: await wrapReleaseKey(releaseId, oldKey),
+        }]);
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(storage.stored.get(url.split('/').pop()!))));
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('keeps the replaced file for the grace period, so running downloads can finish', async () => {
+        const result = await startKeyRotation(softwareId, new ObjectId());
+        expect(result.success).toBe(true);
+        await vi.waitFor(() => expect(collections.get('keyRotations')![0].status).toBe('completed'));
+
+        const { contentKey, fileUrl } = await unwrapReleaseKey(releaseId);
+        expect(fileUrl).toBe('https://storage.example/new-file');
+        const decrypted = await decryptSoftwareStream(new Blob([storage.stored.get('new-file')!]).stream(), contentKey);
+        expect(new Uint8Array(await new Response(decrypted).arrayBuffer())).toEqual(PLAINTEXT);
+
+        expect(storage.remove).not.toHaveBeenCalled();
+        expect(storage.stored.has('old-file')).toBe(true);
+        const [retired] = retiredFiles();
+        expect(retired).toMatchObject({ fileKey: 'old-file', releaseId });
+        expect(retired.removeAfter.getTime() - retired.retiredAt.getTime()).toBe(60000);
+        expect(await removeRetiredFiles()).toBe(0);
+    });
+
+    it('removes retired files once their grace period is over and retries those that fail', async () => {
+        const past = new Date(Date.now() - 1000);
+        collections.set('retiredFiles', [
+            { _id: new ObjectId(), fileKey: 'old-file', releaseId, retiredAt: past, removeAfter: past },
+            { _id: new ObjectId(), fileKey: 'unreachable', releaseId, retiredAt: past, removeAfter: past },
+            { _id: new ObjectId(), fileKey: 'recent', releaseId, retiredAt: new Date(), removeAfter: new Date(Date.now() + 60000) },
+        ]);
+        storage.remove.mockImplementation(async (key: string) => {
+            if (key === 'unreachable') throw new Error('connection refused');
+            storage.stored.delete(key);
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await removeRetiredFiles()).toBe(1);
+
+        expect(storage.stored.has('old-file')).toBe(false);
+        expect(retiredFiles().map(file => file.fileKey)).toEqual(['unreachable', 'recent']);
+    });
+});
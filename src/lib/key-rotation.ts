@@ -0,0 +1,249 @@
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { generateKey, getKms } from './kms';
+import { releaseKeyContext } from './content-keys';
+import { createEncryptionStream, decryptSoftwareStream, encryptedLength } from './encryption';
+import { getStorageProvider, StorageProvider } from './storage';
+import { ensureReleasesMigrated, getReleasesCollection } from './releases';
+
+/**
+ * Content key rotation for a listed product. Every release's stored file is
+ * downloaded, decrypted with its current key and re-encrypted with a new one
+ * while it streams to storage; the release's file URL and wrapped key are then
+ * swapped in a single conditional update. Licenses keep working because key
+ * deliveries always return the current URL with the current key. Every rotation
+ * is kept in the `keyRotations` collection as the audit history.
+ *
+ * A replaced file is not removed at once: a download that started before the
+ * swap still reads it with the key it was given. It is recorded in `retiredFiles`
+ * and removed by a sweep once its grace period is over.
+ *
+ * Configuration (environment):
+ * - KEY_ROTATION_GRACE_MS: how long a replaced file stays readable (default 86400000, one day).
+ */
+
+export type KeyRotationStatus = 'running' | 'completed' | 'failed';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+let retiredIndexReady: Promise<void> | null = null;
+let sweepStarted = false;
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+async function getRotationsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('keyRotations');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ softwareId: 1, startedAt: -1 }),
+            // At most one rotation per product can be running at any time.
+            collection.createIndex({ softwareId: 1 }, { unique: true, partialFilterExpression: { inProgress: true } }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+async function getRetiredFilesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('retiredFiles');
+    if (!retiredIndexReady) {
+        retiredIndexReady = collection.createIndex({ removeAfter: 1 }).then(() => undefined);
+    }
+    await retiredIndexReady;
+    return collection;
+}
+
+/**
+ * Starts rotating a product's content key. The re-encryption runs in the
+ * background; poll getKeyRotations for its outcome.
+ * @param softwareId The product to rotate.
+ * @param requestedBy The seller who asked for the rotation.
+ * @returns An object indicating whether the rotation was started, with its ID.
+ */
+export async function startKeyRotation(softwareId: ObjectId, requestedBy: ObjectId): Promise<{ success: boolean; message: string; code?: string; rotationId?: string }> {
+    const rotations = await getRotationsCollection();
+
+    let rotationId: ObjectId;
+    try {
+        const result = await rotations.insertOne({
+            softwareId,
+            requestedBy,
+            status: 'running' as KeyRotationStatus,
+            inProgress: true,
+            startedAt: new Date(),
+        });
+        rotationId = result.insertedId;
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            return { success: false, code: 'ROTATION_RUNNING', message: "A key rotation is already running for this software." };
+        }
+        throw error;
+    }
+
+    runKeyRotation(rotationId, softwareId).catch((error) => {
+        console.error(`Key rotation ${rotationId.toHexString()} crashed:`, error);
+    });
+
+    return { success: true, message: "Key rotation started. Existing licenses keep working while the file is re-encrypted.", rotationId: rotationId.toHexString() };
+}
+
+// Re-encrypts one release under a fresh key and swaps it in. Returns what changed for the audit record.
+async function rotateRelease(release: WithId<Document>, storage: StorageProvider) {
+    const releases = await getReleasesCollection();
+    const oldKey = await getKms().unwrapKey(release.contentKey, releaseKeyContext(release._id));
+    const newKey = generateKey();
+
+    // Download, decrypt and re-encrypt as one stream so the file never sits in memory.
+    const response = await fetch(release.fileUrl);
+    if (!response.ok || !response.body) {
+        throw new Error(`Could not download the file for version ${release.version}. Status: ${response.status}`);
+    }
+    const plaintext = await decryptSoftwareStream(response.body, oldKey);
+    const stored = await storage.putStream(plaintext.pipeThrough(createEncryptionStream(newKey)), {
+        fileName: `${release.fileName || release.version}.enc`,
+        contentType: 'application/octet-stream',
+        contentLength: typeof release.fileSize === 'number' ? encryptedLength(release.fileSize) : undefined,
+    });
+
+    try {
+        // Only swap if nothing changed since the snapshot, so the URL and key always move together.
+        const swapped = await releases.updateOne(
+            { _id: release._id, fileUrl: release.fileUrl, 'contentKey.ciphertext': release.contentKey.ciphertext },
+            { $set: { fileUrl: stored.url, fileKey: stored.key, contentKey: await getKms().wrapKey(newKey, releaseKeyContext(release._id)) } }
+        );
+        if (swapped.matchedCount === 0) {
+            throw new Error(`Version ${release.version} was changed while its file was being re-encrypted.`);
+        }
+    } catch (error) {
+        await storage.remove(stored.key).catch(() => undefined);
+        throw error;
+    }
+
+    // The old file can still be opened with the old key, so it must go, but downloads that
+    // started before the swap are still reading it. The sweep removes it after the grace period.
+    let oldFileRemoveAfter: Date | undefined;
+    if (release.fileKey) {
+        const retiredAt = new Date();
+        oldFileRemoveAfter = new Date(retiredAt.getTime() + numberFromEnv('KEY_ROTATION_GRACE_MS', 24 * 60 * 60 * 1000));
+        await (await getRetiredFilesCollection()).insertOne({
+            fileKey: release.fileKey,
+            releaseId: release._id,
+            retiredAt,
+            removeAfter: oldFileRemoveAfter,
+        });
+    }
+
+    return { releaseId: release._id, version: release.version, oldFileUrl: release.fileUrl, newFileUrl: stored.url, oldFileRemoveAfter };
+}
+
+/**
+ * Removes the files replaced by key rotations whose grace period is over. A file
+ * that cannot be removed stays recorded and is tried again on the next sweep.
+ * @returns How many files were removed.
+ */
+export async function removeRetiredFiles(): Promise<number> {
+    const retiredFiles = await getRetiredFilesCollection();
+    const due = await retiredFiles.find({ removeAfter: { $lte: new Date() } }).toArray();
+    if (due.length === 0) {
+        return 0;
+    }
+
+    const storage = getStorageProvider();
+    let removed = 0;
+    for (const file of due) {
+        try {
+            await storage.remove(file.fileKey);
+            await retiredFiles.deleteOne({ _id: file._id });
+            removed++;
+        } catch (error) {
+            console.error(`Could not remove the retired file ${file.fileKey}:`, error);
+        }
+    }
+    return removed;
+}
+
+/**
+ * Starts removing retired files in the background, once now and then every hour.
+ * Calling it again has no effect.
+ */
+export function startRetiredFileSweep(): void {
+    if (sweepStarted) {
+        return;
+    }
+    sweepStarted = true;
+
+    const runSweep = async () => {
+        try {
+            await removeRetiredFiles();
+        } catch (error) {
+            console.error("Retired file sweep failed:", error);
+        }
+        setTimeout(runSweep, SWEEP_INTERVAL_MS);
+    };
+    runSweep();
+}
+
+async function runKeyRotation(rotationId: ObjectId, softwareId: ObjectId): Promise<void> {
+    const client = await clientPromise;
+    const softwareCollection = client.db().collection('software');
+    const rotations = await getRotationsCollection();
+
+    try {
+        await ensureReleasesMigrated();
+        const storage = getStorageProvider();
+
+        const software = await softwareCollection.findOne({ _id: softwareId }, { projection: { keyVersion: 1 } });
+        if (!software) {
+            throw new Error("The software no longer exists.");
+        }
+        const fromVersion = software.keyVersion || 1;
+        await rotations.updateOne({ _id: rotationId }, { $set: { fromVersion } });
+
+        const releases = await (await getReleasesCollection()).find({ softwareId }).toArray();
+        if (releases.length === 0) {
+            throw new Error("The software has no released files to rotate.");
+        }
+
+        // Each release is swapped as soon as it is done, so a failure part-way leaves every
+        // release consistent and the record shows which ones were rotated.
+        const rotated = [];
+        for (const release of releases) {
+            rotated.push(await rotateRelease(release, storage));
+            await rotations.updateOne({ _id: rotationId }, { $set: { releases: rotated } });
+        }
+
+        await softwareCollection.updateOne({ _id: softwareId }, { $set: { keyVersion: fromVersion + 1, keyRotatedAt: new Date() } });
+        await rotations.updateOne(
+            { _id: rotationId },
+            {
+                $set: { status: 'completed' as KeyRotationStatus, toVersion: fromVersion + 1, completedAt: new Date() },
+                $unset: { inProgress: '' },
+            }
+        );
+    } catch (error: any) {
+        console.error(`Key rotation ${rotationId.toHexString()} failed:`, error);
+        await rotations.updateOne(
+            { _id: rotationId },
+            {
+                $set: { status: 'failed' as KeyRotationStatus, error: error.message || "Unknown error.", completedAt: new Date() },
+                $unset: { inProgress: '' },
+            }
+        );
+    }
+}
+
+/**
+ * Lists the key rotations recorded for a product, newest first.
+ * @param softwareId The product whose history to return.
+ * @returns The rotation records.
+ */
+export async function getKeyRotations(softwareId: ObjectId) {
+    const rotations = await getRotationsCollection();
+    return rotations.find({ softwareId }, { projection: { inProgress: 0 } }).sort({ startedAt: -1 }).toArray();
+}
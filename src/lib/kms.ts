@@ -0,0 +1,84 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Key management for envelope encryption. Content keys are only ever stored
+ * wrapped (encrypted) under a master key that lives outside the database. The
+ * context string is bound into every wrap as additional authenticated data, so
+ * a wrapped key copied onto a different record will not unwrap.
+ *
+ * KMS_PROVIDER selects the implementation. Only "local" exists today: a stand-in
+ * that keeps the master key in KMS_MASTER_KEY, with the same interface a cloud
+ * KMS client would implement.
+ */
+
+export interface WrappedKey {
+    // Identifies the master key that wrapped this key, so master keys can be rotated later.
+    keyId: string;
+    iv: string;
+    ciphertext: string;
+}
+
+export interface KeyManagementService {
+    wrapKey(keyHex: string, context: string): Promise<WrappedKey>;
+    unwrapKey(wrapped: WrappedKey, context: string): Promise<string>;
+}
+
+function createLocalKms(): KeyManagementService {
+    const masterKeyHex = process.env.KMS_MASTER_KEY;
+    const keyId = process.env.KMS_KEY_ID || 'local-master-1';
+
+    if (!masterKeyHex || !/^[0-9a-fA-F]{64}$/.test(masterKeyHex)) {
+        throw new Error("Server configuration error: KMS_MASTER_KEY must be set to a 256-bit hex string.");
+    }
+    const masterKey = Buffer.from(masterKeyHex, 'hex');
+
+    return {
+        async wrapKey(keyHex, context) {
+            const iv = randomBytes(12);
+            const cipher = createCipheriv('aes-256-gcm', masterKey, iv);
+            cipher.setAAD(Buffer.from(context, 'utf8'));
+            const ciphertext = Buffer.concat([cipher.update(Buffer.from(keyHex, 'hex')), cipher.final(), cipher.getAuthTag()]);
+            return { keyId, iv: iv.toString('base64'), ciphertext: ciphertext.toString('base64') };
+        },
+
+        async unwrapKey(wrapped, context) {
+            if (wrapped.keyId !== keyId) {
+                throw new Error(`The key was wrapped with master key "${wrapped.keyId}", which is not configured.`);
+            }
+            const data = Buffer.from(wrapped.ciphertext, 'base64');
+            const decipher = createDecipheriv('aes-256-gcm', masterKey, Buffer.from(wrapped.iv, 'base64'));
+            decipher.setAAD(Buffer.from(context, 'utf8'));
+            decipher.setAuthTag(data.subarray(data.length - 16));
+            try {
+                return Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]).toString('hex');
+            } catch (error) {
+                throw new Error('A wrapped key failed to unwrap. It may have been tampered with or moved to another record.');
+            }
+        },
+    };
+}
+
+let kms: KeyManagementService | null = null;
+
+/**
+ * Returns the key management service selected by KMS_PROVIDER, creating it on first use.
+ * @throws If the provider name is unknown or its configuration is incomplete.
+ */
+export function getKms(): KeyManagementService {
+    if (!kms) {
+        const name = process.env.KMS_PROVIDER || 'local';
+        if (name !== 'local') {
+            throw new Error(`Server configuration error: unknown KMS_PROVIDER "${name}".`);
+        }
+        kms = createLocalKms();
+    }
+    return kms;
+}
+
+/**
+ * Generates a fresh random 256-bit key.
+ * @returns The key as a hex string.
+ */
+export function generateKey(): string {
+    return randomBytes(32).toString('hex');
+}
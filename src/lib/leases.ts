@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from 'crypto';
+import { Document, ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { seatCount } from './seats';
+
+/**
+ * Leases of floating licenses. A floating license is a pool of `seats`
+ * concurrent uses that any of the owner's devices can draw from: a device checks
+ * out a lease, keeps it alive with heartbeats and checks it in when done. A lease
+ * whose heartbeats stop simply expires, so a crashed client frees its slot on its
+ * own. Leases live in the license's `leases` list, so the pool check and the
+ * checkout are one conditional update.
+ */
+
+export interface Lease {
+    leaseId: string;
+    tokenHash: string;
+    deviceId: string;
+    label?: string;
+    checkedOutAt: Date;
+    heartbeatAt: Date;
+    expiresAt: Date;
+}
+
+// A lease lives this long after its last heartbeat.
+export const LEASE_TTL_MS = 2 * 60 * 1000;
+// How often clients are asked to send heartbeats; several fit in one TTL so a missed one is harmless.
+export const LEASE_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+function hashLeaseToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+export function activeLeases(license: Document, now: Date = new Date()): Lease[] {
+    return (license.leases || []).filter((lease: Lease) => lease.expiresAt > now);
+}
+
+/**
+ * Checks out a lease for a device. A device that already holds a lease gets a fresh one in its place.
+ * @param license The license document.
+ * @param deviceId The device checking out.
+ * @param label A name for the device or its user, shown to the seller.
+ * @returns The lease ID, the secret token that authorizes its heartbeats and check-in, and its expiry;
+ * or a message if the pool is exhausted.
+ */
+export async function checkoutLease(license: Document, deviceId: string, label?: string): Promise<{ lease?: { leaseId: string; leaseToken: string; expiresAt: Date }; message: string }> {
+    const client = await clientPromise;
+    const seats = seatCount(license);
+    const now = new Date();
+    const leaseToken = randomBytes(32).toString('hex');
+    const lease: Lease = {
+        leaseId: new ObjectId().toHexString(),
+        tokenHash: hashLeaseToken(leaseToken),
+        deviceId,
+        ...(label ? { label } : {}),
+        checkedOutAt: now,
+        heartbeatAt: now,
+        expiresAt: new Date(now.getTime() + LEASE_TTL_MS),
+    };
+
+    // Expired leases are dropped on the way, and so is this device's previous lease.
+    const otherActive = {
+        $filter: {
+            input: { $filter: { input: { $ifNull: ['$leases', []] }, cond: { $gt: ['$$this.expiresAt', '$$NOW'] } } },
+            cond: { $ne: ['$$this.deviceId', { $literal: deviceId }] },
+        },
+    };
+    const result = await client.db().collection('licenses').updateOne(
+        { _id: license._id, $expr: { $lt: [{ $size: otherActive }, seats] } },
+        [{ $set: { leases: { $concatArrays: [otherActive, [{ $literal: lease }]] } } }]
+    );
+    if (result.matchedCount === 0) {
+        return { message: `All ${seats} floating ${seats === 1 ? 'seat is' : 'seats are'} in use. Try again when another device checks its lease in.` };
+    }
+    return { lease: { leaseId: lease.leaseId, leaseToken, expiresAt: lease.expiresAt }, message: "Lease checked out." };
+}
+
+/**
+ * Extends a lease that has not expired yet.
+ * @returns The new expiry, or null if the lease is unknown, expired or the token does not match.
+ */
+export async function heartbeatLease(licenseId: ObjectId, leaseId: string, leaseToken: string): Promise<Date | null> {
+    const client = await clientPromise;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+    const result = await client.db().collection('licenses').updateOne(
+        { _id: licenseId, leases: { $elemMatch: { leaseId, tokenHash: hashLeaseToken(leaseToken), expiresAt: { $gt: now } } } },
+        { $set: { 'leases.$.expiresAt': expiresAt, 'leases.$.heartbeatAt': now } }
+    );
+    return result.modifiedCount > 0 ? expiresAt : null;
+}
+
+/**
+ * Checks a lease in, returning its slot to the pool.
+ * @returns True if the lease existed and was checked in.
+ */
+export async function checkinLease(licenseId: ObjectId, leaseId: string, leaseToken: string): Promise<boolean> {
+    const client = await clientPromise;
+    const tokenHash = hashLeaseToken(leaseToken);
+    const result = await client.db().collection('licenses').updateOne(
+        { _id: licenseId, leases: { $elemMatch: { leaseId, tokenHash } } },
+        [{ $set: { leases: { $filter: { input: '$leases', cond: { $ne: ['$$this.leaseId', { $literal: leaseId }] } } } } }]
+    );
+    return result.modifiedCount > 0;
+}
@@ -0,0 +1,236 @@
+import { AbiCoder, Contract, id, Interface, keccak256, TransactionReceipt, ZeroAddress } from 'ethers';
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { SOFTWARE_LICENSE_ABI } from './abi';
+import { relayContractCall, RelayKind } from './relayer';
+import { ChainConfig, chainProvider, recordChainId, requireChain } from './chains';
+
+/**
+ * The on-chain half of a license's status. Besides the `status` kept in MongoDB,
+ * the contract holds its own blocked flag per token, which validateLicense honors.
+ * Blocking or unblocking a license sets the flag through the relayer, which holds
+ * the contract owner's key, first and updates the database after, so a failed transaction never leaves the
+ * database claiming a state the chain does not have. Reconciliation finds licenses
+ * where the two still disagree and brings them back in line. Every call goes to the
+ * contract on the chain the license or product lives on, see chains.ts.
+ */
+
+// The reason stored on licenses whose block came from the chain rather than from the seller.
+export const CHAIN_BLOCK_REASON = 'Blocked on the blockchain';
+
+// Selector of OpenZeppelin 5's ERC721NonexistentToken(uint256) custom error.
+const NONEXISTENT_TOKEN_SELECTOR = '0x7e273289';
+
+export type ChainLicenseState = 'active' | 'blocked' | 'burned';
+
+export interface ChainProduct {
+    seller: string;
+    // Per seat, in the payment token's smallest unit.
+    price: bigint;
+    // The ERC-20 token the price is in, or null for the native currency.
+    paymentToken: string | null;
+    active: boolean;
+}
+
+export interface LicenseSyncIssue {
+    licenseId: string;
+    tokenId: number;
+    databaseStatus: string;
+    chainState: ChainLicenseState | 'unknown';
+    action: 'blocked-on-chain' | 'blocked-in-database' | 'revoked-in-database' | 'none';
+    error?: string;
+}
+
+function readContract(chain: ChainConfig): Contract {
+    return new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, chainProvider(chain));
+}
+
+// Minting, burning and blocking are restricted to the contract owner, whose key only the relayer holds.
+async function ownerCall(chain: ChainConfig, kind: RelayKind, method: string, args: unknown[], context: Record<string, unknown>): Promise<TransactionReceipt> {
+    const { receipt } = await relayContractCall({
+        kind,
+        chain,
+        contractAddress: chain.contractAddress,
+        abi: SOFTWARE_LICENSE_ABI,
+        method,
+        args,
+        context,
+    });
+    return receipt;
+}
+
+/**
+ * The chain a license document's token lives on.
+ * @throws If that chain is no longer in the registry or has no RPC URL.
+ */
+export function licenseChain(license: Document): ChainConfig {
+    return requireChain(recordChainId(license));
+}
+
+/**
+ * Tells whether a failed contract call means the token does not exist (was burned or never minted).
+ */
+export function isNonexistentTokenError(error: any): boolean {
+    if (error?.reason && (error.reason.includes('invalid token ID') || error.reason.includes('nonexistent token'))) {
+        return true;
+    }
+    return typeof error?.data === 'string' && error.data.startsWith(NONEXISTENT_TOKEN_SELECTOR);
+}
+
+/**
+ * The ID the contract knows a software by when its seller registers it: the keccak256 hash of its database ID.
+ */
+export function softwareChainKey(softwareId: ObjectId | string): string {
+    return id(softwareId.toString());
+}
+
+/**
+ * The ID a software is sold under on the contract, as the contract's productIdOf derives it from
+ * the seller's wallet and the software, so only that wallet can register it.
+ */
+export function softwareProductId(softwareId: ObjectId | string, sellerWalletAddress: string): string {
+    return keccak256(AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [sellerWalletAddress, softwareChainKey(softwareId)]));
+}
+
+/**
+ * Reads a product's registration from a chain's contract.
+ * @param chain The chain to read from.
+ * @param productId The product's ID, see softwareProductId.
+ * @returns The seller's wallet, the price per seat and its token, and whether it is on sale, or null if it is not registered.
+ */
+export async function getChainProduct(chain: ChainConfig, productId: string): Promise<ChainProduct | null> {
+    const [seller, price, paymentToken, active] = await readContract(chain).getProduct(productId);
+    if (seller === ZeroAddress) {
+        return null;
+    }
+    return { seller, price, paymentToken: paymentToken === ZeroAddress ? null : paymentToken, active };
+}
+
+/**
+ * Reads a license token's state from a chain's contract.
+ * @param chain The chain the token lives on.
+ * @param tokenId The license NFT's token ID.
+ * @returns Whether the token is active, blocked or burned.
+ * @throws If the blockchain cannot be reached.
+ */
+export async function getChainLicenseState(chain: ChainConfig, tokenId: number): Promise<ChainLicenseState> {
+    const contract = readContract(chain);
+    try {
+        await contract.ownerOf(tokenId);
+    } catch (error) {
+        if (isNonexistentTokenError(error)) {
+            return 'burned';
+        }
+        throw error;
+    }
+    return await contract.isLicenseBlocked(tokenId) ? 'blocked' : 'active';
+}
+
+/**
+ * Sets a license token's blocked flag on the contract and waits for the transaction to be mined.
+ * Nothing is sent if the flag already has the requested value.
+ * @param chain The chain the token lives on.
+ * @param tokenId The license NFT's token ID.
+ * @param blocked Whether the license should be blocked.
+ * @returns The transaction hash, or null if no transaction was needed.
+ */
+export async function setChainLicenseBlocked(chain: ChainConfig, tokenId: number, blocked: boolean): Promise<string | null> {
+    if (await readContract(chain).isLicenseBlocked(tokenId) === blocked) {
+        return null;
+    }
+    return (await ownerCall(chain, 'block', 'blockLicense', [tokenId, blocked], { tokenId, blocked })).hash;
+}
+
+/**
+ * Burns a license token and waits for the transaction to be confirmed.
+ * @param chain The chain the token lives on.
+ * @param tokenId The license NFT's token ID.
+ * @returns The transaction hash.
+ */
+export async function burnChainLicense(chain: ChainConfig, tokenId: number): Promise<string> {
+    return (await ownerCall(chain, 'burn', 'revokeLicense', [tokenId], { tokenId })).hash;
+}
+
+/**
+ * Mints a license token to a buyer at the platform's expense and waits for the transaction to be confirmed.
+ * @param chain The chain to mint on.
+ * @param buyerAddress The wallet receiving the license.
+ * @param tokenURI The license metadata.
+ * @param ipAddress The IP address to lock the license to (can be empty).
+ * @param context What the mint is for, kept on the relayer's record.
+ * @returns The minted token's ID and the transaction hash.
+ */
+export async function mintChainLicense(chain: ChainConfig, buyerAddress: string, tokenURI: string, ipAddress: string, context: Record<string, unknown>): Promise<{ tokenId: number; transactionHash: string; mintDate: Date }> {
+    const receipt = await ownerCall(chain, 'mint', 'mintLicense', [buyerAddress, tokenURI, ipAddress], { buyerAddress: buyerAddress.toLowerCase(), ...context });
+
+    const licenseInterface = new Interface(SOFTWARE_LICENSE_ABI);
+    const mint = receipt.logs
+        .filter(log => log.address.toLowerCase() === chain.contractAddress.toLowerCase())
+        .map(log => licenseInterface.parseLog(log))
+        .find(parsed => parsed?.name === 'Transfer' && parsed.args.from === ZeroAddress);
+    if (!mint) {
+        throw new Error("The mint transaction did not mint a license token.");
+    }
+    const block = await receipt.getBlock();
+    return { tokenId: Number(mint.args.tokenId), transactionHash: receipt.hash, mintDate: new Date(block.timestamp * 1000) };
+}
+
+/**
+ * Compares licenses with the chain and fixes every disagreement. Blocking always wins: a license
+ * blocked on either side ends up blocked on both, and only an explicit reactivation lifts a block.
+ * A token burned on the chain is marked revoked in the database.
+ * @param licenses The license documents to check, on whichever chains they live.
+ * @returns How many licenses were checked and each disagreement found, with what was done about it.
+ */
+export async function reconcileLicenseStatuses(licenses: WithId<Document>[]): Promise<{ checked: number; issues: LicenseSyncIssue[] }> {
+    const client = await clientPromise;
+    const licensesCollection = client.db().collection('licenses');
+    const issues: LicenseSyncIssue[] = [];
+
+    // One license at a time, to stay well within the RPC provider's rate limits.
+    for (const license of licenses) {
+        const issue: Omit<LicenseSyncIssue, 'chainState' | 'action'> = {
+            licenseId: license._id.toString(),
+            tokenId: license.tokenId,
+            databaseStatus: license.status,
+        };
+
+        let chain: ChainConfig;
+        let chainState: ChainLicenseState;
+        try {
+            chain = licenseChain(license);
+            chainState = await getChainLicenseState(chain, license.tokenId);
+        } catch (error: any) {
+            console.error(`Could not read token ${license.tokenId} from the chain:`, error);
+            issues.push({ ...issue, chainState: 'unknown', action: 'none', error: "The chain state could not be read." });
+            continue;
+        }
+
+        try {
+            if (chainState === 'burned') {
+                if (license.status !== 'revoked') {
+                    await licensesCollection.updateOne(
+                        { _id: license._id },
+                        { $set: { status: 'revoked', reason: 'Token does not exist (burned)', lastViolationDate: new Date() } }
+                    );
+                    issues.push({ ...issue, chainState, action: 'revoked-in-database' });
+                }
+            } else if (chainState === 'blocked' && license.status === 'active') {
+                await licensesCollection.updateOne(
+                    { _id: license._id, status: 'active' },
+                    { $set: { status: 'blocked', reason: CHAIN_BLOCK_REASON, lastViolationDate: new Date() } }
+                );
+                issues.push({ ...issue, chainState, action: 'blocked-in-database' });
+            } else if (chainState === 'active' && license.status !== 'active') {
+                // A revoked license whose token still exists is blocked too, so the contract refuses it as well.
+                await setChainLicenseBlocked(chain, license.tokenId, true);
+                issues.push({ ...issue, chainState, action: 'blocked-on-chain' });
+            }
+        } catch (error: any) {
+            console.error(`Could not reconcile license ${issue.licenseId}:`, error);
+            issues.push({ ...issue, chainState, action: 'none', error: error.reason || error.message || "The mismatch could not be fixed." });
+        }
+    }
+
+    return { checked: licenses.length, issues };
+}
@@ -0,0 +1,229 @@
+import { Contract, JsonRpcProvider, Wallet, ZeroAddress, getAddress } from 'ethers';
+import { ObjectId } from 'mongodb';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SOFTWARE_LICENSE_ABI } from './abi';
+import type { ChainConfig } from './chains';
+import { AuthError } from './errors';
+import { collections } from './test/fake-mongo';
+import { FakeNode } from './test/fake-node';
+
+vi.mock('./mongodb', () => import('./test/fake-mongo'));
+
+let chain: ChainConfig;
+let node: any;
+vi.mock('./chains', () => ({
+    LEGACY_CHAIN_ID: 80002,
+    chainProvider: () => node,
+    getChains: () => [chain],
+}));
+
+vi.mock('./purchases', () => ({
+    findPurchaseForMint: vi.fn(),
+    completePurchase: vi.fn(),
+}));
+
+const { indexLicenseEvents } = await import('./license-indexer');
+const { completePurchase, findPurchaseForMint } = await import('./purchases');
+
+const CONTRACT_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const BUYER = getAddress('0x70997970c51812dc3a010c7aebb0ab84a0c0c20e');
+const OTHER = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc');
+
+function licenses() {
+    return collections.get('licenses') || [];
+}
+
+function storedEvents() {
+    return (collections.get('licenseEvents') || []).map(event => [event.event, event.tokenId, event.blockNumber]);
+}
+
+describe('indexLicenseEvents', () => {
+    let fakeNode: FakeNode;
+    const softwareId = new ObjectId();
+
+    beforeEach(() => {
+        collections.clear();
+        chain = { chainId: 31337, name: 'Local', rpcUrl: 'http://127.0.0.1:8545', contractAddress: CONTRACT_ADDRESS, nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }, paymentTokens: [], confirmations: 1, startBlock: 1 };
+        node = fakeNode = new FakeNode(chain);
+        vi.mocked(findPurchaseForMint).mockReset();
+        vi.mocked(completePurchase).mockReset();
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+            attributes: [{ trait_type: 'Software ID', value: softwareId.toHexString() }, { trait_type: 'Purchase ID', value: 'purchase-1' }],
+        })));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('completes the open purchase a mint belongs to', async () => {
+        const purchase = { _id: new ObjectId(), status: 'pending' };
+        vi.mocked(findPurchaseForMint).mockResolvedValue(purchase);
+        fakeNode.tokenURIs.set(1, 'https://storage.example/metadata.json');
+        fakeNode.mineEvents(['Transfer', ZeroAddress, BUYER, 1]);
+
+        expect(await indexLicenseEvents(chain)).toEqual({ fromBlock: 1, toBlock: 1, events: 1 });
+
+        expect(fetch).toHaveBeenCalledWith('https://storage.example/metadata.json', expect.anything());
+        expect(findPurchaseForMint).toHaveBeenCalledWith(31337, softwareId, BUYER, 'purchase-1');
+        expect(completePurchase).toHaveBeenCalledWith(purchase, { transactionHash: fakeNode.logs[0].transactionHash, tokenId: 1 });
+        expect(storedEvents()).toEqual([['Transfer', 1, 1]]);
+    });
+
+    it('leaves mints alone that were recorded already or belong to no open purchase', async () => {
+        collections.set('licenses', [{ chainId: 31337, tokenId: 1, status: 'active' }]);
+        vi.mocked(findPurchaseForMint).mockResolvedValue({ _id: new ObjectId(), status: 'recorded' });
+        fakeNode.mineEvents(['Transfer', ZeroAddress, BUYER, 1], ['Transfer', ZeroAddress, BUYER, 2]);
+
+        await indexLicenseEvents(chain);
+
+        expect(findPurchaseForMint).toHaveBeenCalledTimes(1);
+        expect(completePurchase).not.toHaveBeenCalled();
+        expect(storedEvents()).toEqual([['Transfer', 1, 1], ['Transfer', 2, 1]]);
+    });
+
+    it('retries a purchase whose transaction is still confirming, but not one that can never succeed', async () => {
+        vi.mocked(findPurchaseForMint).mockResolvedValue({ _id: new ObjectId(), status: 'pending' });
+        vi.mocked(completePurchase).mockRejectedValueOnce(new AuthError('TRANSACTION_PENDING', 'The transaction is not confirmed yet.', 409));
+        fakeNode.mineEvents(['Transfer', ZeroAddress, BUYER, 1]);
+
+        await expect(indexLicenseEvents(chain)).rejects.toThrow('The transaction is not confirmed yet.');
+        expect(storedEvents()).toEqual([]);
+
+        vi.mocked(completePurchase).mockRejectedValueOnce(new AuthError('TRANSACTION_MISMATCH', 'The transaction does not pay for this purchase.', 400));
+        expect(await indexLicenseEvents(chain)).toEqual({ fromBlock: 1, toBlock: 1, events: 1 });
+        expect(completePurchase).toHaveBeenCalledTimes(2);
+        expect(storedEvents()).toEqual([['Transfer', 1, 1]]);
+    });
+
+    it('mirrors transfers, chain blocks and burns in the license', async () => {
+        collections.set('licenses', [{ chainId: 31337, tokenId: 1, status: 'active', buyerAddress: BUYER.toLowerCase() }]);
+        fakeNode.mineEvents(['Transfer', BUYER, OTHER, 1]);
+        fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, true]);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0]).toMatchObject({ buyerAddress: OTHER.toLowerCase(), status: 'blocked', reason: 'Blocked on the blockchain' });
+
+        fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, false]);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0]).toMatchObject({ status: 'active' });
+        expect(licenses()[0].reason).toBeUndefined();
+
+        fakeNode.mineEvents(['Transfer', OTHER, ZeroAddress, 1]);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0]).toMatchObject({ status: 'revoked', reason: 'Token does not exist (burned)' });
+    });
+
+    it('keeps a seller block when the chain lifts its own', async () => {
+        collections.set('licenses', [{ chainId: 31337, tokenId: 1, status: 'blocked', reason: 'Refund requested' }]);
+        fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, false]);
+
+        await indexLicenseEvents(chain);
+
+        expect(licenses()[0]).toMatchObject({ status: 'blocked', reason: 'Refund requested' });
+    });
+
+    it('reads only confirmed blocks, in batches, and never applies an event twice', async () => {
+        chain.confirmations = 3;
+        vi.stubEnv('LICENSE_INDEXER_BATCH_SIZE', '2');
+        collections.set('licenses', [{ chainId: 31337, tokenId: 1, status: 'active' }]);
+        for (let i = 0; i < 5; i++) fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, i % 2 === 0]);
+
+        expect(await indexLicenseEvents(chain)).toEqual({ fromBlock: 1, toBlock: 3, events: 3 });
+        expect(await indexLicenseEvents(chain)).toBeNull();
+        expect(collections.get('indexerCursors')![0]).toMatchObject({ blockNumber: 3, checkpoints: [{ blockNumber: 2 }, { blockNumber: 3 }] });
+        expect(licenses()[0].status).toBe('blocked');
+
+        fakeNode.mineEvents();
+        expect(await indexLicenseEvents(chain)).toEqual({ fromBlock: 4, toBlock: 4, events: 1 });
+        expect(storedEvents().map(([, , blockNumber]) => blockNumber)).toEqual([1, 2, 3, 4]);
+        vi.unstubAllEnvs();
+    });
+
+    it('rolls back events from reorganized blocks and re-reads their tokens', async () => {
+        collections.set('licenses', [
+            { chainId: 31337, tokenId: 1, status: 'active', buyerAddress: BUYER.toLowerCase() },
+            { chainId: 31337, tokenId: 2, status: 'active', buyerAddress: BUYER.toLowerCase() },
+        ]);
+        fakeNode.owners.set(1, BUYER);
+        fakeNode.owners.set(2, BUYER);
+        fakeNode.mineEvents();
+        await indexLicenseEvents(chain);
+
+        fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, true], ['Transfer', BUYER, OTHER, 2]);
+        await indexLicenseEvents(chain);
+        expect(licenses().map(license => [license.status, license.buyerAddress])).toEqual([['blocked', BUYER.toLowerCase()], ['active', OTHER.toLowerCase()]]);
+
+        // On the surviving chain token 1 was never blocked and token 2 was burned instead of transferred.
+        fakeNode.reorganizeAfter(1, { owners: new Map([[1, BUYER]]), blocked: new Set() });
+        fakeNode.mineEvents();
+        fakeNode.mineEvents();
+        expect(await indexLicenseEvents(chain)).toEqual({ fromBlock: 2, toBlock: 3, events: 0 });
+
+        expect(storedEvents()).toEqual([]);
+        expect(licenses()[0]).toMatchObject({ status: 'active', buyerAddress: BUYER.toLowerCase() });
+        expect(licenses()[1]).toMatchObject({ status: 'revoked', reason: 'Token does not exist (burned)' });
+    });
+
+    it('skips the pass while another process holds the cursor', async () => {
+        collections.set('indexerCursors', [{ _id: `31337:${CONTRACT_ADDRESS.toLowerCase()}`, lockedBy: 'other', lockedUntil: new Date(Date.now() + 60000) }]);
+        fakeNode.mineEvents(['LicenseBlockedStatusChanged', 1, true]);
+
+        expect(await indexLicenseEvents(chain)).toBeNull();
+        expect(storedEvents()).toEqual([]);
+    });
+});
+
+// Runs against a local Anvil or Hardhat node when ANVIL_RPC_URL is set and LICENSE_CONTRACT_ADDRESS
+// names a SoftwareLicense contract deployed there from the node's first default account.
+describe.skipIf(!process.env.ANVIL_RPC_URL || !process.env.LICENSE_CONTRACT_ADDRESS)('indexLicenseEvents against a local node', () => {
+    let provider: JsonRpcProvider;
+    let contract: Contract;
+
+    beforeAll(async () => {
+        provider = new JsonRpcProvider(process.env.ANVIL_RPC_URL, undefined, { staticNetwork: true });
+        // Anvil's and Hardhat's first default account.
+        const owner = new Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80', provider);
+        contract = new Contract(process.env.LICENSE_CONTRACT_ADDRESS!, SOFTWARE_LICENSE_ABI, owner);
+        const { chainId } = await provider.getNetwork();
+        chain = {
+            chainId: Number(chainId), name: 'Local', rpcUrl: process.env.ANVIL_RPC_URL!, contractAddress: process.env.LICENSE_CONTRACT_ADDRESS!,
+            nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }, paymentTokens: [], confirmations: 1,
+            startBlock: await provider.getBlockNumber() + 1,
+        };
+        node = provider;
+        collections.clear();
+    });
+
+    async function send(method: string, ...args: unknown[]) {
+        const receipt = await (await contract[method](...args)).wait();
+        return receipt!;
+    }
+
+    it('follows mints, blocks and burns, and recovers from a reorganization', async () => {
+        const receipt = await send('mintLicense', Wallet.createRandom().address, 'http://127.0.0.1:1/metadata.json', '');
+        const minted = receipt.logs.map((log: any) => contract.interface.parseLog(log)).find((event: any) => event?.name === 'Transfer');
+        const tokenId = Number(minted!.args.tokenId);
+        collections.set('licenses', [{ chainId: chain.chainId, tokenId, status: 'active' }]);
+        await indexLicenseEvents(chain);
+
+        const snapshot = await provider.send('evm_snapshot', []);
+        await send('blockLicense', tokenId, true);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0].status).toBe('blocked');
+        expect(storedEvents().map(([event]) => event)).toEqual(['Transfer', 'LicenseBlockedStatusChanged']);
+
+        // The block is undone by the reorganization.
+        await provider.send('evm_revert', [snapshot]);
+        await provider.send('evm_mine', []);
+        await provider.send('evm_mine', []);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0].status).toBe('active');
+        expect(storedEvents().map(([event]) => event)).toEqual(['Transfer']);
+
+        await send('revokeLicense', tokenId);
+        await indexLicenseEvents(chain);
+        expect(licenses()[0]).toMatchObject({ status: 'revoked', reason: 'Token does not exist (burned)' });
+    });
+});
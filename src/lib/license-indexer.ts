@@ -0,0 +1,384 @@
+import { randomBytes } from 'crypto';
+import { Contract, Interface, Log, ZeroAddress } from 'ethers';
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { SOFTWARE_LICENSE_ABI } from './abi';
+import { ChainConfig, chainProvider, getChains } from './chains';
+import { CHAIN_BLOCK_REASON, isNonexistentTokenError } from './license-chain';
+import { getLicensesCollection } from './license-records';
+import { completePurchase, findPurchaseForMint } from './purchases';
+import { AuthError } from './errors';
+
+/**
+ * Follows the license contract's events and keeps the `licenses` collection in
+ * step with them: a purchase's mint completes the purchase even if the buyer's browser
+ * never reported it, burns revoke the license, and block changes made on the chain show up as the
+ * license's status. Every event is stored once in `licenseEvents`, keyed by its
+ * transaction and log index, so replaying a block range never applies an event
+ * twice. Only blocks with enough confirmations are read, and the cursor keeps the
+ * hashes of recent checkpoints: when one of them is no longer on the chain, the
+ * events after the last surviving checkpoint are dropped, the tokens they touched
+ * are re-read from the contract and indexing resumes from there. Every chain in the
+ * registry with an RPC URL is followed, each with its own cursor, and licenses are
+ * matched by chain and token ID.
+ *
+ * Configuration (environment):
+ * - LICENSE_INDEXER_START_BLOCK: the block to start from when there is no cursor yet (default 0),
+ *   for chains whose registry entry has no start block.
+ * - LICENSE_INDEXER_CONFIRMATIONS: how far behind the head to stay (default 5), for chains whose
+ *   registry entry does not set its confirmations.
+ * - LICENSE_INDEXER_BATCH_SIZE: the most blocks read per log query (default 2000).
+ * - LICENSE_INDEXER_POLL_MS: the pause between passes (default 15000).
+ */
+
+type IndexedEventName = 'Transfer' | 'LicenseBlockedStatusChanged';
+
+interface Checkpoint {
+    blockNumber: number;
+    blockHash: string;
+}
+
+const INDEXED_EVENTS: IndexedEventName[] = ['Transfer', 'LicenseBlockedStatusChanged'];
+const licenseInterface = new Interface(SOFTWARE_LICENSE_ABI);
+
+// Enough checkpoints to recover from any reorganization the confirmation depth lets through.
+const MAX_CHECKPOINTS = 32;
+// With no surviving checkpoint, this many blocks are re-read.
+const FALLBACK_REWIND_BLOCKS = 256;
+// A pass that has not finished after this long is assumed dead, and another process may take over.
+const LOCK_TTL_MS = 5 * 60 * 1000;
+const METADATA_TIMEOUT_MS = 10 * 1000;
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function getIndexerConfig(chain: ChainConfig) {
+    return {
+        contractAddress: chain.contractAddress.toLowerCase(),
+        startBlock: chain.startBlock ?? numberFromEnv('LICENSE_INDEXER_START_BLOCK', 0),
+        // A chain's confirmations count the transaction's own block; the indexer counts the blocks after it.
+        confirmations: chain.confirmations !== undefined ? Math.max(chain.confirmations - 1, 0) : numberFromEnv('LICENSE_INDEXER_CONFIRMATIONS', 5),
+        batchSize: Math.max(numberFromEnv('LICENSE_INDEXER_BATCH_SIZE', 2000), 1),
+    };
+}
+
+let indexesReady: Promise<void> | null = null;
+
+async function getIndexerCollections() {
+    const client = await clientPromise;
+    const db = client.db();
+    const events = db.collection('licenseEvents');
+    const cursors = db.collection<{ _id: string; blockNumber?: number; checkpoints?: Checkpoint[]; lockedBy?: string; lockedUntil?: Date; updatedAt?: Date }>('indexerCursors');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            // An event is identified by where it was logged; storing it twice is how replays are detected.
+            events.createIndex({ chainId: 1, contractAddress: 1, transactionHash: 1, logIndex: 1 }, { unique: true }),
+            events.createIndex({ chainId: 1, contractAddress: 1, blockNumber: 1 }),
+            events.createIndex({ tokenId: 1, blockNumber: -1 }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return { events, cursors };
+}
+
+/**
+ * Reads a token's metadata and finds the software and purchase it was minted for.
+ * @returns The software ID and purchase ID, or null if the metadata cannot be read, names no
+ * software or describes a trial (trials are recorded with their device when they start).
+ */
+async function readLicenseMetadata(contract: Contract, tokenId: number): Promise<{ softwareId: ObjectId; purchaseId?: string } | null> {
+    try {
+        const metadataUrl: string = await contract.tokenURI(tokenId);
+        const response = await fetch(metadataUrl, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+        if (!response.ok) {
+            return null;
+        }
+        const metadata = await response.json();
+        const attributes: Array<{ trait_type?: string; value?: unknown }> = Array.isArray(metadata?.attributes) ? metadata.attributes : [];
+        const attribute = (name: string) => attributes.find(entry => entry?.trait_type === name)?.value;
+
+        const softwareId = attribute('Software ID');
+        const licenseType = attribute('License Type');
+        if (typeof softwareId !== 'string' || !ObjectId.isValid(softwareId) || (typeof licenseType === 'string' && licenseType.endsWith('trial'))) {
+            return null;
+        }
+        const purchaseId = attribute('Purchase ID');
+        return {
+            softwareId: new ObjectId(softwareId),
+            ...(typeof purchaseId === 'string' ? { purchaseId } : {}),
+        };
+    } catch (error) {
+        console.error(`Could not read the metadata of token ${tokenId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Re-reads a token from the contract and sets its license's owner and status to match.
+ * Used for tokens whose events were dropped by a reorganization.
+ */
+async function refreshToken(contract: Contract, chainId: number, tokenId: number): Promise<void> {
+    const licenses = await getLicensesCollection();
+    let owner: string;
+    try {
+        owner = await contract.ownerOf(tokenId);
+    } catch (error) {
+        if (!isNonexistentTokenError(error)) {
+            throw error;
+        }
+        // The token does not exist on the surviving chain.
+        await licenses.updateOne(
+            { chainId, tokenId, status: { $ne: 'revoked' } },
+            { $set: { status: 'revoked', reason: 'Token does not exist (burned)', lastViolationDate: new Date() } }
+        );
+        return;
+    }
+    const isBlocked: boolean = await contract.isLicenseBlocked(tokenId);
+    await licenses.updateOne({ chainId, tokenId }, { $set: { buyerAddress: owner.toLowerCase() } });
+    if (isBlocked) {
+        await licenses.updateOne(
+            { chainId, tokenId, status: 'active' },
+            { $set: { status: 'blocked', reason: CHAIN_BLOCK_REASON, lastViolationDate: new Date() } }
+        );
+    } else {
+        await licenses.updateOne(
+            { chainId, tokenId, status: 'blocked', reason: CHAIN_BLOCK_REASON },
+            { $set: { status: 'active' }, $unset: { reason: '', lastViolationDate: '' } }
+        );
+    }
+}
+
+/**
+ * Applies one event to the `licenses` collection.
+ */
+async function applyEvent(contract: Contract, chainId: number, name: IndexedEventName, args: Record<string, any>, log: Log): Promise<void> {
+    const licenses = await getLicensesCollection();
+    const tokenId = Number(args.tokenId);
+
+    if (name === 'Transfer') {
+        if (args.from === ZeroAddress) {
+            if (await licenses.findOne({ chainId, tokenId }, { projection: { _id: 1 } })) {
+                return; // Recorded by the buyer's browser already.
+            }
+            // Only a mint by a verified purchase transaction becomes a license.
+            const metadata = await readLicenseMetadata(contract, tokenId);
+            const purchase = metadata && await findPurchaseForMint(chainId, metadata.softwareId, args.to, metadata.purchaseId);
+            if (!purchase || (purchase.status !== 'pending' && purchase.status !== 'minted')) {
+                console.warn(`License indexer: token ${tokenId} does not complete an open purchase; it is not recorded.`);
+                return;
+            }
+            try {
+                await completePurchase(purchase, { transactionHash: log.transactionHash, tokenId });
+            } catch (error) {
+                // Blockchain and database errors, and a transaction still confirming, are retried on the
+                // next pass; a mismatch never will succeed.
+                if (!(error instanceof AuthError) || error.code === 'TRANSACTION_PENDING') {
+                    throw error;
+                }
+                console.warn(`License indexer: token ${tokenId} could not complete purchase ${purchase._id}: ${error.message}`);
+            }
+        } else if (args.to === ZeroAddress) {
+            // A license the seller revoked keeps its own reason.
+            await licenses.updateOne(
+                { chainId, tokenId, status: { $ne: 'revoked' } },
+                { $set: { status: 'revoked', reason: 'Token does not exist (burned)', lastViolationDate: new Date() } }
+            );
+        } else {
+            await licenses.updateOne({ chainId, tokenId }, { $set: { buyerAddress: String(args.to).toLowerCase() } });
+        }
+    } else {
+        if (args.isBlocked) {
+            await licenses.updateOne(
+                { chainId, tokenId, status: 'active' },
+                { $set: { status: 'blocked', reason: CHAIN_BLOCK_REASON, lastViolationDate: new Date() } }
+            );
+        } else {
+            // Only blocks that came from the chain are lifted here; the seller lifts their own from the manage page.
+            await licenses.updateOne(
+                { chainId, tokenId, status: 'blocked', reason: CHAIN_BLOCK_REASON },
+                { $set: { status: 'active' }, $unset: { reason: '', lastViolationDate: '' } }
+            );
+        }
+    }
+}
+
+/**
+ * Drops the stored events after a block and re-reads the tokens they touched.
+ */
+async function rollBackTo(contract: Contract, chainId: number, contractAddress: string, blockNumber: number): Promise<void> {
+    const { events } = await getIndexerCollections();
+    const filter = { chainId, contractAddress, blockNumber: { $gt: blockNumber } };
+    const tokenIds: number[] = await events.distinct('tokenId', filter);
+    await events.deleteMany(filter);
+    for (const tokenId of tokenIds) {
+        await refreshToken(contract, chainId, tokenId);
+    }
+    console.warn(`License indexer: chain reorganization, rolled back to block ${blockNumber} and refreshed ${tokenIds.length} tokens.`);
+}
+
+/**
+ * Runs one indexing pass on a chain: checks for a reorganization, then reads and applies every
+ * confirmed event since the cursor. Does nothing if another process is in the middle of a pass.
+ * @param chain The chain to index.
+ * @returns The block range read, or null if the pass was skipped or there was nothing new.
+ */
+export async function indexLicenseEvents(chain: ChainConfig): Promise<{ fromBlock: number; toBlock: number; events: number } | null> {
+    const config = getIndexerConfig(chain);
+    const provider = chainProvider(chain);
+    const contract = new Contract(config.contractAddress, SOFTWARE_LICENSE_ABI, provider);
+    const chainId = chain.chainId;
+    const { events, cursors } = await getIndexerCollections();
+
+    // The cursor doubles as a lock, so two server processes never index at the same time.
+    const cursorId = `${chainId}:${config.contractAddress}`;
+    const lockedBy = randomBytes(8).toString('hex');
+    const now = new Date();
+    try {
+        await cursors.updateOne(
+            { _id: cursorId, $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }] },
+            { $set: { lockedBy, lockedUntil: new Date(now.getTime() + LOCK_TTL_MS) } },
+            { upsert: true }
+        );
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            return null;
+        }
+        throw error;
+    }
+
+    try {
+        let cursor = await cursors.findOne({ _id: cursorId, lockedBy });
+        if (!cursor) {
+            return null;
+        }
+        let checkpoints = cursor.checkpoints || [];
+        let lastBlock = cursor.blockNumber ?? config.startBlock - 1;
+
+        // Reorganization check: the newest checkpoint still on the chain is where indexing resumes.
+        if (checkpoints.length > 0) {
+            let survivor = -1;
+            for (let i = checkpoints.length - 1; i >= 0; i--) {
+                const block = await provider.getBlock(checkpoints[i].blockNumber);
+                if (block?.hash === checkpoints[i].blockHash) {
+                    survivor = i;
+                    break;
+                }
+            }
+            if (survivor !== checkpoints.length - 1) {
+                const rewindTo = survivor >= 0
+                    ? checkpoints[survivor].blockNumber
+                    : Math.max(lastBlock - FALLBACK_REWIND_BLOCKS, config.startBlock - 1);
+                await rollBackTo(contract, chainId, config.contractAddress, rewindTo);
+                checkpoints = checkpoints.slice(0, survivor + 1);
+                lastBlock = rewindTo;
+            }
+        }
+
+        const head = await provider.getBlockNumber();
+        const target = head - config.confirmations;
+        if (target <= lastBlock) {
+            await cursors.updateOne({ _id: cursorId, lockedBy }, { $set: { blockNumber: lastBlock, checkpoints, updatedAt: new Date() } });
+            return null;
+        }
+
+        const fromBlock = lastBlock + 1;
+        let applied = 0;
+        while (lastBlock < target) {
+            const batchFrom = lastBlock + 1;
+            const batchTo = Math.min(batchFrom + config.batchSize - 1, target);
+            const logs = await provider.getLogs({
+                address: config.contractAddress,
+                fromBlock: batchFrom,
+                toBlock: batchTo,
+                topics: [INDEXED_EVENTS.map(name => licenseInterface.getEvent(name)!.topicHash)],
+            });
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+            for (const log of logs) {
+                const parsed = licenseInterface.parseLog(log);
+                if (!parsed) {
+                    continue;
+                }
+                const name = parsed.name as IndexedEventName;
+                const args: Record<string, any> = {};
+                parsed.fragment.inputs.forEach((input, i) => {
+                    args[input.name] = parsed.args[i];
+                });
+
+                const eventKey = { chainId, contractAddress: config.contractAddress, transactionHash: log.transactionHash, logIndex: log.index };
+                if (await events.findOne(eventKey, { projection: { _id: 1 } })) {
+                    continue; // Applied on an earlier pass.
+                }
+
+                // Applying is safe to repeat, so the event is stored only once it has been applied:
+                // a pass that fails in between applies it again next time.
+                await applyEvent(contract, chainId, name, args, log);
+                try {
+                    await events.insertOne({
+                        ...eventKey,
+                        blockNumber: log.blockNumber,
+                        blockHash: log.blockHash,
+                        event: name,
+                        tokenId: Number(args.tokenId),
+                        args: Object.fromEntries(Object.entries(args).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])),
+                        indexedAt: new Date(),
+                    });
+                } catch (error: any) {
+                    if (error?.code !== 11000) {
+                        throw error;
+                    }
+                }
+                applied++;
+            }
+
+            const batchEnd = await provider.getBlock(batchTo);
+            if (!batchEnd?.hash) {
+                throw new Error(`Block ${batchTo} could not be read.`);
+            }
+            checkpoints = [...checkpoints, { blockNumber: batchTo, blockHash: batchEnd.hash }].slice(-MAX_CHECKPOINTS);
+            lastBlock = batchTo;
+            await cursors.updateOne(
+                { _id: cursorId, lockedBy },
+                { $set: { blockNumber: lastBlock, checkpoints, updatedAt: new Date(), lockedUntil: new Date(Date.now() + LOCK_TTL_MS) } }
+            );
+        }
+
+        return { fromBlock, toBlock: lastBlock, events: applied };
+    } finally {
+        await cursors.updateOne({ _id: cursorId, lockedBy }, { $unset: { lockedBy: '', lockedUntil: '' } });
+    }
+}
+
+let indexerStarted = false;
+
+/**
+ * Starts indexing in the background of the current server process, one pass over every chain
+ * every LICENSE_INDEXER_POLL_MS. A failed pass is logged and retried on the next one.
+ */
+export function startLicenseIndexer(): void {
+    if (indexerStarted) {
+        return;
+    }
+    indexerStarted = true;
+    const pollMs = Math.max(numberFromEnv('LICENSE_INDEXER_POLL_MS', 15000), 1000);
+    const chains = getChains().filter(chain => chain.rpcUrl);
+    if (chains.length === 0) {
+        console.error("License indexer: no chain has an RPC URL; nothing is indexed.");
+        return;
+    }
+
+    const runPass = async () => {
+        // One chain at a time; a chain whose node is down does not hold up the others.
+        for (const chain of chains) {
+            try {
+                await indexLicenseEvents(chain);
+            } catch (error) {
+                console.error(`License indexer pass on ${chain.name} failed:`, error);
+            }
+        }
+        setTimeout(runPass, pollMs);
+    };
+    runPass();
+}
@@ -0,0 +1,109 @@
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+import { LEGACY_CHAIN_ID } from './chains';
+import { normalizeIp } from './ip';
+import { licenseExpiry, normalizeLicenseTerms, normalizeUpdateDays, updatesUntil } from './license-terms';
+
+/**
+ * Creation of paid license records. A purchase can be completed twice: by the
+ * buyer's browser right after minting, and by the chain indexer when it sees the
+ * mint. Both go through recordPaidLicense, which inserts the license only if its
+ * token has no record yet, so whichever comes second leaves the first one alone.
+ * Token IDs are only unique per chain, so a token is identified by its `chainId`
+ * and `tokenId` together.
+ */
+
+let indexesReady: Promise<void> | null = null;
+
+/**
+ * The licenses collection, with its unique token index. Licenses from before chains were
+ * recorded are moved to the legacy chain first.
+ */
+export async function getLicensesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('licenses');
+    if (!indexesReady) {
+        // One record per token. Existing duplicates would keep the index from building; the upsert
+        // below still avoids creating new ones, so that is logged rather than failing every purchase.
+        indexesReady = collection.updateMany({ chainId: { $exists: false } }, { $set: { chainId: LEGACY_CHAIN_ID } })
+            .then(() => collection.dropIndex('tokenId_1').catch(() => undefined))
+            .then(() => collection.createIndex({ chainId: 1, tokenId: 1 }, { unique: true }))
+            .then(() => undefined)
+            .catch(error => console.error("Could not create the unique license token index:", error));
+    }
+    await indexesReady;
+    return collection;
+}
+
+export interface PaidLicenseData {
+    buyerAddress: string;
+    chainId: number;
+    tokenId: number;
+    transactionHash: string;
+    mintDate: Date;
+    metadataUrl?: string;
+    buyerIp?: string;
+    seats: number;
+    purchaseId?: ObjectId;
+}
+
+/**
+ * Records a paid license for a token, unless the token already has a record.
+ * @param software The software the license was bought for.
+ * @param data The minted token and the purchase details.
+ * @returns True if the license was recorded now, false if the token was already recorded.
+ * @throws If the software is IP-locked and the token's lock is not a valid IP address.
+ */
+export async function recordPaidLicense(software: WithId<Document>, data: PaidLicenseData): Promise<boolean> {
+    // An empty lock would leave the license usable from anywhere.
+    const buyerIp = data.buyerIp ? normalizeIp(data.buyerIp) : null;
+    if (software.licensingRules?.ipLock && !buyerIp) {
+        throw new AuthError('TRANSACTION_MISMATCH', "The license was minted without a valid IP lock, which this software requires.", 400);
+    }
+
+    const licenses = await getLicensesCollection();
+
+    // The terms are copied onto the license, so later changes to the listing do not affect it.
+    const terms = normalizeLicenseTerms(software.licenseType, software.termDays);
+
+    const licenseId = new ObjectId();
+    const newLicense = {
+        _id: licenseId,
+        softwareId: software._id,
+        softwareTitle: software.title,
+        buyerAddress: data.buyerAddress.toLowerCase(),
+        chainId: data.chainId,
+        tokenId: data.tokenId,
+        transactionHash: data.transactionHash,
+        mintDate: data.mintDate,
+        licenseType: terms.type,
+        termDays: terms.termDays,
+        expiresAt: licenseExpiry(terms, data.mintDate), // null for perpetual licenses
+        updatesUntil: updatesUntil(normalizeUpdateDays(software.licensingRules?.updateDays), data.mintDate), // null when every release is covered
+        metadataUrl: data.metadataUrl,
+        buyerIp: buyerIp || "", // Store the IP if provided, otherwise empty string
+        seats: data.seats, // Number of devices the license may be bound to
+        devices: [],
+        status: 'active', // Initial status
+        ...(data.purchaseId ? { purchaseId: data.purchaseId } : {}),
+    };
+
+    const existing = await licenses.findOne({ chainId: data.chainId, tokenId: data.tokenId }, { projection: { _id: 1 } });
+    if (existing) {
+        return false;
+    }
+    try {
+        const result = await licenses.updateOne(
+            { chainId: data.chainId, tokenId: data.tokenId },
+            { $setOnInsert: newLicense },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            return false;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+    isLicenseExpired,
+    isRenewable,
+    licenseExpiry,
+    licenseMetadataAttributes,
+    normalizeDeviceResetPolicy,
+    normalizeLicenseTerms,
+    normalizeUpdateDays,
+    renewedExpiry,
+    updatesUntil,
+} from './license-terms';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-03-01T12:00:00Z');
+const daysFrom = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+describe('normalizeLicenseTerms', () => {
+    it('keeps valid terms and fills in the default length', () => {
+        expect(normalizeLicenseTerms('fixed-term', 90)).toEqual({ type: 'fixed-term', termDays: 90 });
+        expect(normalizeLicenseTerms('subscription')).toEqual({ type: 'subscription', termDays: 30 });
+        expect(normalizeLicenseTerms('fixed-term', 1.5)).toEqual({ type: 'fixed-term', termDays: 365 });
+        expect(normalizeLicenseTerms('subscription', -7)).toEqual({ type: 'subscription', termDays: 30 });
+    });
+
+    it('reads older and unknown license types as perpetual', () => {
+        expect(normalizeLicenseTerms('lifetime')).toEqual({ type: 'perpetual' });
+        expect(normalizeLicenseTerms('single-use', 30)).toEqual({ type: 'perpetual' });
+        expect(normalizeLicenseTerms(undefined)).toEqual({ type: 'perpetual' });
+    });
+});
+
+describe('expiry', () => {
+    it('never expires perpetual licenses', () => {
+        expect(licenseExpiry({ type: 'perpetual' }, now)).toBeNull();
+        expect(isLicenseExpired(null, now)).toBe(false);
+    });
+
+    it('ends a term after its length', () => {
+        const expiresAt = licenseExpiry({ type: 'fixed-term', termDays: 30 }, now);
+        expect(expiresAt).toEqual(daysFrom(now, 30));
+        expect(isLicenseExpired(expiresAt, daysFrom(now, 29))).toBe(false);
+        expect(isLicenseExpired(expiresAt, daysFrom(now, 30))).toBe(true);
+        expect(isLicenseExpired(expiresAt!.toISOString(), daysFrom(now, 31))).toBe(true);
+    });
+
+    it('only renews subscriptions', () => {
+        expect(isRenewable({ type: 'subscription', termDays: 30 })).toBe(true);
+        expect(isRenewable({ type: 'fixed-term', termDays: 30 })).toBe(false);
+        expect(isRenewable({ type: 'perpetual' })).toBe(false);
+    });
+
+    it('extends an active subscription from its expiry and restarts a lapsed one from now', () => {
+        const terms = { type: 'subscription' as const, termDays: 30 };
+        expect(renewedExpiry(terms, daysFrom(now, 10), now)).toEqual(daysFrom(now, 40));
+        expect(renewedExpiry(terms, daysFrom(now, -10), now)).toEqual(daysFrom(now, 30));
+        expect(renewedExpiry(terms, null, now)).toEqual(daysFrom(now, 30));
+    });
+
+    it('describes the expiry as a date attribute in Unix seconds', () => {
+        const expiresAt = daysFrom(now, 30);
+        expect(licenseMetadataAttributes({ type: 'fixed-term', termDays: 30 }, expiresAt)).toEqual([
+            { trait_type: 'License Type', value: '30-day license' },
+            { display_type: 'date', trait_type: 'Expires', value: expiresAt.getTime() / 1000 },
+        ]);
+    });
+});
+
+describe('update coverage', () => {
+    it('covers every release unless the listing limits it', () => {
+        expect(normalizeUpdateDays(undefined)).toBeUndefined();
+        expect(normalizeUpdateDays(0)).toBeUndefined();
+        expect(normalizeUpdateDays(2.5)).toBeUndefined();
+        expect(normalizeUpdateDays(365)).toBe(365);
+        expect(updatesUntil(undefined, now)).toBeNull();
+    });
+
+    it('covers releases for the listed days, extending rather than shortening on renewal', () => {
+        expect(updatesUntil(365, now)).toEqual(daysFrom(now, 365));
+        expect(updatesUntil(365, now, daysFrom(now, 100))).toEqual(daysFrom(now, 465));
+        expect(updatesUntil(365, now, daysFrom(now, -100))).toEqual(daysFrom(now, 365));
+    });
+});
+
+describe('normalizeDeviceResetPolicy', () => {
+    it('falls back to the default for each missing or invalid value', () => {
+        expect(normalizeDeviceResetPolicy(null)).toEqual({ allowance: 2, periodDays: 365, cooldownHours: 24 });
+        expect(normalizeDeviceResetPolicy({ allowance: 0, periodDays: 0, cooldownHours: 1.5 })).toEqual({ allowance: 0, periodDays: 365, cooldownHours: 24 });
+        expect(normalizeDeviceResetPolicy({ allowance: 5, periodDays: 30, cooldownHours: 0 })).toEqual({ allowance: 5, periodDays: 30, cooldownHours: 0 });
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * License terms shared by the browser (listing, purchase and renewal screens)
+ * and the server (which stores `expiresAt` on each license and enforces it).
+ */
+
+export type LicenseTermType = 'perpetual' | 'fixed-term' | 'subscription';
+
+export const LICENSE_TERM_TYPES: LicenseTermType[] = ['perpetual', 'fixed-term', 'subscription'];
+
+export interface LicenseTerms {
+    type: LicenseTermType;
+    // Length of a fixed term, or of one subscription period. Unused for perpetual licenses.
+    termDays?: number;
+}
+
+export const DEFAULT_TERM_DAYS: Record<Exclude<LicenseTermType, 'perpetual'>, number> = {
+    'fixed-term': 365,
+    subscription: 30,
+};
+
+// Offered on the upload form when a seller turns trials on.
+export const DEFAULT_TRIAL_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the terms a software was listed with. Listings created before terms were
+ * enforced used the values "lifetime" and "single-use", which are both perpetual.
+ * @param licenseType The stored license type.
+ * @param termDays The stored term length, if any.
+ * @returns The normalized terms.
+ */
+export function normalizeLicenseTerms(licenseType?: string, termDays?: number): LicenseTerms {
+    if (licenseType === 'fixed-term' || licenseType === 'subscription') {
+        const days = Number(termDays);
+        return { type: licenseType, termDays: Number.isInteger(days) && days > 0 ? days : DEFAULT_TERM_DAYS[licenseType] };
+    }
+    return { type: 'perpetual' };
+}
+
+/**
+ * Computes when a license bought at `from` expires.
+ * @returns The expiry date, or null for perpetual licenses.
+ */
+export function licenseExpiry(terms: LicenseTerms, from: Date): Date | null {
+    if (terms.type === 'perpetual' || !terms.termDays) {
+        return null;
+    }
+    return new Date(from.getTime() + terms.termDays * DAY_MS);
+}
+
+/**
+ * Only subscriptions are renewed; a fixed term ends and a new license is bought instead.
+ */
+export function isRenewable(terms: LicenseTerms): boolean {
+    return terms.type === 'subscription';
+}
+
+/**
+ * Computes the expiry after one renewal. A lapsed subscription restarts from now,
+ * an active one is extended from its current expiry so no paid time is lost.
+ */
+export function renewedExpiry(terms: LicenseTerms, currentExpiry: Date | null, now: Date = new Date()): Date | null {
+    const from = currentExpiry && currentExpiry > now ? currentExpiry : now;
+    return licenseExpiry(terms, from);
+}
+
+/**
+ * Reads how many days of new releases a listing includes with a license.
+ * @returns The number of days, or undefined if every future release is included.
+ */
+export function normalizeUpdateDays(updateDays?: number | null): number | undefined {
+    const days = Number(updateDays);
+    return Number.isInteger(days) && days > 0 ? days : undefined;
+}
+
+/**
+ * Computes the last release date a license bought, renewed or upgraded at `from` covers.
+ * @param updateDays The listing's update coverage, from normalizeUpdateDays.
+ * @param currentEnd The license's current coverage end, which a renewal extends rather than shortens.
+ * @returns The coverage end, or null if the license covers every future release.
+ */
+export function updatesUntil(updateDays: number | undefined, from: Date, currentEnd?: Date | null): Date | null {
+    if (!updateDays) {
+        return null;
+    }
+    const start = currentEnd && currentEnd > from ? currentEnd : from;
+    return new Date(start.getTime() + updateDays * DAY_MS);
+}
+
+export function trialExpiry(trialDays: number, from: Date): Date {
+    return new Date(from.getTime() + trialDays * DAY_MS);
+}
+
+export function isLicenseExpired(expiresAt: Date | string | null | undefined, now: Date = new Date()): boolean {
+    return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
+
+export function describeLicenseTerms(terms: LicenseTerms): string {
+    switch (terms.type) {
+        case 'fixed-term':
+            return `${terms.termDays}-day license`;
+        case 'subscription':
+            return `Subscription (renews every ${terms.termDays} days)`;
+        default:
+            return 'Perpetual license';
+    }
+}
+
+/**
+ * Builds the NFT metadata attributes describing a license's terms. The expiry uses
+ * the `date` display type (Unix seconds) that NFT marketplaces render as a date.
+ */
+export function licenseMetadataAttributes(terms: LicenseTerms, expiresAt: Date | null): Array<{ trait_type: string; value: string | number; display_type?: string }> {
+    const attributes: Array<{ trait_type: string; value: string | number; display_type?: string }> = [
+        { trait_type: "License Type", value: describeLicenseTerms(terms) },
+    ];
+    if (expiresAt) {
+        attributes.push({ display_type: "date", trait_type: "Expires", value: Math.floor(expiresAt.getTime() / 1000) });
+    }
+    return attributes;
+}
+
+/**
+ * Builds the NFT metadata attributes for a trial license.
+ */
+export function trialMetadataAttributes(trialDays: number, expiresAt: Date): Array<{ trait_type: string; value: string | number; display_type?: string }> {
+    return [
+        { trait_type: "License Type", value: `${trialDays}-day trial` },
+        { display_type: "date", trait_type: "Expires", value: Math.floor(expiresAt.getTime() / 1000) },
+    ];
+}
+
+/**
+ * How often a buyer may move a device-locked license to another device without
+ * asking the seller: `allowance` resets per `periodDays`, at least `cooldownHours`
+ * apart. Requests beyond the allowance wait for the seller's approval.
+ */
+export interface DeviceResetPolicy {
+    allowance: number;
+    periodDays: number;
+    cooldownHours: number;
+}
+
+// Applied to listings created before sellers could set their own policy.
+export const DEFAULT_DEVICE_RESET_POLICY: DeviceResetPolicy = { allowance: 2, periodDays: 365, cooldownHours: 24 };
+
+/**
+ * Reads a listing's device reset policy, falling back to the default for any value that is missing or invalid.
+ */
+export function normalizeDeviceResetPolicy(policy?: Partial<DeviceResetPolicy> | null): DeviceResetPolicy {
+    const read = (value: unknown, fallback: number, min: number) => {
+        const number = Number(value);
+        return Number.isInteger(number) && number >= min ? number : fallback;
+    };
+    return {
+        allowance: read(policy?.allowance, DEFAULT_DEVICE_RESET_POLICY.allowance, 0),
+        periodDays: read(policy?.periodDays, DEFAULT_DEVICE_RESET_POLICY.periodDays, 1),
+        cooldownHours: read(policy?.cooldownHours, DEFAULT_DEVICE_RESET_POLICY.cooldownHours, 0),
+    };
+}
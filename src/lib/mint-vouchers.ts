@@ -0,0 +1,179 @@
+import { randomBytes } from 'crypto';
+import { Contract, getAddress, JsonRpcProvider, TransactionReceipt, Wallet, ZeroAddress } from 'ethers';
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+import { SOFTWARE_LICENSE_ABI } from './abi';
+import { ChainConfig, chainProvider, recordChainId, requireChain } from './chains';
+import { MINT_VOUCHER_TYPES, MintVoucher, mintVoucherDomain } from './typed-data';
+
+/**
+ * Mint vouchers. Licenses that are not bought through the contract's purchaseLicense,
+ * such as trials, are minted by the buyers themselves, who pay the gas, with a voucher
+ * signed by the platform. The voucher fixes the buyer, product, price, seats, metadata
+ * and IP lock, expires after a few minutes, and its nonce can be redeemed once on the
+ * contract of the chain it was signed for (`chainId`). Every voucher issued is kept in `mintVouchers`, and a mint is only
+ * accepted once its redemption is found in a confirmed transaction.
+ *
+ * Vouchers are signed with MINT_VOUCHER_SIGNER_KEY, or else with the relayer's platform
+ * key, which the contract trusts until setVoucherSigner names another account.
+ */
+
+export type VoucherPurpose = 'trial';
+
+// How long a buyer has to redeem a voucher.
+const VOUCHER_TTL_MS = 15 * 60 * 1000;
+// How many blocks must follow a redemption before it counts as confirmed, unless the chain sets its own.
+const REDEMPTION_CONFIRMATIONS = Number(process.env.PURCHASE_CONFIRMATIONS) || 2;
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getVouchersCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('mintVouchers');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ nonce: 1 }, { unique: true }),
+            collection.createIndex({ buyerAddress: 1, issuedAt: -1 }),
+            collection.createIndex({ transactionHash: 1 }, { unique: true, partialFilterExpression: { transactionHash: { $exists: true } } }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+function getVoucherSigner(): Wallet {
+    const key = process.env.MINT_VOUCHER_SIGNER_KEY || process.env.RELAYER_PRIVATE_KEY;
+    if (!key) {
+        throw new Error("Server is not configured to sign mint vouchers.");
+    }
+    return new Wallet(key);
+}
+
+/**
+ * Signs and stores a voucher that lets a buyer mint one license.
+ * @param options The software and its product ID on the contract (see softwareProductId), the chain to mint on,
+ * the buyer's wallet, why the voucher is issued, and what it mints. The price, if any, is in `paymentToken`
+ * (the native currency when unset), which must be the product's.
+ * Anything in `context` (e.g. the trial's device) is stored with the voucher.
+ * @returns The voucher and the platform's signature, to pass to redeemMintVoucher.
+ */
+export async function issueMintVoucher(options: {
+    softwareId: ObjectId;
+    productId: string;
+    chain: ChainConfig;
+    buyerAddress: string;
+    purpose: VoucherPurpose;
+    price?: bigint;
+    paymentToken?: string | null;
+    seats: number;
+    tokenURI: string;
+    ipAddress?: string;
+    context?: Document;
+}): Promise<{ voucher: MintVoucher; signature: string }> {
+    const vouchers = await getVouchersCollection();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + VOUCHER_TTL_MS);
+
+    const voucher: MintVoucher = {
+        buyer: getAddress(options.buyerAddress),
+        productId: options.productId,
+        price: (options.price ?? BigInt(0)).toString(),
+        paymentToken: options.paymentToken ? getAddress(options.paymentToken) : ZeroAddress,
+        seats: options.seats.toString(),
+        tokenURI: options.tokenURI,
+        ipAddress: options.ipAddress || '',
+        expiry: Math.floor(expiresAt.getTime() / 1000).toString(),
+        nonce: BigInt(`0x${randomBytes(32).toString('hex')}`).toString(),
+    };
+    const signature = await getVoucherSigner().signTypedData(
+        mintVoucherDomain(BigInt(options.chain.chainId), options.chain.contractAddress),
+        MINT_VOUCHER_TYPES,
+        voucher
+    );
+
+    await vouchers.insertOne({
+        ...options.context,
+        nonce: voucher.nonce,
+        softwareId: options.softwareId,
+        chainId: options.chain.chainId,
+        buyerAddress: options.buyerAddress.toLowerCase(),
+        purpose: options.purpose,
+        voucher,
+        status: 'issued',
+        issuedAt: now,
+        expiresAt,
+    });
+
+    return { voucher, signature };
+}
+
+// Waits for a transaction to be mined and confirmed. Null means it is not confirmed yet.
+async function waitForConfirmedReceipt(chain: ChainConfig, provider: JsonRpcProvider, transactionHash: string): Promise<TransactionReceipt | null> {
+    try {
+        return await provider.waitForTransaction(transactionHash, chain.confirmations ?? REDEMPTION_CONFIRMATIONS, CONFIRMATION_TIMEOUT_MS);
+    } catch (error: any) {
+        if (error?.code === 'TIMEOUT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Verifies a voucher's redemption on the chain and marks the voucher redeemed.
+ * Reporting the same redemption again returns the same result.
+ * @param nonce The voucher's nonce.
+ * @param buyerAddress The wallet the voucher was issued to.
+ * @param transactionHash The redeemMintVoucher transaction.
+ * @returns The voucher record, with the minted token and when it was minted.
+ * @throws If the voucher is unknown or was redeemed by another transaction, or the transaction is
+ * not confirmed yet or did not redeem it.
+ */
+export async function confirmVoucherRedemption(nonce: string, buyerAddress: string, transactionHash: string): Promise<WithId<Document>> {
+    const vouchers = await getVouchersCollection();
+    const hash = transactionHash.toLowerCase();
+    const record = await vouchers.findOne({ nonce, buyerAddress: buyerAddress.toLowerCase() });
+    if (!record) {
+        throw new AuthError('VOUCHER_NOT_YOURS', "This mint voucher was not issued to your wallet.", 403);
+    }
+    if (record.status === 'redeemed') {
+        if (record.transactionHash !== hash) {
+            throw new AuthError('VOUCHER_REDEEMED', "This mint voucher was already redeemed.", 409);
+        }
+        return record;
+    }
+
+    const chain = requireChain(recordChainId(record));
+    const provider = chainProvider(chain);
+    const receipt = await waitForConfirmedReceipt(chain, provider, hash);
+    if (!receipt) {
+        throw new AuthError('TRANSACTION_PENDING', "The mint is not confirmed yet. Please try again in a minute.", 409);
+    }
+    if (receipt.status !== 1) {
+        throw new AuthError('TRANSACTION_FAILED', "The mint transaction failed on the blockchain.", 400);
+    }
+
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, provider);
+    const contractAddress = chain.contractAddress.toLowerCase();
+    const redemption = receipt.logs
+        .filter(log => log.address.toLowerCase() === contractAddress)
+        .map(log => contract.interface.parseLog(log))
+        .find(parsed => parsed?.name === 'MintVoucherRedeemed' && parsed.args.nonce.toString() === nonce);
+    if (!redemption || redemption.args.buyer.toLowerCase() !== record.buyerAddress) {
+        throw new AuthError('TRANSACTION_MISMATCH', "The transaction did not redeem this mint voucher.", 400);
+    }
+
+    const block = await provider.getBlock(receipt.blockNumber);
+    const redeemed = await vouchers.findOneAndUpdate(
+        { _id: record._id, status: 'issued' },
+        { $set: { status: 'redeemed', transactionHash: hash, tokenId: Number(redemption.args.tokenId), mintDate: block ? new Date(block.timestamp * 1000) : new Date() } },
+        { returnDocument: 'after' }
+    );
+    if (!redeemed) {
+        // Another request confirmed it in the meantime.
+        return confirmVoucherRedemption(nonce, buyerAddress, transactionHash);
+    }
+    return redeemed;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePrice, tokenAmount, type PaymentToken } from './payment-tokens';
+
+const ether: PaymentToken = { address: null, symbol: 'ETH', decimals: 18 };
+const usdc: PaymentToken = { address: '0x41e94eb019c0762f9bfcf9fb1e58725bfb0e7582', symbol: 'USDC', decimals: 6 };
+
+describe('tokenAmount', () => {
+    it('keeps short prices exact at 18 decimals', () => {
+        expect(tokenAmount(0.1, ether)).toBe(BigInt('100000000000000000'));
+        expect(tokenAmount(0.1, ether, 3)).toBe(BigInt('300000000000000000'));
+    });
+
+    it('reads prices JavaScript prints in exponent form', () => {
+        expect(tokenAmount(1e-7, ether)).toBe(BigInt('100000000000'));
+        expect(tokenAmount(1e20, usdc)).toBe(BigInt('100000000000000000000000000'));
+    });
+
+    it('rounds digits beyond the token decimals', () => {
+        expect(tokenAmount(0.1234567, usdc)).toBe(BigInt(123457));
+    });
+
+    it('treats negative prices as free and refuses ones it cannot represent', () => {
+        expect(tokenAmount(-5, usdc)).toBe(BigInt(0));
+        expect(() => tokenAmount(1e21, usdc)).toThrow();
+        expect(() => tokenAmount(NaN, usdc)).toThrow();
+    });
+});
+
+describe('normalizePrice', () => {
+    it('rounds a price to the token decimals', () => {
+        expect(normalizePrice('12.3456789', usdc)).toBe(12.345679);
+        expect(normalizePrice(0.1, ether)).toBe(0.1);
+        expect(normalizePrice(0, usdc)).toBe(0);
+    });
+
+    it('refuses prices that are not numbers, negative, too large or below the smallest unit', () => {
+        expect(normalizePrice('abc', usdc)).toBeNull();
+        expect(normalizePrice(-1, usdc)).toBeNull();
+        expect(normalizePrice(1e21, usdc)).toBeNull();
+        expect(normalizePrice(Infinity, usdc)).toBeNull();
+        expect(normalizePrice(0.0000001, usdc)).toBeNull();
+    });
+});
@@ -0,0 +1,107 @@
+import { formatUnits, parseUnits } from 'ethers';
+import type { ChainConfig } from './chains';
+
+/**
+ * The currencies listings can be priced in, shared by the browser (price display and
+ * payments) and the server (which checks that payments were made in them). Besides
+ * each chain's native currency, the chain registry can configure ERC-20 tokens such as
+ * USDC per chain, so sellers' revenue does not swing with the native token's price.
+ * A listing's price on a chain keeps its token's address in `paymentToken`; prices
+ * without one are in the chain's native currency.
+ *
+ * A token with a `permitVersion` (the version of its EIP-712 domain, e.g. "2" for USDC)
+ * supports EIP-2612 permits. Without it, buyers approve the license contract in a
+ * separate transaction.
+ */
+
+export interface PaymentToken {
+    // Null for the chain's native currency.
+    address: string | null;
+    symbol: string;
+    decimals: number;
+    permitVersion?: string;
+}
+
+/**
+ * A chain's native currency as a payment token.
+ */
+export function nativePaymentToken(chain: ChainConfig): PaymentToken {
+    return { address: null, symbol: chain.nativeCurrency.symbol, decimals: chain.nativeCurrency.decimals };
+}
+
+/**
+ * The currencies sellers can choose from on a chain, native first.
+ */
+export function getPaymentTokens(chain: ChainConfig): PaymentToken[] {
+    return [nativePaymentToken(chain), ...chain.paymentTokens];
+}
+
+/**
+ * Looks up the currency a price is in.
+ * @param chain The chain the price is for.
+ * @param address The price's `paymentToken`; empty for the native currency.
+ * @returns The token, or null if the address is not one of the chain's tokens.
+ */
+export function findPaymentToken(chain: ChainConfig, address?: string | null): PaymentToken | null {
+    if (!address) {
+        return nativePaymentToken(chain);
+    }
+    return chain.paymentTokens.find(token => token.address?.toLowerCase() === address.toLowerCase()) || null;
+}
+
+/**
+ * Like findPaymentToken, for display: an unknown chain or token is shown as a generic one rather than failing.
+ */
+export function displayPaymentToken(chain: ChainConfig | null, address?: string | null): PaymentToken {
+    return (chain && findPaymentToken(chain, address)) || { address: address || null, symbol: address ? 'tokens' : 'native', decimals: 18 };
+}
+
+// Prices from 1e21 up print in exponent form even with toFixed, which parseUnits cannot read.
+const MAX_PRICE = 1e21;
+
+// Writes a price as a plain decimal with at most the token's decimals. Short prices such as 0.1
+// keep their own digits, which toFixed would expand into the float's binary error at 18 decimals.
+function decimalPrice(price: number, decimals: number): string {
+    const text = String(price);
+    const fraction = text.split('.')[1] || '';
+    return !/e/i.test(text) && fraction.length <= decimals ? text : price.toFixed(decimals);
+}
+
+/**
+ * Checks a seller's price and rounds it to what the token can represent.
+ * @returns The price in whole tokens, or null if it is not a number, negative, too large,
+ * or a positive price below the token's smallest unit.
+ */
+export function normalizePrice(price: unknown, token: PaymentToken): number | null {
+    const value = typeof price === 'number' ? price : parseFloat(String(price ?? ''));
+    if (!Number.isFinite(value) || value < 0 || value >= MAX_PRICE) {
+        return null;
+    }
+    const rounded = Number(decimalPrice(value, token.decimals));
+    return value > 0 && rounded === 0 ? null : rounded;
+}
+
+/**
+ * Converts a price in whole tokens into the token's smallest unit, times the seats,
+ * so per-seat prices like 0.1 stay exact. Digits beyond the token's decimals are rounded off.
+ */
+export function tokenAmount(price: number, token: PaymentToken, seats = 1): bigint {
+    if (!Number.isFinite(price) || price >= MAX_PRICE) {
+        throw new Error(`${price} is not a valid ${token.symbol} price.`);
+    }
+    return parseUnits(decimalPrice(Math.max(price, 0), token.decimals), token.decimals) * BigInt(seats);
+}
+
+/**
+ * Formats an amount in the token's smallest unit, e.g. "12.5 USDC".
+ */
+export function formatTokenAmount(amount: bigint | string, token: PaymentToken): string {
+    return `${formatUnits(BigInt(amount), token.decimals)} ${token.symbol}`;
+}
+
+/**
+ * Formats a listing's price per seat, or "Free".
+ */
+export function formatPrice(price: number, token: PaymentToken): string {
+    return price > 0 ? `${price} ${token.symbol}` : 'Free';
+}
@@ -0,0 +1,75 @@
+import { Interface, getAddress, parseUnits } from 'ethers';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ERC20_ABI } from './abi';
+import type { ChainConfig } from './chains';
+import type { PaymentToken } from './payment-tokens';
+
+let receipt: any;
+let transaction: any;
+vi.mock('./chains', () => ({
+    chainProvider: () => ({
+        waitForTransaction: async () => receipt,
+        getTransaction: async () => transaction,
+    }),
+}));
+
+const { verifyDirectPayment } = await import('./payments');
+
+const erc20Interface = new Interface(ERC20_ABI);
+const BUYER = getAddress('0x70997970c51812dc3a010c7aebb0ab84a0c0c20e');
+const SELLER = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc');
+const LICENSE_CONTRACT = getAddress('0x5fbdb2315678afecb367f032d93f642f64180aa3');
+const usdc: PaymentToken = { address: '0x41e94eb019c0762f9bfcf9fb1e58725bfb0e7582', symbol: 'USDC', decimals: 6 };
+const ether: PaymentToken = { address: null, symbol: 'ETH', decimals: 18 };
+const chain = { chainId: 31337, name: 'Local', confirmations: 1 } as ChainConfig;
+const amount = parseUnits('10', 6);
+
+function transferLog(from: string, to: string, value: bigint) {
+    return { address: usdc.address, ...erc20Interface.encodeEventLog('Transfer', [from, to, value]) };
+}
+
+function tokenTransferReceipt(to: string) {
+    return { status: 1, from: BUYER, to, logs: [transferLog(BUYER, SELLER, amount)] };
+}
+
+describe('verifyDirectPayment', () => {
+    beforeEach(() => {
+        transaction = null;
+    });
+
+    it("accepts the buyer's transfer of the token to the seller", async () => {
+        receipt = tokenTransferReceipt(usdc.address!);
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount, token: usdc })).resolves.toBeUndefined();
+    });
+
+    it('refuses a license purchase resubmitted as a renewal payment', async () => {
+        // With no platform fee, the purchase moves exactly the price from the buyer to the seller.
+        receipt = tokenTransferReceipt(LICENSE_CONTRACT);
+        await expect(verifyDirectPayment(chain, '0xpurchase', { from: BUYER, to: SELLER, amount, token: usdc }))
+            .rejects.toMatchObject({ code: 'TRANSACTION_MISMATCH' });
+    });
+
+    it('refuses token transfers sent by someone else or of another amount', async () => {
+        receipt = { ...tokenTransferReceipt(usdc.address!), from: SELLER };
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount, token: usdc })).rejects.toMatchObject({ code: 'TRANSACTION_MISMATCH' });
+
+        receipt = { status: 1, from: BUYER, to: usdc.address, logs: [transferLog(BUYER, SELLER, amount - BigInt(1))] };
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount, token: usdc })).rejects.toMatchObject({ code: 'TRANSACTION_MISMATCH' });
+    });
+
+    it('checks native payments against the transaction itself', async () => {
+        receipt = { status: 1, from: BUYER, to: SELLER, logs: [] };
+        transaction = { from: BUYER, to: SELLER, value: parseUnits('1', 18) };
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount: parseUnits('1', 18), token: ether })).resolves.toBeUndefined();
+
+        transaction = { ...transaction, to: LICENSE_CONTRACT };
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount: parseUnits('1', 18), token: ether })).rejects.toMatchObject({ code: 'TRANSACTION_MISMATCH' });
+    });
+
+    it('reports unconfirmed and failed transactions', async () => {
+        receipt = null;
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount, token: usdc })).rejects.toMatchObject({ code: 'TRANSACTION_PENDING' });
+        receipt = { ...tokenTransferReceipt(usdc.address!), status: 0 };
+        await expect(verifyDirectPayment(chain, '0xpayment', { from: BUYER, to: SELLER, amount, token: usdc })).rejects.toMatchObject({ code: 'TRANSACTION_FAILED' });
+    });
+});
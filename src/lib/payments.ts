@@ -0,0 +1,90 @@
+import { Interface, TransactionReceipt } from 'ethers';
+import { ERC20_ABI } from './abi';
+import { ChainConfig, chainProvider } from './chains';
+import { PaymentToken } from './payment-tokens';
+import { AuthError } from './errors';
+
+/**
+ * Server-side checks of payments in the chain's native currency or an ERC-20 token.
+ * Payments made straight to a seller's wallet, for subscription renewals and trial
+ * upgrades, are either a plain transfer of the native currency or the buyer's own
+ * call to the token's transfer, recognized by the token's `Transfer` log. A `Transfer`
+ * log alone is not enough: a license purchase with no platform fee logs the same
+ * transfer from the buyer to the seller, and must not pass for a second payment. Purchases
+ * through the license contract use the same logs to check where a token payment went.
+ */
+
+// How many blocks must follow a payment before it counts as confirmed, unless the chain sets its own.
+const PAYMENT_CONFIRMATIONS = Number(process.env.PURCHASE_CONFIRMATIONS) || 2;
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+export interface TokenTransfer {
+    from: string;
+    to: string;
+    value: bigint;
+}
+
+/**
+ * Lists the transfers of an ERC-20 token in a transaction, with lowercased addresses.
+ * @param receipt The transaction's receipt.
+ * @param tokenAddress The token contract.
+ */
+export function tokenTransfers(receipt: TransactionReceipt, tokenAddress: string): TokenTransfer[] {
+    const transfers: TokenTransfer[] = [];
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) {
+            continue;
+        }
+        const parsed = erc20Interface.parseLog(log);
+        if (parsed?.name === 'Transfer') {
+            transfers.push({ from: parsed.args.from.toLowerCase(), to: parsed.args.to.toLowerCase(), value: parsed.args.value });
+        }
+    }
+    return transfers;
+}
+
+/**
+ * Verifies that a transaction paid an amount from one wallet to another.
+ * @param chain The chain the payment was made on.
+ * @param transactionHash The payment transaction.
+ * @param expected Who paid whom, how much in the token's smallest unit, and in which token.
+ * @throws If the transaction is not confirmed yet, failed, or did not make the payment.
+ */
+export async function verifyDirectPayment(chain: ChainConfig, transactionHash: string, expected: { from: string; to: string; amount: bigint; token: PaymentToken }): Promise<void> {
+    const provider = chainProvider(chain);
+    let receipt: TransactionReceipt | null;
+    try {
+        receipt = await provider.waitForTransaction(transactionHash, chain.confirmations ?? PAYMENT_CONFIRMATIONS, CONFIRMATION_TIMEOUT_MS);
+    } catch (error: any) {
+        if (error?.code !== 'TIMEOUT') {
+            throw error;
+        }
+        receipt = null;
+    }
+    if (!receipt) {
+        throw new AuthError('TRANSACTION_PENDING', "The payment is not confirmed yet. Please try again in a minute.", 409);
+    }
+    if (receipt.status !== 1) {
+        throw new AuthError('TRANSACTION_FAILED', "The payment transaction failed on the blockchain.", 400);
+    }
+
+    const from = expected.from.toLowerCase();
+    const to = expected.to.toLowerCase();
+    if (expected.token.address) {
+        if (receipt.from.toLowerCase() !== from || receipt.to?.toLowerCase() !== expected.token.address.toLowerCase()) {
+            throw new AuthError('TRANSACTION_MISMATCH', `The transaction is not a ${expected.token.symbol} transfer from your wallet.`, 400);
+        }
+        const paid = tokenTransfers(receipt, expected.token.address).some(transfer => transfer.from === from && transfer.to === to && transfer.value === expected.amount);
+        if (!paid) {
+            throw new AuthError('TRANSACTION_MISMATCH', `The transaction did not pay the expected ${expected.token.symbol} amount to the seller.`, 400);
+        }
+        return;
+    }
+
+    const transaction = await provider.getTransaction(transactionHash);
+    if (!transaction || transaction.from.toLowerCase() !== from || transaction.to?.toLowerCase() !== to || transaction.value !== expected.amount) {
+        throw new AuthError('TRANSACTION_MISMATCH', `The transaction did not pay the expected ${expected.token.symbol} amount to the seller.`, 400);
+    }
+}
@@ -0,0 +1,77 @@
+import { ObjectId, WithId, Document } from 'mongodb';
+import clientPromise from './mongodb';
+import { requireSession, UserSession } from './session';
+import { AuthError } from './errors';
+
+/**
+ * Authorization policies shared by the server actions and API routes.
+ * Every policy first requires a signed-in session, then checks that the
+ * session's user is allowed to act on the requested resource. Failures are
+ * thrown as AuthError so routes can answer with the matching status code.
+ */
+
+async function findOwnedSoftware(session: UserSession, softwareId: string | ObjectId, forbidden: AuthError): Promise<WithId<Document>> {
+    if (!ObjectId.isValid(softwareId)) {
+        throw new AuthError('SOFTWARE_NOT_FOUND', 'Software not found.', 404);
+    }
+
+    const client = await clientPromise;
+    const db = client.db();
+
+    const software = await db.collection('software').findOne({ _id: new ObjectId(softwareId) });
+    if (!software) {
+        throw new AuthError('SOFTWARE_NOT_FOUND', 'Software not found.', 404);
+    }
+
+    if (!software.sellerId || !session.userId.equals(software.sellerId)) {
+        throw forbidden;
+    }
+
+    return software;
+}
+
+/**
+ * Ensures the signed-in user is the seller who owns a software listing.
+ * @param softwareId The ID of the software document.
+ * @returns The caller's session and the software document.
+ * @throws AuthError with 401 if not signed in, 404 if the software is missing, 403 if owned by someone else.
+ */
+export async function authorizeSoftwareOwner(softwareId: string | ObjectId): Promise<{ session: UserSession; software: WithId<Document> }> {
+    const session = await requireSession();
+    const software = await findOwnedSoftware(
+        session,
+        softwareId,
+        new AuthError('NOT_SOFTWARE_OWNER', 'Only the seller of this software can perform this action.', 403)
+    );
+    return { session, software };
+}
+
+/**
+ * Ensures the signed-in user is the seller of the software a license was issued for.
+ * @param licenseId The ID of the license document.
+ * @returns The caller's session, the license and its software document.
+ * @throws AuthError with 401 if not signed in, 404 if the license is missing, 403 if sold by someone else.
+ */
+export async function authorizeLicenseSeller(licenseId: string | ObjectId): Promise<{ session: UserSession; license: WithId<Document>; software: WithId<Document> }> {
+    const session = await requireSession();
+
+    if (!ObjectId.isValid(licenseId)) {
+        throw new AuthError('LICENSE_NOT_FOUND', 'License not found.', 404);
+    }
+
+    const client = await clientPromise;
+    const db = client.db();
+
+    const license = await db.collection('licenses').findOne({ _id: new ObjectId(licenseId) });
+    if (!license) {
+        throw new AuthError('LICENSE_NOT_FOUND', 'License not found.', 404);
+    }
+
+    const software = await findOwnedSoftware(
+        session,
+        license.softwareId,
+        new AuthError('NOT_LICENSE_SELLER', 'Only the seller of this software can manage its licenses.', 403)
+    );
+
+    return { session, license, software };
+}
@@ -0,0 +1,310 @@
+import { Contract, JsonRpcProvider, TransactionReceipt, ZeroAddress } from 'ethers';
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+import { SOFTWARE_LICENSE_ABI } from './abi';
+import { ChainConfig, chainProvider, LEGACY_CHAIN_ID, recordChainId, requireChain, softwareOffer } from './chains';
+import { getChainProduct, softwareProductId } from './license-chain';
+import { recordPaidLicense } from './license-records';
+import { normalizeIp } from './ip';
+import { findPaymentToken, tokenAmount } from './payment-tokens';
+import { tokenTransfers } from './payments';
+
+/**
+ * Server-verified license purchases. The buyer pays through the contract's
+ * purchaseLicense, which takes the payment, pays the seller and the platform fee
+ * and mints the license in one transaction. A purchase is opened with the price
+ * and payment token the seller registered for the software on the contract of the
+ * chain it is bought on (`chainId`), and only moves on when the server has checked
+ * that chain itself:
+ *
+ *   pending  → minted    the purchase transaction paid the quoted amount for the software and minted a license token to the buyer;
+ *                        for a token payment, the token's Transfer logs show the buyer paying the seller
+ *   minted   → recorded  the license was recorded for the token
+ *
+ * A reverted purchase transaction takes no payment, so the purchase simply stays
+ * pending. Every transaction hash and token can back a single purchase only, so a
+ * purchase cannot be replayed for a second license. Each step is kept in the
+ * purchase's `history`.
+ */
+
+export type PurchaseStatus = 'pending' | 'minted' | 'recorded';
+
+// How many blocks must follow a transaction before it counts as confirmed, unless the chain sets its own.
+const PURCHASE_CONFIRMATIONS = Number(process.env.PURCHASE_CONFIRMATIONS) || 2;
+// How long verification waits for the confirmations before asking the buyer to retry.
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getPurchasesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('purchases');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ buyerAddress: 1, createdAt: -1 }),
+            collection.createIndex({ softwareId: 1, buyerAddress: 1, status: 1 }),
+            // A purchase transaction and a token each back one purchase at most. Token IDs are only unique per chain;
+            // purchases from before chains were recorded were all made on the legacy chain.
+            collection.createIndex({ transactionHash: 1 }, { unique: true, partialFilterExpression: { transactionHash: { $exists: true } } }),
+            collection.updateMany({ chainId: { $exists: false } }, { $set: { chainId: LEGACY_CHAIN_ID } })
+                .then(() => collection.dropIndex('tokenId_1').catch(() => undefined))
+                .then(() => collection.createIndex({ chainId: 1, tokenId: 1 }, { unique: true, partialFilterExpression: { tokenId: { $exists: true } } })),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Moves a purchase from one state to the next, if it is still in the expected one.
+ * @throws If the purchase has moved on in the meantime, or a unique value is already taken.
+ */
+async function transition(purchaseId: ObjectId, from: PurchaseStatus, to: PurchaseStatus, fields: Document = {}): Promise<WithId<Document>> {
+    const purchases = await getPurchasesCollection();
+    const now = new Date();
+    const entry = { status: to, at: now, ...(fields.error ? { error: fields.error } : {}) };
+    const updated = await purchases.findOneAndUpdate(
+        { _id: purchaseId, status: from },
+        // $literal keeps values such as error messages from being read as field paths.
+        [{
+            $set: {
+                ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, { $literal: value }])),
+                status: to,
+                updatedAt: now,
+                history: { $concatArrays: [{ $ifNull: ['$history', []] }, [{ $literal: entry }]] },
+            },
+        }],
+        { returnDocument: 'after' }
+    );
+    if (!updated) {
+        throw new AuthError('PURCHASE_STATE', `This purchase is no longer ${from}.`, 409);
+    }
+    return updated;
+}
+
+// Waits for a transaction to be mined and confirmed. Null means it is not confirmed yet.
+async function waitForConfirmedReceipt(chain: ChainConfig, provider: JsonRpcProvider, transactionHash: string): Promise<TransactionReceipt | null> {
+    try {
+        return await provider.waitForTransaction(transactionHash, chain.confirmations ?? PURCHASE_CONFIRMATIONS, CONFIRMATION_TIMEOUT_MS);
+    } catch (error: any) {
+        if (error?.code === 'TIMEOUT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Opens a purchase at the listing's current price on a chain, once that chain is checked to sell
+ * the software at that price for the seller.
+ * @param software The software being bought.
+ * @param chain The chain it is bought on.
+ * @param buyerAddress The buyer's verified wallet.
+ * @param sellerWalletAddress The wallet the payment must go to.
+ * @param seats The number of seats bought.
+ * @param buyerIp The address the license must be locked to, as the server saw it; empty unless the software is IP-locked.
+ * @returns The new purchase, with the product ID to buy on the contract and the amount to pay in the
+ * payment token's smallest unit.
+ * @throws If the software is not sold on the chain, not on sale on its contract, or not at the listing's price.
+ */
+export async function openPurchase(software: WithId<Document>, chain: ChainConfig, buyerAddress: string, sellerWalletAddress: string, seats: number, buyerIp = ''): Promise<WithId<Document>> {
+    const purchases = await getPurchasesCollection();
+    if (software.licensingRules?.ipLock && !normalizeIp(buyerIp)) {
+        throw new AuthError('IP_UNKNOWN', "Could not determine your IP address. The purchase cannot proceed as IP Lock is enabled.", 400);
+    }
+    const offer = softwareOffer(software, chain.chainId);
+    if (!offer) {
+        throw new AuthError('NOT_SOLD_ON_CHAIN', `This software is not sold on ${chain.name}.`, 400);
+    }
+    const token = findPaymentToken(chain, offer.paymentToken);
+    if (!token) {
+        throw new AuthError('UNSUPPORTED_CURRENCY', "This software is priced in a currency the marketplace no longer accepts.", 400);
+    }
+    // Registered by the seller's wallet, since the ID is derived from it.
+    const productId = softwareProductId(software._id, sellerWalletAddress);
+    const product = await getChainProduct(chain, productId);
+    if (!product || !product.active) {
+        throw new AuthError('NOT_ON_SALE', "This software is not on sale on the blockchain yet. The seller has to publish its price first.", 409);
+    }
+    if (product.price !== tokenAmount(offer.price, token) || product.paymentToken?.toLowerCase() !== token.address?.toLowerCase()) {
+        throw new AuthError('PRICE_MISMATCH', "The price on the blockchain does not match the listing. The seller has to publish the current price.", 409);
+    }
+
+    // The contract lets sellers license their own software for free.
+    const isSelfPurchase = buyerAddress.toLowerCase() === sellerWalletAddress.toLowerCase();
+    const amount = isSelfPurchase ? BigInt(0) : product.price * BigInt(seats);
+    const now = new Date();
+
+    const purchase = {
+        softwareId: software._id,
+        chainId: chain.chainId,
+        productId,
+        buyerAddress: buyerAddress.toLowerCase(),
+        sellerWalletAddress: sellerWalletAddress.toLowerCase(),
+        seats,
+        // The IP lock the token must be minted with; empty when the software is not IP-locked.
+        buyerIp: software.licensingRules?.ipLock ? normalizeIp(buyerIp) : '',
+        // Null for the native currency.
+        paymentToken: token.address ? token.address.toLowerCase() : null,
+        amount: amount.toString(),
+        status: 'pending' as PurchaseStatus,
+        createdAt: now,
+        updatedAt: now,
+        history: [{ status: 'pending' as PurchaseStatus, at: now }],
+    };
+    const { insertedId } = await purchases.insertOne(purchase);
+    return { _id: insertedId, ...purchase };
+}
+
+export async function getPurchase(purchaseId: ObjectId): Promise<WithId<Document> | null> {
+    const purchases = await getPurchasesCollection();
+    return purchases.findOne({ _id: purchaseId });
+}
+
+/**
+ * Verifies a purchase transaction on the chain.
+ * @param purchase The pending purchase.
+ * @param transactionHash The purchaseLicense transaction.
+ * @param tokenId The token the transaction is expected to mint, if known.
+ * @returns The token minted to the buyer and when it was minted.
+ * @throws If the transaction is not confirmed yet, failed, or did not buy this purchase's license.
+ */
+// A purchase stays pending when a transaction does not check out, so the buyer can retry with the right one.
+async function verifyPurchaseTransaction(purchase: WithId<Document>, transactionHash: string, tokenId?: number): Promise<{ tokenId: number; mintDate: Date }> {
+    const chain = requireChain(recordChainId(purchase));
+    const provider = chainProvider(chain);
+    const receipt = await waitForConfirmedReceipt(chain, provider, transactionHash);
+    if (!receipt) {
+        throw new AuthError('TRANSACTION_PENDING', "The purchase is not confirmed yet. Please try again in a minute.", 409);
+    }
+    if (receipt.status !== 1) {
+        throw new AuthError('TRANSACTION_FAILED', "The purchase transaction failed on the blockchain.", 400);
+    }
+
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, provider);
+    const contractAddress = chain.contractAddress.toLowerCase();
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== contractAddress) {
+            continue;
+        }
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name !== 'LicensePurchased' || (tokenId !== undefined && Number(parsed.args.tokenId) !== tokenId)) {
+            continue;
+        }
+        if (parsed.args.productId !== purchase.productId || parsed.args.buyer.toLowerCase() !== purchase.buyerAddress) {
+            continue;
+        }
+        if (Number(parsed.args.seats) !== purchase.seats || parsed.args.amount !== BigInt(purchase.amount)) {
+            throw new AuthError('TRANSACTION_MISMATCH', "The purchase transaction does not match the seats or price of the purchase.", 400);
+        }
+        const paymentToken = parsed.args.paymentToken === ZeroAddress ? null : parsed.args.paymentToken.toLowerCase();
+        if (paymentToken !== purchase.paymentToken) {
+            throw new AuthError('TRANSACTION_MISMATCH', "The purchase transaction was paid in a different currency than the purchase.", 400);
+        }
+        if (paymentToken) {
+            verifyTokenPayment(receipt, purchase, (parsed.args.amount as bigint) - (parsed.args.fee as bigint));
+        }
+        const block = await provider.getBlock(receipt.blockNumber);
+        return {
+            tokenId: Number(parsed.args.tokenId),
+            mintDate: block ? new Date(block.timestamp * 1000) : new Date(),
+        };
+    }
+    throw new AuthError('TRANSACTION_MISMATCH', "The transaction did not purchase this license for your wallet.", 400);
+}
+
+// The contract draws a token payment from the buyer's allowance; the token's own Transfer logs must show
+// the seller's share going from the buyer to the seller, and no more than the amount leaving the buyer.
+function verifyTokenPayment(receipt: TransactionReceipt, purchase: WithId<Document>, sellerShare: bigint): void {
+    const fromBuyer = tokenTransfers(receipt, purchase.paymentToken).filter(transfer => transfer.from === purchase.buyerAddress);
+    const total = fromBuyer.reduce((sum, transfer) => sum + transfer.value, BigInt(0));
+    const paidSeller = sellerShare === BigInt(0) || fromBuyer.some(transfer => transfer.to === purchase.sellerWalletAddress && transfer.value === sellerShare);
+    if (!paidSeller || total !== BigInt(purchase.amount)) {
+        throw new AuthError('TRANSACTION_MISMATCH', "The token transfers in the purchase transaction do not pay the seller the purchase's price.", 400);
+    }
+}
+
+/**
+ * Completes a purchase with its purchase transaction: verifies it, marks the purchase minted and
+ * records the license. Also used by the chain indexer when it sees the mint first.
+ * @param purchase The pending purchase, or a minted one whose recording did not finish.
+ * @param purchaseTransaction The purchase transaction, and the token it minted if already known.
+ * @returns The recorded purchase, with the license's ID.
+ */
+export async function completePurchase(purchase: WithId<Document>, purchaseTransaction: { transactionHash: string; tokenId?: number }): Promise<WithId<Document>> {
+    const hash = purchaseTransaction.transactionHash.toLowerCase();
+    if (purchase.status === 'pending') {
+        const purchases = await getPurchasesCollection();
+        if (await purchases.findOne({ transactionHash: hash }, { projection: { _id: 1 } })) {
+            throw new AuthError('TRANSACTION_USED', "This transaction was already used for a purchase.", 409);
+        }
+        const { tokenId, mintDate } = await verifyPurchaseTransaction(purchase, hash, purchaseTransaction.tokenId);
+        try {
+            purchase = await transition(purchase._id, 'pending', 'minted', { transactionHash: hash, tokenId, mintDate });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                throw new AuthError('TRANSACTION_USED', "This transaction or license token was already used for another purchase.", 409);
+            }
+            throw error;
+        }
+    }
+    if (purchase.status !== 'minted') {
+        throw new AuthError('PURCHASE_STATE', `This purchase is ${purchase.status}, not waiting for a purchase transaction.`, 409);
+    }
+    if (purchase.transactionHash !== hash) {
+        throw new AuthError('PURCHASE_STATE', "This purchase was completed with a different transaction.", 409);
+    }
+
+    const client = await clientPromise;
+    const db = client.db();
+    const software = await db.collection('software').findOne({ _id: purchase.softwareId });
+    if (!software) {
+        throw new AuthError('SOFTWARE_NOT_FOUND', "The purchased software does not exist.", 404);
+    }
+
+    // The IP lock and metadata are read from the token, as those are what the contract holds. A failed
+    // read of the lock fails the recording, so it is retried rather than recorded without a lock.
+    const chain = requireChain(recordChainId(purchase));
+    const contract = new Contract(chain.contractAddress, SOFTWARE_LICENSE_ABI, chainProvider(chain));
+    const [buyerIp, metadataUrl]: [string, string | undefined] = await Promise.all([
+        contract.getLicenseIpLock(purchase.tokenId),
+        contract.tokenURI(purchase.tokenId).catch(() => undefined),
+    ]);
+    // Purchases opened since the server chose the lock must be minted with exactly that one.
+    if (purchase.buyerIp && normalizeIp(buyerIp) !== purchase.buyerIp) {
+        throw new AuthError('TRANSACTION_MISMATCH', "The license was minted with a different IP lock than the purchase was opened for. Contact the seller for assistance.", 400);
+    }
+
+    await recordPaidLicense(software, {
+        buyerAddress: purchase.buyerAddress,
+        chainId: chain.chainId,
+        tokenId: purchase.tokenId,
+        transactionHash: hash,
+        mintDate: purchase.mintDate,
+        metadataUrl,
+        buyerIp,
+        seats: purchase.seats,
+        purchaseId: purchase._id,
+    });
+    const license = await db.collection('licenses').findOne({ chainId: chain.chainId, tokenId: purchase.tokenId }, { projection: { _id: 1 } });
+
+    return transition(purchase._id, 'minted', 'recorded', { licenseId: license?._id });
+}
+
+/**
+ * Finds the purchase a mint belongs to: the one its metadata names, or else the oldest pending
+ * purchase of the same software by the same wallet on the same chain.
+ */
+export async function findPurchaseForMint(chainId: number, softwareId: ObjectId, buyerAddress: string, purchaseId?: string): Promise<WithId<Document> | null> {
+    const purchases = await getPurchasesCollection();
+    if (purchaseId && ObjectId.isValid(purchaseId)) {
+        return purchases.findOne({ _id: new ObjectId(purchaseId), chainId, softwareId, buyerAddress: buyerAddress.toLowerCase() });
+    }
+    const [oldest] = await purchases
+        .find({ chainId, softwareId, buyerAddress: buyerAddress.toLowerCase(), status: 'pending' })
+        .sort({ createdAt: 1 })
+        .limit(1)
+        .toArray();
+    return oldest || null;
+}
@@ -0,0 +1,237 @@
+import { JsonRpcProvider, Wallet, parseUnits } from 'ethers';
+import { ObjectId as MongoObjectId } from 'mongodb';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChainConfig } from './chains';
+import { collections } from './test/fake-mongo';
+import { FakeNode } from './test/fake-node';
+
+vi.mock('./mongodb', () => import('./test/fake-mongo'));
+
+let chain: ChainConfig;
+let node: any;
+vi.mock('./chains', () => ({
+    requireChain: () => chain,
+    chainProvider: () => node,
+}));
+
+const { relayContractCall, resumeRelayedTransactions } = await import('./relayer');
+
+const LICENSE_ABI = ['function blockLicense(uint256 tokenId, bool blocked)'];
+// No code lives there on a fresh node, so calls to it always succeed.
+const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+// Anvil's and Hardhat's first default account.
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+function blockLicense(tokenId: number) {
+    return relayContractCall({
+        kind: 'block',
+        chain,
+        contractAddress: CONTRACT_ADDRESS,
+        abi: LICENSE_ABI,
+        method: 'blockLicense',
+        args: [tokenId, true],
+        context: { tokenId: String(tokenId) },
+    });
+}
+
+function relays() {
+    return collections.get('relayerTransactions') || [];
+}
+
+describe('relayer', () => {
+    let fakeNode: FakeNode;
+
+    beforeEach(() => {
+        collections.clear();
+        chain = { chainId: 31337, name: 'Local', rpcUrl: 'http://127.0.0.1:8545', contractAddress: CONTRACT_ADDRESS, nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }, paymentTokens: [] };
+        node = fakeNode = new FakeNode(chain);
+        vi.stubEnv('RELAYER_PRIVATE_KEY', TEST_PRIVATE_KEY);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('hands out consecutive nonces to concurrent transactions and records them', async () => {
+        const results = await Promise.all([blockLicense(1), blockLicense(2), blockLicense(3)]);
+
+        expect(fakeNode.sent.map(transaction => transaction.nonce)).toEqual([0, 1, 2]);
+        expect(fakeNode.sent.map(transaction => transaction.from)).toEqual(Array(3).fill(new Wallet(TEST_PRIVATE_KEY).address));
+        expect(results.map(result => result.transactionHash)).toEqual(fakeNode.sent.map(transaction => transaction.hash));
+        expect(relays().map(relay => [relay.status, relay.nonce, relay.context.tokenId])).toEqual([['confirmed', 0, '1'], ['confirmed', 1, '2'], ['confirmed', 2, '3']]);
+        expect(relays()[0].gasLimit).toBe('120000');
+    });
+
+    it('never falls behind nonces used outside the relayer', async () => {
+        await blockLicense(1);
+        fakeNode.pendingNonce = 7;
+        await blockLicense(2);
+
+        expect(fakeNode.sent.map(transaction => transaction.nonce)).toEqual([0, 7]);
+    });
+
+    it('fails calls that would revert without using a nonce', async () => {
+        fakeNode.estimateError = Object.assign(new Error('execution reverted'), { reason: 'Ownable: caller is not the owner' });
+
+        await expect(blockLicense(1)).rejects.toThrow('execution reverted');
+        expect(relays()[0]).toMatchObject({ status: 'failed', error: 'Ownable: caller is not the owner' });
+        expect(collections.get('relayerNonces') || []).toEqual([]);
+    });
+
+    it('gives back the nonce of a transaction that could not be broadcast', async () => {
+        fakeNode.broadcastErrors.push(new Error('connection refused'));
+
+        await expect(blockLicense(1)).rejects.toThrow('connection refused');
+        await blockLicense(2);
+
+        expect(relays()[0]).toMatchObject({ status: 'failed', error: 'connection refused' });
+        expect(fakeNode.sent.map(transaction => transaction.nonce)).toEqual([0]);
+    });
+
+    it('fails transactions that revert on the chain', async () => {
+        fakeNode.autoMine = false;
+        vi.useFakeTimers();
+        const result = blockLicense(1).catch(error => error);
+        await vi.advanceTimersByTimeAsync(0);
+
+        fakeNode.mineTransaction(fakeNode.sent[0].hash!, 0);
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect((await result).message).toBe('The transaction reverted on the blockchain.');
+        expect(relays()[0]).toMatchObject({ status: 'failed', transactionHash: fakeNode.sent[0].hash });
+    });
+
+    it('rebroadcasts stuck transactions with the same nonce and higher fees', async () => {
+        vi.stubEnv('RELAYER_STUCK_AFTER_MS', '3000');
+        vi.stubEnv('RELAYER_FEE_BUMP_PERCENT', '25');
+        fakeNode.autoMine = false;
+        vi.useFakeTimers();
+        const result = blockLicense(1);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fakeNode.sent).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(3000);
+        // The network's priority fee rose past the bumped one, so the replacement pays the network's.
+        fakeNode.feeData = { ...fakeNode.feeData, maxPriorityFeePerGas: parseUnits('5', 'gwei') };
+        await vi.advanceTimersByTimeAsync(3000);
+
+        const [first, second, third] = fakeNode.sent;
+        expect(fakeNode.sent.map(transaction => transaction.nonce)).toEqual([0, 0, 0]);
+        expect(second.maxFeePerGas).toBe(parseUnits('37.5', 'gwei'));
+        expect(second.maxPriorityFeePerGas).toBe(parseUnits('2.5', 'gwei'));
+        expect(third.maxFeePerGas).toBe(parseUnits('46.875', 'gwei'));
+        expect(third.maxPriorityFeePerGas).toBe(parseUnits('5', 'gwei'));
+
+        // Whichever attempt is mined confirms the transaction.
+        fakeNode.mineTransaction(second.hash!);
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect((await result).transactionHash).toBe(second.hash);
+        expect(relays()[0].status).toBe('confirmed');
+        expect(relays()[0].attempts.map((attempt: any) => attempt.transactionHash)).toEqual([first.hash, second.hash, third.hash]);
+    });
+
+    it('bumps the gas price of legacy transactions and stops after the maximum bumps', async () => {
+        vi.stubEnv('RELAYER_STUCK_AFTER_MS', '3000');
+        vi.stubEnv('RELAYER_MAX_FEE_BUMPS', '2');
+        vi.stubEnv('RELAYER_TIMEOUT_MS', '20000');
+        fakeNode.feeData = { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: parseUnits('10', 'gwei') };
+        fakeNode.autoMine = false;
+        vi.useFakeTimers();
+        const result = blockLicense(1).catch(error => error);
+
+        await vi.advanceTimersByTimeAsync(21000);
+
+        expect(fakeNode.sent.map(transaction => transaction.gasPrice)).toEqual([parseUnits('10', 'gwei'), parseUnits('12.5', 'gwei'), parseUnits('15.625', 'gwei')]);
+        expect((await result).message).toBe('The transaction is not confirmed yet. It will complete in the background.');
+        expect(relays()[0].status).toBe('submitted');
+    });
+
+    it('picks up an earlier attempt when the node reports its nonce as used', async () => {
+        vi.stubEnv('RELAYER_STUCK_AFTER_MS', '3000');
+        fakeNode.autoMine = false;
+        vi.useFakeTimers();
+        const result = blockLicense(1);
+        await vi.advanceTimersByTimeAsync(0);
+
+        // The first attempt was mined just after the receipt check, so the replacement is refused.
+        fakeNode.broadcastErrors.push(Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' }));
+        await vi.advanceTimersByTimeAsync(3000);
+        fakeNode.mineTransaction(fakeNode.sent[0].hash!);
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect((await result).transactionHash).toBe(fakeNode.sent[0].hash);
+        expect(relays()[0].attempts).toHaveLength(1);
+    });
+
+    it('follows transactions a previous process left submitted and fails stale queued ones', async () => {
+        fakeNode.autoMine = false;
+        const submittedId = new MongoObjectId();
+        const queuedId = new MongoObjectId();
+        const old = new Date(Date.now() - 60 * 60 * 1000);
+        const { hash } = await fakeNode.broadcastTransaction(await new Wallet(TEST_PRIVATE_KEY).signTransaction({
+            to: CONTRACT_ADDRESS, nonce: 0, gasLimit: 120000, chainId: chain.chainId, gasPrice: parseUnits('10', 'gwei'),
+        }));
+        collections.set('relayerTransactions', [
+            { _id: submittedId, chainId: chain.chainId, status: 'submitted', nonce: 0, gasLimit: '120000', attempts: [{ transactionHash: hash, fees: { gasPrice: '10000000000' }, sentAt: new Date() }], createdAt: old },
+            { _id: queuedId, chainId: chain.chainId, status: 'queued', attempts: [], createdAt: old },
+        ]);
+        fakeNode.mineTransaction(hash!);
+
+        await resumeRelayedTransactions();
+        await vi.waitFor(() => expect(relays()[0].status).toBe('confirmed'));
+
+        expect(relays()[1]).toMatchObject({ status: 'failed', error: "The server stopped before the transaction was sent." });
+    });
+});
+
+// Runs against a local Anvil or Hardhat node when ANVIL_RPC_URL is set, e.g. `anvil`, then
+// ANVIL_RPC_URL=http://127.0.0.1:8545. It uses the node's first default account and turns
+// automatic mining off and on again.
+describe.skipIf(!process.env.ANVIL_RPC_URL)('relayer against a local node', () => {
+    let provider: JsonRpcProvider;
+
+    beforeAll(async () => {
+        provider = new JsonRpcProvider(process.env.ANVIL_RPC_URL, undefined, { staticNetwork: true });
+        const { chainId } = await provider.getNetwork();
+        chain = { chainId: Number(chainId), name: 'Local', rpcUrl: process.env.ANVIL_RPC_URL!, contractAddress: CONTRACT_ADDRESS, nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }, paymentTokens: [] };
+    });
+
+    beforeEach(() => {
+        collections.clear();
+        node = provider;
+        vi.stubEnv('RELAYER_PRIVATE_KEY', TEST_PRIVATE_KEY);
+        vi.stubEnv('RELAYER_STUCK_AFTER_MS', '3000');
+    });
+
+    afterEach(async () => {
+        await provider.send('evm_setAutomine', [true]);
+        vi.unstubAllEnvs();
+    });
+
+    it('confirms concurrent transactions with consecutive nonces', async () => {
+        const startNonce = await provider.getTransactionCount(new Wallet(TEST_PRIVATE_KEY).address, 'pending');
+        const results = await Promise.all([blockLicense(1), blockLicense(2)]);
+
+        expect(results.map(result => result.receipt.status)).toEqual([1, 1]);
+        const sent = await Promise.all(results.map(result => provider.getTransaction(result.transactionHash)));
+        expect(sent.map(transaction => transaction!.nonce)).toEqual([startNonce, startNonce + 1]);
+    });
+
+    it('replaces a transaction that is not mined with higher fees', async () => {
+        await provider.send('evm_setAutomine', [false]);
+        const result = blockLicense(1);
+
+        await vi.waitFor(() => expect(relays()[0]?.attempts).toHaveLength(2), { timeout: 20000, interval: 500 });
+        await provider.send('evm_mine', []);
+        const { transactionHash, receipt } = await result;
+
+        const [first, second] = relays()[0].attempts;
+        expect(transactionHash).toBe(second.transactionHash);
+        expect(receipt.status).toBe(1);
+        expect(BigInt(second.fees.maxFeePerGas)).toBeGreaterThan(BigInt(first.fees.maxFeePerGas));
+    });
+});
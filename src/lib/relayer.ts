@@ -0,0 +1,324 @@
+import { Interface, InterfaceAbi, JsonRpcProvider, TransactionReceipt, Wallet } from 'ethers';
+import { Document, ObjectId, WithId } from 'mongodb';
+import clientPromise from './mongodb';
+import { ChainConfig, chainProvider, requireChain } from './chains';
+
+/**
+ * The platform's transaction relayer. It owns the platform signer, the contract
+ * owner's key, and is the only code that sends transactions with it: license mints,
+ * burns and block changes. Every transaction is recorded in `relayerTransactions`
+ * and moves through
+ *
+ *   queued     → submitted  gas was estimated, a nonce allocated and the transaction broadcast
+ *   submitted  → confirmed  a receipt with enough confirmations was found for one of its attempts
+ *   queued     → failed     the call would revert, or could not be broadcast
+ *   submitted  → failed     the transaction was mined but reverted
+ *
+ * Submissions are serialized within a process, and nonces are handed out from a
+ * counter in `relayerNonces` that never falls behind the chain's pending nonce, so
+ * several server processes can share the key. A transaction that is not mined in
+ * time is broadcast again with the same nonce and higher fees, and each attempt is
+ * kept on its record, so whichever one is mined confirms it. The same key is used on every
+ * chain in the registry; each transaction records the chain it was sent on, and nonces
+ * are counted per chain.
+ *
+ * Configuration (environment):
+ * - RELAYER_PRIVATE_KEY: the platform key, which must own the license contract. Server-only.
+ * - RELAYER_CONFIRMATIONS: how many blocks must include a transaction (default 1), unless
+ *   the chain's registry entry sets its own.
+ * - RELAYER_STUCK_AFTER_MS: how long an attempt may wait to be mined before fees are bumped (default 60000).
+ * - RELAYER_FEE_BUMP_PERCENT: how much each bump raises the fees (default 25; nodes require at least 10).
+ * - RELAYER_MAX_FEE_BUMPS: how often fees are bumped before the relayer just waits (default 5).
+ * - RELAYER_TIMEOUT_MS: how long a caller waits for confirmation (default 300000). The
+ *   transaction is still followed in the background after that.
+ */
+
+export type RelayKind = 'mint' | 'burn' | 'block';
+export type RelayStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+interface FeeSettings {
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    gasPrice?: bigint;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function getRelayerConfig(chain?: ChainConfig) {
+    if (!process.env.RELAYER_PRIVATE_KEY || (chain && !chain.rpcUrl)) {
+        throw new Error("Server is not configured for blockchain transactions.");
+    }
+    return {
+        privateKey: process.env.RELAYER_PRIVATE_KEY,
+        confirmations: Math.max(chain?.confirmations ?? numberFromEnv('RELAYER_CONFIRMATIONS', 1), 1),
+        stuckAfterMs: Math.max(numberFromEnv('RELAYER_STUCK_AFTER_MS', 60000), POLL_INTERVAL_MS),
+        feeBumpPercent: Math.max(numberFromEnv('RELAYER_FEE_BUMP_PERCENT', 25), 10),
+        maxFeeBumps: numberFromEnv('RELAYER_MAX_FEE_BUMPS', 5),
+        timeoutMs: numberFromEnv('RELAYER_TIMEOUT_MS', 5 * 60 * 1000),
+    };
+}
+
+/**
+ * Tells whether the relayer has a key and a node to send transactions with on a chain.
+ */
+export function isRelayerConfigured(chain: ChainConfig | null): boolean {
+    return !!process.env.RELAYER_PRIVATE_KEY && !!chain?.rpcUrl;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+async function getRelayerCollections() {
+    const client = await clientPromise;
+    const db = client.db();
+    const transactions = db.collection('relayerTransactions');
+    const nonces = db.collection<{ _id: string; next: number }>('relayerNonces');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            transactions.createIndex({ status: 1, createdAt: 1 }),
+            transactions.createIndex({ 'attempts.transactionHash': 1 }),
+            transactions.createIndex({ kind: 1, 'context.tokenId': 1, createdAt: -1 }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return { transactions, nonces };
+}
+
+function getSigner(chain: ChainConfig) {
+    const config = getRelayerConfig(chain);
+    const provider = chainProvider(chain);
+    return { config, provider, signer: new Wallet(config.privateKey, provider) };
+}
+
+async function updateRelay(relayId: ObjectId, update: Document): Promise<void> {
+    const { transactions } = await getRelayerCollections();
+    await transactions.updateOne({ _id: relayId }, { ...update, $set: { ...update.$set, updatedAt: new Date() } });
+}
+
+// Submissions in this process run one at a time, so nonces are allocated and used in order.
+let submissionQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = submissionQueue.then(task);
+    submissionQueue = result.catch(() => undefined);
+    return result;
+}
+
+/**
+ * Hands out the signer's next nonce. The counter is shared by every process and never falls
+ * behind the chain, e.g. after transactions sent with the key outside the relayer.
+ */
+async function allocateNonce(chainId: bigint, address: string, chainNonce: number): Promise<number> {
+    const { nonces } = await getRelayerCollections();
+    const counter = await nonces.findOneAndUpdate(
+        { _id: `${chainId}:${address.toLowerCase()}` },
+        [{ $set: { next: { $add: [{ $max: [{ $ifNull: ['$next', 0] }, chainNonce] }, 1] } } }],
+        { upsert: true, returnDocument: 'after' }
+    );
+    return counter!.next - 1;
+}
+
+// Gives back a nonce whose transaction was never broadcast, if no later one was handed out since.
+async function releaseNonce(chainId: bigint, address: string, nonce: number): Promise<void> {
+    const { nonces } = await getRelayerCollections();
+    await nonces.updateOne({ _id: `${chainId}:${address.toLowerCase()}`, next: nonce + 1 }, { $set: { next: nonce } });
+}
+
+async function currentFees(provider: JsonRpcProvider): Promise<FeeSettings> {
+    const feeData = await provider.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+        return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+    }
+    return { gasPrice: feeData.gasPrice ?? BigInt(0) };
+}
+
+// Raises every fee by the bump percentage, or to the network's current fees if those are higher.
+function bumpedFees(previous: FeeSettings, current: FeeSettings, percent: number): FeeSettings {
+    const bump = (value?: bigint, floor?: bigint) => {
+        const raised = ((value ?? BigInt(0)) * BigInt(100 + percent)) / BigInt(100);
+        return floor !== undefined && floor > raised ? floor : raised;
+    };
+    if (previous.gasPrice !== undefined) {
+        return { gasPrice: bump(previous.gasPrice, current.gasPrice) };
+    }
+    return {
+        maxFeePerGas: bump(previous.maxFeePerGas, current.maxFeePerGas),
+        maxPriorityFeePerGas: bump(previous.maxPriorityFeePerGas, current.maxPriorityFeePerGas),
+    };
+}
+
+function storedFees(fees: FeeSettings): Document {
+    return Object.fromEntries(Object.entries(fees).map(([key, value]) => [key, value.toString()]));
+}
+
+function parseFees(stored: Document): FeeSettings {
+    return Object.fromEntries(Object.entries(stored).filter(([, value]) => value !== undefined).map(([key, value]) => [key, BigInt(value as string)]));
+}
+
+// Replacing a transaction fails like this when the nonce was already used, usually by an earlier attempt.
+function isNonceUsedError(error: any): boolean {
+    const message = `${error?.shortMessage || ''} ${error?.message || ''}`.toLowerCase();
+    return error?.code === 'NONCE_EXPIRED' || error?.code === 'REPLACEMENT_UNDERPRICED' || message.includes('already known') || message.includes('nonce too low');
+}
+
+/**
+ * Estimates, signs and broadcasts a queued transaction with a fresh nonce.
+ * @throws If the call would revert or could not be broadcast; the record is marked failed.
+ */
+async function submit(relay: WithId<Document>, chain: ChainConfig): Promise<void> {
+    const { provider, signer } = getSigner(chain);
+    const chainId = BigInt(chain.chainId);
+
+    let gasLimit: bigint;
+    try {
+        const estimate = await provider.estimateGas({ from: signer.address, to: relay.to, data: relay.data });
+        gasLimit = (estimate * BigInt(120)) / BigInt(100);
+    } catch (error: any) {
+        await updateRelay(relay._id, { $set: { status: 'failed', error: error.reason || error.shortMessage || error.message } });
+        throw error;
+    }
+
+    const fees = await currentFees(provider);
+    const nonce = await allocateNonce(chainId, signer.address, await provider.getTransactionCount(signer.address, 'pending'));
+    try {
+        const sent = await signer.sendTransaction({ to: relay.to, data: relay.data, nonce, gasLimit, chainId, ...fees });
+        await updateRelay(relay._id, {
+            $set: { status: 'submitted', nonce, gasLimit: gasLimit.toString(), submittedAt: new Date() },
+            $push: { attempts: { transactionHash: sent.hash, fees: storedFees(fees), sentAt: new Date() } },
+        });
+    } catch (error: any) {
+        await releaseNonce(chainId, signer.address, nonce);
+        await updateRelay(relay._id, { $set: { status: 'failed', error: error.reason || error.shortMessage || error.message } });
+        throw error;
+    }
+}
+
+/**
+ * Follows a submitted transaction until one of its attempts is confirmed, bumping the fees of
+ * attempts that are not mined in time.
+ * @param timeoutMs How long to wait before giving up (the record stays submitted).
+ * @returns The confirmed record.
+ * @throws If the transaction reverted, or is still pending when the time is up.
+ */
+async function waitForRelay(relayId: ObjectId, timeoutMs: number): Promise<WithId<Document>> {
+    const { transactions } = await getRelayerCollections();
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+        const relay = await transactions.findOne({ _id: relayId });
+        if (!relay) {
+            throw new Error("The relayed transaction does not exist.");
+        }
+        const { config, provider, signer } = getSigner(requireChain(relay.chainId));
+        if (relay.status === 'confirmed') {
+            return relay;
+        }
+        if (relay.status !== 'submitted') {
+            throw new Error(relay.error || `The relayed transaction is ${relay.status}.`);
+        }
+
+        // Any attempt can be the one that is mined; they all share the nonce.
+        const attempts: Document[] = relay.attempts || [];
+        let receipt: TransactionReceipt | null = null;
+        for (const attempt of [...attempts].reverse()) {
+            receipt = await provider.getTransactionReceipt(attempt.transactionHash);
+            if (receipt) break;
+        }
+        if (receipt) {
+            if (receipt.status !== 1) {
+                await updateRelay(relayId, { $set: { status: 'failed', transactionHash: receipt.hash, blockNumber: receipt.blockNumber, error: "The transaction reverted." } });
+                throw new Error("The transaction reverted on the blockchain.");
+            }
+            if (await receipt.confirmations() >= config.confirmations) {
+                await updateRelay(relayId, { $set: { status: 'confirmed', transactionHash: receipt.hash, blockNumber: receipt.blockNumber, confirmedAt: new Date() } });
+                return (await transactions.findOne({ _id: relayId }))!;
+            }
+        } else {
+            const last = attempts[attempts.length - 1];
+            if (last && attempts.length <= config.maxFeeBumps && Date.now() - new Date(last.sentAt).getTime() >= config.stuckAfterMs) {
+                const fees = bumpedFees(parseFees(last.fees), await currentFees(provider), config.feeBumpPercent);
+                try {
+                    const sent = await signer.sendTransaction({ to: relay.to, data: relay.data, nonce: relay.nonce, gasLimit: BigInt(relay.gasLimit), chainId: BigInt(relay.chainId), ...fees });
+                    await updateRelay(relayId, { $push: { attempts: { transactionHash: sent.hash, fees: storedFees(fees), sentAt: new Date() } } });
+                    console.warn(`Relayer: transaction ${relayId} was stuck with nonce ${relay.nonce}, rebroadcast as ${sent.hash} with higher fees.`);
+                } catch (error) {
+                    if (!isNonceUsedError(error)) {
+                        throw error;
+                    }
+                    // An earlier attempt was mined in the meantime; its receipt is picked up next round.
+                }
+            }
+        }
+
+        if (Date.now() >= deadline) {
+            throw new Error("The transaction is not confirmed yet. It will complete in the background.");
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
+
+/**
+ * Sends a contract call with the platform signer and waits for it to be confirmed.
+ * @param request What kind of transaction it is, the chain and contract and the contract's ABI,
+ * the function and its arguments, and anything to keep on the record (e.g. the token it is about).
+ * @returns The record's ID, and the confirmed transaction's hash and receipt.
+ * @throws If the call would revert, the transaction reverted, or it is not confirmed in time.
+ */
+export async function relayContractCall(request: {
+    kind: RelayKind;
+    chain: ChainConfig;
+    contractAddress: string;
+    abi: InterfaceAbi;
+    method: string;
+    args: unknown[];
+    context?: Document;
+}): Promise<{ relayId: ObjectId; transactionHash: string; receipt: TransactionReceipt }> {
+    const { transactions } = await getRelayerCollections();
+    const { config, provider, signer } = getSigner(request.chain);
+    const now = new Date();
+
+    const relay = {
+        _id: new ObjectId(),
+        kind: request.kind,
+        chainId: request.chain.chainId,
+        from: signer.address.toLowerCase(),
+        to: request.contractAddress.toLowerCase(),
+        method: request.method,
+        args: request.args.map(arg => typeof arg === 'bigint' || typeof arg === 'number' ? arg.toString() : arg),
+        data: new Interface(request.abi).encodeFunctionData(request.method, request.args),
+        context: request.context || {},
+        status: 'queued' as RelayStatus,
+        attempts: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+    await transactions.insertOne(relay);
+
+    await enqueue(() => submit(relay, request.chain));
+    const confirmed = await waitForRelay(relay._id, config.timeoutMs);
+    const receipt = await provider.getTransactionReceipt(confirmed.transactionHash);
+    return { relayId: relay._id, transactionHash: confirmed.transactionHash, receipt: receipt! };
+}
+
+/**
+ * Picks up transactions a previous server process left behind: submitted ones are followed to
+ * confirmation (bumping fees as needed), and queued ones, whose caller is gone, are marked failed.
+ * Runs in the background; errors are logged.
+ */
+export async function resumeRelayedTransactions(): Promise<void> {
+    const { transactions } = await getRelayerCollections();
+    await transactions.updateMany(
+        { status: 'queued', createdAt: { $lt: new Date(Date.now() - getRelayerConfig().timeoutMs) } },
+        { $set: { status: 'failed', error: "The server stopped before the transaction was sent.", updatedAt: new Date() } }
+    );
+    const submitted = await transactions.find({ status: 'submitted' }, { projection: { _id: 1 } }).toArray();
+    for (const relay of submitted) {
+        waitForRelay(relay._id, Number.MAX_SAFE_INTEGER).catch(error => {
+            console.error(`Relayer: transaction ${relay._id} did not complete:`, error);
+        });
+    }
+}
@@ -0,0 +1,44 @@
+import { ObjectId } from 'mongodb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { collections } from './test/fake-mongo';
+
+vi.mock('./mongodb', () => import('./test/fake-mongo'));
+
+const { resolveRelease } = await import('./releases');
+
+const softwareId = new ObjectId();
+
+function addRelease(version: string, releasedAt: string, channel = 'stable') {
+    collections.get('releases')!.push({ _id: new ObjectId(), softwareId, version, channel, releasedAt: new Date(releasedAt) });
+}
+
+describe('resolveRelease', () => {
+    beforeEach(() => {
+        collections.clear();
+        collections.set('releases', []);
+        addRelease('1.0.0', '2025-01-01T00:00:00Z');
+        addRelease('1.1.0', '2025-06-01T00:00:00Z');
+        addRelease('2.0.0-beta', '2025-08-01T00:00:00Z', 'beta');
+        addRelease('2.0.0', '2025-12-01T00:00:00Z');
+    });
+
+    it('serves the newest stable release to a license that covers every update', async () => {
+        const release = await resolveRelease({ softwareId }, 'stable');
+        expect(release?.version).toBe('2.0.0');
+    });
+
+    it('refuses releases published after the license update coverage', async () => {
+        const release = await resolveRelease({ softwareId, updatesUntil: new Date('2025-07-01T00:00:00Z') }, 'stable');
+        expect(release?.version).toBe('1.1.0');
+    });
+
+    it('lets beta licenses see beta releases within their coverage only', async () => {
+        expect((await resolveRelease({ softwareId, updatesUntil: new Date('2025-09-01T00:00:00Z') }, 'beta'))?.version).toBe('2.0.0-beta');
+        expect((await resolveRelease({ softwareId, updatesUntil: new Date('2025-07-01T00:00:00Z') }, 'beta'))?.version).toBe('1.1.0');
+    });
+
+    it('covers no release when the coverage ended before the first one', async () => {
+        const release = await resolveRelease({ softwareId, updatesUntil: new Date('2024-12-31T00:00:00Z') }, 'stable');
+        expect(release).toBeNull();
+    });
+});
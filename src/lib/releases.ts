@@ -0,0 +1,180 @@
+import { ObjectId, WithId, Document } from 'mongodb';
+import clientPromise from './mongodb';
+import { getKms } from './kms';
+import { releaseKeyContext, softwareKeyContext, wrapReleaseKey } from './content-keys';
+import { AuthError } from './errors';
+
+/**
+ * Releases of a software product. Each release carries its own encrypted
+ * artifact and content key; the software document only describes the product.
+ * License holders are served the newest release on their channel that their
+ * license covers.
+ */
+
+export type ReleaseChannel = 'stable' | 'beta';
+
+export const RELEASE_CHANNELS: ReleaseChannel[] = ['stable', 'beta'];
+
+export interface ReleaseArtifact {
+    fileUrl: string;
+    fileKey: string;
+    fileName: string;
+    mimeType: string;
+    fileSize: number;
+}
+
+export interface NewRelease {
+    version: string;
+    changelog: string;
+    channel: ReleaseChannel;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+export async function getReleasesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('releases');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ softwareId: 1, releasedAt: -1 }),
+            collection.createIndex({ softwareId: 1, version: 1 }, { unique: true }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+let legacySoftwareMigrated: Promise<void> | null = null;
+
+// Software listed before releases existed kept its artifact on the software document,
+// with its content key either in plain text (`decryptionKey`) or wrapped for the
+// software (`contentKey`). Move each of them into an initial stable release.
+async function migrateLegacySoftwareFiles(): Promise<void> {
+    const client = await clientPromise;
+    const db = client.db();
+    const releases = await getReleasesCollection();
+
+    const legacy = await db.collection('software').find({ fileUrl: { $exists: true } }).toArray();
+    for (const software of legacy) {
+        const contentKeyHex = software.decryptionKey
+            ? software.decryptionKey
+            : await getKms().unwrapKey(software.contentKey, softwareKeyContext(software._id));
+
+        const releaseId = new ObjectId();
+        await releases.updateOne(
+            { softwareId: software._id, version: software.version },
+            {
+                $setOnInsert: {
+                    _id: releaseId,
+                    softwareId: software._id,
+                    version: software.version,
+                    changelog: 'Initial release.',
+                    channel: 'stable',
+                    releasedAt: software.createdAt || new Date(),
+                    fileUrl: software.fileUrl,
+                    fileKey: software.fileKey,
+                    fileName: software.fileName,
+                    mimeType: software.mimeType,
+                    fileSize: software.fileSize,
+                    contentKey: await wrapReleaseKey(releaseId, contentKeyHex),
+                },
+            },
+            { upsert: true }
+        );
+
+        await db.collection('software').updateOne(
+            { _id: software._id },
+            { $unset: { fileUrl: '', fileKey: '', fileName: '', mimeType: '', fileSize: '', contentKey: '', decryptionKey: '' } }
+        );
+    }
+}
+
+/**
+ * Moves artifacts still stored on software documents into releases, once per process.
+ */
+export async function ensureReleasesMigrated(): Promise<void> {
+    if (!legacySoftwareMigrated) {
+        legacySoftwareMigrated = migrateLegacySoftwareFiles().catch((error) => {
+            // Let the next request try again rather than caching the failure.
+            legacySoftwareMigrated = null;
+            throw error;
+        });
+    }
+    await legacySoftwareMigrated;
+}
+
+/**
+ * Stores a new release of a product.
+ * @param softwareId The product the release belongs to.
+ * @param release The version, changelog and channel.
+ * @param artifact The encrypted file that was already written to storage.
+ * @param contentKeyHex The key the artifact was encrypted with; it is stored wrapped only.
+ * @param publishedBy The seller publishing the release.
+ * @returns The new release's ID.
+ * @throws If the product already has a release with the same version.
+ */
+export async function createRelease(softwareId: ObjectId, release: NewRelease, artifact: ReleaseArtifact, contentKeyHex: string, publishedBy: ObjectId): Promise<ObjectId> {
+    const releases = await getReleasesCollection();
+    const releaseId = new ObjectId();
+
+    try {
+        await releases.insertOne({
+            _id: releaseId,
+            softwareId,
+            version: release.version,
+            changelog: release.changelog,
+            channel: release.channel,
+            releasedAt: new Date(),
+            ...artifact,
+            contentKey: await wrapReleaseKey(releaseId, contentKeyHex),
+            publishedBy,
+        });
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new AuthError('RELEASE_EXISTS', `Version ${release.version} has already been released.`, 409);
+        }
+        throw error;
+    }
+
+    // Listings show the newest stable version.
+    if (release.channel === 'stable') {
+        const client = await clientPromise;
+        await client.db().collection('software').updateOne({ _id: softwareId }, { $set: { version: release.version } });
+    }
+
+    return releaseId;
+}
+
+/**
+ * Lists a product's releases, newest first, without their key material.
+ * @param softwareId The product.
+ * @returns The release documents.
+ */
+export async function listReleases(softwareId: ObjectId): Promise<WithId<Document>[]> {
+    await ensureReleasesMigrated();
+    const releases = await getReleasesCollection();
+    return releases.find({ softwareId }, { projection: { contentKey: 0 } }).sort({ releasedAt: -1 }).toArray();
+}
+
+/**
+ * Finds the newest release a license may run.
+ * Stable licenses only see stable releases; beta opts into both. Releases published after
+ * a license's `updatesUntil` date are not covered by it.
+ * @param license The license asking for a release.
+ * @param channel The channel the license holder follows.
+ * @returns The release, or null if the license covers none.
+ */
+export async function resolveRelease(license: { softwareId: ObjectId; updatesUntil?: Date }, channel: ReleaseChannel): Promise<WithId<Document> | null> {
+    await ensureReleasesMigrated();
+    const releases = await getReleasesCollection();
+
+    const filter: Document = {
+        softwareId: license.softwareId,
+        channel: { $in: channel === 'beta' ? ['stable', 'beta'] : ['stable'] },
+    };
+    if (license.updatesUntil) {
+        filter.releasedAt = { $lte: license.updatesUntil };
+    }
+
+    return releases.findOne(filter, { sort: { releasedAt: -1 }, projection: { contentKey: 0 } });
+}
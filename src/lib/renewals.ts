@@ -0,0 +1,77 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+import { LicenseTerms, normalizeUpdateDays } from './license-terms';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getRenewalsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('licenseRenewals');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ licenseId: 1, renewedAt: -1 }),
+            // A payment can only ever pay for one renewal.
+            collection.createIndex({ transactionHash: 1 }, { unique: true }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Extends a subscription license by one period and records the renewal.
+ * The new expiry is computed by the database from the stored one, so two renewals
+ * paid at the same time both count.
+ * @param licenseId The license being renewed.
+ * @param terms The license's terms; must be a subscription.
+ * @param payment The payment transaction and the refreshed NFT metadata, if any.
+ * @param updateDays The listing's update coverage, which each renewal extends; unset when every release is covered.
+ * @returns The license's new expiry date.
+ * @throws If the transaction was already used for a renewal.
+ */
+export async function renewSubscription(licenseId: ObjectId, terms: LicenseTerms, payment: { transactionHash: string; metadataUrl?: string }, updateDays?: number): Promise<Date> {
+    const client = await clientPromise;
+    const renewals = await getRenewalsCollection();
+
+    try {
+        await renewals.insertOne({
+            licenseId,
+            transactionHash: payment.transactionHash.toLowerCase(),
+            termDays: terms.termDays,
+            metadataUrl: payment.metadataUrl,
+            renewedAt: new Date(),
+        });
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new AuthError('TRANSACTION_USED', "This transaction has already been used for a renewal.", 409);
+        }
+        throw error;
+    }
+
+    const periodMs = (terms.termDays || 0) * DAY_MS;
+    const coverageDays = normalizeUpdateDays(updateDays);
+    const updated = await client.db().collection('licenses').findOneAndUpdate(
+        { _id: licenseId },
+        [
+            {
+                $set: {
+                    // A lapsed subscription restarts from now, an active one is extended.
+                    expiresAt: { $add: [{ $max: [{ $ifNull: ['$expiresAt', '$$NOW'] }, '$$NOW'] }, periodMs] },
+                    // Update coverage is extended the same way, as in updatesUntil.
+                    ...(coverageDays ? { updatesUntil: { $add: [{ $max: [{ $ifNull: ['$updatesUntil', '$$NOW'] }, '$$NOW'] }, coverageDays * DAY_MS] } } : {}),
+                    ...(payment.metadataUrl ? { metadataUrl: payment.metadataUrl } : {}),
+                },
+            },
+        ],
+        { returnDocument: 'after', projection: { expiresAt: 1 } }
+    );
+    if (!updated) {
+        throw new AuthError('LICENSE_NOT_FOUND', "The license no longer exists.", 404);
+    }
+
+    await renewals.updateOne({ transactionHash: payment.transactionHash.toLowerCase() }, { $set: { expiresAt: updated.expiresAt } });
+    return updated.expiresAt;
+}
@@ -0,0 +1,122 @@
+import { Document, ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+
+/**
+ * Device seats of a license. A license covers `seats` devices (one unless more
+ * were bought) and lists the devices bound to it in `devices`. Licenses bound
+ * before seats existed carry a single `deviceId` instead, which is read as a
+ * one-device list and converted on the next change.
+ */
+
+export interface BoundDevice {
+    deviceId: string;
+    label?: string;
+    boundAt: Date;
+    lastSeenAt?: Date;
+}
+
+// The most seats a single license can hold, whatever the listing allows.
+export const MAX_SEATS_PER_LICENSE = 1000;
+
+export function seatCount(license: Document): number {
+    return license.seats || 1;
+}
+
+export function boundDevices(license: Document): BoundDevice[] {
+    if (Array.isArray(license.devices)) {
+        return license.devices;
+    }
+    return license.deviceId ? [{ deviceId: license.deviceId, boundAt: license.mintDate }] : [];
+}
+
+export function isDeviceBound(license: Document, deviceId: string): boolean {
+    return boundDevices(license).some(device => device.deviceId === deviceId);
+}
+
+// Moves a legacy single `deviceId` into the `devices` list, so the list is the only source of truth.
+async function ensureDeviceList(license: Document): Promise<void> {
+    if (Array.isArray(license.devices)) {
+        return;
+    }
+    const client = await clientPromise;
+    await client.db().collection('licenses').updateOne(
+        { _id: license._id, devices: { $exists: false } },
+        { $set: { devices: boundDevices(license) }, $unset: { deviceId: '' } }
+    );
+}
+
+/**
+ * Binds a device to a free seat of a license. Binding a device that is already bound succeeds.
+ * The seat check and the binding are one conditional update, so concurrent bindings can never
+ * exceed the seat count.
+ * @param license The license document.
+ * @param deviceId The device to bind.
+ * @param label A name for the device or its user, shown to the license owner.
+ * @returns Whether the device is bound, and a message if it is not.
+ */
+export async function bindSeat(license: Document, deviceId: string, label?: string): Promise<{ bound: boolean; message: string }> {
+    if (isDeviceBound(license, deviceId)) {
+        return { bound: true, message: "Device is already correctly bound." };
+    }
+    await ensureDeviceList(license);
+
+    const client = await clientPromise;
+    const seats = seatCount(license);
+    const device: BoundDevice = { deviceId, boundAt: new Date(), ...(label ? { label } : {}) };
+
+    const result = await client.db().collection('licenses').updateOne(
+        {
+            _id: license._id,
+            'devices.deviceId': { $ne: deviceId },
+            $expr: { $lt: [{ $size: '$devices' }, seats] },
+        },
+        // $literal keeps a device ID or label starting with "$" from being read as a field path.
+        [{ $set: { devices: { $concatArrays: ['$devices', [{ $literal: device }]] } } }]
+    );
+    if (result.modifiedCount > 0) {
+        return { bound: true, message: "Device successfully bound to license." };
+    }
+
+    // Either another request bound this same device first, or every seat is taken.
+    const current = await client.db().collection('licenses').findOne({ _id: license._id }, { projection: { devices: 1 } });
+    if (current && isDeviceBound(current, deviceId)) {
+        return { bound: true, message: "Device is already correctly bound." };
+    }
+    return {
+        bound: false,
+        message: seats === 1
+            ? "This license is already bound to another device. Reset the old device from My Licenses to move it."
+            : `All ${seats} seats of this license are in use. Reset a device from My Licenses first.`,
+    };
+}
+
+/**
+ * Frees the seat a device holds on a license.
+ * @param license The license document.
+ * @param deviceId The device to release.
+ * @returns True if the device was bound and has been released.
+ */
+export async function releaseSeat(license: Document, deviceId: string): Promise<boolean> {
+    if (!isDeviceBound(license, deviceId)) {
+        return false;
+    }
+    await ensureDeviceList(license);
+
+    const client = await clientPromise;
+    const result = await client.db().collection('licenses').updateOne(
+        { _id: license._id, 'devices.deviceId': deviceId },
+        [{ $set: { devices: { $filter: { input: '$devices', cond: { $ne: ['$$this.deviceId', { $literal: deviceId }] } } } } }]
+    );
+    return result.modifiedCount > 0;
+}
+
+/**
+ * Records that a bound device just used the license.
+ */
+export async function touchSeat(licenseId: ObjectId, deviceId: string): Promise<void> {
+    const client = await clientPromise;
+    await client.db().collection('licenses').updateOne(
+        { _id: licenseId, 'devices.deviceId': deviceId },
+        { $set: { 'devices.$.lastSeenAt': new Date() } }
+    );
+}
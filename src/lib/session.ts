@@ -0,0 +1,256 @@
+import { cookies } from 'next/headers';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+
+export const SESSION_COOKIE_NAME = 'ss_session';
+
+// Sessions last for a week, after which the user has to sign in again.
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A session belongs to a signed-in user, to a wallet proven through Sign-In With Ethereum, or to both.
+ */
+export interface Session {
+    id: string;
+    userId?: ObjectId;
+    username?: string;
+    walletAddress?: string;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+export interface UserSession extends Session {
+    userId: ObjectId;
+    username: string;
+}
+
+export interface WalletSession extends Session {
+    walletAddress: string;
+}
+
+interface SessionIdentity {
+    userId?: ObjectId;
+    username?: string;
+    walletAddress?: string;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+function getSessionSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+        throw new Error('Server configuration error: SESSION_SECRET is not set in your .env file.');
+    }
+    return secret;
+}
+
+function signToken(token: string): string {
+    return createHmac('sha256', getSessionSecret()).update(token).digest('hex');
+}
+
+// Only a hash of the token is stored, so a database leak does not hand out live sessions.
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Extracts the raw session token from a signed cookie value.
+ * @param value The cookie value in the form `<token>.<signature>`.
+ * @returns The token if the signature is valid, otherwise null.
+ */
+function verifyCookieValue(value: string): string | null {
+    const [token, signature] = value.split('.');
+    if (!token || !signature) {
+        return null;
+    }
+    const expected = Buffer.from(signToken(token), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+    return token;
+}
+
+async function getSessionsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('sessions');
+    if (!indexesReady) {
+        // MongoDB removes expired session documents on its own through the TTL index.
+        indexesReady = Promise.all([
+            collection.createIndex({ tokenHash: 1 }, { unique: true }),
+            collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+            collection.createIndex({ userId: 1 }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Creates a new session and sets the signed session cookie.
+ * Must be called from a server action or route handler.
+ * @param identity The user and/or verified wallet the session belongs to.
+ */
+export async function createSession(identity: SessionIdentity): Promise<void> {
+    const sessions = await getSessionsCollection();
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+
+    await sessions.insertOne({
+        tokenHash: hashToken(token),
+        userId: identity.userId ?? null,
+        username: identity.username ?? null,
+        walletAddress: identity.walletAddress?.toLowerCase() ?? null,
+        createdAt: now,
+        expiresAt,
+        revokedAt: null,
+    });
+
+    cookies().set(SESSION_COOKIE_NAME, `${token}.${signToken(token)}`, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+/**
+ * Resolves whatever session is attached to the current request.
+ * @throws AuthError if there is no cookie or the session is invalid, expired or revoked.
+ */
+async function resolveSession(): Promise<Session> {
+    const cookieValue = cookies().get(SESSION_COOKIE_NAME)?.value;
+    if (!cookieValue) {
+        throw new AuthError('UNAUTHENTICATED', 'You must be signed in to perform this action.');
+    }
+
+    const token = verifyCookieValue(cookieValue);
+    if (!token) {
+        throw new AuthError('INVALID_SESSION', 'Your session is invalid. Please sign in again.');
+    }
+
+    const sessions = await getSessionsCollection();
+    const session = await sessions.findOne({ tokenHash: hashToken(token) });
+    if (!session) {
+        throw new AuthError('INVALID_SESSION', 'Your session is invalid. Please sign in again.');
+    }
+    if (session.revokedAt) {
+        throw new AuthError('SESSION_REVOKED', 'Your session has been signed out. Please sign in again.');
+    }
+    if (new Date() > session.expiresAt) {
+        throw new AuthError('SESSION_EXPIRED', 'Your session has expired. Please sign in again.');
+    }
+
+    return {
+        id: session._id.toString(),
+        userId: session.userId ?? undefined,
+        username: session.username ?? undefined,
+        walletAddress: session.walletAddress ?? undefined,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+    };
+}
+
+/**
+ * Resolves the signed-in user's session for the current request.
+ * @returns The active user session.
+ * @throws AuthError if nobody is signed in with an account.
+ */
+export async function requireSession(): Promise<UserSession> {
+    const session = await resolveSession();
+    if (!session.userId || !session.username) {
+        throw new AuthError('UNAUTHENTICATED', 'You must be signed in to perform this action.');
+    }
+    return session as UserSession;
+}
+
+/**
+ * Resolves a session whose wallet address has been proven with a signed SIWE message.
+ * @returns The active wallet session.
+ * @throws AuthError if the caller has not proven ownership of a wallet.
+ */
+export async function requireWalletSession(): Promise<WalletSession> {
+    const session = await resolveSession().catch((error) => {
+        if (error instanceof AuthError && error.code === 'UNAUTHENTICATED') {
+            throw new AuthError('WALLET_NOT_VERIFIED', 'Sign in with your wallet to perform this action.');
+        }
+        throw error;
+    });
+    if (!session.walletAddress) {
+        throw new AuthError('WALLET_NOT_VERIFIED', 'Sign in with your wallet to perform this action.');
+    }
+    return session as WalletSession;
+}
+
+/**
+ * Same as the require helpers, but returns null instead of throwing for anonymous callers.
+ * @returns The active session or null.
+ */
+export async function getSession(): Promise<Session | null> {
+    try {
+        return await resolveSession();
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Records a verified wallet on the current session, or starts a new session for it.
+ * An existing account session keeps its user so a seller stays signed in while proving their wallet.
+ * @param walletAddress The address recovered from the SIWE signature.
+ * @param user The account linked to this wallet, used when no session exists yet.
+ * @returns The username signed in on the resulting session, if any.
+ */
+export async function attachWalletToSession(walletAddress: string, user?: { _id: ObjectId; username: string }): Promise<string | undefined> {
+    const current = await getSession();
+
+    if (current) {
+        const sessions = await getSessionsCollection();
+        await sessions.updateOne(
+            { _id: new ObjectId(current.id) },
+            { $set: { walletAddress: walletAddress.toLowerCase() } }
+        );
+        return current.username;
+    }
+
+    await createSession({ userId: user?._id, username: user?.username, walletAddress });
+    return user?.username;
+}
+
+/**
+ * Revokes the session attached to the current request and clears the cookie.
+ */
+export async function destroySession(): Promise<void> {
+    const cookieValue = cookies().get(SESSION_COOKIE_NAME)?.value;
+    const token = cookieValue ? verifyCookieValue(cookieValue) : null;
+
+    if (token) {
+        const sessions = await getSessionsCollection();
+        await sessions.updateOne(
+            { tokenHash: hashToken(token) },
+            { $set: { revokedAt: new Date() } }
+        );
+    }
+
+    cookies().delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Revokes every session belonging to a user, e.g. after a password reset or account deletion.
+ * @param userId The ID of the user whose sessions should be revoked.
+ */
+export async function revokeUserSessions(userId: ObjectId): Promise<void> {
+    const sessions = await getSessionsCollection();
+    await sessions.updateMany(
+        { userId, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+    );
+}
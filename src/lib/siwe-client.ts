@@ -0,0 +1,47 @@
+import { BrowserProvider } from 'ethers';
+import { buildSiweMessage, SIWE_STATEMENT } from './siwe';
+
+/**
+ * Runs the Sign-In With Ethereum flow from the browser: fetches a nonce, asks
+ * MetaMask to sign the message and sends the signature to the server, which
+ * binds the proven wallet to the session cookie.
+ * @returns An object indicating success or failure, with the verified address on success.
+ */
+export async function signInWithEthereum(): Promise<{ success: boolean; message: string; walletAddress?: string; username?: string; }> {
+    if (typeof window.ethereum === 'undefined') {
+        return { success: false, message: 'MetaMask is not installed.' };
+    }
+
+    const provider = new BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    const address = await signer.getAddress();
+    const network = await provider.getNetwork();
+
+    const nonceResponse = await fetch('/api/auth/siwe/nonce');
+    const nonceResult = await nonceResponse.json();
+    if (!nonceResponse.ok || !nonceResult.success) {
+        return { success: false, message: nonceResult.message || 'Could not start wallet sign-in.' };
+    }
+
+    const issuedAt = new Date();
+    const message = buildSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: Number(network.chainId),
+        nonce: nonceResult.nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: new Date(issuedAt.getTime() + 10 * 60 * 1000).toISOString(),
+    });
+
+    const signature = await signer.signMessage(message);
+
+    const verifyResponse = await fetch('/api/auth/siwe/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+    });
+    return verifyResponse.json();
+}
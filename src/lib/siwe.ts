@@ -0,0 +1,97 @@
+/**
+ * Helpers for building and parsing Sign-In With Ethereum (EIP-4361) messages.
+ * Shared by the browser, which asks the wallet to sign the message, and the
+ * server, which parses it back before verifying the signature.
+ */
+
+export interface SiweMessage {
+    domain: string;
+    address: string;
+    statement?: string;
+    uri: string;
+    version: string;
+    chainId: number;
+    nonce: string;
+    issuedAt: string;
+    expirationTime?: string;
+}
+
+export const SIWE_STATEMENT = 'Sign in to Software Shop to prove you own this wallet.';
+
+/**
+ * Formats the fields into the exact text layout defined by EIP-4361.
+ * @param message The message fields.
+ * @returns The plain-text message to be signed with personal_sign.
+ */
+export function buildSiweMessage(message: SiweMessage): string {
+    const lines = [
+        `${message.domain} wants you to sign in with your Ethereum account:`,
+        message.address,
+        '',
+    ];
+    if (message.statement) {
+        lines.push(message.statement, '');
+    }
+    lines.push(
+        `URI: ${message.uri}`,
+        `Version: ${message.version}`,
+        `Chain ID: ${message.chainId}`,
+        `Nonce: ${message.nonce}`,
+        `Issued At: ${message.issuedAt}`,
+    );
+    if (message.expirationTime) {
+        lines.push(`Expiration Time: ${message.expirationTime}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Parses a plain-text EIP-4361 message back into its fields.
+ * @param text The signed message text.
+ * @returns The parsed fields, or null if the text is not a valid SIWE message.
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+    const lines = text.split('\n');
+
+    const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+    const address = lines[1];
+    if (!header || !address || !/^0x[0-9a-fA-F]{40}$/.test(address) || lines[2] !== '') {
+        return null;
+    }
+
+    let index = 3;
+    let statement: string | undefined;
+    if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+        statement = lines[index];
+        if (lines[index + 1] !== '') {
+            return null;
+        }
+        index += 2;
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of lines.slice(index)) {
+        const separator = line.indexOf(': ');
+        if (separator === -1) {
+            return null;
+        }
+        fields[line.slice(0, separator)] = line.slice(separator + 2);
+    }
+
+    const chainId = Number(fields['Chain ID']);
+    if (!fields['URI'] || fields['Version'] !== '1' || !Number.isInteger(chainId) || !fields['Nonce'] || !fields['Issued At']) {
+        return null;
+    }
+
+    return {
+        domain: header[1],
+        address,
+        statement,
+        uri: fields['URI'],
+        version: fields['Version'],
+        chainId,
+        nonce: fields['Nonce'],
+        issuedAt: fields['Issued At'],
+        expirationTime: fields['Expiration Time'],
+    };
+}
@@ -0,0 +1,157 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The provider is cached per module, so each test loads a fresh copy under its own environment.
+async function loadStorage(env: Record<string, string>) {
+    vi.resetModules();
+    for (const [name, value] of Object.entries(env)) {
+        vi.stubEnv(name, value);
+    }
+    return import('./storage');
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+        },
+    });
+}
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+});
+
+describe('getStorageProvider', () => {
+    it('refuses unknown providers and incomplete configuration', async () => {
+        const unknown = await loadStorage({ STORAGE_PROVIDER: 'ftp' });
+        expect(() => unknown.getStorageProvider()).toThrow('unknown STORAGE_PROVIDER "ftp"');
+
+        const s3 = await loadStorage({ STORAGE_PROVIDER: 's3', S3_ENDPOINT: '', S3_BUCKET: 'bucket' });
+        expect(() => s3.getStorageProvider()).toThrow('S3_ENDPOINT, S3_BUCKET');
+    });
+});
+
+describe('local storage', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'storage-test-'));
+    });
+
+    afterAll(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('writes streams and JSON under safe keys and serves them back', async () => {
+        const storage = await loadStorage({ STORAGE_PROVIDER: 'local', LOCAL_STORAGE_DIR: directory, LOCAL_STORAGE_PUBLIC_URL: 'https://shop.example/' });
+        const provider = storage.getStorageProvider();
+
+        const file = await provider.putStream(streamOf('encrypted ', 'bytes'), { fileName: 'my app (v2).bin', contentType: 'application/octet-stream' });
+        expect(file.key).toMatch(/^[0-9a-f-]{36}-my_app__v2_\.bin$/);
+        expect(file.url).toBe(`https://shop.example/api/storage/${file.key}`);
+
+        const stored = await storage.readLocalObject(file.key);
+        expect(stored).toMatchObject({ size: 15, contentType: 'application/octet-stream' });
+        expect(await new Response(stored!.body).text()).toBe('encrypted bytes');
+
+        const metadata = await provider.putJson({ name: 'License #1' }, 'metadata.json');
+        const storedMetadata = await storage.readLocalObject(metadata.key);
+        expect(storedMetadata!.contentType).toBe('application/json');
+        expect(await new Response(storedMetadata!.body).json()).toEqual({ name: 'License #1' });
+
+        await provider.remove(file.key);
+        await provider.remove(metadata.key);
+        expect(await storage.readLocalObject(file.key)).toBeNull();
+        expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('does not step outside the storage directory', async () => {
+        const storage = await loadStorage({ STORAGE_PROVIDER: 'local', LOCAL_STORAGE_DIR: directory });
+        for (const key of ['../secret', '.env', 'a/b', '']) {
+            expect(await storage.readLocalObject(key)).toBeNull();
+            await expect(storage.getStorageProvider().remove(key)).rejects.toThrow('Invalid storage key');
+        }
+    });
+});
+
+describe('S3 storage', () => {
+    it('sends signed path-style requests with the content length', async () => {
+        const requests: { url: string; init: RequestInit }[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (url: URL, init: RequestInit) => {
+            requests.push({ url: String(url), init });
+            return new Response(null, { status: 200 });
+        }));
+        const storage = await loadStorage({
+            STORAGE_PROVIDER: 's3',
+            S3_ENDPOINT: 'http://localhost:9000/',
+            S3_BUCKET: 'software-shop',
+            S3_ACCESS_KEY_ID: 'minioadmin',
+            S3_SECRET_ACCESS_KEY: 'minioadmin',
+        });
+        const provider = storage.getStorageProvider();
+
+        const stored = await provider.putJson({ name: 'License #1' }, 'metadata.json');
+        expect(stored.url).toBe(`http://localhost:9000/software-shop/${stored.key}`);
+
+        const [put] = requests;
+        const headers = put.init.headers as Record<string, string>;
+        expect(put.url).toBe(stored.url);
+        expect(put.init.method).toBe('PUT');
+        expect(headers['Content-Length']).toBe(String(JSON.stringify({ name: 'License #1' }).length));
+        expect(headers['x-amz-content-sha256']).toBe('UNSIGNED-PAYLOAD');
+        expect(headers.Authorization).toMatch(
+            /^AWS4-HMAC-SHA256 Credential=minioadmin\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+        );
+
+        // Without a known length the body is buffered so PutObject gets one.
+        await provider.putStream(streamOf('abc', 'def'), { fileName: 'app.bin', contentType: 'application/octet-stream' });
+        expect((requests[1].init.headers as Record<string, string>)['Content-Length']).toBe('6');
+
+        await provider.remove(stored.key);
+        expect(requests[2].init.method).toBe('DELETE');
+    });
+
+    it('reports failed uploads', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('AccessDenied', { status: 403 })));
+        const storage = await loadStorage({
+            STORAGE_PROVIDER: 's3',
+            S3_ENDPOINT: 'http://localhost:9000',
+            S3_BUCKET: 'software-shop',
+            S3_ACCESS_KEY_ID: 'minioadmin',
+            S3_SECRET_ACCESS_KEY: 'wrong',
+        });
+
+        await expect(storage.getStorageProvider().putJson({}, 'metadata.json')).rejects.toThrow('Failed to upload to S3. Reason: 403 - AccessDenied');
+    });
+});
+
+// Runs against a real S3-compatible store, e.g. a local MinIO, when S3_ENDPOINT and its
+// credentials are set. The bucket must allow public reads, as it must for the app itself.
+describe.skipIf(!process.env.S3_ENDPOINT)('S3 storage against a live bucket', () => {
+    it('stores, serves and deletes objects', async () => {
+        const storage = await loadStorage({ STORAGE_PROVIDER: 's3' });
+        const provider = storage.getStorageProvider();
+
+        const contents = 'x'.repeat(100000);
+        const file = await provider.putStream(streamOf(contents.slice(0, 40000), contents.slice(40000)), {
+            fileName: 'app.bin',
+            contentType: 'application/octet-stream',
+            contentLength: contents.length,
+        });
+        const metadata = await provider.putJson({ name: 'License #1' }, 'metadata.json');
+
+        expect(await (await fetch(file.url)).text()).toBe(contents);
+        expect(await (await fetch(metadata.url)).json()).toEqual({ name: 'License #1' });
+
+        await provider.remove(file.key);
+        await provider.remove(metadata.key);
+        // Buckets without public listing answer 403 rather than 404 for missing objects.
+        expect((await fetch(file.url)).ok).toBe(false);
+    });
+});
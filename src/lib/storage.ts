@@ -0,0 +1,336 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, open, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+
+/**
+ * Storage backends for encrypted software files and license metadata. The
+ * backend is chosen with STORAGE_PROVIDER:
+ *   pinata  IPFS pinning through Pinata (default)
+ *   local   files under LOCAL_STORAGE_DIR, served by /api/storage/[key]
+ *   s3      any S3-compatible bucket, e.g. AWS S3 or a local MinIO
+ * Every backend hands back a public URL, which is what ends up in license files
+ * and NFT metadata.
+ */
+
+export interface StoredObject {
+    key: string;
+    url: string;
+}
+
+export interface PutOptions {
+    fileName: string;
+    contentType: string;
+    // Known size of the body in bytes. Backends that need it up front buffer the body when it is missing.
+    contentLength?: number;
+}
+
+export interface StorageProvider {
+    readonly name: 'pinata' | 'local' | 's3';
+    putStream(body: ReadableStream<Uint8Array>, options: PutOptions): Promise<StoredObject>;
+    putJson(data: object, fileName: string): Promise<StoredObject>;
+    remove(key: string): Promise<void>;
+}
+
+// Object keys only ever contain these characters, so they are safe in paths and URLs alike.
+const SAFE_KEY_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+function newObjectKey(fileName: string): string {
+    return `${randomUUID()}-${fileName.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+function jsonStream(data: object): { body: ReadableStream<Uint8Array>; contentLength: number } {
+    const bytes = new TextEncoder().encode(JSON.stringify(data));
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(bytes);
+            controller.close();
+        },
+    });
+    return { body, contentLength: bytes.length };
+}
+
+// Wraps a byte stream in a single-file multipart/form-data body without buffering it.
+function multipartFileStream(boundary: string, fileName: string, contentType: string, body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const reader = body.getReader();
+    const safeFileName = fileName.replace(/["\r\n]/g, '_');
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(encoder.encode(
+                `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${safeFileName}"\r\nContent-Type: ${contentType}\r\n\r\n`
+            ));
+        },
+        async pull(controller) {
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`));
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+}
+
+function createPinataProvider(): StorageProvider {
+    const PINATA_API_KEY = process.env.PINATA_API_KEY;
+    const PINATA_SECRET_API_KEY = process.env.PINATA_SECRET_API_KEY;
+    const gatewayUrl = (process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud/ipfs').replace(/\/$/, '');
+
+    if (!PINATA_API_KEY || !PINATA_SECRET_API_KEY) {
+        throw new Error("Server configuration error: Pinata API keys are not set.");
+    }
+
+    const authHeaders = {
+        'pinata_api_key': PINATA_API_KEY,
+        'pinata_secret_api_key': PINATA_SECRET_API_KEY,
+    };
+
+    return {
+        name: 'pinata',
+
+        async putStream(body, { fileName, contentType }) {
+            const boundary = `----SoftwareShop${randomUUID()}`;
+
+            // `duplex` is required by Node's fetch for streaming request bodies but is not in the DOM typings yet.
+            const response = await fetch("https://api.pinata.cloud/pinning/pinFileToIPFS", {
+                method: 'POST',
+                headers: { ...authHeaders, 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+                body: multipartFileStream(boundary, fileName, contentType, body),
+                duplex: 'half',
+            } as RequestInit);
+
+            if (!response.ok) {
+                throw new Error(`Failed to upload to Pinata. Reason: Pinata API Error: ${response.status} - ${await response.text()}`);
+            }
+
+            const { IpfsHash } = await response.json();
+            return { key: IpfsHash, url: `${gatewayUrl}/${IpfsHash}` };
+        },
+
+        async putJson(data) {
+            try {
+                const response = await axios.post("https://api.pinata.cloud/pinning/pinJSONToIPFS", data, { headers: authHeaders });
+                const { IpfsHash } = response.data;
+                return { key: IpfsHash, url: `${gatewayUrl}/${IpfsHash}` };
+            } catch (error: any) {
+                let errorMessage = "An unknown error occurred during metadata upload.";
+                if (error.response) {
+                    errorMessage = `Pinata API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`;
+                } else if (error.request) {
+                    errorMessage = "No response received from Pinata. Check your network connection.";
+                } else {
+                    errorMessage = error.message;
+                }
+                throw new Error(`Failed to upload to Pinata. Reason: ${errorMessage}`);
+            }
+        },
+
+        async remove(key) {
+            const response = await fetch(`https://api.pinata.cloud/pinning/unpin/${encodeURIComponent(key)}`, {
+                method: 'DELETE',
+                headers: authHeaders,
+            });
+            if (!response.ok) {
+                throw new Error(`Failed to unpin from Pinata. Reason: ${response.status} - ${await response.text()}`);
+            }
+        },
+    };
+}
+
+function localStorageDir(): string {
+    return path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage');
+}
+
+function createLocalProvider(): StorageProvider {
+    const directory = localStorageDir();
+    // Must be absolute: the URLs end up in NFT metadata that wallets fetch on their own.
+    const publicUrl = (process.env.LOCAL_STORAGE_PUBLIC_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+    const putStream = async (body: ReadableStream<Uint8Array>, { fileName }: PutOptions): Promise<StoredObject> => {
+        await mkdir(directory, { recursive: true });
+        const key = newObjectKey(fileName);
+        const filePath = path.join(directory, key);
+
+        const handle = await open(filePath, 'wx');
+        try {
+            const reader = body.getReader();
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                await handle.write(value);
+            }
+        } catch (error) {
+            await handle.close();
+            await rm(filePath, { force: true });
+            throw error;
+        }
+        await handle.close();
+
+        return { key, url: `${publicUrl}/api/storage/${key}` };
+    };
+
+    return {
+        name: 'local',
+        putStream,
+        async putJson(data, fileName) {
+            const { body, contentLength } = jsonStream(data);
+            return putStream(body, { fileName, contentType: 'application/json', contentLength });
+        },
+        async remove(key) {
+            if (!SAFE_KEY_PATTERN.test(key) || key.startsWith('.')) {
+                throw new Error(`Invalid storage key: ${key}`);
+            }
+            await rm(path.join(directory, key), { force: true });
+        },
+    };
+}
+
+/**
+ * Opens an object written by the local provider so the storage route can serve it.
+ * @param key The object key from the URL.
+ * @returns The file as a web stream with its size and content type, or null if it does not exist.
+ */
+export async function readLocalObject(key: string): Promise<{ body: ReadableStream<Uint8Array>; size: number; contentType: string } | null> {
+    if (!SAFE_KEY_PATTERN.test(key) || key.startsWith('.')) {
+        return null;
+    }
+
+    const filePath = path.join(localStorageDir(), key);
+    const info = await stat(filePath).catch(() => null);
+    if (!info || !info.isFile()) {
+        return null;
+    }
+
+    return {
+        body: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+        size: info.size,
+        contentType: key.endsWith('.json') ? 'application/json' : 'application/octet-stream',
+    };
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Builds AWS Signature Version 4 headers for a path-style S3 request. The payload
+ * is left unsigned so bodies can be streamed; TLS protects it in transit.
+ */
+function signS3Request(method: string, url: URL, headers: Record<string, string>, credentials: { accessKeyId: string; secretAccessKey: string; region: string }): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = 'UNSIGNED-PAYLOAD';
+
+    const signedHeaderValues: Record<string, string> = { host: url.host, 'x-amz-content-sha256': payloadHash, 'x-amz-date': amzDate };
+    for (const [name, value] of Object.entries(headers)) {
+        signedHeaderValues[name.toLowerCase()] = value.trim();
+    }
+    const headerNames = Object.keys(signedHeaderValues).sort();
+    const canonicalHeaders = headerNames.map(name => `${name}:${signedHeaderValues[name]}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself, so it is signed but not sent explicitly.
+    const { host, ...sentHeaders } = signedHeaderValues;
+    return {
+        ...sentHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
+
+function createS3Provider(): StorageProvider {
+    const endpoint = process.env.S3_ENDPOINT?.replace(/\/$/, '');
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    const region = process.env.S3_REGION || 'us-east-1';
+
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error("Server configuration error: S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set.");
+    }
+    const publicUrl = (process.env.S3_PUBLIC_URL || `${endpoint}/${bucket}`).replace(/\/$/, '');
+
+    const putStream = async (body: ReadableStream<Uint8Array>, { fileName, contentType, contentLength }: PutOptions): Promise<StoredObject> => {
+        const key = newObjectKey(fileName);
+        const url = new URL(`${endpoint}/${bucket}/${key}`);
+
+        // PutObject needs the length up front; without it the body has to be buffered.
+        let payload: ReadableStream<Uint8Array> | Uint8Array = body;
+        let length = contentLength;
+        if (length === undefined) {
+            payload = new Uint8Array(await new Response(body).arrayBuffer());
+            length = payload.length;
+        }
+
+        const headers = signS3Request('PUT', url, { 'Content-Type': contentType }, { accessKeyId, secretAccessKey, region });
+        const response = await fetch(url, {
+            method: 'PUT',
+            headers: { ...headers, 'Content-Length': String(length) },
+            body: payload,
+            duplex: 'half',
+        } as RequestInit);
+
+        if (!response.ok) {
+            throw new Error(`Failed to upload to S3. Reason: ${response.status} - ${await response.text()}`);
+        }
+
+        return { key, url: `${publicUrl}/${key}` };
+    };
+
+    return {
+        name: 's3',
+        putStream,
+        async putJson(data, fileName) {
+            const { body, contentLength } = jsonStream(data);
+            return putStream(body, { fileName, contentType: 'application/json', contentLength });
+        },
+        async remove(key) {
+            const url = new URL(`${endpoint}/${bucket}/${key}`);
+            const headers = signS3Request('DELETE', url, {}, { accessKeyId, secretAccessKey, region });
+            const response = await fetch(url, { method: 'DELETE', headers });
+            if (!response.ok) {
+                throw new Error(`Failed to delete from S3. Reason: ${response.status} - ${await response.text()}`);
+            }
+        },
+    };
+}
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Returns the storage backend selected by STORAGE_PROVIDER, creating it on first use.
+ * @throws If the provider name is unknown or its configuration is incomplete.
+ */
+export function getStorageProvider(): StorageProvider {
+    if (!provider) {
+        const name = process.env.STORAGE_PROVIDER || 'pinata';
+        switch (name) {
+            case 'pinata':
+                provider = createPinataProvider();
+                break;
+            case 'local':
+                provider = createLocalProvider();
+                break;
+            case 's3':
+                provider = createS3Provider();
+                break;
+            default:
+                throw new Error(`Server configuration error: unknown STORAGE_PROVIDER "${name}".`);
+        }
+    }
+    return provider;
+}
@@ -0,0 +1,237 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * An in-memory stand-in for the `./mongodb` client, shared by every test suite:
+ *
+ *     vi.mock('./mongodb', () => import('./test/fake-mongo'));
+ *
+ * Collections are arrays of documents in `collections`, which tests may fill and
+ * read directly. Only the filter and update operators the library uses are
+ * understood; any other one throws, so a query the fake cannot answer fails the
+ * test instead of quietly matching the wrong documents.
+ */
+
+export const collections = new Map<string, any[]>();
+
+// Copies a document the way a round trip through the database would, keeping ObjectIds and Dates.
+function copy(value: any): any {
+    if (value instanceof ObjectId) return value;
+    if (value instanceof Date) return new Date(value);
+    if (Array.isArray(value)) return value.map(copy);
+    if (value && Object.getPrototypeOf(value) === Object.prototype) return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, copy(entry)]));
+    return value;
+}
+
+function getPath(document: any, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], document);
+}
+
+function setPath(document: any, path: string, value: any) {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce((object, key) => (object[key] ??= {}), document);
+    parent[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(document: any, path: string) {
+    const keys = path.split('.');
+    const parent = getPath(document, keys.slice(0, -1).join('.')) ?? (keys.length === 1 ? document : undefined);
+    if (parent) delete parent[keys[keys.length - 1]];
+}
+
+function sameValue(a: any, b: any): boolean {
+    if (a instanceof ObjectId) return a.equals(b);
+    if (a instanceof Date) return b instanceof Date && a.getTime() === b.getTime();
+    return a === b;
+}
+
+function isOperatorObject(condition: any): boolean {
+    return condition && typeof condition === 'object' && !(condition instanceof ObjectId) && !(condition instanceof Date)
+        && Object.keys(condition).length > 0 && Object.keys(condition).every(key => key.startsWith('$'));
+}
+
+export function matches(document: any, filter: any): boolean {
+    return Object.entries(filter).every(([field, condition]: [string, any]) => {
+        if (field === '$or') {
+            return condition.some((alternative: any) => matches(document, alternative));
+        }
+        if (field.startsWith('$')) {
+            throw new Error(`Unsupported operator ${field}`);
+        }
+        const value = getPath(document, field);
+        if (!isOperatorObject(condition)) {
+            return sameValue(condition, value);
+        }
+        return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+            switch (operator) {
+                case '$ne': return !sameValue(operand, value);
+                case '$in': return operand.some((candidate: any) => sameValue(candidate, value));
+                case '$exists': return (value !== undefined) === operand;
+                case '$lt': return value !== undefined && value !== null && value < operand;
+                case '$lte': return value !== undefined && value !== null && value <= operand;
+                case '$gt': return value !== undefined && value !== null && value > operand;
+                case '$gte': return value !== undefined && value !== null && value >= operand;
+                default: throw new Error(`Unsupported operator ${operator}`);
+            }
+        });
+    });
+}
+
+// Evaluates the aggregation expressions of pipeline updates.
+function evaluate(expression: any, document: any): any {
+    if (typeof expression === 'string' && expression.startsWith('$')) return getPath(document, expression.slice(1));
+    if (!expression || typeof expression !== 'object' || expression instanceof ObjectId || expression instanceof Date) return expression;
+    const [[operator, operands]] = Object.entries<any[]>(expression);
+    const values = operands.map(operand => evaluate(operand, document));
+    switch (operator) {
+        case '$add': return values.reduce((sum, value) => sum + value, 0);
+        case '$max': return Math.max(...values);
+        case '$ifNull': return values[0] ?? values[1];
+        default: throw new Error(`Unsupported operator ${operator}`);
+    }
+}
+
+// Applies an update; `$setOnInsert` only counts when an upsert inserts the document.
+function applyUpdate(document: any, update: any, inserting = false) {
+    if (Array.isArray(update)) {
+        for (const stage of update) {
+            for (const [operator, fields] of Object.entries<any>(stage)) {
+                if (operator !== '$set') throw new Error(`Unsupported pipeline stage ${operator}`);
+                for (const [field, expression] of Object.entries(fields)) setPath(document, field, evaluate(expression, document));
+            }
+        }
+        return;
+    }
+    for (const [operator, fields] of Object.entries<any>(update)) {
+        for (const [field, value] of Object.entries<any>(fields)) {
+            switch (operator) {
+                case '$set': setPath(document, field, copy(value)); break;
+                case '$setOnInsert': if (inserting) setPath(document, field, copy(value)); break;
+                case '$unset': unsetPath(document, field); break;
+                case '$push': setPath(document, field, [...(getPath(document, field) || []), copy(value)]); break;
+                case '$inc': setPath(document, field, (getPath(document, field) || 0) + value); break;
+                default: throw new Error(`Unsupported operator ${operator}`);
+            }
+        }
+    }
+}
+
+function duplicateKeyError() {
+    return Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+}
+
+function sortDocuments(documents: any[], sort: Record<string, number> | undefined) {
+    if (!sort) return documents;
+    return [...documents].sort((a, b) => {
+        for (const [field, direction] of Object.entries(sort)) {
+            const [left, right] = [getPath(a, field), getPath(b, field)];
+            if (left < right) return -direction;
+            if (left > right) return direction;
+        }
+        return 0;
+    });
+}
+
+function getCollection(name: string) {
+    // Looked up on every call, so tests may clear the collections or replace a collection's array.
+    const documents = () => {
+        if (!collections.has(name)) collections.set(name, []);
+        return collections.get(name)!;
+    };
+
+    // The document an upsert inserts: the filter's plain equality fields, then the update.
+    function upsert(filter: any, update: any) {
+        if (filter._id !== undefined && documents().some(candidate => sameValue(filter._id, candidate._id))) {
+            throw duplicateKeyError();
+        }
+        const document: any = {};
+        for (const [field, condition] of Object.entries(filter)) {
+            if (!field.startsWith('$') && !isOperatorObject(condition)) setPath(document, field, copy(condition));
+        }
+        applyUpdate(document, update, true);
+        document._id ??= new ObjectId();
+        documents().push(document);
+        return document;
+    }
+
+    function cursor(filter: any, options: any = {}) {
+        let sort: Record<string, number> | undefined = options.sort;
+        let limit = 0;
+        return {
+            sort(order: Record<string, number>) { sort = order; return this; },
+            limit(count: number) { limit = count; return this; },
+            async toArray() {
+                const found = sortDocuments(documents().filter(document => matches(document, filter)), sort);
+                return (limit ? found.slice(0, limit) : found).map(copy);
+            },
+        };
+    }
+
+    return {
+        createIndex: async () => 'index',
+        dropIndex: async () => undefined,
+        insertOne: async (document: any) => {
+            const stored = { _id: new ObjectId(), ...copy(document) };
+            if (documents().some(candidate => sameValue(stored._id, candidate._id))) throw duplicateKeyError();
+            documents().push(stored);
+            return { acknowledged: true, insertedId: stored._id };
+        },
+        find: (filter: any = {}, options?: any) => cursor(filter, options),
+        findOne: async (filter: any = {}, options: any = {}) => {
+            const [found] = sortDocuments(documents().filter(document => matches(document, filter)), options.sort);
+            return found ? copy(found) : null;
+        },
+        countDocuments: async (filter: any = {}) => documents().filter(document => matches(document, filter)).length,
+        distinct: async (field: string, filter: any = {}) => {
+            const values: any[] = [];
+            for (const document of documents().filter(candidate => matches(candidate, filter))) {
+                const value = getPath(document, field);
+                if (!values.some(known => sameValue(known, value))) values.push(value);
+            }
+            return values;
+        },
+        updateOne: async (filter: any, update: any, options: any = {}) => {
+            const document = documents().find(candidate => matches(candidate, filter));
+            if (document) {
+                applyUpdate(document, update);
+                return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+            }
+            if (options.upsert) {
+                return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: upsert(filter, update)._id };
+            }
+            return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+        },
+        updateMany: async (filter: any, update: any) => {
+            const found = documents().filter(document => matches(document, filter));
+            found.forEach(document => applyUpdate(document, update));
+            return { matchedCount: found.length, modifiedCount: found.length };
+        },
+        findOneAndUpdate: async (filter: any, update: any, options: any = {}) => {
+            const document = documents().find(candidate => matches(candidate, filter));
+            if (!document) {
+                if (!options.upsert) return null;
+                const inserted = upsert(filter, update);
+                return options.returnDocument === 'after' ? copy(inserted) : null;
+            }
+            const before = copy(document);
+            applyUpdate(document, update);
+            return options.returnDocument === 'after' ? copy(document) : before;
+        },
+        deleteOne: async (filter: any) => {
+            const index = documents().findIndex(document => matches(document, filter));
+            if (index >= 0) documents().splice(index, 1);
+            return { deletedCount: index >= 0 ? 1 : 0 };
+        },
+        deleteMany: async (filter: any = {}) => {
+            const kept = documents().filter(document => !matches(document, filter));
+            const deletedCount = documents().length - kept.length;
+            documents().splice(0, documents().length, ...kept);
+            return { deletedCount };
+        },
+    };
+}
+
+const client = {
+    db: () => ({ collection: getCollection }),
+};
+
+export default Promise.resolve(client);
@@ -0,0 +1,121 @@
+import { Interface, Transaction, ZeroAddress, id, parseUnits } from 'ethers';
+import { SOFTWARE_LICENSE_ABI } from '../abi';
+import type { ChainConfig } from '../chains';
+
+const licenseInterface = new Interface(SOFTWARE_LICENSE_ABI);
+
+export type LicenseEvent = ['Transfer', string, string, number] | ['LicenseBlockedStatusChanged', number, boolean];
+
+/**
+ * A chain node standing in for the provider `chainProvider` returns, shared by every
+ * test suite. It records the transactions it is sent and mines them when told to,
+ * holds the license contract's events, owners and blocked flags, and can
+ * reorganize its blocks.
+ */
+export class FakeNode {
+    head = 0;
+    pendingNonce = 0;
+    autoMine = true;
+    feeData: { maxFeePerGas: bigint | null; maxPriorityFeePerGas: bigint | null; gasPrice: bigint | null } = {
+        maxFeePerGas: parseUnits('30', 'gwei'),
+        maxPriorityFeePerGas: parseUnits('2', 'gwei'),
+        gasPrice: parseUnits('30', 'gwei'),
+    };
+    estimateError: Error | null = null;
+    broadcastErrors: Error[] = [];
+    sent: Transaction[] = [];
+    receipts = new Map<string, any>();
+    logs: any[] = [];
+    owners = new Map<number, string>();
+    blocked = new Set<number>();
+    tokenURIs = new Map<number, string>();
+    private fork = 0;
+    private forkedAfter = Infinity;
+
+    constructor(private chain: Pick<ChainConfig, 'chainId' | 'contractAddress'>) {}
+
+    private blockHash(blockNumber: number) {
+        return id(`block ${blockNumber} fork ${blockNumber > this.forkedAfter ? this.fork : 0}`);
+    }
+
+    async getNetwork() { return { chainId: BigInt(this.chain.chainId) }; }
+    async getFeeData() { return this.feeData; }
+    async getTransactionCount() { return this.pendingNonce; }
+    async getTransactionReceipt(hash: string) { return this.receipts.get(hash) ?? null; }
+    async getBlockNumber() { return this.head; }
+    async getBlock(blockNumber: number) { return blockNumber <= this.head ? { number: blockNumber, hash: this.blockHash(blockNumber) } : null; }
+
+    async estimateGas() {
+        if (this.estimateError) throw this.estimateError;
+        return BigInt(100000);
+    }
+
+    async broadcastTransaction(signed: string) {
+        const error = this.broadcastErrors.shift();
+        if (error) throw error;
+        const transaction = Transaction.from(signed);
+        this.sent.push(transaction);
+        this.pendingNonce = Math.max(this.pendingNonce, transaction.nonce + 1);
+        if (this.autoMine) this.mineTransaction(transaction.hash!);
+        return { hash: transaction.hash };
+    }
+
+    async getLogs(filter: { address: string; fromBlock: number; toBlock: number; topics: string[][] }) {
+        return this.logs.filter(log => log.address.toLowerCase() === filter.address.toLowerCase() && log.blockNumber >= filter.fromBlock
+            && log.blockNumber <= filter.toBlock && filter.topics[0].includes(log.topics[0]));
+    }
+
+    // Answers the license contract's read calls from its state.
+    async call(transaction: { data: string }) {
+        const call = licenseInterface.parseTransaction({ data: transaction.data })!;
+        const tokenId = Number(call.args[0]);
+        switch (call.name) {
+            case 'ownerOf':
+                if (!this.owners.has(tokenId)) throw Object.assign(new Error('execution reverted'), { data: `0x7e273289${tokenId.toString(16).padStart(64, '0')}` });
+                return licenseInterface.encodeFunctionResult('ownerOf', [this.owners.get(tokenId)]);
+            case 'isLicenseBlocked':
+                return licenseInterface.encodeFunctionResult('isLicenseBlocked', [this.blocked.has(tokenId)]);
+            case 'tokenURI':
+                return licenseInterface.encodeFunctionResult('tokenURI', [this.tokenURIs.get(tokenId) ?? '']);
+            default:
+                throw new Error(`Unexpected call to ${call.name}`);
+        }
+    }
+
+    // Mines a block that includes a transaction sent earlier, which succeeded unless the status is 0.
+    mineTransaction(hash: string, status = 1) {
+        const blockNumber = ++this.head;
+        this.receipts.set(hash, { hash, status, blockNumber, confirmations: async () => this.head - blockNumber + 1 });
+    }
+
+    // Mines a block with the given license contract events and applies them to the contract's state.
+    mineEvents(...events: LicenseEvent[]) {
+        this.head++;
+        events.forEach((event, index) => {
+            const [name, ...values] = event;
+            const { topics, data } = licenseInterface.encodeEventLog(name, values);
+            this.logs.push({
+                address: this.chain.contractAddress, topics, data, index,
+                blockNumber: this.head, blockHash: this.blockHash(this.head),
+                transactionHash: id(`transaction ${this.head} ${index} fork ${this.fork}`),
+            });
+            if (event[0] === 'Transfer') {
+                const [, , to, tokenId] = event;
+                if (to === ZeroAddress) this.owners.delete(tokenId); else this.owners.set(tokenId, to);
+            } else {
+                const [, tokenId, isBlocked] = event;
+                if (isBlocked) this.blocked.add(tokenId); else this.blocked.delete(tokenId);
+            }
+        });
+    }
+
+    // Drops every block after the given one, as a reorganization would; the chain then grows from there.
+    reorganizeAfter(blockNumber: number, state: { owners: Map<number, string>; blocked: Set<number> }) {
+        this.fork++;
+        this.forkedAfter = blockNumber;
+        this.head = blockNumber;
+        this.logs = this.logs.filter(log => log.blockNumber <= blockNumber);
+        this.owners = state.owners;
+        this.blocked = state.blocked;
+    }
+}
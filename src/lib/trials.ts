@@ -0,0 +1,91 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+
+/**
+ * Trial claims. Each product grants at most one trial per wallet and one per
+ * device, whichever is hit first, and each trial can be converted into a paid
+ * license once, with a payment that was not used for anything else.
+ */
+
+let indexesReady: Promise<void> | null = null;
+
+async function getTrialClaimsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('trialClaims');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ softwareId: 1, walletAddress: 1 }, { unique: true }),
+            collection.createIndex({ softwareId: 1, deviceId: 1 }, { unique: true }),
+            collection.createIndex({ licenseId: 1 }),
+            collection.createIndex(
+                { conversionTransactionHash: 1 },
+                { unique: true, partialFilterExpression: { conversionTransactionHash: { $exists: true } } }
+            ),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Checks whether a wallet or a device already used the trial of a product.
+ */
+export async function hasClaimedTrial(softwareId: ObjectId, walletAddress: string, deviceId: string): Promise<boolean> {
+    const claims = await getTrialClaimsCollection();
+    const existing = await claims.findOne({ softwareId, $or: [{ walletAddress }, { deviceId }] });
+    return !!existing;
+}
+
+/**
+ * Records that a wallet and device started the trial of a product.
+ * @param softwareId The product.
+ * @param walletAddress The verified wallet starting the trial.
+ * @param deviceId The device the trial is bound to.
+ * @param licenseId The ID the trial license is stored under.
+ * @throws If the wallet or the device already had a trial of this product.
+ */
+export async function claimTrial(softwareId: ObjectId, walletAddress: string, deviceId: string, licenseId: ObjectId): Promise<void> {
+    const claims = await getTrialClaimsCollection();
+    try {
+        await claims.insertOne({ softwareId, walletAddress, deviceId, licenseId, claimedAt: new Date() });
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new AuthError('TRIAL_USED', "This wallet or device has already used its trial of this software.", 409);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Gives back a trial claim whose license could not be minted, so the trial can be started again.
+ * @param licenseId The ID the trial license would have been stored under.
+ */
+export async function releaseTrialClaim(licenseId: ObjectId): Promise<void> {
+    const claims = await getTrialClaimsCollection();
+    await claims.deleteOne({ licenseId });
+}
+
+/**
+ * Records the payment that converted a trial license into a paid one.
+ * @param licenseId The trial license.
+ * @param transactionHash The payment transaction.
+ * @throws If the trial was already converted or the transaction was already used.
+ */
+export async function recordTrialConversion(licenseId: ObjectId, transactionHash: string): Promise<void> {
+    const claims = await getTrialClaimsCollection();
+    try {
+        const result = await claims.updateOne(
+            { licenseId, conversionTransactionHash: { $exists: false } },
+            { $set: { conversionTransactionHash: transactionHash.toLowerCase(), convertedAt: new Date() } }
+        );
+        if (result.matchedCount === 0) {
+            throw new AuthError('TRIAL_CONVERTED', "This trial has already been converted.", 409);
+        }
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new AuthError('TRANSACTION_USED', "This transaction has already been used to convert a trial.", 409);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * EIP-712 typed-data definitions shared by the browser (which asks MetaMask to
+ * sign them) and the server (which recovers the signer with verifyTypedData).
+ */
+
+// The domain deliberately has no chainId so the wallet can sign from any network.
+export const SOFTWARE_SHOP_DOMAIN = {
+    name: 'Software Shop',
+    version: '1',
+};
+
+/**
+ * Signed by the license owner to prove wallet ownership before a decryption key is released.
+ * The device's delivery public key is signed too, so the key cannot be redirected to another device.
+ */
+export const KEY_REQUEST_TYPES = {
+    KeyRequest: [
+        { name: 'licenseId', type: 'string' },
+        { name: 'deviceId', type: 'string' },
+        { name: 'deliveryPublicKey', type: 'string' },
+        { name: 'nonce', type: 'string' },
+    ],
+};
+
+export interface KeyRequest {
+    licenseId: string;
+    deviceId: string;
+    deliveryPublicKey: string;
+    nonce: string;
+}
+
+/**
+ * The license contract's own domain, under which the platform signs mint vouchers.
+ * Unlike the app's domain it is bound to the chain and the contract that redeems them.
+ */
+export function mintVoucherDomain(chainId: bigint | number, verifyingContract: string) {
+    return {
+        name: 'SoftwareLicense',
+        version: '1',
+        chainId,
+        verifyingContract,
+    };
+}
+
+/**
+ * Signed by the platform to allow a buyer to mint one license; redeemed with the contract's redeemMintVoucher.
+ */
+export const MINT_VOUCHER_TYPES = {
+    MintVoucher: [
+        { name: 'buyer', type: 'address' },
+        { name: 'productId', type: 'bytes32' },
+        { name: 'price', type: 'uint256' },
+        { name: 'paymentToken', type: 'address' },
+        { name: 'seats', type: 'uint256' },
+        { name: 'tokenURI', type: 'string' },
+        { name: 'ipAddress', type: 'string' },
+        { name: 'expiry', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+    ],
+};
+
+// Amounts, times and the nonce are decimal strings, so a voucher survives JSON on its way to the browser.
+export interface MintVoucher {
+    buyer: string;
+    productId: string;
+    price: string;
+    paymentToken: string; // The zero address for the native currency
+    seats: string;
+    tokenURI: string;
+    ipAddress: string;
+    expiry: string;
+    nonce: string;
+}
+
+/**
+ * An ERC-20 token's own domain, under which buyers sign EIP-2612 permits for token payments.
+ * The name is the token's name() and the version its configured permit version.
+ */
+export function tokenPermitDomain(name: string, version: string, chainId: bigint | number, verifyingContract: string) {
+    return {
+        name,
+        version,
+        chainId,
+        verifyingContract,
+    };
+}
+
+/**
+ * Signed by the buyer to let the license contract draw a token payment; passed to purchaseLicenseWithPermit.
+ */
+export const TOKEN_PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+};
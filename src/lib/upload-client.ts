@@ -0,0 +1,48 @@
+/**
+ * Browser side of the two-step upload: the raw file is streamed to
+ * /api/upload/file, which encrypts and stores it and answers with an upload ID
+ * that a listing or a release then claims.
+ */
+
+/**
+ * Generates a random 256-bit content key as a hex string.
+ */
+export function generateSecureKey(): string {
+    const array = new Uint8Array(32);
+    crypto.getRandomValues(array);
+    return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Streams the raw file to the server, which encrypts it on the fly. XMLHttpRequest is
+ * used instead of fetch because only it reports how many bytes have actually been sent.
+ * @param file The file to upload.
+ * @param decryptionKey The content key the server encrypts the file with.
+ * @param onProgress Called with the number of bytes sent so far.
+ * @returns The server's answer, with the upload ID on success.
+ */
+export function uploadFile(file: File, decryptionKey: string, onProgress: (sentBytes: number) => void): Promise<{ success: boolean; message: string; uploadId?: string; }> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', '/api/upload/file');
+        xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+        xhr.setRequestHeader('X-File-Name', encodeURIComponent(file.name));
+        xhr.setRequestHeader('X-Decryption-Key', decryptionKey);
+        xhr.upload.onprogress = (event) => onProgress(event.loaded);
+        xhr.onload = () => {
+            try {
+                resolve(JSON.parse(xhr.responseText));
+            } catch (error) {
+                reject(new Error(`Unexpected response from the server. Status: ${xhr.status}`));
+            }
+        };
+        xhr.onerror = () => reject(new Error('The file upload failed. Check your network connection.'));
+        xhr.send(file);
+    });
+}
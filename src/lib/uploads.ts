@@ -0,0 +1,88 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { getKms } from './kms';
+
+// The listing form has to be submitted within an hour of the file finishing its upload.
+const PENDING_UPLOAD_TTL_MS = 60 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getPendingUploadsCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('pendingUploads');
+    if (!indexesReady) {
+        indexesReady = collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+function uploadKeyContext(uploadId: ObjectId): string {
+    return `upload:${uploadId.toHexString()}`;
+}
+
+export interface StoredFile {
+    fileUrl: string;
+    // The storage backend's key for the file, used to remove it later.
+    fileKey: string;
+    fileName: string;
+    mimeType: string;
+    fileSize: number;
+    decryptionKey: string;
+}
+
+/**
+ * Records an encrypted file that has been stored but not yet attached to a software listing.
+ * @param sellerId The seller who uploaded the file.
+ * @param file Where the encrypted file lives, what it was originally called and its content key.
+ * @returns The ID the listing step uses to claim the file.
+ */
+export async function recordPendingUpload(sellerId: ObjectId, file: StoredFile): Promise<string> {
+    const uploads = await getPendingUploadsCollection();
+    const now = new Date();
+    const uploadId = new ObjectId();
+    const { decryptionKey, ...details } = file;
+
+    // The content key is only ever stored wrapped, even for the short life of a pending upload.
+    await uploads.insertOne({
+        _id: uploadId,
+        sellerId,
+        ...details,
+        contentKey: await getKms().wrapKey(decryptionKey, uploadKeyContext(uploadId)),
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + PENDING_UPLOAD_TTL_MS),
+    });
+
+    return uploadId.toHexString();
+}
+
+/**
+ * Claims a pending upload so it can be attached to exactly one software listing.
+ * @param uploadId The ID returned when the file was stored.
+ * @param sellerId The seller submitting the listing; only the uploader can claim the file.
+ * @returns The stored file details, or null if the upload is unknown, expired or belongs to someone else.
+ */
+export async function claimPendingUpload(uploadId: string, sellerId: ObjectId): Promise<StoredFile | null> {
+    if (!ObjectId.isValid(uploadId)) {
+        return null;
+    }
+
+    const uploads = await getPendingUploadsCollection();
+    const upload = await uploads.findOneAndDelete({
+        _id: new ObjectId(uploadId),
+        sellerId,
+        expiresAt: { $gt: new Date() },
+    });
+    if (!upload) {
+        return null;
+    }
+
+    return {
+        fileUrl: upload.fileUrl,
+        fileKey: upload.fileKey,
+        fileName: upload.fileName,
+        mimeType: upload.mimeType,
+        fileSize: upload.fileSize,
+        decryptionKey: await getKms().unwrapKey(upload.contentKey, uploadKeyContext(upload._id)),
+    };
+}
@@ -0,0 +1,64 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { AuthError } from './errors';
+
+/**
+ * Payments made straight to a seller's wallet, for subscription renewals and trial
+ * upgrades, are only checked on the chain, so nothing there stops one transaction
+ * from being reported twice. Every such payment is claimed in `usedPayments`,
+ * unique by transaction hash, before it is credited, so it pays for one thing
+ * only, whatever the flow. Payments used before this collection existed are
+ * copied in from the renewals and trial claims when it is first opened.
+ */
+
+export type PaymentUse = 'renewal' | 'trial-conversion';
+
+let indexesReady: Promise<void> | null = null;
+
+async function getUsedPaymentsCollection() {
+    const client = await clientPromise;
+    const db = client.db();
+    const collection = db.collection('usedPayments');
+    if (!indexesReady) {
+        indexesReady = collection.createIndex({ transactionHash: 1 }, { unique: true })
+            .then(() => db.collection('licenseRenewals').aggregate([
+                { $project: { _id: 0, transactionHash: 1, use: { $literal: 'renewal' }, licenseId: 1, usedAt: '$renewedAt' } },
+                { $merge: { into: 'usedPayments', on: 'transactionHash', whenMatched: 'keepExisting', whenNotMatched: 'insert' } },
+            ]).toArray())
+            .then(() => db.collection('trialClaims').aggregate([
+                { $match: { conversionTransactionHash: { $exists: true } } },
+                { $project: { _id: 0, transactionHash: '$conversionTransactionHash', use: { $literal: 'trial-conversion' }, licenseId: 1, usedAt: '$convertedAt' } },
+                { $merge: { into: 'usedPayments', on: 'transactionHash', whenMatched: 'keepExisting', whenNotMatched: 'insert' } },
+            ]).toArray())
+            .then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+/**
+ * Claims a verified payment for one use.
+ * @param transactionHash The payment transaction.
+ * @param use What the payment pays for, and for which license on which chain.
+ * @throws If the transaction was already used to pay for anything.
+ */
+export async function claimPayment(transactionHash: string, use: { use: PaymentUse; licenseId: ObjectId; chainId: number }): Promise<void> {
+    const payments = await getUsedPaymentsCollection();
+    try {
+        await payments.insertOne({ transactionHash: transactionHash.toLowerCase(), ...use, usedAt: new Date() });
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new AuthError('TRANSACTION_USED', "This transaction has already been used to pay for a license.", 409);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Gives back a claimed payment whose use could not be recorded, so the buyer can submit it again.
+ * @param transactionHash The payment transaction.
+ */
+export async function releasePayment(transactionHash: string): Promise<void> {
+    const payments = await getUsedPaymentsCollection();
+    await payments.deleteOne({ transactionHash: transactionHash.toLowerCase() });
+}
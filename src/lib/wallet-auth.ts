@@ -0,0 +1,174 @@
+import { randomBytes } from 'crypto';
+import { getAddress, verifyMessage, verifyTypedData } from 'ethers';
+import clientPromise from './mongodb';
+import { parseSiweMessage } from './siwe';
+import { attachWalletToSession } from './session';
+import { KEY_REQUEST_TYPES, KeyRequest, SOFTWARE_SHOP_DOMAIN } from './typed-data';
+
+// A nonce has to be signed and redeemed within ten minutes of being issued.
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Key challenges are answered straight away by the run page, so they live much shorter.
+const KEY_CHALLENGE_TTL_MS = 2 * 60 * 1000;
+
+let indexesReady: Promise<void> | null = null;
+let keyChallengeIndexesReady: Promise<void> | null = null;
+
+async function getNoncesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('siweNonces');
+    if (!indexesReady) {
+        indexesReady = Promise.all([
+            collection.createIndex({ nonce: 1 }, { unique: true }),
+            collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+        ]).then(() => undefined);
+    }
+    await indexesReady;
+    return collection;
+}
+
+async function getKeyChallengesCollection() {
+    const client = await clientPromise;
+    const collection = client.db().collection('keyChallenges');
+    if (!keyChallengeIndexesReady) {
+        keyChallengeIndexesReady = Promise.all([
+            collection.createIndex({ nonce: 1 }, { unique: true }),
+            collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+        ]).then(() => undefined);
+    }
+    await keyChallengeIndexesReady;
+    return collection;
+}
+
+/**
+ * Issues a single-use nonce for a Sign-In With Ethereum message.
+ * @returns The nonce to embed in the message.
+ */
+export async function issueSiweNonce(): Promise<string> {
+    const nonces = await getNoncesCollection();
+    const nonce = randomBytes(16).toString('hex');
+    const now = new Date();
+
+    await nonces.insertOne({
+        nonce,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + NONCE_TTL_MS),
+        usedAt: null,
+    });
+
+    return nonce;
+}
+
+/**
+ * Verifies a signed SIWE message and binds the proven wallet to the caller's session.
+ * If a seller account is registered with the same wallet and nobody is signed in yet,
+ * the new session also signs that seller in.
+ * @param messageText The EIP-4361 message that was signed.
+ * @param signature The personal_sign signature over the message.
+ * @param expectedDomain The host the request was made to; the message must name the same domain.
+ * @returns An object indicating success or failure, with the verified address on success.
+ */
+export async function verifySiweSignIn(messageText: string, signature: string, expectedDomain: string): Promise<{ success: boolean; message: string; walletAddress?: string; username?: string; }> {
+    const message = parseSiweMessage(messageText);
+    if (!message) {
+        return { success: false, message: 'The sign-in message is malformed.' };
+    }
+
+    if (message.domain !== expectedDomain) {
+        return { success: false, message: 'The sign-in message was issued for a different domain.' };
+    }
+
+    const now = new Date();
+    if (message.expirationTime && now > new Date(message.expirationTime)) {
+        return { success: false, message: 'The sign-in message has expired. Please try again.' };
+    }
+
+    let recoveredAddress: string;
+    try {
+        recoveredAddress = verifyMessage(messageText, signature);
+    } catch (error) {
+        return { success: false, message: 'The signature could not be verified.' };
+    }
+
+    if (recoveredAddress !== getAddress(message.address)) {
+        return { success: false, message: 'The signature does not match the wallet in the message.' };
+    }
+
+    // Redeem the nonce atomically so the same signed message cannot be replayed.
+    const nonces = await getNoncesCollection();
+    const redeemed = await nonces.findOneAndUpdate(
+        { nonce: message.nonce, usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now, walletAddress: recoveredAddress.toLowerCase() } }
+    );
+    if (!redeemed) {
+        return { success: false, message: 'The sign-in nonce is invalid or has already been used.' };
+    }
+
+    const client = await clientPromise;
+    const db = client.db();
+    const seller = await db.collection('users').findOne(
+        { walletAddress: { $regex: `^${recoveredAddress}$`, $options: 'i' } },
+        { projection: { username: 1 } }
+    );
+
+    const username = await attachWalletToSession(recoveredAddress, seller ? { _id: seller._id, username: seller.username } : undefined);
+
+    return {
+        success: true,
+        message: 'Wallet verified successfully.',
+        walletAddress: recoveredAddress.toLowerCase(),
+        username,
+    };
+}
+
+/**
+ * Issues a short-lived challenge that the license owner must sign before a decryption key is released.
+ * The challenge is bound to one license and one device.
+ * @param licenseId The ID of the license the key is requested for.
+ * @param deviceId The device the key is requested from.
+ * @returns The nonce to sign and when it expires.
+ */
+export async function issueKeyChallenge(licenseId: string, deviceId: string): Promise<{ nonce: string; expiresAt: Date }> {
+    const challenges = await getKeyChallengesCollection();
+    const nonce = randomBytes(16).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + KEY_CHALLENGE_TTL_MS);
+
+    await challenges.insertOne({
+        nonce,
+        licenseId,
+        deviceId,
+        createdAt: now,
+        expiresAt,
+        usedAt: null,
+    });
+
+    return { nonce, expiresAt };
+}
+
+/**
+ * Verifies an EIP-712 KeyRequest signature and redeems its challenge so it cannot be replayed.
+ * @param request The signed license ID, device ID, device delivery public key and nonce.
+ * @param signature The eth_signTypedData_v4 signature over the request.
+ * @returns An object indicating success or failure, with the signer's address on success.
+ */
+export async function redeemKeyChallenge(request: KeyRequest, signature: string): Promise<{ success: boolean; message: string; walletAddress?: string; }> {
+    let signerAddress: string;
+    try {
+        signerAddress = verifyTypedData(SOFTWARE_SHOP_DOMAIN, KEY_REQUEST_TYPES, request, signature);
+    } catch (error) {
+        return { success: false, message: 'The key request signature could not be verified.' };
+    }
+
+    const now = new Date();
+    const challenges = await getKeyChallengesCollection();
+    const redeemed = await challenges.findOneAndUpdate(
+        { nonce: request.nonce, licenseId: request.licenseId, deviceId: request.deviceId, usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now, walletAddress: signerAddress.toLowerCase() } }
+    );
+    if (!redeemed) {
+        return { success: false, message: 'The key request challenge is invalid, expired or has already been used.' };
+    }
+
+    return { success: true, message: 'Key request signature verified.', walletAddress: signerAddress.toLowerCase() };
+}
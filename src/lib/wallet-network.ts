@@ -0,0 +1,41 @@
+import { BrowserProvider, toQuantity } from 'ethers';
+import type { ChainConfig } from './chains';
+
+/**
+ * Asks MetaMask to switch to a chain if needed, adding it from the registry if MetaMask
+ * does not know it yet (e.g. a local development chain).
+ * @returns An error message if the wallet is not on the chain afterwards, otherwise null.
+ */
+export async function ensureNetwork(provider: BrowserProvider, chain: ChainConfig): Promise<string | null> {
+    const network = await provider.getNetwork();
+    if (network.chainId === BigInt(chain.chainId)) {
+        return null;
+    }
+    const chainIdHex = toQuantity(chain.chainId);
+    try {
+        await window.ethereum.request({
+            method: 'wallet_switchEthereumChain',
+            params: [{ chainId: chainIdHex }],
+        });
+        return null;
+    } catch (switchError: any) {
+        if (switchError.code !== 4902) {
+            return `Could not switch to ${chain.name}. Please do it manually.`;
+        }
+    }
+    try {
+        await window.ethereum.request({
+            method: 'wallet_addEthereumChain',
+            params: [{
+                chainId: chainIdHex,
+                chainName: chain.name,
+                rpcUrls: [chain.rpcUrl],
+                nativeCurrency: chain.nativeCurrency,
+                ...(chain.explorerUrl ? { blockExplorerUrls: [chain.explorerUrl] } : {}),
+            }],
+        });
+        return null;
+    } catch (addError) {
+        return `Please add ${chain.name} to MetaMask.`;
+    }
+}
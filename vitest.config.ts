@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': path.resolve(__dirname, 'src') },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/*.test.ts'],
+        // Integration tests wait on real nodes and storage.
+        testTimeout: 60000,
+    },
+});